@@ -1,29 +1,89 @@
-import React from 'react';
+import React, { useEffect } from 'react';
+import { AppState } from 'react-native';
 import 'react-native-gesture-handler';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { PaperProvider } from 'react-native-paper';
 import { ThemeProvider } from './src/contexts/theme/ThemeContext';
 import { TranslationProvider } from './src/contexts/translation/TranslationContext';
-import RootNavigator from './src/navigation/RootNavigator';
+import { AuthProvider } from './src/contexts/auth/AuthContext';
+import { AppLockProvider } from './src/contexts/lock/AppLockContext';
+import { FallDetectionProvider } from './src/contexts/fall/FallDetectionContext';
+import { HealthSourcesProvider } from './src/contexts/health/HealthSourcesContext';
+import { WearableProvider } from './src/contexts/wearable/WearableContext';
+import { PhoneActivityProvider } from './src/contexts/activity/PhoneActivityContext';
+import RootNavigator, { RootStackParamList } from './src/navigation/RootNavigator';
+import { setSyncRemote, syncNow } from './src/services/SyncService';
+import { setLinkBackend } from './src/services/LinkRequestService';
+import { restoreWearableSync } from './src/services/wearables/BackgroundSync';
+
+// Email sign-in links open the app on the screen that finishes signing in
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/')],
+  config: {
+    screens: {
+      EmailLinkSignIn: 'email-link',
+    },
+  },
+};
 
 // Main App component
 export default function App() {
+  useEffect(() => {
+    // Without a Firebase project, synced writes stay queued on the device
+    // and link requests never leave it
+    if (process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID) {
+      import('./src/services/FirestoreLinkBackend')
+        .then(({ createFirestoreLinkBackend }) => {
+          setLinkBackend(createFirestoreLinkBackend());
+        })
+        .catch(error => console.error('Error loading the Firestore link backend:', error));
+      import('./src/services/FirestoreSyncRemote')
+        .then(({ createFirestoreSyncRemote }) => {
+          setSyncRemote(createFirestoreSyncRemote());
+          syncNow().catch(() => {});
+        })
+        .catch(error => console.error('Error loading the Firestore sync remote:', error));
+    }
+
+    restoreWearableSync().catch(() => {});
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        syncNow().catch(() => {});
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
-        <TranslationProvider>
-          <ThemeProvider>
-            <PaperProvider>
-              <NavigationContainer>
-                <RootNavigator />
-                <StatusBar style="auto" />
-              </NavigationContainer>
-            </PaperProvider>
-          </ThemeProvider>
-        </TranslationProvider>
+        <AuthProvider>
+          <TranslationProvider>
+            <ThemeProvider>
+              <FallDetectionProvider>
+                <HealthSourcesProvider>
+                  <WearableProvider>
+                    <PhoneActivityProvider>
+                      <AppLockProvider>
+                        <PaperProvider>
+                          <NavigationContainer linking={linking}>
+                            <RootNavigator />
+                            <StatusBar style="auto" />
+                          </NavigationContainer>
+                        </PaperProvider>
+                      </AppLockProvider>
+                    </PhoneActivityProvider>
+                  </WearableProvider>
+                </HealthSourcesProvider>
+              </FallDetectionProvider>
+            </ThemeProvider>
+          </TranslationProvider>
+        </AuthProvider>
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
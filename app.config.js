@@ -7,6 +7,8 @@ module.exports = {
     orientation: 'portrait',
     icon: './assets/icon.png',
     userInterfaceStyle: 'light',
+    // Deep links such as the email sign-in link open caretrek://...
+    scheme: 'caretrek',
     android: {
       package: 'com.humeshdeshmukh.caretrek',
       adaptiveIcon: {
@@ -36,6 +38,42 @@ module.exports = {
         {
           "disableAutoInit": true
         }
+      ],
+      [
+        'expo-camera',
+        {
+          cameraPermission: 'Allow CareTrek to use your camera to scan a QR code.',
+          recordAudioAndroid: false
+        }
+      ],
+      // Lets the paired wearable sync while the app is closed
+      'expo-background-fetch',
+      [
+        'react-native-ble-plx',
+        {
+          isBackgroundEnabled: true,
+          modes: ['central'],
+          bluetoothAlwaysPermission: 'Allow CareTrek to connect to your watch and health devices.'
+        }
+      ],
+      [
+        'expo-local-authentication',
+        {
+          faceIDPermission: 'Allow CareTrek to use Face ID to unlock the app.'
+        }
+      ],
+      [
+        'expo-sensors',
+        {
+          motionPermission: 'Allow CareTrek to count your steps when no watch is connected.'
+        }
+      ],
+      [
+        'expo-speech-recognition',
+        {
+          microphonePermission: 'Allow CareTrek to hear readings you say out loud.',
+          speechRecognitionPermission: 'Allow CareTrek to turn readings you say out loud into numbers.'
+        }
       ]
     ],
     extra: {
@@ -43,6 +81,14 @@ module.exports = {
       // In production, use EAS secrets or a similar service
       // DO NOT commit your actual API key to version control
       GOOGLE_TRANSLATE_API_KEY: process.env.GOOGLE_TRANSLATE_API_KEY || '',
+      // 'firebase' or 'mock'; defaults to Firebase once it has been configured
+      AUTH_BACKEND:
+        process.env.AUTH_BACKEND || (process.env.EXPO_PUBLIC_FIREBASE_API_KEY ? 'firebase' : 'mock'),
+      // https page on an authorised Firebase domain that forwards email sign-in links to the app;
+      // left empty the app's own caretrek:// link is used, which is enough for the Auth emulator
+      EMAIL_LINK_URL: process.env.EMAIL_LINK_URL || '',
+      // Replace Bluetooth with simulated devices: 'normal', 'arrhythmia', 'lowBattery', 'badPackets', 'disconnects' or 'fall'
+      BLE_SIMULATOR: process.env.BLE_SIMULATOR || '',
       eas: {
         projectId: 'a9d5cfd0-23cb-447a-a5dd-bc71a6711fd6'
       }
@@ -0,0 +1,14 @@
+// Native modules the services reach for, swapped for in-memory versions under Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-crypto', () => {
+  const crypto = require('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    getRandomBytes: count => new Uint8Array(crypto.randomBytes(count)),
+    digest: async (algorithm, data) => new Uint8Array(crypto.createHash('sha256').update(data).digest()).buffer,
+    digestStringAsync: async (algorithm, data) => crypto.createHash('sha256').update(data).digest('hex'),
+  };
+});
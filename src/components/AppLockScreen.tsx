@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../contexts/theme/ThemeContext';
+import PinPad from './PinPad';
+import {
+  PIN_LENGTH,
+  authenticateWithBiometrics,
+  getPinLockout,
+  resetPinWithRecoveryCode,
+  verifyPin,
+} from '../services/AppLockService';
+import { PIN_RECOVERY_CODE_LENGTH, checkPinRecovery, requestPinRecovery } from '../services/LinkRequestService';
+import { FamilyMember, getFamilyMembers, getOrCreateSeniorId, getSeniorDisplayName } from '../utils/idManager';
+import { AppLockSettings } from '../types/appLock';
+
+interface AppLockScreenProps {
+  settings: AppLockSettings;
+  onUnlock: () => void;
+}
+
+type Step = 'pin' | 'chooseHelper' | 'enterCode' | 'newPin' | 'confirmPin';
+
+const minutesLeft = (until: number) => Math.max(Math.ceil((until - Date.now()) / 60000), 1);
+
+const AppLockScreen = ({ settings, onUnlock }: AppLockScreenProps) => {
+  const { colors } = useTheme();
+  const [step, setStep] = useState<Step>('pin');
+  const [error, setError] = useState<string | null>(null);
+  const [resetKey, setResetKey] = useState(0);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [helpers, setHelpers] = useState<FamilyMember[]>([]);
+  const [recovery, setRecovery] = useState<{ id: string; helperName: string; code?: string } | null>(null);
+  const [newPin, setNewPin] = useState('');
+
+  const showError = (message: string | null) => {
+    setError(message);
+    setResetKey(key => key + 1);
+  };
+
+  const tryBiometrics = async () => {
+    if (await authenticateWithBiometrics()) {
+      onUnlock();
+    }
+  };
+
+  useEffect(() => {
+    getPinLockout().then(setLockedUntil);
+    if (settings.biometricEnabled) {
+      tryBiometrics();
+    }
+  }, []);
+
+  // Re-enable the pad once a lockout runs out
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setTimeout(() => setLockedUntil(null), Math.max(lockedUntil - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
+  const handlePin = async (pin: string) => {
+    setIsChecking(true);
+    try {
+      const result = await verifyPin(pin);
+      if (result.success) {
+        onUnlock();
+        return;
+      }
+      setLockedUntil(result.lockedUntil);
+      showError(
+        result.lockedUntil
+          ? `Too many wrong PINs. Try again in ${minutesLeft(result.lockedUntil)} minutes.`
+          : `Wrong PIN. ${result.attemptsRemaining} ${result.attemptsRemaining === 1 ? 'try' : 'tries'} left.`
+      );
+    } catch (err) {
+      console.error('Error checking PIN:', err);
+      showError('Could not check your PIN. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleForgotPin = async () => {
+    // Only members who linked through the app can receive a request
+    const members = await getFamilyMembers();
+    setHelpers(members.filter(m => m.requesterId));
+    setError(null);
+    setStep('chooseHelper');
+  };
+
+  const handleChooseHelper = async (member: FamilyMember) => {
+    try {
+      const [seniorId, seniorName] = await Promise.all([getOrCreateSeniorId(), getSeniorDisplayName()]);
+      const request = await requestPinRecovery({
+        seniorId,
+        seniorName: seniorName || 'Your senior',
+        requesterId: member.requesterId!,
+      });
+      setRecovery({ id: request.id, helperName: member.name });
+      showError(null);
+      setStep('enterCode');
+    } catch (err) {
+      console.error('Error requesting PIN recovery:', err);
+      setError('Could not send the request. Please try again.');
+    }
+  };
+
+  const handleRecoveryCode = async (code: string) => {
+    if (!recovery) return;
+    setIsChecking(true);
+    try {
+      // The code is checked again when the new PIN is saved
+      if (await checkPinRecovery(recovery.id, code)) {
+        setRecovery({ ...recovery, code });
+        showError(null);
+        setStep('newPin');
+      } else {
+        showError('That code did not work. Check it with your family member.');
+      }
+    } catch (err) {
+      console.error('Error checking recovery code:', err);
+      showError('Could not check the code. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleNewPin = (pin: string) => {
+    setNewPin(pin);
+    showError(null);
+    setStep('confirmPin');
+  };
+
+  const handleConfirmPin = async (pin: string) => {
+    if (pin !== newPin) {
+      showError('The PINs did not match. Please start again.');
+      setStep('newPin');
+      return;
+    }
+    if (!recovery?.code) return;
+    setIsChecking(true);
+    try {
+      if (await resetPinWithRecoveryCode(recovery.id, recovery.code, pin)) {
+        onUnlock();
+      } else {
+        showError('That code no longer works. Please ask your family member for a new one.');
+        setStep('chooseHelper');
+      }
+    } catch (err) {
+      console.error('Error saving new PIN:', err);
+      showError('Could not save your new PIN. Please try again.');
+      setStep('newPin');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const renderBackLink = () => (
+    <TouchableOpacity style={styles.link} onPress={() => { setError(null); setStep('pin'); }}>
+      <Text style={[styles.linkText, { color: colors.primary }]}>Back to PIN</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'chooseHelper':
+        return (
+          <View style={styles.helperContainer}>
+            <Text style={[styles.title, { color: colors.text }]}>Forgot your PIN?</Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              {helpers.length > 0
+                ? 'Choose a family member to help you. They will get a request in their CareTrek app.'
+                : 'No family member is linked to this phone yet. Ask a family member to connect with you in CareTrek first.'}
+            </Text>
+            {helpers.map(member => (
+              <TouchableOpacity
+                key={member.id}
+                style={[styles.helperButton, { backgroundColor: colors.card, borderColor: colors.border }]}
+                onPress={() => handleChooseHelper(member)}
+              >
+                <Text style={[styles.helperName, { color: colors.text }]}>{member.name}</Text>
+              </TouchableOpacity>
+            ))}
+            {error ? <Text style={[styles.subtitle, { color: colors.error }]}>{error}</Text> : null}
+            {renderBackLink()}
+          </View>
+        );
+      case 'enterCode':
+        return (
+          <>
+            <PinPad
+              length={PIN_RECOVERY_CODE_LENGTH}
+              title="Enter Family Code"
+              subtitle={`Ask ${recovery?.helperName} to open CareTrek and approve your request. They will read you a ${PIN_RECOVERY_CODE_LENGTH}-digit code.`}
+              error={error}
+              disabled={isChecking}
+              onComplete={handleRecoveryCode}
+              resetKey={resetKey}
+            />
+            {renderBackLink()}
+          </>
+        );
+      case 'newPin':
+        return (
+          <PinPad
+            length={PIN_LENGTH}
+            title="Choose a New PIN"
+            subtitle={`Enter ${PIN_LENGTH} digits you will remember`}
+            error={error}
+            onComplete={handleNewPin}
+            resetKey={resetKey}
+          />
+        );
+      case 'confirmPin':
+        return (
+          <PinPad
+            length={PIN_LENGTH}
+            title="Confirm New PIN"
+            subtitle="Enter the same PIN again"
+            error={error}
+            disabled={isChecking}
+            onComplete={handleConfirmPin}
+            resetKey={resetKey}
+          />
+        );
+      default:
+        return (
+          <>
+            <PinPad
+              length={PIN_LENGTH}
+              title="Enter PIN"
+              subtitle="Unlock CareTrek"
+              error={lockedUntil ? `Too many wrong PINs. Try again in ${minutesLeft(lockedUntil)} minutes.` : error}
+              disabled={isChecking || !!lockedUntil}
+              onBiometric={settings.biometricEnabled ? tryBiometrics : undefined}
+              onComplete={handlePin}
+              resetKey={resetKey}
+            />
+            <TouchableOpacity style={styles.link} onPress={handleForgotPin}>
+              <Text style={[styles.linkText, { color: colors.primary }]}>Forgot PIN?</Text>
+            </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>{renderStep()}</ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  subtitle: {
+    fontSize: 18,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  helperContainer: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  helperButton: {
+    width: '100%',
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  helperName: {
+    fontSize: 22,
+    fontWeight: '600',
+  },
+  link: {
+    marginTop: 16,
+    padding: 12,
+  },
+  linkText: {
+    fontSize: 20,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+});
+
+export default AppLockScreen;
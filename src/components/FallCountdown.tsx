@@ -0,0 +1,110 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/theme/ThemeContext';
+
+export type FallAlertStatus = 'countdown' | 'sending' | 'sent' | 'failed';
+
+interface FallCountdownProps {
+  status: FallAlertStatus;
+  secondsLeft: number;
+  // "I'm OK": the fall is dismissed and nobody is told
+  onCancel: () => void;
+  // Alert the family without waiting for the countdown
+  onEscalate: () => void;
+  onClose: () => void;
+}
+
+const FallCountdown = ({ status, secondsLeft, onCancel, onEscalate, onClose }: FallCountdownProps) => {
+  const { colors } = useTheme();
+
+  if (status !== 'countdown') {
+    const message = {
+      sending: 'Alerting your family…',
+      sent: 'Your family has been alerted and told where you are. Help is on the way.',
+      failed: 'Your family could not be alerted. Call someone for help if you can.',
+    }[status];
+
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <MaterialIcons
+          name={status === 'sent' ? 'check-circle' : status === 'failed' ? 'error' : 'notifications-active'}
+          size={72}
+          color={status === 'failed' ? colors.error : colors.primary}
+        />
+        <Text style={[styles.message, { color: colors.text }]}>{message}</Text>
+        {status !== 'sending' ? (
+          <TouchableOpacity style={[styles.button, { backgroundColor: colors.primary }]} onPress={onClose}>
+            <Text style={styles.buttonText}>Close</Text>
+          </TouchableOpacity>
+        ) : null}
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <Text style={[styles.title, { color: colors.error }]}>Did you fall?</Text>
+      <Text style={[styles.message, { color: colors.text }]}>
+        Your family will be alerted with your location unless you tap I'm OK.
+      </Text>
+      <View style={[styles.countdown, { borderColor: colors.error }]}>
+        <Text style={[styles.seconds, { color: colors.error }]}>{secondsLeft}</Text>
+      </View>
+      <TouchableOpacity style={[styles.button, { backgroundColor: colors.success }]} onPress={onCancel}>
+        <Text style={styles.buttonText}>I'm OK</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={[styles.button, { backgroundColor: colors.error }]} onPress={onEscalate}>
+        <Text style={styles.buttonText}>Get Help Now</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 20,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  countdown: {
+    width: 160,
+    height: 160,
+    borderRadius: 80,
+    borderWidth: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  seconds: {
+    fontSize: 64,
+    fontWeight: 'bold',
+  },
+  button: {
+    width: '100%',
+    paddingVertical: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+});
+
+export default FallCountdown;
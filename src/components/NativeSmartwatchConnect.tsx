@@ -13,15 +13,62 @@ import {
 } from 'react-native';
 import { useTheme } from '../contexts/theme/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
-import { BleManager, Device, State } from 'react-native-ble-plx';
+import { State } from 'react-native-ble-plx';
+import { getDriver } from '../services/wearables';
+import { WatchData } from '../types/wearables';
+import { CentralDevice, getBleCentral } from '../services/wearables/BleCentral';
+import { WearableConnection, useWearables } from '../contexts/wearable/WearableContext';
 
-// Initialize Bluetooth Low Energy Manager
-const manager = new BleManager();
+// Bluetooth Low Energy manager, or the simulator when BLE_SIMULATOR is set
+const manager = getBleCentral();
+
+// Only the readings this device has actually sent
+const getReadings = (data: Partial<WatchData>) => {
+  const readings: Array<{ label: string; value: string; unit: string }> = [];
+  if (data.heartRate) readings.push({ label: 'Heart Rate', value: `${data.heartRate}`, unit: 'bpm' });
+  if (data.oxygenSaturation) readings.push({ label: 'Oxygen', value: `${data.oxygenSaturation}`, unit: '%' });
+  if (data.bloodPressure) {
+    readings.push({
+      label: 'Blood Pressure',
+      value: `${data.bloodPressure.systolic}/${data.bloodPressure.diastolic}`,
+      unit: 'mmHg',
+    });
+  }
+  if (data.temperature) readings.push({ label: 'Temperature', value: data.temperature.toFixed(1), unit: '°C' });
+  if (data.steps !== undefined) readings.push({ label: 'Steps', value: data.steps.toLocaleString(), unit: '' });
+  if (data.battery !== undefined) readings.push({ label: 'Battery', value: `${data.battery}`, unit: '%' });
+  return readings;
+};
+
+const QUALITY_COLORS: Record<WearableConnection['quality']['rating'], string> = {
+  good: '#4CAF50',
+  fair: '#FF9800',
+  poor: '#F44336',
+  unknown: '#9E9E9E',
+};
+
+// e.g. "Connected · -62 dBm · 1 drop today"
+const describeConnection = (connection: WearableConnection) => {
+  const parts: string[] = [];
+  if (connection.status === 'connected') parts.push('Connected');
+  else if (connection.status === 'connecting') parts.push('Connecting...');
+  else if (connection.nextRetryAt) {
+    const seconds = Math.max(1, Math.round((connection.nextRetryAt - Date.now()) / 1000));
+    parts.push(`Retrying in ${seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`}`);
+  } else parts.push('Not connected');
+
+  const rssi = connection.quality.averageRssi ?? connection.device.rssi;
+  if (rssi !== undefined) parts.push(`${rssi} dBm`);
+  const { drops, failures } = connection.quality;
+  if (drops) parts.push(`${drops} drop${drops === 1 ? '' : 's'} today`);
+  if (failures) parts.push(`${failures} failed attempt${failures === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+};
 
 interface NativeSmartwatchConnectProps {
   visible: boolean;
   onClose: () => void;
-  onDeviceConnected: (device: Device) => void;
+  onDeviceConnected: (device: CentralDevice) => void;
   onDataReceived: (data: any) => void;
 }
 
@@ -33,12 +80,25 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
 }) => {
   const { colors } = useTheme();
   const theme = colors;
-  const [devices, setDevices] = useState<Device[]>([]);
+  const [devices, setDevices] = useState<CentralDevice[]>([]);
   const [isScanning, setIsScanning] = useState(false);
-  const [connectedDevice, setConnectedDevice] = useState<Device | null>(null);
-  type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
-  const [deviceData, setDeviceData] = useState<any>(null);
+  const { connections, pairDevice, forgetDevice, reconnectNow } = useWearables();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPairing, setIsPairing] = useState(false);
+  const selected = connections.find(connection => connection.device.id === selectedId);
+
+  // Pass readings from the open device on to the screen that opened this modal
+  useEffect(() => {
+    if (selected?.status === 'connected') {
+      onDataReceived({
+        deviceId: selected.device.id,
+        deviceName: selected.device.name,
+        deviceType: selected.device.deviceType,
+        ...selected.data,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }, [selected?.data, selected?.status]);
 
   // Request Bluetooth permissions
   const requestPermissions = async () => {
@@ -78,7 +138,7 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
     manager.startDeviceScan(
       null,
       { allowDuplicates: false },
-      (error: any, device: Device | null) => {
+      (error: any, device: CentralDevice | null) => {
         if (error) {
           console.error(error);
           setIsScanning(false);
@@ -110,99 +170,68 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
     setIsScanning(false);
   };
 
-  // Connect to a device
-  const connectToDevice = async (device: Device) => {
+  // Pair with a scanned device; the provider connects and keeps it connected
+  const connectToDevice = async (device: CentralDevice) => {
     try {
-      setConnectionStatus('connecting');
-      
-      // Connect to the device
-      const deviceConnection = await device.connect();
-      
-      // Discover all services and characteristics
-      await deviceConnection.discoverAllServicesAndCharacteristics();
-      
-      setConnectedDevice(deviceConnection);
-      setConnectionStatus('connected');
-      onDeviceConnected(deviceConnection);
-      
-      // Simulate device data (replace with actual BLE communication)
-      simulateDeviceData(deviceConnection);
-      
+      setIsPairing(true);
+      stopScan();
+      await pairDevice(device);
+      setSelectedId(device.id);
+      onDeviceConnected(device);
     } catch (error) {
       console.error('Connection error:', error);
-      setConnectionStatus('error');
       Alert.alert('Connection Error', 'Failed to connect to the device');
+    } finally {
+      setIsPairing(false);
     }
   };
 
-  // Simulate device data (replace with actual BLE communication)
-  const simulateDeviceData = (device: Device) => {
-    const heartRate = Math.floor(Math.random() * 40) + 60;
-    const steps = Math.floor(Math.random() * 20000);
-    const battery = Math.floor(Math.random() * 80) + 20;
-    
-    const data = {
-      deviceId: device.id,
-      deviceName: device.name || 'Smart Watch',
-      heartRate,
-      steps,
-      battery,
-      timestamp: new Date().toISOString(),
-    };
-    
-    setDeviceData(data);
-    onDataReceived(data);
-    
-    // Update data every 5 seconds
-    const interval = setInterval(() => {
-      const updatedData = {
-        ...data,
-        heartRate: Math.max(60, Math.min(100, heartRate + (Math.floor(Math.random() * 10) - 5))),
-        steps: steps + Math.floor(Math.random() * 10),
-        battery: Math.max(20, battery - 1),
-        timestamp: new Date().toISOString(),
-      };
-      
-      setDeviceData(updatedData);
-      onDataReceived(updatedData);
-    }, 5000);
-    
-    // Cleanup interval on unmount
-    return () => clearInterval(interval);
-  };
-
-  // Disconnect from the current device
-  const disconnectDevice = async () => {
-    if (connectedDevice) {
-      try {
-        await connectedDevice.cancelConnection();
-      } catch (error) {
-        console.error('Error disconnecting:', error);
-      }
-    }
-    setConnectedDevice(null);
-    setConnectionStatus('disconnected');
-    setDeviceData(null);
+  // The senior chose to disconnect, so stop reconnecting and syncing it
+  const unpairDevice = async () => {
+    if (!selected) return;
+    const id = selected.device.id;
+    setSelectedId(null);
+    await forgetDevice(id);
   };
 
   // Clean up on unmount
   useEffect(() => {
     return () => {
-      if (isScanning) {
-        stopScan();
-      }
-      if (connectedDevice) {
-        disconnectDevice();
-      }
+      manager.stopDeviceScan();
     };
   }, []);
 
+  // A paired device, with how well its connection has held up
+  const renderPairedDevice = (connection: WearableConnection) => (
+    <TouchableOpacity
+      key={connection.device.id}
+      style={[styles.deviceItem, { backgroundColor: theme.card }]}
+      onPress={() => setSelectedId(connection.device.id)}
+      onLongPress={() => reconnectNow(connection.device.id)}
+    >
+      <Ionicons name="watch" size={24} color={theme.primary} style={styles.deviceIcon} />
+      <View style={styles.deviceInfo}>
+        <Text style={[styles.deviceName, { color: theme.text }]}>
+          {connection.device.name}
+        </Text>
+        <Text style={[styles.deviceId, { color: theme.textSecondary }]}>
+          {getDriver(connection.device.deviceType).name} · {describeConnection(connection)}
+        </Text>
+      </View>
+      {connection.status === 'connecting' ? (
+        <ActivityIndicator color={theme.primary} />
+      ) : (
+        <View style={[styles.qualityDot, { backgroundColor: QUALITY_COLORS[connection.quality.rating] }]} />
+      )}
+    </TouchableOpacity>
+  );
+
   // Render a single device item
-  const renderDeviceItem = ({ item }: { item: Device }) => (
+  const renderDeviceItem = ({ item }: { item: CentralDevice }) => (
     <TouchableOpacity
       style={[styles.deviceItem, { backgroundColor: theme.card }]}
       onPress={() => connectToDevice(item)}
-      disabled={connectionStatus === 'connecting'}
+      disabled={isPairing}
     >
       <Ionicons 
         name="watch" 
@@ -218,7 +247,7 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
           {item.id}
         </Text>
       </View>
-      {connectionStatus === 'connecting' ? (
+      {isPairing ? (
         <ActivityIndicator color={theme.primary} />
       ) : (
         <Ionicons 
@@ -243,13 +272,20 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
             <Ionicons name="arrow-back" size={24} color={theme.text} />
           </TouchableOpacity>
           <Text style={[styles.title, { color: theme.text }]}>
-            {connectedDevice ? 'Device Connected' : 'Connect Smartwatch'}
+            {selected ? selected.device.name : 'Connect Smartwatch'}
           </Text>
           <View style={styles.headerRight} />
         </View>
 
-        {!connectedDevice ? (
+        {!selected ? (
           <View style={styles.scanContainer}>
+            {connections.length > 0 && (
+              <View style={styles.pairedList}>
+                <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>Paired devices</Text>
+                {connections.map(renderPairedDevice)}
+              </View>
+            )}
+
             <Text style={[styles.instructions, { color: theme.text }]}>
               {isScanning 
                 ? 'Searching for nearby devices...' 
@@ -274,7 +310,7 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
             )}
 
             <FlatList
-              data={devices}
+              data={devices.filter(device => !connections.some(connection => connection.device.id === device.id))}
               renderItem={renderDeviceItem}
               keyExtractor={(item) => item.id}
               style={styles.deviceList}
@@ -291,65 +327,51 @@ const NativeSmartwatchConnect: React.FC<NativeSmartwatchConnectProps> = ({
         ) : (
           <View style={styles.connectedContainer}>
             <View style={styles.connectedDevice}>
-              <Ionicons 
-                name="checkmark-circle" 
-                size={64} 
-                color="#4CAF50" 
-                style={styles.connectedIcon} 
-              />
+              {selected.status === 'connected' ? (
+                <Ionicons 
+                  name="checkmark-circle" 
+                  size={64} 
+                  color="#4CAF50" 
+                  style={styles.connectedIcon} 
+                />
+              ) : (
+                <ActivityIndicator size="large" color={theme.primary} style={styles.connectedIcon} />
+              )}
               <Text style={[styles.connectedText, { color: theme.text }]}>
-                Connected to {connectedDevice?.name || 'Smart Watch'}
+                {selected.status === 'connected'
+                  ? `Connected to ${selected.device.name}`
+                  : `Reconnecting to ${selected.device.name}`}
+              </Text>
+              <Text style={[styles.deviceId, { color: theme.textSecondary }]}>
+                {describeConnection(selected)}
               </Text>
               
-              {deviceData && (
-                <View style={styles.deviceData}>
-                  <View style={styles.dataRow}>
-                    <View style={styles.dataItem}>
-                      <Text style={[styles.dataLabel, { color: theme.textSecondary }]}>
-                        Heart Rate
-                      </Text>
-                      <Text style={[styles.dataValue, { color: theme.primary }]}>
-                        {deviceData.heartRate} <Text style={styles.dataUnit}>bpm</Text>
-                      </Text>
-                    </View>
-                    <View style={styles.dataItem}>
-                      <Text style={[styles.dataLabel, { color: theme.textSecondary }]}>
-                        Steps
-                      </Text>
-                      <Text style={[styles.dataValue, { color: theme.primary }]}>
-                        {deviceData.steps.toLocaleString()}
-                      </Text>
-                    </View>
-                  </View>
-                  <View style={styles.dataRow}>
-                    <View style={styles.dataItem}>
+              {selected.status === 'connected' && (
+                <View style={[styles.deviceData, styles.dataRow]}>
+                  {getReadings(selected.data).map(reading => (
+                    <View key={reading.label} style={styles.dataItem}>
                       <Text style={[styles.dataLabel, { color: theme.textSecondary }]}>
-                        Battery
+                        {reading.label}
                       </Text>
                       <Text style={[styles.dataValue, { color: theme.primary }]}>
-                        {deviceData.battery}%
+                        {reading.value} <Text style={styles.dataUnit}>{reading.unit}</Text>
                       </Text>
                     </View>
-                    <View style={styles.dataItem}>
-                      <Text style={[styles.dataLabel, { color: theme.textSecondary }]}>
-                        Status
-                      </Text>
-                      <Text style={[styles.dataValue, { color: '#4CAF50' }]}>
-                        Connected
-                      </Text>
-                    </View>
-                  </View>
+                  ))}
                 </View>
               )}
               
               <TouchableOpacity 
                 style={[styles.disconnectButton, { borderColor: theme.primary }]}
-                onPress={disconnectDevice}
+                onPress={unpairDevice}
               >
                 <Text style={[styles.disconnectButtonText, { color: theme.primary }]}>
-                  Disconnect
+                  Forget Device
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity onPress={() => setSelectedId(null)}>
+                <Text style={[styles.deviceId, { color: theme.primary }]}>All devices</Text>
+              </TouchableOpacity>
             </View>
           </View>
         )}
@@ -445,6 +467,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.7,
   },
+  pairedList: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  qualityDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
   noDevicesText: {
     textAlign: 'center',
     marginTop: 24,
@@ -474,12 +510,13 @@ const styles = StyleSheet.create({
   },
   dataRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-between',
-    marginBottom: 24,
   },
   dataItem: {
-    flex: 1,
+    width: '50%',
     alignItems: 'center',
+    marginBottom: 24,
   },
   dataLabel: {
     fontSize: 14,
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../contexts/theme/ThemeContext';
+
+interface PinPadProps {
+  length: number;
+  title: string;
+  subtitle?: string;
+  error?: string | null;
+  disabled?: boolean;
+  // Shows a fingerprint/face key in the bottom-left corner
+  onBiometric?: () => void;
+  onComplete: (pin: string) => void;
+  // Change this to clear what has been typed, e.g. after a wrong PIN
+  resetKey?: number;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'biometric', '0', 'delete'];
+
+/**
+ * Large-key number pad for PINs and recovery codes, sized for seniors
+ */
+const PinPad = ({ length, title, subtitle, error, disabled, onBiometric, onComplete, resetKey }: PinPadProps) => {
+  const { colors } = useTheme();
+  const [digits, setDigits] = useState('');
+
+  useEffect(() => {
+    setDigits('');
+  }, [resetKey]);
+
+  const handlePress = (key: string) => {
+    if (disabled) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
+
+    if (key === 'delete') {
+      setDigits(current => current.slice(0, -1));
+      return;
+    }
+    if (key === 'biometric') {
+      onBiometric?.();
+      return;
+    }
+
+    const next = (digits + key).slice(0, length);
+    setDigits(next);
+    if (next.length === length) {
+      onComplete(next);
+    }
+  };
+
+  const renderKey = (key: string) => {
+    if (key === 'biometric' && !onBiometric) {
+      return <View key={key} style={styles.key} />;
+    }
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.key, key.length === 1 && { backgroundColor: colors.card, borderColor: colors.border }]}
+        onPress={() => handlePress(key)}
+        disabled={disabled}
+        accessibilityRole="button"
+        accessibilityLabel={key === 'delete' ? 'Delete' : key === 'biometric' ? 'Use fingerprint or face' : key}
+      >
+        {key === 'delete' ? (
+          <Ionicons name="backspace-outline" size={36} color={colors.text} />
+        ) : key === 'biometric' ? (
+          <Ionicons name="finger-print" size={40} color={colors.primary} />
+        ) : (
+          <Text style={[styles.keyText, { color: colors.text }]}>{key}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+      {subtitle ? <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{subtitle}</Text> : null}
+
+      <View style={styles.dots} accessibilityLabel={`${digits.length} of ${length} digits entered`}>
+        {Array.from({ length }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.dot,
+              length > 6 && styles.smallDot,
+              { borderColor: colors.primary },
+              index < digits.length && { backgroundColor: colors.primary },
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text style={[styles.error, { color: colors.error }]}>{error || ' '}</Text>
+
+      <View style={styles.keypad}>{KEYS.map(renderKey)}</View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    width: '100%',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 18,
+    textAlign: 'center',
+    marginBottom: 8,
+    paddingHorizontal: 16,
+  },
+  dots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginVertical: 24,
+  },
+  dot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    marginHorizontal: 10,
+  },
+  // Long recovery codes still fit on one line
+  smallDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    marginHorizontal: 5,
+  },
+  error: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+    minHeight: 24,
+    marginBottom: 16,
+    paddingHorizontal: 16,
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 300,
+  },
+  key: {
+    width: 84,
+    height: 84,
+    borderRadius: 42,
+    margin: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  keyText: {
+    fontSize: 36,
+    fontWeight: '600',
+  },
+});
+
+export default PinPad;
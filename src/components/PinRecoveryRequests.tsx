@@ -0,0 +1,124 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/theme/ThemeContext';
+import { getOrCreateFamilyId } from '../utils/idManager';
+import {
+  PinRecoveryRequest,
+  approvePinRecovery,
+  getPendingPinRecoveries,
+} from '../services/LinkRequestService';
+
+/**
+ * Family-side card for seniors who forgot their app lock PIN. Approving shows
+ * a one-time code to read out to the senior over the phone or in person.
+ */
+const PinRecoveryRequests = () => {
+  const { colors, isDark } = useTheme();
+  const [requests, setRequests] = useState<PinRecoveryRequest[]>([]);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setRequests(await getPendingPinRecoveries(await getOrCreateFamilyId()));
+    } catch (error) {
+      console.error('Error loading PIN recovery requests:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRequests();
+    }, [loadRequests])
+  );
+
+  const handleApprove = (request: PinRecoveryRequest) => {
+    Alert.alert(
+      'Help Reset PIN',
+      `Only continue if you are sure ${request.seniorName} asked for this.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Show Code',
+          onPress: async () => {
+            try {
+              const code = await approvePinRecovery(request.id);
+              if (code) {
+                Alert.alert('Reset Code', `Read this code to ${request.seniorName}:\n\n${code.split('').join(' ')}`);
+              } else {
+                Alert.alert('Request Expired', 'Ask them to send a new request from their phone.');
+              }
+            } catch (error) {
+              console.error('Error approving PIN recovery:', error);
+              Alert.alert('Error', 'Could not create a reset code. Please try again.');
+            }
+            loadRequests();
+          },
+        },
+      ]
+    );
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {requests.map(request => (
+        <View
+          key={request.id}
+          style={[styles.card, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF', borderColor: colors.primary }]}
+        >
+          <Ionicons name="key-outline" size={28} color={colors.primary} />
+          <View style={styles.textContainer}>
+            <Text style={[styles.title, { color: colors.text }]}>{request.seniorName} forgot their PIN</Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>Tap to give them a reset code</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }]}
+            onPress={() => handleApprove(request)}
+          >
+            <Text style={styles.buttonText}>Help</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  textContainer: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
+
+export default PinRecoveryRequests;
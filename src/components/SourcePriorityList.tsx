@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/theme/ThemeContext';
+import { useHealthSources } from '../contexts/health/HealthSourcesContext';
+import { HealthSource, WearableMetric } from '../types/wearables';
+
+const METRIC_NAMES: Record<WearableMetric, string> = {
+  heartRate: 'Heart Rate',
+  steps: 'Steps',
+  calories: 'Calories',
+  distance: 'Distance',
+  battery: 'Battery',
+  oxygenSaturation: 'Oxygen',
+  bloodPressure: 'Blood Pressure',
+  temperature: 'Temperature',
+  sleep: 'Sleep',
+};
+
+/**
+ * For every metric more than one device can measure, the devices in the
+ * order their readings are trusted. Tapping one puts it first.
+ */
+const SourcePriorityList = () => {
+  const { colors } = useTheme();
+  const { sources, priority, readings, setPriority } = useHealthSources();
+
+  const ordered = (metric: WearableMetric): HealthSource[] => {
+    const ranked = priority[metric] || [];
+    const position = (source: HealthSource) => {
+      const index = ranked.indexOf(source.id);
+      return index === -1 ? ranked.length : index;
+    };
+    return sources
+      .filter(source => source.metrics.includes(metric))
+      .sort((a, b) => position(a) - position(b));
+  };
+
+  const shared = (Object.keys(METRIC_NAMES) as WearableMetric[])
+    .map(metric => ({ metric, candidates: ordered(metric) }))
+    .filter(({ candidates }) => candidates.length > 1);
+
+  if (!shared.length) return null;
+
+  const makeFirst = (metric: WearableMetric, candidates: HealthSource[], id: string) => {
+    const rest = candidates.map(source => source.id).filter(sourceId => sourceId !== id);
+    setPriority(metric, [id, ...rest]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: colors.text }]}>Preferred Devices</Text>
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>
+        When several devices measure the same thing, readings from the first are shown. Tap a device to put it first; • marks the one in use now.
+      </Text>
+      {shared.map(({ metric, candidates }) => (
+        <View key={metric} style={[styles.row, { backgroundColor: colors.card }]}>
+          <Text style={[styles.metric, { color: colors.text }]}>{METRIC_NAMES[metric]}</Text>
+          <View style={styles.chips}>
+            {candidates.map((source, index) => (
+              <TouchableOpacity
+                key={source.id}
+                style={[
+                  styles.chip,
+                  { borderColor: colors.border },
+                  index === 0 && { backgroundColor: colors.primary, borderColor: colors.primary },
+                ]}
+                onPress={() => makeFirst(metric, candidates, source.id)}
+              >
+                <Text style={[styles.chipText, { color: index === 0 ? '#FFFFFF' : colors.text }]}>
+                  {index + 1}. {source.name}
+                  {readings[metric]?.sourceId === source.id ? ' •' : ''}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  row: {
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  metric: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+});
+
+export default SourcePriorityList;
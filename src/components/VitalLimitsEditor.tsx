@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/theme/ThemeContext';
+import {
+  VITAL_NAMES,
+  effectiveLimits,
+  getVitalBaselines,
+  getVitalLimits,
+  setVitalLimit,
+} from '../services/VitalRules';
+import { DEFAULT_VITAL_LIMITS, VitalBaselines, VitalLimitRecord, VitalMetric } from '../types/vitals';
+
+const METRICS = Object.keys(DEFAULT_VITAL_LIMITS) as VitalMetric[];
+
+const parseLimit = (text: string): number | undefined => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * The limits the senior's readings are checked against, and where each came
+ * from. A clinician can enter their own; clearing one goes back to the
+ * standard limit, widened if the senior's usual readings lie beyond it.
+ */
+const VitalLimitsEditor = () => {
+  const { colors } = useTheme();
+  const [clinician, setClinician] = useState<VitalLimitRecord[]>([]);
+  const [baselines, setBaselines] = useState<VitalBaselines>({});
+  // Text being typed, by metric, until it is saved
+  const [drafts, setDrafts] = useState<Partial<Record<VitalMetric, { low: string; high: string }>>>({});
+
+  useEffect(() => {
+    getVitalLimits().then(setClinician);
+    getVitalBaselines().then(setBaselines);
+  }, []);
+
+  const limits = effectiveLimits(clinician, baselines);
+
+  const draftFor = (metric: VitalMetric) =>
+    drafts[metric] || {
+      low: limits[metric]?.low?.toString() ?? '',
+      high: limits[metric]?.high?.toString() ?? '',
+    };
+
+  const updateDraft = (metric: VitalMetric, field: 'low' | 'high', text: string) =>
+    setDrafts(prev => ({ ...prev, [metric]: { ...draftFor(metric), [field]: text } }));
+
+  const save = async (metric: VitalMetric) => {
+    const draft = draftFor(metric);
+    const low = parseLimit(draft.low);
+    const high = parseLimit(draft.high);
+    setClinician(await setVitalLimit(metric, { low, high, forMinutes: DEFAULT_VITAL_LIMITS[metric]?.forMinutes }));
+    setDrafts(({ [metric]: _saved, ...rest }) => rest);
+  };
+
+  const clear = async (metric: VitalMetric) => {
+    setClinician(await setVitalLimit(metric, null));
+    setDrafts(({ [metric]: _cleared, ...rest }) => rest);
+  };
+
+  const describe = (metric: VitalMetric) => {
+    const source = limits[metric]?.source;
+    const baseline = baselines[metric];
+    const usual = baseline ? `Usually ${Math.round(baseline.mean - baseline.sd)}–${Math.round(baseline.mean + baseline.sd)}. ` : '';
+    if (source === 'clinician') return `${usual}Set by a clinician.`;
+    if (source === 'baseline') return `${usual}Adjusted to usual readings.`;
+    return `${usual}Standard limit.`;
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: colors.text }]}>Alert Limits</Text>
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>
+        Family is alerted when readings stay outside these limits. A clinician can set limits that suit this senior.
+      </Text>
+      {METRICS.map(metric => {
+        const { name, unit } = VITAL_NAMES[metric] || { name: metric, unit: '' };
+        const defaults = DEFAULT_VITAL_LIMITS[metric] || {};
+        const draft = draftFor(metric);
+        return (
+          <View key={metric} style={[styles.row, { backgroundColor: colors.card }]}>
+            <Text style={[styles.metric, { color: colors.text }]}>{name} ({unit})</Text>
+            <Text style={[styles.source, { color: colors.textSecondary }]}>{describe(metric)}</Text>
+            <View style={styles.inputs}>
+              {defaults.low !== undefined && (
+                <TextInput
+                  style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                  value={draft.low}
+                  onChangeText={text => updateDraft(metric, 'low', text)}
+                  placeholder="Low"
+                  placeholderTextColor={colors.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+              )}
+              {defaults.high !== undefined && (
+                <TextInput
+                  style={[styles.input, { borderColor: colors.border, color: colors.text }]}
+                  value={draft.high}
+                  onChangeText={text => updateDraft(metric, 'high', text)}
+                  placeholder="High"
+                  placeholderTextColor={colors.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+              )}
+              {drafts[metric] && (
+                <TouchableOpacity style={[styles.button, { backgroundColor: colors.primary }]} onPress={() => save(metric)}>
+                  <Text style={styles.buttonText}>Save</Text>
+                </TouchableOpacity>
+              )}
+              {!drafts[metric] && limits[metric]?.source === 'clinician' && (
+                <TouchableOpacity style={[styles.button, { borderColor: colors.border, borderWidth: 1 }]} onPress={() => clear(metric)}>
+                  <Text style={[styles.buttonText, { color: colors.text }]}>Reset</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  row: {
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  metric: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  source: {
+    fontSize: 13,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  inputs: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    width: 80,
+    marginRight: 8,
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 9,
+    paddingHorizontal: 14,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default VitalLimitsEditor;
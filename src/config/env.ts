@@ -7,6 +7,9 @@ import Constants from 'expo-constants';
 export const ENV = {
   // Development environment variables (defaults)
   GOOGLE_TRANSLATE_API_KEY: '',
+  AUTH_BACKEND: 'mock',
+  EMAIL_LINK_URL: '',
+  BLE_SIMULATOR: '',
   ...(Constants.expoConfig?.extra || {})
 };
 
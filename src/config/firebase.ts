@@ -1,7 +1,7 @@
 // Import the Firebase modules
 import { initializeApp } from 'firebase/app';
-import { getFirestore, collection, doc, getDoc, setDoc, updateDoc, deleteDoc, onSnapshot, query as firestoreQuery, where as firestoreWhere, orderBy as firestoreOrderBy, limit as firestoreLimit, serverTimestamp as firestoreServerTimestamp } from 'firebase/firestore';
-import { getAuth } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator, collection, doc, getDoc, setDoc, updateDoc, deleteDoc, onSnapshot, query as firestoreQuery, where as firestoreWhere, orderBy as firestoreOrderBy, limit as firestoreLimit, serverTimestamp as firestoreServerTimestamp } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
 
 // Your web app's Firebase configuration
 const firebaseConfig = {
@@ -21,10 +21,27 @@ const app = initializeApp(firebaseConfig);
 const auth = getAuth(app);
 const db = getFirestore(app);
 
+// Point Firestore at a local emulator, e.g. EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST=localhost:8080
+const emulatorHost = process.env.EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST;
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  connectFirestoreEmulator(db, host, Number(port) || 8080);
+}
+
+// Same for Auth, e.g. EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST=localhost:9099. The emulator
+// never sends SMS or email: read codes and links from its /emulator/v1/projects/{id}/verificationCodes
+// and /oobCodes endpoints.
+const authEmulatorHost = process.env.EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+const isAuthEmulator = !!authEmulatorHost;
+if (authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
+
 // Export the services and functions
 export { 
   auth, 
   db, 
+  isAuthEmulator, 
   collection, 
   doc, 
   getDoc, 
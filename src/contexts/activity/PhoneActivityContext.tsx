@@ -0,0 +1,228 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '../auth/AuthContext';
+import { useWearables } from '../wearable/WearableContext';
+import { useHealthSources } from '../health/HealthSourcesContext';
+import { PHONE_SOURCE } from '../../services/FallDetection';
+import {
+  PHONE_METRICS,
+  createActivityTracker,
+  finishWalk,
+  getTodayPhoneSteps,
+  isPhoneStepCountingAvailable,
+  recordPhoneSteps,
+  saveWalk,
+  toWatchReading,
+  watchPhoneSpeed,
+  watchPhoneSteps,
+  watchWalkRoute,
+} from '../../services/PhoneActivity';
+import { WatchData } from '../../types/wearables';
+import { WalkSession } from '../../types/activity';
+
+// How often the activity is classified again and finished minutes are stored
+const TICK_MS = 10 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+type PhoneActivityContextType = {
+  // Whether this phone can count steps at all
+  isAvailable: boolean;
+  // Today's steps, distance and activity from the phone; empty while a wearable is paired
+  data: Partial<WatchData>;
+  // When phone steps were last added to history, so history views know to reload
+  historyUpdatedAt?: string;
+  // The walk in progress, or null
+  walk: WalkSession | null;
+  startWalk: () => Promise<void>;
+  // Ends the walk in progress and resolves to it once saved
+  stopWalk: () => Promise<WalkSession | null>;
+};
+
+const PhoneActivityContext = createContext<PhoneActivityContextType | undefined>(undefined);
+
+const minuteStart = (at: number) => Math.floor(at / MINUTE_MS) * MINUTE_MS;
+const dayStart = (at: number) => {
+  const date = new Date(at);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * Counts the senior's steps with the phone when they have no wearable, and
+ * tells walking, sitting still and riding in a vehicle apart. Steps are
+ * stored a minute at a time with the watch history. Also runs the walks
+ * started with the Start Walk button, whether or not a wearable is paired.
+ */
+export const PhoneActivityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { profile } = useAuth();
+  const { connections } = useWearables();
+  const { updateSource, removeSource, reportReading } = useHealthSources();
+  const isSenior = profile?.activeRole === 'senior';
+  // A paired wearable counts steps itself; counting here too would count them twice
+  const countsDaily = isSenior && connections.length === 0;
+  const [isAvailable, setIsAvailable] = useState(false);
+  const [data, setData] = useState<Partial<WatchData>>({});
+  const [historyUpdatedAt, setHistoryUpdatedAt] = useState<string>();
+  const [walk, setWalk] = useState<WalkSession | null>(null);
+  // Steps are also counted during a walk, for the walk only
+  const countsSteps = countsDaily || walk !== null;
+
+  const tracker = useRef(createActivityTracker());
+  const today = useRef({ day: dayStart(Date.now()), steps: 0 });
+  const pendingMinute = useRef({ start: minuteStart(Date.now()), steps: 0 });
+  const lastRecordedMinute = useRef(0);
+  const walkRef = useRef<WalkSession | null>(null);
+  const stopRoute = useRef<(() => void) | null>(null);
+  // Read by the step listener, which is set up once per counting session
+  const countsDailyRef = useRef(countsDaily);
+  countsDailyRef.current = countsDaily;
+
+  useEffect(() => {
+    isPhoneStepCountingAvailable().then(setIsAvailable);
+  }, []);
+
+  const flushMinute = useCallback(async (now: number) => {
+    const { start, steps } = pendingMinute.current;
+    if (minuteStart(now) <= start) return;
+    pendingMinute.current = { start: minuteStart(now), steps: 0 };
+    lastRecordedMinute.current = start;
+    if (await recordPhoneSteps(new Date(start), steps)) {
+      setHistoryUpdatedAt(new Date().toISOString());
+    }
+  }, []);
+
+  const refresh = useCallback((now: number) => {
+    if (dayStart(now) !== today.current.day) today.current = { day: dayStart(now), steps: 0 };
+    const reading = toWatchReading(today.current.steps, tracker.current.classify(now));
+    setData({ ...reading, ...(walkRef.current && { activityData: walkRef.current }) });
+    reportReading(PHONE_SOURCE, reading);
+  }, [reportReading]);
+
+  const handleSteps = useCallback((steps: number) => {
+    const now = Date.now();
+    tracker.current.addSteps(steps, now);
+    if (walkRef.current) {
+      walkRef.current = { ...walkRef.current, steps: walkRef.current.steps + steps };
+      setWalk(walkRef.current);
+    }
+    if (!countsDailyRef.current) return;
+    flushMinute(now);
+    pendingMinute.current.steps += steps;
+    if (dayStart(now) !== today.current.day) today.current = { day: dayStart(now), steps: 0 };
+    today.current.steps += steps;
+    refresh(now);
+  }, [flushMinute, refresh]);
+
+  // Count steps while they are stored for the day or a walk is under way
+  useEffect(() => {
+    if (!countsSteps) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    watchPhoneSteps(handleSteps).then(stopSteps => {
+      if (cancelled) stopSteps?.();
+      else stop = stopSteps;
+    });
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [countsSteps, handleSteps]);
+
+  // Keep today's total and the activity current, and store steps a minute at a time
+  useEffect(() => {
+    if (!countsDaily) {
+      setData({});
+      removeSource(PHONE_SOURCE);
+      return;
+    }
+    updateSource({ id: PHONE_SOURCE, name: 'This phone', status: 'connected', metrics: PHONE_METRICS });
+    let stopSpeed: (() => void) | null = null;
+    let cancelled = false;
+    const now = Date.now();
+    today.current = { day: dayStart(now), steps: 0 };
+    // A minute already stored would not be stored again, so carry on from the next one
+    pendingMinute.current = { start: Math.max(minuteStart(now), lastRecordedMinute.current + MINUTE_MS), steps: 0 };
+
+    // Steps counted before this loads are added on top
+    getTodayPhoneSteps().then(stored => {
+      if (cancelled) return;
+      today.current.steps += stored;
+      refresh(Date.now());
+    });
+    watchPhoneSpeed((speed, at) => tracker.current.setSpeed(speed, at)).then(stop => {
+      if (cancelled) stop?.();
+      else stopSpeed = stop;
+    });
+    const timer = setInterval(() => {
+      flushMinute(Date.now());
+      refresh(Date.now());
+    }, TICK_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      stopSpeed?.();
+      // Keep the minute in progress
+      const { start, steps } = pendingMinute.current;
+      lastRecordedMinute.current = start;
+      recordPhoneSteps(new Date(start), steps);
+    };
+  }, [countsDaily, flushMinute, refresh, updateSource, removeSource]);
+
+  const startWalk = useCallback(async () => {
+    if (walkRef.current) return;
+    walkRef.current = {
+      id: `walk-${Date.now()}`,
+      startTime: new Date().toISOString(),
+      duration: 0,
+      steps: 0,
+      distance: 0,
+      gpsData: [],
+    };
+    setWalk(walkRef.current);
+    const stop = await watchWalkRoute(point => {
+      if (!walkRef.current) return;
+      walkRef.current = { ...walkRef.current, gpsData: [...(walkRef.current.gpsData || []), point] };
+      setWalk(walkRef.current);
+      if (point.speed !== undefined) tracker.current.setSpeed(point.speed, new Date(point.timestamp).getTime());
+    });
+    // The walk may have been stopped while location was being asked for
+    if (walkRef.current) stopRoute.current = stop;
+    else stop?.();
+  }, []);
+
+  const stopWalk = useCallback(async () => {
+    if (!walkRef.current) return null;
+    stopRoute.current?.();
+    stopRoute.current = null;
+    const finished = finishWalk(walkRef.current);
+    walkRef.current = null;
+    setWalk(null);
+    await saveWalk(finished);
+    return finished;
+  }, []);
+
+  // A walk does not outlive the senior's side of the app
+  useEffect(() => {
+    if (!isSenior) stopWalk();
+  }, [isSenior, stopWalk]);
+
+  const value: PhoneActivityContextType = {
+    isAvailable,
+    data,
+    historyUpdatedAt,
+    walk,
+    startWalk,
+    stopWalk,
+  };
+
+  return <PhoneActivityContext.Provider value={value}>{children}</PhoneActivityContext.Provider>;
+};
+
+export const usePhoneActivity = (): PhoneActivityContextType => {
+  const context = useContext(PhoneActivityContext);
+  if (context === undefined) {
+    throw new Error('usePhoneActivity must be used within a PhoneActivityProvider');
+  }
+  return context;
+};
+
+export default PhoneActivityContext;
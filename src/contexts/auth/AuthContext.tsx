@@ -1,497 +1,267 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
+import { AuthBackend, AuthUser, PhoneVerification, getAuthBackend } from '../../services/AuthBackend';
+import * as Linking from 'expo-linking';
+import { ENV } from '../../config/env';
+import { readStore, updateStore, writeStore } from '../../services/StorageService';
+import { getOrCreateFamilyId, getOrCreateSeniorId } from '../../utils/idManager';
+import { UserProfile, UserRole, createUserProfile } from '../../types/roles';
 
-// Mock user type for our simplified auth
-interface User {
-  uid: string;
-  email: string | null;
-  displayName: string | null;
-  photoURL: string | null;
-  isAnonymous: boolean;
-}
-
-// Mock UserCredential type
-interface UserCredential {
-  user: User;
-}
-
-// Mock ConfirmationResult type
-interface ConfirmationResult {
-  verificationId: string;
-  confirm: (verificationCode: string) => Promise<UserCredential>;
-}
+export type User = AuthUser;
 
 // Define the shape of our auth context
 export interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isGuest: boolean;
+  // Roles of the signed-in account; null while signed out or still loading
+  profile: UserProfile | null;
+  // True only on launch, until the stored session and its profile are known
+  isRestoring: boolean;
   isLoading: boolean;
   error: string | null;
-  login: (email: string, password: string) => Promise<UserCredential>;
-  register: (email: string, password: string, displayName: string) => Promise<UserCredential>;
-  loginWithPhone: (phoneNumber: string) => Promise<ConfirmationResult>;
-  verifyOtp: (verificationId: string, otp: string) => Promise<UserCredential>;
-  guestLogin: () => Promise<UserCredential>;
+  login: (email: string, password: string) => Promise<User>;
+  register: (email: string, password: string, displayName: string) => Promise<User>;
+  loginWithPhone: (phoneNumber: string) => Promise<PhoneVerification>;
+  // verificationId may be left empty to use the code from the last loginWithPhone
+  verifyOtp: (verificationId: string, otp: string) => Promise<User>;
+  resendOtp: (phoneNumber: string) => Promise<PhoneVerification>;
+  // Email magic link, offered when phone verification fails
+  sendEmailLink: (email: string) => Promise<void>;
+  isEmailSignInLink: (link: string) => boolean;
+  // email defaults to the address the last link was sent to from this device
+  completeEmailLinkSignIn: (link: string, email?: string) => Promise<User>;
+  guestLogin: () => Promise<User>;
   logout: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
   updateUserProfile: (updates: { displayName?: string; photoURL?: string }) => Promise<void>;
   updateUserEmail: (newEmail: string, password: string) => Promise<void>;
   updateUserPassword: (currentPassword: string, newPassword: string) => Promise<void>;
   deleteAccount: (password: string) => Promise<void>;
-  recaptchaVerifier: React.RefObject<{ verify: () => Promise<string> } | null>;
+  // Add the role to the account if needed and open the app as it, signing in as a guest when signed out
+  selectRole: (role: UserRole) => Promise<UserProfile>;
+  clearError: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Mock implementation of AuthProvider
-export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const recaptchaVerifier = useRef<{ verify: () => Promise<string> } | null>(null);
-
-  const isAuthenticated = !!user;
-  const isGuest = user?.isAnonymous || false;
-
-  // Mock login function
-  const login = async (email: string, password: string): Promise<UserCredential> => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const mockUser: User = {
-        uid: 'mock-user-123',
-        email,
-        displayName: email.split('@')[0],
-        photoURL: null,
-        isAnonymous: false
-      };
-      
-      setUser(mockUser);
-      return { user: mockUser };
-    } catch (err) {
-      setError('Failed to login');
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Mock register function
-  const register = async (email: string, password: string, displayName: string): Promise<UserCredential> => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const mockUser: User = {
-        uid: `mock-user-${Date.now()}`,
-        email,
-        displayName,
-        photoURL: null,
-        isAnonymous: false
-      };
-      
-      setUser(mockUser);
-      return { user: mockUser };
-    } catch (err) {
-      setError('Failed to register');
-      throw err;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  // Mock logout function
-  const logout = async (): Promise<void> => {
-    setUser(null);
-    return Promise.resolve();
-  };
-
-  // Mock guest login
-  const guestLogin = async (): Promise<UserCredential> => {
-    const mockUser: User = {
-      uid: `guest-${Date.now()}`,
-      email: null,
-      displayName: 'Guest',
-      photoURL: null,
-      isAnonymous: true
-    };
-    
-    setUser(mockUser);
-    return { user: mockUser };
-  };
-
-  // Mock phone login
-  const loginWithPhone = async (phoneNumber: string): Promise<ConfirmationResult> => {
-    return {
-      verificationId: 'mock-verification-id',
-      confirm: async (verificationCode: string) => {
-        const mockUser: User = {
-          uid: `phone-user-${Date.now()}`,
-          email: null,
-          displayName: phoneNumber,
-          photoURL: null,
-          isAnonymous: false
-        };
-        
-        setUser(mockUser);
-        return { user: mockUser };
-      }
-    };
-  };
+const getCachedProfile = async (uid: string): Promise<UserProfile | null> =>
+  (await readStore('userProfiles'))[uid] ?? null;
 
-  // Mock verify OTP
-  const verifyOtp = async (verificationId: string, otp: string): Promise<UserCredential> => {
-    const mockUser: User = {
-      uid: `phone-user-${Date.now()}`,
-      email: null,
-      displayName: 'Phone User',
-      photoURL: null,
-      isAnonymous: false
-    };
-    
-    setUser(mockUser);
-    return { user: mockUser };
-  };
+const cacheProfile = async (profile: UserProfile): Promise<void> => {
+  await updateStore('userProfiles', profiles => ({ ...profiles, [profile.uid]: profile }));
+};
 
-  // Mock update profile
-  const updateUserProfile = async (updates: { displayName?: string; photoURL?: string }): Promise<void> => {
-    if (user) {
-      setUser({
-        ...user,
-        displayName: updates.displayName || user.displayName,
-        photoURL: updates.photoURL || user.photoURL
-      });
+// Keep the newest of the local and account copies in both places
+const refreshProfile = async (backend: AuthBackend, uid: string): Promise<UserProfile> => {
+  const cached = await getCachedProfile(uid);
+  try {
+    const remote = await backend.loadProfile(uid);
+    if (remote && (!cached || remote.updatedAt >= cached.updatedAt)) {
+      await cacheProfile(remote);
+      return remote;
     }
-    return Promise.resolve();
-  };
-
-  // Mock update email
-  const updateUserEmail = async (newEmail: string, password: string): Promise<void> => {
-    if (user) {
-      setUser({
-        ...user,
-        email: newEmail
-      });
+    if (cached) {
+      await backend.saveProfile(cached);
     }
-    return Promise.resolve();
-  };
-
-  // Mock update password
-  const updateUserPassword = async (currentPassword: string, newPassword: string): Promise<void> => {
-    // In a real app, verify current password and update to new one
-    return Promise.resolve();
-  };
-
-  // Mock reset password
-  const resetPassword = async (email: string): Promise<void> => {
-    // In a real app, send password reset email
-    return Promise.resolve();
-  };
-
-  // Mock delete account
-  const deleteAccount = async (password: string): Promise<void> => {
-    setUser(null);
-    return Promise.resolve();
-  };
-
-  const value: AuthContextType = {
-    user,
-    isAuthenticated,
-    isGuest,
-    isLoading,
-    error,
-    login,
-    register,
-    loginWithPhone,
-    verifyOtp,
-    guestLogin,
-    logout,
-    resetPassword,
-    updateUserProfile,
-    updateUserEmail,
-    updateUserPassword,
-    deleteAccount,
-    recaptchaVerifier
-  };
-
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-};
-
-// Custom hook to use the auth context
-export const useAuth = (): AuthContextType => {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
+  } catch (error) {
+    console.error('Error refreshing profile:', error);
   }
-  return context;
-};
-
-export default AuthContext;
-    return `+91${cleaned.substring(1)}`;
-  }
-  // If the number starts with country code, add +
-  if (cleaned.length >= 10) {
-    return `+${cleaned}`;
-  }
-  // Default to Indian number if no country code
-  return `+91${cleaned}`;
+  return cached ?? createUserProfile(uid);
 };
 
-export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+export const AuthProvider: React.FC<{ children: ReactNode; backend?: AuthBackend }> = ({
+  children,
+  backend = getAuthBackend(),
+}) => {
   const [user, setUser] = useState<User | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isGuest, setIsGuest] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [confirmation, setConfirmation] = useState<ConfirmationResult | null>(null);
-  const recaptchaVerifier = useRef<RecaptchaVerifier | null>(null);
-  
-  // Set up auth state observer
+  const [loadedProfile, setLoadedProfile] = useState<UserProfile | null>(null);
+  const lastVerificationId = useRef<string | null>(null);
+
+  const isAuthenticated = !!user;
+  const isGuest = user?.isAnonymous || false;
+  const profile = user && loadedProfile?.uid === user.uid ? loadedProfile : null;
+  const isProfileLoading = !!user && !profile;
+  const [authResolved, setAuthResolved] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  // Follow the backend's signed-in user
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setUser(user);
-      setIsAuthenticated(!!user);
-      setIsGuest(!!user?.isAnonymous);
+    const unsubscribe = backend.onAuthStateChanged(current => {
+      setUser(current);
       setIsLoading(false);
+      setAuthResolved(true);
     });
+    return unsubscribe;
+  }, [backend]);
 
-    // Initialize reCAPTCHA verifier
-    if (typeof window !== 'undefined') {
-      recaptchaVerifier.current = new RecaptchaVerifier(auth, 'recaptcha-container', {
-        size: 'invisible',
-      });
-    }
+  useEffect(() => {
+    if (authResolved && !isProfileLoading) setIsRestoring(false);
+  }, [authResolved, isProfileLoading]);
 
-    // Cleanup function
+  // Load the signed-in account's roles, showing the cached copy first
+  const uid = user?.uid;
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+    const load = async () => {
+      const cached = await getCachedProfile(uid);
+      if (cached && !cancelled) setLoadedProfile(cached);
+      const latest = await refreshProfile(backend, uid);
+      if (!cancelled) setLoadedProfile(latest);
+    };
+    load().catch(err => console.error('Error loading profile:', err));
     return () => {
-      unsubscribe();
-      if (recaptchaVerifier.current) {
-        recaptchaVerifier.current.clear();
-      }
+      cancelled = true;
     };
-  }, []);
+  }, [backend, uid]);
 
-  // Resend OTP
-  const resendOtp = async (phoneNumber: string): Promise<ConfirmationResult> => {
-    return loginWithPhone(phoneNumber);
-  };
-
-  // Login with phone number (sends OTP)
-  const loginWithPhone = async (phoneNumber: string): Promise<ConfirmationResult> => {
+  // Run a backend call with the shared loading/error handling
+  const run = async <T,>(action: () => Promise<T>): Promise<T> => {
     setIsLoading(true);
     setError(null);
-    
     try {
-      const formattedPhoneNumber = formatPhoneNumber(phoneNumber);
-      
-      if (!recaptchaVerifier.current) {
-        throw new Error('reCAPTCHA verifier not initialized');
-      }
-      
-      const formattedPhone = formatPhoneNumber(phoneNumber);
-      const confirmationResult = await signInWithPhoneNumber(
-        auth,
-        formattedPhone,
-        recaptchaVerifier.current
-      );
-      
-      setConfirmation(confirmationResult);
-      return confirmationResult;
-      
-    } catch (error: any) {
-      console.error('Phone login error:', error);
-      let errorMessage = 'Failed to send verification code';
-      if (error.code === 'auth/invalid-phone-number') {
-        errorMessage = 'Invalid phone number format';
-      } else if (error.code === 'auth/too-many-requests') {
-        errorMessage = 'Too many attempts. Please try again later';
-      }
-      setError(errorMessage);
-      throw new Error(errorMessage);
+      return await action();
+    } catch (err: any) {
+      setError(err?.message || 'Something went wrong');
+      throw err;
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Email/Password Authentication
-  const login = async (email: string, password: string): Promise<UserCredential> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const userCredential = await signInWithEmailAndPassword(auth, email, password);
-      setIsGuest(false);
-      return userCredential;
-    } catch (error: any) {
-      let errorMessage = 'Failed to sign in';
-      switch (error.code) {
-        case 'auth/user-not-found':
-          errorMessage = 'No user found with this email';
-          break;
-        case 'auth/wrong-password':
-          errorMessage = 'Incorrect password';
-          break;
-        case 'auth/too-many-requests':
-          errorMessage = 'Too many failed attempts. Please try again later';
-          break;
-      }
-      setError(errorMessage);
-      throw new Error(errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const login = (email: string, password: string) =>
+    run(async () => {
+      const signedIn = await backend.signInWithEmail(email, password);
+      setUser(signedIn);
+      return signedIn;
+    });
 
-  // Verify OTP
-  const verifyOtp = async (verificationId: string, otp: string): Promise<UserCredential> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      if (!confirmation) {
+  const register = (email: string, password: string, displayName: string) =>
+    run(async () => {
+      const created = await backend.register(email, password, displayName);
+      setUser(created);
+      return created;
+    });
+
+  const loginWithPhone = (phoneNumber: string) =>
+    run(async () => {
+      const verification = await backend.sendPhoneCode(phoneNumber);
+      lastVerificationId.current = verification.verificationId;
+      return verification;
+    });
+
+  const verifyOtp = (verificationId: string, otp: string) =>
+    run(async () => {
+      const id = verificationId || lastVerificationId.current;
+      if (!id) {
         throw new Error('No confirmation found. Please request a new OTP.');
       }
-      
-      const credential = PhoneAuthProvider.credential(verificationId, otp);
-      const userCredential = await signInWithCredential(auth, credential);
-      
-      setIsGuest(false);
-      return userCredential;
-      
-    } catch (error: any) {
-      console.error('OTP verification error:', error);
-      let errorMessage = 'Failed to verify OTP';
-      if (error.code === 'auth/invalid-verification-code') {
-        errorMessage = 'Invalid verification code';
-      } else if (error.code === 'auth/code-expired') {
-        errorMessage = 'Verification code has expired';
-      }
-      setError(errorMessage);
-      throw new Error(errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      const signedIn = await backend.confirmPhoneCode(id, otp);
+      lastVerificationId.current = null;
+      setUser(signedIn);
+      return signedIn;
+    });
 
-  // Register new user
-  const register = async (email: string, password: string, displayName: string): Promise<UserCredential> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Create user with email and password
-      const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-      
-      // Update user profile with display name
-      if (userCredential.user) {
-        await updateProfile(userCredential.user, { displayName });
-        // Create user document in Firestore
-        await setDoc(doc(db, 'users', userCredential.user.uid), {
-          uid: userCredential.user.uid,
-          email: userCredential.user.email,
-          displayName,
-          createdAt: new Date().toISOString(),
-          isGuest: false,
-          phoneNumber: userCredential.user.phoneNumber || null,
-          photoURL: userCredential.user.photoURL || null,
-          emailVerified: userCredential.user.emailVerified,
-        });
-        
-        // Update local user state
-        setUser({ ...userCredential.user, displayName } as User);
-      }
-      
-      setIsGuest(false);
-      return userCredential;
-      
-    } catch (error: any) {
-      console.error('Registration error:', error);
-      let errorMessage = 'Failed to register';
-      if (error.code === 'auth/email-already-in-use') {
-        errorMessage = 'Email is already in use';
-      } else if (error.code === 'auth/weak-password') {
-        errorMessage = 'Password should be at least 6 characters';
-      } else if (error.code === 'auth/invalid-email') {
-        errorMessage = 'Invalid email address';
+  const sendEmailLink = (email: string) =>
+    run(async () => {
+      const continueUrl = ENV.EMAIL_LINK_URL || Linking.createURL('email-link');
+      await backend.sendEmailLink(email, continueUrl);
+      await writeStore('pendingEmailLink', email);
+    });
+
+  const completeEmailLinkSignIn = (link: string, email?: string) =>
+    run(async () => {
+      const address = email || (await readStore('pendingEmailLink'));
+      if (!address) {
+        throw new Error('Enter the email address the sign-in link was sent to');
       }
-      setError(errorMessage);
-      throw new Error(errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      const signedIn = await backend.signInWithEmailLink(address, link);
+      await writeStore('pendingEmailLink', null);
+      setUser(signedIn);
+      return signedIn;
+    });
 
-  // Logout
-  const logout = async (): Promise<void> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      await signOut(auth);
+  const guestLogin = () =>
+    run(async () => {
+      const guest = await backend.signInAnonymously();
+      setUser(guest);
+      return guest;
+    });
+
+  const logout = () =>
+    run(async () => {
+      await backend.signOut();
+      lastVerificationId.current = null;
       setUser(null);
-      setIsAuthenticated(false);
-      setIsGuest(false);
-      setConfirmation(null);
-    } catch (error: any) {
-      console.error('Logout error:', error);
-      setError('Failed to logout. Please try again.');
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    });
 
-  // Guest login
-  const guestLogin = async (): Promise<UserCredential> => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Sign in anonymously
-      const userCredential = await signInAnonymously(auth);
-      
-      // Create guest user document in Firestore
-      if (userCredential.user) {
-        await setDoc(doc(db, 'users', userCredential.user.uid), {
-          uid: userCredential.user.uid,
-          isGuest: true,
-          createdAt: new Date().toISOString(),
-          lastLogin: new Date().toISOString(),
-        });
+  const resetPassword = (email: string) => run(() => backend.sendPasswordReset(email));
+
+  const updateUserProfile = (updates: { displayName?: string; photoURL?: string }) =>
+    run(async () => {
+      setUser(await backend.updateProfile(updates));
+    });
+
+  const updateUserEmail = (newEmail: string, password: string) =>
+    run(async () => {
+      setUser(await backend.updateEmail(newEmail, password));
+    });
+
+  const updateUserPassword = (currentPassword: string, newPassword: string) =>
+    run(() => backend.updatePassword(currentPassword, newPassword));
+
+  const deleteAccount = (password: string) =>
+    run(async () => {
+      const deletedUid = user?.uid;
+      await backend.deleteAccount(password);
+      if (deletedUid) {
+        await updateStore('userProfiles', ({ [deletedUid]: _removed, ...rest }) => rest);
       }
-      
-      setIsGuest(true);
-      return userCredential;
-      
-    } catch (error: any) {
-      console.error('Guest login error:', error);
-      setError('Failed to login as guest. Please try again.');
-      throw error;
-    } finally {
-      setIsLoading(false);
-    }
-  };
+      setUser(null);
+    });
 
-  const clearError = () => {
-    setError(null);
-  };
+  const selectRole = (role: UserRole) =>
+    run(async () => {
+      const account = user ?? (await backend.signInAnonymously());
+      const current =
+        profile ?? (await getCachedProfile(account.uid)) ?? createUserProfile(account.uid);
+
+      const next: UserProfile = {
+        ...current,
+        roles: current.roles.includes(role) ? current.roles : [...current.roles, role],
+        activeRole: role,
+        seniorId: role === 'senior' ? current.seniorId ?? (await getOrCreateSeniorId()) : current.seniorId,
+        familyId: role === 'family' ? current.familyId ?? (await getOrCreateFamilyId()) : current.familyId,
+        updatedAt: new Date().toISOString(),
+      };
 
-  const value = {
+      // The local copy is enough to route on; the account copy catches up on the next load
+      await cacheProfile(next);
+      backend.saveProfile(next).catch(err => console.error('Error saving profile:', err));
+
+      setUser(account);
+      setLoadedProfile(next);
+      return next;
+    });
+
+  const value: AuthContextType = {
     user,
     isAuthenticated,
     isGuest,
-    isLoading,
+    profile,
+    isRestoring,
+    isLoading: isLoading || isProfileLoading,
     error,
     login,
     register,
     loginWithPhone,
     verifyOtp,
-    resendOtp,
+    resendOtp: loginWithPhone,
+    sendEmailLink,
+    isEmailSignInLink: backend.isEmailLink,
+    completeEmailLinkSignIn,
     guestLogin,
     logout,
     resetPassword,
@@ -499,18 +269,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     updateUserEmail,
     updateUserPassword,
     deleteAccount,
-    recaptchaVerifier,
+    selectRole,
+    clearError: () => setError(null),
   };
 
-  return (
-    <AuthContext.Provider value={value}>
-      {children}
-      {/* Hidden reCAPTCHA container */}
-      <div id="recaptcha-container"></div>
-    </AuthContext.Provider>
-  );
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 };
 
+// Custom hook to use the auth context
 export const useAuth = (): AuthContextType => {
   const context = useContext(AuthContext);
   if (context === undefined) {
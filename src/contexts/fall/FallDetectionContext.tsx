@@ -0,0 +1,170 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { StyleSheet, View } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '../auth/AuthContext';
+import FallCountdown, { FallAlertStatus } from '../../components/FallCountdown';
+import {
+  FallDetector,
+  FallEvent,
+  PHONE_SOURCE,
+  createFallDetector,
+  isPhoneAccelerometerAvailable,
+  raiseFallAlert,
+  watchPhoneAcceleration,
+} from '../../services/FallDetection';
+import { AccelerationSample } from '../../types/wearables';
+
+// How long the senior has to say they are all right
+const COUNTDOWN_SECONDS = 30;
+
+// The phone's readings are ignored while a wearable has streamed this recently
+const WEARABLE_PRIORITY_MS = 5 * 1000;
+
+type FallDetectionContextType = {
+  // A detected fall waiting on the senior or being escalated, or null
+  pendingFall: FallEvent | null;
+  // Hand over readings streamed from a wearable
+  reportAcceleration: (deviceId: string, samples: AccelerationSample[]) => void;
+};
+
+const FallDetectionContext = createContext<FallDetectionContextType | undefined>(undefined);
+
+/**
+ * Watches for falls while the app is open on the senior's side, from any
+ * wearable that streams its accelerometer or else from the phone's own. A
+ * fall covers the app with a countdown; unless the senior taps I'm OK, the
+ * family gets an alert with their location.
+ *
+ * Detection runs in the app's JavaScript while it is open. iOS suspends the
+ * app in the background, and the phone's accelerometer stream stops with it
+ * on both platforms, so falls are only caught while CareTrek is on screen.
+ */
+export const FallDetectionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { profile } = useAuth();
+  const isSenior = profile?.activeRole === 'senior';
+  const [pendingFall, setPendingFall] = useState<FallEvent | null>(null);
+  const [status, setStatus] = useState<FallAlertStatus>('countdown');
+  const [secondsLeft, setSecondsLeft] = useState(COUNTDOWN_SECONDS);
+  const detectors = useRef<Record<string, FallDetector>>({});
+  const lastWearableSampleAt = useRef(0);
+  // Read by detectors, which are created once and would otherwise see a stale value
+  const pendingFallRef = useRef<FallEvent | null>(null);
+  const isSeniorRef = useRef(isSenior);
+  isSeniorRef.current = isSenior;
+
+  const handleFall = useCallback((event: FallEvent) => {
+    // One fall at a time; the senior is already being asked
+    if (pendingFallRef.current) return;
+    pendingFallRef.current = event;
+    setPendingFall(event);
+    setStatus('countdown');
+    setSecondsLeft(COUNTDOWN_SECONDS);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => null);
+  }, []);
+
+  const detectorFor = useCallback((source: string) => {
+    if (!detectors.current[source]) {
+      detectors.current[source] = createFallDetector(source, handleFall);
+    }
+    return detectors.current[source];
+  }, [handleFall]);
+
+  const reportAcceleration = useCallback((deviceId: string, samples: AccelerationSample[]) => {
+    if (!isSeniorRef.current) return;
+    lastWearableSampleAt.current = Date.now();
+    detectorFor(deviceId).push(samples);
+  }, [detectorFor]);
+
+  // Fall back to the phone's accelerometer
+  useEffect(() => {
+    if (!isSenior) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
+    isPhoneAccelerometerAvailable().then(available => {
+      if (!available || cancelled) return;
+      stop = watchPhoneAcceleration(samples => {
+        if (Date.now() - lastWearableSampleAt.current < WEARABLE_PRIORITY_MS) return;
+        detectorFor(PHONE_SOURCE).push(samples);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+      detectors.current[PHONE_SOURCE]?.reset();
+    };
+  }, [isSenior, detectorFor]);
+
+  const escalate = useCallback(async () => {
+    const event = pendingFallRef.current;
+    if (!event) return;
+    setStatus('sending');
+    try {
+      await raiseFallAlert(event);
+      setStatus('sent');
+    } catch (error) {
+      console.error('Error raising fall alert:', error);
+      setStatus('failed');
+    }
+  }, []);
+
+  // Count down, with a buzz every second so the senior notices
+  useEffect(() => {
+    if (!pendingFall || status !== 'countdown') return;
+    if (secondsLeft <= 0) {
+      escalate();
+      return;
+    }
+    const timer = setTimeout(() => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy).catch(() => null);
+      setSecondsLeft(seconds => seconds - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [pendingFall, status, secondsLeft, escalate]);
+
+  const dismiss = useCallback(() => {
+    pendingFallRef.current = null;
+    setPendingFall(null);
+  }, []);
+
+  const value: FallDetectionContextType = {
+    pendingFall,
+    reportAcceleration,
+  };
+
+  return (
+    <FallDetectionContext.Provider value={value}>
+      <View style={styles.container}>
+        {children}
+        {pendingFall ? (
+          <View style={StyleSheet.absoluteFill}>
+            <FallCountdown
+              status={status}
+              secondsLeft={secondsLeft}
+              onCancel={dismiss}
+              onEscalate={escalate}
+              onClose={dismiss}
+            />
+          </View>
+        ) : null}
+      </View>
+    </FallDetectionContext.Provider>
+  );
+};
+
+export const useFallDetection = (): FallDetectionContextType => {
+  const context = useContext(FallDetectionContext);
+  if (context === undefined) {
+    throw new Error('useFallDetection must be used within a FallDetectionProvider');
+  }
+  return context;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
+
+export default FallDetectionContext;
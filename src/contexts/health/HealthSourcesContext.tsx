@@ -0,0 +1,97 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  MergedReadings,
+  createDeviceRegistry,
+  getSourcePriority,
+  mergeReadings,
+  setSourcePriority,
+  toWatchData,
+} from '../../services/wearables/DeviceRegistry';
+import { HealthSource, MetricSourcePriority, WatchData, WearableMetric } from '../../types/wearables';
+
+// Readings age out of the merged view, so it is worked out again this often
+const REMERGE_MS = 60 * 1000;
+
+type HealthSourcesContextType = {
+  // Every watch, cuff, oximeter or phone readings have come from since launch
+  sources: HealthSource[];
+  // Each metric's current value from the most trusted source that has one
+  readings: MergedReadings;
+  // The same values in the shape of one watch's data
+  data: Partial<WatchData>;
+  priority: MetricSourcePriority;
+  // Rank the sources for a metric, most trusted first
+  setPriority: (metric: WearableMetric, sourceIds: string[]) => Promise<void>;
+  // For whatever talks to a device: register it or update its status
+  updateSource: (source: HealthSource) => void;
+  removeSource: (id: string) => void;
+  // Hand over newly received readings from a source, taken at `at` if not just now
+  reportReading: (sourceId: string, data: Partial<WatchData>, at?: Date) => void;
+};
+
+const HealthSourcesContext = createContext<HealthSourcesContextType | undefined>(undefined);
+
+/**
+ * Merges readings from every device the senior uses at once, such as a watch,
+ * a blood pressure cuff and an oximeter, into one set of numbers. Each value
+ * keeps the source it came from, and which source wins for a metric follows
+ * the ranking the senior chose.
+ */
+export const HealthSourcesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const registry = useRef(createDeviceRegistry()).current;
+  const [sources, setSources] = useState<HealthSource[]>([]);
+  const [priority, setPriorityState] = useState<MetricSourcePriority>({});
+  // Bumped whenever a reading changes, and every so often as readings age, so the merge runs again
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    getSourcePriority().then(setPriorityState);
+    const timer = setInterval(() => setRevision(value => value + 1), REMERGE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const updateSource = useCallback((source: HealthSource) => {
+    if (registry.upsert(source)) setSources(registry.sources());
+  }, [registry]);
+
+  const removeSource = useCallback((id: string) => {
+    if (registry.remove(id)) {
+      setSources(registry.sources());
+      setRevision(value => value + 1);
+    }
+  }, [registry]);
+
+  const reportReading = useCallback((sourceId: string, data: Partial<WatchData>, at?: Date) => {
+    if (registry.report(sourceId, data, at).length) setRevision(value => value + 1);
+  }, [registry]);
+
+  const setPriority = useCallback(async (metric: WearableMetric, sourceIds: string[]) => {
+    setPriorityState(await setSourcePriority(metric, sourceIds));
+  }, []);
+
+  const readings = useMemo(() => mergeReadings(registry.readings(), priority), [registry, priority, revision]);
+  const data = useMemo(() => toWatchData(readings), [readings]);
+
+  const value: HealthSourcesContextType = {
+    sources,
+    readings,
+    data,
+    priority,
+    setPriority,
+    updateSource,
+    removeSource,
+    reportReading,
+  };
+
+  return <HealthSourcesContext.Provider value={value}>{children}</HealthSourcesContext.Provider>;
+};
+
+export const useHealthSources = (): HealthSourcesContextType => {
+  const context = useContext(HealthSourcesContext);
+  if (context === undefined) {
+    throw new Error('useHealthSources must be used within a HealthSourcesProvider');
+  }
+  return context;
+};
+
+export default HealthSourcesContext;
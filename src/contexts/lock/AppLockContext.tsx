@@ -0,0 +1,142 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { AppState, StyleSheet, View } from 'react-native';
+import {
+  clearPin,
+  getAppLockSettings,
+  hasPin,
+  saveAppLockSettings,
+  setPin,
+} from '../../services/AppLockService';
+import { AppLockSettings, DEFAULT_APP_LOCK_SETTINGS } from '../../types/appLock';
+import { useTheme } from '../theme/ThemeContext';
+import AppLockScreen from '../../components/AppLockScreen';
+
+type AppLockContextType = {
+  settings: AppLockSettings;
+  isPinSet: boolean;
+  isLocked: boolean;
+  unlock: () => void;
+  lockNow: () => void;
+  // Save a new PIN and turn the lock on
+  enableLock: (pin: string) => Promise<void>;
+  // Forget the PIN and turn the lock off
+  disableLock: () => Promise<void>;
+  changePin: (pin: string) => Promise<void>;
+  updateSettings: (changes: Partial<AppLockSettings>) => Promise<void>;
+};
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+/**
+ * Covers the app with the PIN pad on launch and whenever it comes back from
+ * the background after the chosen timeout. The app underneath stays mounted,
+ * so unlocking returns to the same screen.
+ */
+export const AppLockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { colors } = useTheme();
+  const [settings, setSettings] = useState<AppLockSettings>(DEFAULT_APP_LOCK_SETTINGS);
+  const [isPinSet, setIsPinSet] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+
+  const isLockActive = settings.enabled && isPinSet;
+  const isLockActiveRef = useRef(isLockActive);
+  const timeoutRef = useRef(settings.timeoutMs);
+  isLockActiveRef.current = isLockActive;
+  timeoutRef.current = settings.timeoutMs;
+
+  useEffect(() => {
+    const initialize = async () => {
+      const [savedSettings, pinSet] = await Promise.all([getAppLockSettings(), hasPin()]);
+      setSettings(savedSettings);
+      setIsPinSet(pinSet);
+      setIsLocked(savedSettings.enabled && pinSet);
+      setIsInitialized(true);
+    };
+    initialize();
+  }, []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (state === 'active' && backgroundedAt.current !== null) {
+        const away = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (isLockActiveRef.current && away >= timeoutRef.current) {
+          setIsLocked(true);
+        }
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<AppLockSettings>) => {
+    const next = { ...(await getAppLockSettings()), ...changes };
+    await saveAppLockSettings(next);
+    setSettings(next);
+  }, []);
+
+  const enableLock = useCallback(async (pin: string) => {
+    await setPin(pin);
+    setIsPinSet(true);
+    await updateSettings({ enabled: true });
+  }, [updateSettings]);
+
+  const disableLock = useCallback(async () => {
+    await clearPin();
+    setIsPinSet(false);
+    setSettings(await getAppLockSettings());
+    setIsLocked(false);
+  }, []);
+
+  const changePin = useCallback(async (pin: string) => {
+    await setPin(pin);
+    setIsPinSet(true);
+  }, []);
+
+  const value: AppLockContextType = {
+    settings,
+    isPinSet,
+    isLocked,
+    unlock: () => setIsLocked(false),
+    lockNow: () => setIsLocked(isLockActive),
+    enableLock,
+    disableLock,
+    changePin,
+    updateSettings,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      <View style={styles.container}>
+        {children}
+        {/* Blank until we know whether to lock, so nothing private flashes up */}
+        {!isInitialized ? (
+          <View style={[StyleSheet.absoluteFill, { backgroundColor: colors.background }]} />
+        ) : isLocked ? (
+          <View style={StyleSheet.absoluteFill}>
+            <AppLockScreen settings={settings} onUnlock={() => setIsLocked(false)} />
+          </View>
+        ) : null}
+      </View>
+    </AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = (): AppLockContextType => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
+
+export default AppLockContext;
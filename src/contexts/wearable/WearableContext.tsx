@@ -0,0 +1,283 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { GattLink, WearableDriver, findDriverForDevice, getDriver } from '../../services/wearables';
+import { CentralDevice, getBleCentral } from '../../services/wearables/BleCentral';
+import { BlePlxSession, startBlePlxSession } from '../../services/wearables/BlePlxSession';
+import { Reconnector, createReconnector } from '../../services/wearables/Reconnector';
+import {
+  forgetPairedWearable,
+  getConnectionQuality,
+  getPairedWearables,
+  logConnectionEvent,
+  savePairedWearable,
+} from '../../services/wearables/PairedWearables';
+import { recordSamples, toReading } from '../../services/wearables/WearableSync';
+import { downloadHistory, getHistory, lastNightSleep } from '../../services/wearables/HistorySync';
+import { registerWearableSync, restoreWearableSync } from '../../services/wearables/BackgroundSync';
+import { useFallDetection } from '../fall/FallDetectionContext';
+import { useHealthSources } from '../health/HealthSourcesContext';
+import {
+  ConnectionQuality,
+  HealthSource,
+  PairedWearable,
+  WatchData,
+  WearableMetric,
+  WearableSample,
+} from '../../types/wearables';
+
+const CONNECT_TIMEOUT_MS = 15 * 1000;
+
+const UNKNOWN_QUALITY: ConnectionQuality = { attempts: 0, failures: 0, drops: 0, rating: 'unknown' };
+
+// Readings are written in batches rather than on every notification
+const SAMPLE_FLUSH_MS = 60 * 1000;
+
+export type WearableConnectionStatus = 'connecting' | 'connected' | 'waiting' | 'disconnected';
+
+export interface WearableConnection {
+  device: PairedWearable;
+  status: WearableConnectionStatus;
+  data: Partial<WatchData>;
+  // Metrics this device offers, once connected
+  capabilities?: WearableMetric[];
+  quality: ConnectionQuality;
+  // When the next reconnection attempt is due, while waiting
+  nextRetryAt?: number;
+  // When stored history last finished downloading, so history views know to reload
+  historySyncedAt?: string;
+  error?: string;
+}
+
+type WearableContextType = {
+  connections: WearableConnection[];
+  // Pair a device found by a scan and connect to it
+  pairDevice: (device: CentralDevice) => Promise<void>;
+  forgetDevice: (id: string) => Promise<void>;
+  reconnectNow: (id: string) => void;
+};
+
+interface LiveConnection {
+  reconnector: Reconnector;
+  device?: CentralDevice;
+  session?: BlePlxSession;
+  disconnectSubscription?: { remove: () => void };
+  // Stops the accelerometer stream used for fall detection
+  stopAcceleration?: () => void;
+}
+
+const WearableContext = createContext<WearableContextType | undefined>(undefined);
+
+const toHealthSource = ({ device, status, capabilities }: WearableConnection): HealthSource => ({
+  id: device.id,
+  name: device.name,
+  deviceType: device.deviceType,
+  // Waiting to retry is as good as disconnected for readings
+  status: status === 'waiting' ? 'disconnected' : status,
+  metrics: capabilities || getDriver(device.deviceType).capabilities,
+});
+
+/**
+ * Owns the Bluetooth connections to paired wearables for the whole app. On
+ * launch it reconnects to every device paired over ble-plx, and whenever one
+ * drops it keeps retrying with exponential backoff, so the senior never has
+ * to pair again after a restart or a walk out of range.
+ */
+export const WearableProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [connections, setConnections] = useState<Record<string, WearableConnection>>({});
+  const live = useRef<Record<string, LiveConnection>>({});
+  const pendingSamples = useRef<WearableSample[]>([]);
+  const { reportAcceleration } = useFallDetection();
+  const { updateSource, removeSource, reportReading } = useHealthSources();
+
+  const updateConnection = useCallback((id: string, changes: Partial<WearableConnection>) => {
+    setConnections(prev => (prev[id] ? { ...prev, [id]: { ...prev[id], ...changes } } : prev));
+  }, []);
+
+  const refreshQuality = useCallback(async (id: string) => {
+    updateConnection(id, { quality: await getConnectionQuality(id) });
+  }, [updateConnection]);
+
+  const closeConnection = useCallback(async (id: string) => {
+    const connection = live.current[id];
+    if (!connection) return;
+    connection.disconnectSubscription?.remove();
+    connection.stopAcceleration?.();
+    connection.session?.stop();
+    const device = connection.device;
+    connection.disconnectSubscription = connection.stopAcceleration = connection.session = connection.device = undefined;
+    await device?.cancelConnection().catch(() => null);
+  }, []);
+
+  // Runs alongside the live connection; a drop part way through resumes on the next connect
+  const syncHistory = useCallback(async (id: string, link: GattLink, driver: WearableDriver) => {
+    await downloadHistory(link, driver);
+    const sleepData = lastNightSleep((await getHistory('sleep')).filter(sample => sample.deviceId === id));
+    setConnections(prev => prev[id]
+      ? {
+          ...prev,
+          [id]: {
+            ...prev[id],
+            historySyncedAt: new Date().toISOString(),
+            data: { ...prev[id].data, ...(sleepData && { sleepData }) },
+          },
+        }
+      : prev);
+    if (sleepData) reportReading(id, { sleepData });
+  }, [reportReading]);
+
+  // One attempt at connecting and starting the driver; throws so the reconnector retries
+  const connectOnce = useCallback(async (paired: PairedWearable) => {
+    const connection = live.current[paired.id];
+    await closeConnection(paired.id);
+    updateConnection(paired.id, { status: 'connecting', nextRetryAt: undefined, error: undefined });
+
+    try {
+      const device = await getBleCentral().connectToDevice(paired.id, { timeout: CONNECT_TIMEOUT_MS });
+      // Forgotten while we were connecting
+      if (live.current[paired.id] !== connection) {
+        await device.cancelConnection().catch(() => null);
+        return;
+      }
+      connection.device = device;
+      const driver = getDriver(paired.deviceType);
+      const session = await startBlePlxSession(device, driver, data => {
+        setConnections(prev => prev[paired.id]
+          ? { ...prev, [paired.id]: { ...prev[paired.id], data: { ...prev[paired.id].data, ...data } } }
+          : prev);
+        reportReading(paired.id, data);
+        const reading = toReading(data);
+        if (reading) {
+          pendingSamples.current.push({ ...reading, deviceId: paired.id, timestamp: new Date().toISOString() });
+        }
+      });
+      connection.session = session;
+
+      const rssi = (await device.readRSSI().catch(() => device)).rssi ?? undefined;
+      connection.disconnectSubscription = device.onDisconnected(error => {
+        connection.stopAcceleration?.();
+        connection.session?.stop();
+        connection.disconnectSubscription?.remove();
+        connection.session = connection.device = connection.disconnectSubscription = connection.stopAcceleration = undefined;
+        logConnectionEvent({ deviceId: paired.id, type: 'disconnected', ...(error && { error: error.message }) })
+          .then(() => refreshQuality(paired.id));
+        updateConnection(paired.id, { status: 'waiting' });
+        connection.reconnector.start();
+      });
+
+      await logConnectionEvent({ deviceId: paired.id, type: 'connected', rssi });
+      updateConnection(paired.id, { status: 'connected', device: { ...paired, rssi }, capabilities: session.capabilities });
+      refreshQuality(paired.id);
+      syncHistory(paired.id, session.link, driver).catch(error =>
+        console.error(`Error syncing history from ${paired.name}:`, error)
+      );
+      driver.streamAcceleration?.(session.link, samples => reportAcceleration(paired.id, samples))
+        .then(stop => {
+          // Dropped while the stream was starting
+          if (connection.session === session) connection.stopAcceleration = stop;
+          else stop();
+        })
+        .catch(error => console.error('Error starting accelerometer stream:', error));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : undefined;
+      await closeConnection(paired.id);
+      await logConnectionEvent({ deviceId: paired.id, type: 'failed', error: message });
+      updateConnection(paired.id, { status: 'waiting', error: message || 'Could not connect' });
+      refreshQuality(paired.id);
+      throw error;
+    }
+  }, [closeConnection, refreshQuality, reportAcceleration, reportReading, syncHistory, updateConnection]);
+
+  const watchDevice = useCallback(async (paired: PairedWearable) => {
+    live.current[paired.id]?.reconnector.stop();
+    live.current[paired.id] = {
+      reconnector: createReconnector(() => connectOnce(paired), {
+        onRetryScheduled: delayMs => updateConnection(paired.id, { nextRetryAt: Date.now() + delayMs }),
+      }),
+    };
+    setConnections(prev => ({
+      ...prev,
+      [paired.id]: { device: paired, status: 'connecting', data: {}, quality: prev[paired.id]?.quality || UNKNOWN_QUALITY },
+    }));
+    live.current[paired.id].reconnector.start();
+    refreshQuality(paired.id);
+  }, [connectOnce, refreshQuality, updateConnection]);
+
+  // Reconnect to everything paired before
+  useEffect(() => {
+    const initialize = async () => {
+      const paired = await getPairedWearables();
+      paired.filter(device => device.transport === 'native').forEach(watchDevice);
+    };
+    initialize().catch(error => console.error('Error reconnecting paired wearables:', error));
+
+    const flush = setInterval(() => {
+      const samples = pendingSamples.current;
+      pendingSamples.current = [];
+      recordSamples(samples);
+    }, SAMPLE_FLUSH_MS);
+
+    return () => {
+      clearInterval(flush);
+      recordSamples(pendingSamples.current);
+      Object.keys(live.current).forEach(id => {
+        live.current[id].reconnector.stop();
+        closeConnection(id);
+      });
+    };
+  }, []);
+
+  // Every paired device is a source of readings, whatever its state
+  useEffect(() => {
+    Object.values(connections).forEach(connection => updateSource(toHealthSource(connection)));
+  }, [connections, updateSource]);
+
+  const pairDevice = useCallback(async (device: CentralDevice) => {
+    const driver = findDriverForDevice(device.name);
+    await savePairedWearable({
+      id: device.id,
+      name: device.name || 'Smart Watch',
+      deviceType: driver.type,
+      transport: 'native',
+      ...(device.rssi !== null && { rssi: device.rssi }),
+    });
+    const paired = (await getPairedWearables()).find(candidate => candidate.id === device.id);
+    if (paired) await watchDevice(paired);
+    // Keep syncing this device in the background once the app is closed
+    await registerWearableSync();
+  }, [watchDevice]);
+
+  const forgetDevice = useCallback(async (id: string) => {
+    live.current[id]?.reconnector.stop();
+    await closeConnection(id);
+    delete live.current[id];
+    setConnections(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    removeSource(id);
+    await forgetPairedWearable(id);
+    await restoreWearableSync();
+  }, [closeConnection, removeSource]);
+
+  const reconnectNow = useCallback((id: string) => {
+    live.current[id]?.reconnector.start();
+  }, []);
+
+  const value: WearableContextType = {
+    connections: Object.values(connections),
+    pairDevice,
+    forgetDevice,
+    reconnectNow,
+  };
+
+  return <WearableContext.Provider value={value}>{children}</WearableContext.Provider>;
+};
+
+export const useWearables = (): WearableContextType => {
+  const context = useContext(WearableContext);
+  if (context === undefined) {
+    throw new Error('useWearables must be used within a WearableProvider');
+  }
+  return context;
+};
+
+export default WearableContext;
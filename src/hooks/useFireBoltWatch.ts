@@ -1,489 +1,400 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { Alert, Platform } from 'react-native';
 import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { DeviceType, HealthSource, WatchData } from '../types/wearables';
+import {
+  GENERIC_DRIVER_TYPE,
+  GattLink,
+  GattProfile,
+  WearableDriver,
+  createNotificationRouter,
+  findDriverForDevice,
+  getDriver,
+  getDrivers,
+  toGattProfile,
+} from '../services/wearables';
+import { backoffDelay } from '../services/wearables/Reconnector';
+import { getPairedWearables, logConnectionEvent, savePairedWearable } from '../services/wearables/PairedWearables';
+import { downloadHistory, getHistory, lastNightSleep } from '../services/wearables/HistorySync';
+import {
+  BridgeDevice,
+  BridgeErrorCode,
+  createBridgeClient,
+  isBridgeError,
+  toInjectedScript,
+} from '../services/wearables/WebViewBridge';
+import { useFallDetection } from '../contexts/fall/FallDetectionContext';
+import { useHealthSources } from '../contexts/health/HealthSourcesContext';
 
-export type DeviceType = 'firebolt' | 'miband' | 'amazfit' | 'generic';
-
-export interface WatchData {
-  // Device Info
-  deviceName?: string;
-  deviceType?: DeviceType;
-  macAddress?: string;
-  firmwareVersion?: string;
-  hardwareVersion?: string;
-  
-  // Health Metrics
-  heartRate?: number;
-  steps?: number;
-  calories?: number;
-  distance?: number; // in meters
-  battery?: number;
-  oxygenSaturation?: number; // SpO2
-  bloodPressure?: {
-    systolic: number;
-    diastolic: number;
-  };
-  sleepData?: {
-    deepSleep: number; // minutes
-    lightSleep: number; // minutes
-    remSleep: number; // minutes
-    awake: number; // minutes
-  };
-  
-  // Status
-  status: 'disconnected' | 'connecting' | 'connected';
-  error?: string;
-  lastUpdated?: string;
-  rssi?: number; // Signal strength
-  
-  // Activity Data
-  activityType?: 'walking' | 'running' | 'cycling' | 'sleeping' | 'idle';
-  activityData?: {
-    startTime: string;
-    endTime?: string;
-    duration: number; // seconds
-    heartRateSamples?: Array<{
-      value: number;
-      timestamp: string;
-    }>;
-    gpsData?: Array<{
-      latitude: number;
-      longitude: number;
-      timestamp: string;
-      altitude?: number;
-      speed?: number;
-    }>;
-  };
-}
+export type { DeviceType, WatchData } from '../types/wearables';
 
-interface DeviceService {
-  serviceUuid: string;
-  characteristicUuids: {
-    [key: string]: string;
-  };
-  name: string;
-  type: DeviceType;
-}
-
-// Supported device configurations
-const DEVICE_SERVICES: DeviceService[] = [
-  {
-    name: 'FireBolt',
-    type: 'firebolt',
-    serviceUuid: '0000fee0-0000-1000-8000-00805f9b34fb',
-    characteristicUuids: {
-      deviceInfo: '0000ff01-0000-1000-8000-00805f9b34fb',
-      battery: '0000ff0c-0000-1000-8000-00805f9b34fb',
-      steps: '0000ff06-0000-1000-8000-00805f9b34fb',
-      heartRate: '0000ff07-0000-1000-8000-00805f9b34fb',
-      activity: '0000ff0d-0000-1000-8000-00805f9b34fb',
-    },
-  },
-  {
-    name: 'Mi Band',
-    type: 'miband',
-    serviceUuid: '0000fee0-0000-1000-8000-00805f9b34fb',
-    characteristicUuids: {
-      deviceInfo: '0000ff01-0000-1000-8000-00805f9b34fb',
-      battery: '0000ff0c-0000-1000-8000-00805f9b34fb',
-      steps: '0000ff06-0000-1000-8000-00805f9b34fb',
-      heartRate: '0000ff07-0000-1000-8000-00805f9b34fb',
-      activity: '0000ff0d-0000-1000-8000-00805f9b34fb',
-    },
-  },
-  {
-    name: 'Amazfit',
-    type: 'amazfit',
-    serviceUuid: '0000fee0-0000-1000-8000-00805f9b34fb',
-    characteristicUuids: {
-      deviceInfo: '0000ff01-0000-1000-8000-00805f9b34fb',
-      battery: '0000ff0c-0000-1000-8000-00805f9b34fb',
-      steps: '0000ff06-0000-1000-8000-00805f9b34fb',
-      heartRate: '0000ff07-0000-1000-8000-00805f9b34fb',
-      activity: '0000ff0d-0000-1000-8000-00805f9b34fb',
-    },
-  },
-];
+// Failures worth another attempt; anything else needs the senior to act first
+const RETRYABLE_ERRORS: BridgeErrorCode[] = ['timeout', 'closed', 'notConnected', 'gatt'];
 
+/*
+ * Talks to the watch through the Web Bluetooth page in a hidden WebView, over
+ * the protocol in services/wearables/WebViewBridge. Load the WebView with
+ * BRIDGE_PAGE_HTML and pass its events to handleMessage, handleLoadStart and
+ * handleError.
+ */
 export const useFireBoltWatch = () => {
-  const [devices, setDevices] = useState<Array<{
-    id: string;
-    name: string;
-    rssi?: number;
-  }>>([]);
+  const [devices, setDevices] = useState<BridgeDevice[]>([]);
   const [isScanning, setIsScanning] = useState(false);
-  
+
   const [watchData, setWatchData] = useState<WatchData>({
     status: 'disconnected',
   });
-  
-  const [webViewReady, setWebViewReady] = useState(false);
+
+  // When stored history last finished downloading, so history views know to reload
+  const [historySyncedAt, setHistorySyncedAt] = useState<string | null>(null);
+  // Set by the page's ready event; read by pending timers, which would otherwise see a stale value
+  const webViewReadyRef = useRef(false);
   const webViewRef = useRef<WebView>(null);
   const retryTimeout = useRef<ReturnType<typeof setTimeout>>();
-  const [selectedDeviceType, setSelectedDeviceType] = useState<DeviceType>('generic');
-  
-  // Get the current device configuration
-  const getDeviceConfig = useCallback((type: DeviceType) => {
-    return DEVICE_SERVICES.find(device => device.type === type) || DEVICE_SERVICES[0];
+  // Failed attempts since the last successful connection, for the backoff
+  const retryAttempt = useRef(0);
+  // Watch to reconnect to; a ref so timers never see a stale one
+  const reconnectTarget = useRef<{ deviceType: DeviceType; deviceId?: string } | null>(null);
+  const [selectedDeviceType, setSelectedDeviceType] = useState<DeviceType>(GENERIC_DRIVER_TYPE);
+  const driverRef = useRef<WearableDriver>(getDriver(selectedDeviceType));
+  // Link to the connected watch, for syncing again later
+  const linkRef = useRef<GattLink | null>(null);
+  // Stops the accelerometer stream used for fall detection
+  const stopAcceleration = useRef<(() => void) | null>(null);
+  const { reportAcceleration } = useFallDetection();
+  const { updateSource, reportReading } = useHealthSources();
+  // The connected watch as a source of readings for the rest of the app
+  const sourceRef = useRef<HealthSource | null>(null);
+  const notifications = useRef(createNotificationRouter()).current;
+  const bridge = useRef(createBridgeClient(request => {
+    if (!webViewRef.current) throw new Error('The BLE page is not loaded');
+    webViewRef.current.injectJavaScript(toInjectedScript(request));
+  })).current;
+
+  useEffect(() => {
+    driverRef.current = getDriver(selectedDeviceType);
+  }, [selectedDeviceType]);
+
+  // Until the watch is identified, ask for every service a driver might need
+  const getDeviceConfig = useCallback((type: DeviceType): GattProfile => {
+    const profile = toGattProfile(getDriver(type));
+    if (type !== GENERIC_DRIVER_TYPE) return profile;
+    const services = getDrivers().reduce<string[]>((all, driver) => all.concat(driver.services), []);
+    return { ...profile, services: Array.from(new Set(services)) };
   }, []);
-  
-  const connectToWatch = useCallback((deviceType: DeviceType = 'generic') => {
-    if (!webViewRef.current) {
-      console.log('WebView ref not available');
-      return false;
+
+  const setSourceStatus = useCallback((status: HealthSource['status']) => {
+    if (!sourceRef.current) return;
+    sourceRef.current = { ...sourceRef.current, status };
+    updateSource(sourceRef.current);
+  }, [updateSource]);
+
+  const applyValue = useCallback((key: string, value: number[]) => {
+    const parsed = driverRef.current.parse(key, value);
+    if (parsed) {
+      if (sourceRef.current) reportReading(sourceRef.current.id, parsed);
+      setWatchData(prev => ({
+        ...prev,
+        ...parsed,
+        status: 'connected',
+        lastUpdated: new Date().toISOString(),
+      }));
     }
-    
-    if (!webViewReady) {
-      console.log('WebView not ready yet, scheduling connection for later');
-      // Schedule connection attempt for when WebView is ready
-      const checkReady = () => {
-        if (webViewReady) {
-          connectToWatch(deviceType);
-        } else {
-          setTimeout(checkReady, 100);
-        }
-      };
-      checkReady();
-      return false;
+  }, [reportReading]);
+
+  const createLink = useCallback((deviceId: string): GattLink => ({
+    deviceId,
+    waitForNotification: notifications.waitForNotification,
+    subscribe: notifications.subscribe,
+    read: async key => {
+      const { value } = await bridge.request('read', { key });
+      applyValue(key, value);
+      return value;
+    },
+    write: async (key, value) => {
+      await bridge.request('write', { key, value });
+    },
+  }), [applyValue, bridge, notifications]);
+
+  const readAll = useCallback(async (link: GattLink, driver: WearableDriver) => {
+    const readable = Object.keys(driver.characteristics).filter(key => driver.characteristics[key].read);
+    await Promise.all(readable.map(key => link.read(key).catch(() => null)));
+  }, []);
+
+  // Pick the driver for the connected watch, then run its handshake, first reads and history download
+  const startDriver = useCallback(async (device: BridgeDevice) => {
+    let driver = driverRef.current;
+    if (driver.type === GENERIC_DRIVER_TYPE) {
+      driver = findDriverForDevice(device.name);
+      driverRef.current = driver;
+      setSelectedDeviceType(driver.type);
+      setWatchData(prev => ({ ...prev, deviceType: driver.type }));
+    }
+
+    const link = createLink(device.id);
+    linkRef.current = link;
+    try {
+      await bridge.request('subscribe', { profile: toGattProfile(driver) });
+      await driver.authenticate?.(link);
+      await driver.start?.(link);
+      await readAll(link, driver);
+      if (driver.streamAcceleration) {
+        stopAcceleration.current = await driver
+          .streamAcceleration(link, samples => reportAcceleration(device.id, samples))
+          .catch(error => {
+            console.error('Error starting accelerometer stream:', error);
+            return null;
+          });
+      }
+
+      // Catch up on what the watch stored while it was out of reach
+      await downloadHistory(link, driver);
+      const sleepData = lastNightSleep((await getHistory('sleep')).filter(sample => sample.deviceId === device.id));
+      if (sleepData) {
+        setWatchData(prev => ({ ...prev, sleepData }));
+        reportReading(device.id, { sleepData });
+      }
+      setHistorySyncedAt(new Date().toISOString());
+    } catch (error: unknown) {
+      console.error('Error starting wearable driver:', error);
+      setWatchData(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Could not set up the watch',
+        lastUpdated: new Date().toISOString()
+      }));
     }
-    
-    // Clear any pending retry timeouts
+  }, [bridge, createLink, readAll, reportAcceleration, reportReading]);
+
+  const handleConnected = useCallback((device: BridgeDevice) => {
+    setWatchData(prev => ({
+      ...prev,
+      status: 'connected',
+      deviceName: device.name,
+      rssi: device.rssi,
+      lastUpdated: new Date().toISOString(),
+      error: undefined
+    }));
+    setIsScanning(false);
+    retryAttempt.current = 0;
+
+    const driver = driverRef.current.type === GENERIC_DRIVER_TYPE ? findDriverForDevice(device.name) : driverRef.current;
+    reconnectTarget.current = { deviceType: driver.type, deviceId: device.id };
+    sourceRef.current = {
+      id: device.id,
+      name: device.name,
+      deviceType: driver.type,
+      status: 'connected',
+      metrics: driver.capabilities,
+    };
+    updateSource(sourceRef.current);
+    savePairedWearable({
+      id: device.id,
+      name: device.name,
+      deviceType: driver.type,
+      transport: 'webview',
+      ...(device.rssi !== undefined && { rssi: device.rssi }),
+    }).then(() => logConnectionEvent({ deviceId: device.id, type: 'connected', rssi: device.rssi }));
+
+    startDriver(device);
+  }, [startDriver, updateSource]);
+
+  // Reconnect to the last watch with exponential backoff. connectToWatch is
+  // reached through a ref because it schedules these retries itself.
+  const connectRef = useRef<(deviceType: DeviceType, deviceId?: string) => void>(() => {});
+  const retryConnection = useCallback(() => {
+    const target = reconnectTarget.current;
+    if (!target) return;
+
     clearTimeout(retryTimeout.current);
-    
+    const delay = backoffDelay(retryAttempt.current);
+    retryAttempt.current += 1;
+    retryTimeout.current = setTimeout(() => connectRef.current(target.deviceType, target.deviceId), delay);
+  }, []);
+
+  const connectToWatch = useCallback(async (deviceType: DeviceType = GENERIC_DRIVER_TYPE, deviceId?: string) => {
+    clearTimeout(retryTimeout.current);
+    if (!webViewReadyRef.current) {
+      // Try again once the page has announced itself
+      retryTimeout.current = setTimeout(() => connectRef.current(deviceType, deviceId), 100);
+      return;
+    }
+
     // Only update status if not already connecting to prevent UI flicker
     setWatchData(prev => {
       if (prev.status === 'connecting') return prev;
-      return { 
-        ...prev, 
-        status: 'connecting', 
+      return {
+        ...prev,
+        status: 'connecting',
         error: undefined,
         deviceType,
         lastUpdated: new Date().toISOString()
       };
     });
-    
-    const deviceConfig = getDeviceConfig(deviceType);
-    
-    const connectScript = `
-      (async function() {
-        try {
-          window.deviceType = '${deviceType}';
-          window.deviceConfig = ${JSON.stringify(deviceConfig)};
-          console.log('Attempting to connect to device...');
-          const result = await window.connectToDevice();
-          console.log('Connection result:', result);
-          if (result && result.status === 'connected') {
-            window.ReactNativeWebView.postMessage(JSON.stringify({
-              type: 'status',
-              status: 'connected',
-              deviceName: result.deviceName || 'Unknown Device'
-            }));
-          }
-        } catch (error) {
-          console.error('Connection error:', error);
-          window.ReactNativeWebView.postMessage(JSON.stringify({
-            type: 'status',
-            status: 'error',
-            error: error.message || 'Failed to connect to device'
-          }));
-        }
-      })();
-      true;
-    `;
-    
-    webViewRef.current.injectJavaScript(connectScript);
-  }, [webViewReady, getDeviceConfig]);
-  
-  const retryConnection = useCallback((delay = 3000) => {
-    if (!webViewReady || !watchData.deviceType) {
-      console.log('Not retrying - WebView not ready or no device type selected');
-      return;
-    }
-    
-    // Only retry if we're not already connecting
-    if (watchData.status === 'connecting') {
-      console.log('Already connecting, skipping retry');
-      return;
-    }
-    
-    console.log(`Scheduling connection retry in ${delay}ms`);
-    
-    const retry = () => {
-      console.log('Executing connection retry');
-      connectToWatch(watchData.deviceType as DeviceType);
-    };
-    
-    if (delay > 0) {
-      retryTimeout.current = setTimeout(retry, delay);
-    } else {
-      retry();
-    }
-  }, [webViewReady, connectToWatch, watchData.deviceType, watchData.status]);
-  
-  const handleWebViewLoad = useCallback(() => {
-    console.log('WebView loaded, setting ready state');
-    setWebViewReady(true);
-    
-    // Send a ready message to the WebView
-    const initScript = `
-      console.log('WebView initialized');
-      window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'webview_ready' }));
-      true;
-    `;
-    
-    if (webViewRef.current) {
-      webViewRef.current.injectJavaScript(initScript);
+
+    driverRef.current = getDriver(deviceType);
+    reconnectTarget.current = { deviceType, deviceId };
+    try {
+      const { device } = await bridge.request('connect', {
+        profile: getDeviceConfig(deviceType),
+        ...(deviceId && { deviceId }),
+      });
+      handleConnected(device);
+    } catch (error: unknown) {
+      console.error('Connection error:', error);
+      const message = error instanceof Error ? error.message : undefined;
+      if (deviceId) logConnectionEvent({ deviceId, type: 'failed', error: message });
+      setWatchData(prev => ({
+        ...prev,
+        status: 'disconnected',
+        // Closing the device picker is not an error
+        error: isBridgeError(error, 'cancelled') ? undefined : message || 'Failed to connect to device',
+        lastUpdated: new Date().toISOString()
+      }));
+      if (isBridgeError(error) && RETRYABLE_ERRORS.includes(error.code)) {
+        retryConnection();
+      } else {
+        reconnectTarget.current = null;
+      }
     }
-  }, []);
-  
+  }, [bridge, getDeviceConfig, handleConnected, retryConnection]);
+  connectRef.current = connectToWatch;
+
+  // Messages the page sends on its own
+  useEffect(() => {
+    const unsubscribes = [
+      bridge.on('ready', ({ bluetooth }) => {
+        webViewReadyRef.current = true;
+        if (!bluetooth) {
+          setWatchData(prev => ({ ...prev, error: 'Bluetooth is not available on this device' }));
+          return;
+        }
+
+        // Reconnect to the watch used last time, so there is nothing to pair again
+        getPairedWearables().then(paired => {
+          const last = paired
+            .filter(device => device.transport === 'webview')
+            .sort((a, b) => (b.lastConnectedAt || '').localeCompare(a.lastConnectedAt || ''))[0];
+          if (last) {
+            setSelectedDeviceType(last.deviceType);
+            connectToWatch(last.deviceType, last.id);
+          }
+        });
+      }),
+      bridge.on('deviceFound', ({ device }) => {
+        setDevices(prev => (prev.some(existing => existing.id === device.id) ? prev : [...prev, device]));
+      }),
+      bridge.on('characteristic', ({ key, value }) => {
+        notifications.deliver(key, value);
+        applyValue(key, value);
+      }),
+      bridge.on('disconnected', ({ deviceId, error }) => {
+        setWatchData(prev => ({
+          ...prev,
+          status: 'disconnected',
+          lastUpdated: new Date().toISOString()
+        }));
+        linkRef.current = null;
+        stopAcceleration.current?.();
+        stopAcceleration.current = null;
+        setSourceStatus('disconnected');
+        logConnectionEvent({ deviceId, type: 'disconnected', ...(error && { error }) });
+        // Does nothing after the senior disconnected on purpose
+        retryConnection();
+      }),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [applyValue, bridge, connectToWatch, notifications, retryConnection, setSourceStatus]);
+
+  const handleMessage = useCallback((event: WebViewMessageEvent) => {
+    bridge.receive(event.nativeEvent.data);
+  }, [bridge]);
+
+  // A reloading page will never answer what was asked of the old one
+  const handleLoadStart = useCallback(() => {
+    webViewReadyRef.current = false;
+    bridge.reset('The BLE page reloaded');
+  }, [bridge]);
+
   const handleError = useCallback((event: { nativeEvent: { description: string } }) => {
     console.error('WebView error:', event.nativeEvent.description);
+    webViewReadyRef.current = false;
+    bridge.reset('The BLE page failed to load');
     setWatchData(prev => ({
       ...prev,
       status: 'disconnected',
       error: 'Connection error. Please try again.',
       lastUpdated: new Date().toISOString()
     }));
-  }, []);
-  
-  const startScan = useCallback(() => {
-    if (!webViewRef.current) return;
-    
+  }, [bridge]);
+
+  const startScan = useCallback(async () => {
     console.log('Starting BLE scan...');
     setIsScanning(true);
     setDevices([]);
-    
-    const scanScript = `
-      window.startScanning();
-      true;
-    `;
-    
-    webViewRef.current.injectJavaScript(scanScript);
-  }, []);
-  
-  const connectToDevice = useCallback((deviceId: string) => {
-    if (!webViewRef.current) return;
-    
-    console.log('Connecting to device:', deviceId);
-    
-    const connectScript = `
-      const device = window.foundDevices?.find(d => d.id === '${deviceId}');
-      if (device) {
-        window.connectToDevice(device);
-      } else {
-        window.ReactNativeWebView.postMessage(JSON.stringify({
-          type: 'error',
-          error: 'Device not found. Please scan again.'
-        }));
-      }
-      true;
-    `;
-    
-    webViewRef.current.injectJavaScript(connectScript);
-  }, []);
-  
-  const handleMessage = useCallback((event: WebViewMessageEvent) => {
     try {
-      const data = JSON.parse(event.nativeEvent.data);
-      const timestamp = new Date().toISOString();
-      
-      console.log('Received message from WebView:', data);
-      
-      // Handle device scanning
-      if (data.type === 'deviceFound') {
-        setDevices(prevDevices => {
-          // Check if device already exists
-          const exists = prevDevices.some(d => d.id === data.device.id);
-          if (!exists) {
-            return [...prevDevices, data.device];
-          }
-          return prevDevices;
-        });
-        return;
-      }
-      
-      // Handle scan started
-      if (data.type === 'scanStarted') {
-        setIsScanning(true);
-        return;
-      }
-      
-      // Handle device selected
-      if (data.type === 'deviceSelected') {
-        setWatchData(prev => ({
-          ...prev,
-          status: 'connecting',
-          deviceName: data.device?.name || 'Unknown Device',
-          lastUpdated: timestamp
-        }));
-        return;
-      }
-      
-      // Handle connected
-      if (data.type === 'connected') {
-        setWatchData(prev => ({
-          ...prev,
-          status: 'connected',
-          deviceName: data.device?.name || 'Unknown Device',
-          rssi: data.device?.rssi,
-          lastUpdated: timestamp,
-          error: undefined
-        }));
-        setIsScanning(false);
-        return;
-      }
-      
-      // Handle errors
-      if (data.type === 'error') {
-        setWatchData(prev => ({
-          ...prev,
-          status: 'disconnected',
-          error: data.error || 'Connection failed',
-          lastUpdated: timestamp
-        }));
-        setIsScanning(false);
-        return;
-      }
-      
-      // Handle different types of data updates
-      if (data.type === 'deviceInfo') {
-        // Update device information
-        setWatchData(prev => ({
-          ...prev,
-          deviceName: data.deviceName,
-          macAddress: data.macAddress,
-          firmwareVersion: data.firmwareVersion,
-          hardwareVersion: data.hardwareVersion,
-          status: 'connected',
-          lastUpdated: timestamp,
-          error: undefined
-        }));
-      } 
-      // Handle health metrics update
-      else if (data.type === 'metrics' || data.heartRate || data.steps || data.battery) {
-        setWatchData(prev => ({
-          ...prev,
-          ...(data.type === 'metrics' ? data.metrics : data),
-          status: 'connected',
-          lastUpdated: timestamp,
-          error: undefined
-        }));
-      } 
-      // Handle activity data
-      else if (data.type === 'activity') {
-        setWatchData(prev => ({
-          ...prev,
-          activityType: data.activityType,
-          activityData: data.activityData,
-          lastUpdated: timestamp
-        }));
+      await bridge.request('scan', { profile: getDeviceConfig(driverRef.current.type) });
+    } catch (error: unknown) {
+      if (!isBridgeError(error, 'cancelled')) {
+        setWatchData(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Could not scan for devices' }));
       }
-      // Handle status updates
-      else if (data.status === 'disconnected') {
-        setWatchData(prev => ({
-          ...prev,
-          status: 'disconnected',
-          lastUpdated: timestamp
-        }));
-        // Auto-reconnect after delay
-        retryTimeout.current = setTimeout(() => {
-          if (watchData.deviceType) {
-            connectToWatch(watchData.deviceType);
-          }
-        }, 3000);
-      } 
-      else if (data.status === 'error') {
-        setWatchData(prev => ({
-          ...prev,
-          status: 'disconnected',
-          error: data.error || 'Connection error',
-          lastUpdated: timestamp
-        }));
-        // Retry after delay on error
-        retryTimeout.current = setTimeout(() => {
-          if (watchData.deviceType) {
-            connectToWatch(watchData.deviceType);
-          }
-        }, 5000);
-      }
-      // Handle raw characteristic updates
-      else if (data.characteristic) {
-        // Process raw characteristic data if needed
-        // This is where you'd parse device-specific data formats
-      }
-    } catch (error) {
-      console.error('Error parsing WebView message:', error, event.nativeEvent.data);
+    } finally {
+      setIsScanning(false);
     }
+  }, [bridge, getDeviceConfig]);
+
+  const connectToDevice = useCallback((deviceId: string) => {
+    retryAttempt.current = 0;
+    connectToWatch(driverRef.current.type, deviceId);
   }, [connectToWatch]);
-  
-  // Clean up timeouts on unmount
+
+  // Clean up timeouts and waiting requests on unmount
   useEffect(() => {
     return () => {
       if (retryTimeout.current) {
         clearTimeout(retryTimeout.current);
       }
+      stopAcceleration.current?.();
+      bridge.reset('The watch screen was closed');
+      setSourceStatus('disconnected');
     };
-  }, []);
+  }, [bridge, setSourceStatus]);
 
   // Function to manually set device type and connect
- const connectToDeviceType = useCallback((deviceType: DeviceType) => {
-  setSelectedDeviceType(deviceType);
-  connectToWatch(deviceType);
-}, [connectToWatch]);
+  const connectToDeviceType = useCallback((deviceType: DeviceType) => {
+    setSelectedDeviceType(deviceType);
+    retryAttempt.current = 0;
+    connectToWatch(deviceType);
+  }, [connectToWatch]);
 
   // Function to manually disconnect
   const disconnectDevice = useCallback(() => {
-    if (webViewRef.current) {
-      const disconnectScript = `
-        if (window.disconnectDevice) {
-          window.disconnectDevice();
-        }
-        true;
-      `;
-      webViewRef.current.injectJavaScript(disconnectScript);
-    }
-    
+    // Chosen by the senior, so do not reconnect behind their back
+    reconnectTarget.current = null;
+    clearTimeout(retryTimeout.current);
+    stopAcceleration.current?.();
+    stopAcceleration.current = null;
+    bridge.request('disconnect', {}).catch(error => console.error('Error disconnecting:', error));
+    setSourceStatus('disconnected');
+
     setWatchData(prev => ({
       ...prev,
       status: 'disconnected',
       lastUpdated: new Date().toISOString()
     }));
-    
-    clearTimeout(retryTimeout.current);
-  }, []);
-  
-  // Function to sync data from device
-  const syncDeviceData = useCallback(() => {
-    if (webViewRef.current && watchData.status === 'connected') {
-      const syncScript = `
-        if (window.syncDeviceData) {
-          window.syncDeviceData()
-            .then(data => {
-              window.ReactNativeWebView.postMessage(JSON.stringify({
-                type: 'metrics',
-                metrics: data
-              }));
-            })
-            .catch(error => {
-              console.error('Sync error:', error);
-              window.ReactNativeWebView.postMessage(JSON.stringify({
-                status: 'error',
-                error: 'Failed to sync data: ' + error.message
-              }));
-            });
-        }
-        true;
-      `;
-      webViewRef.current.injectJavaScript(syncScript);
+  }, [bridge, setSourceStatus]);
+
+  // Read everything from the watch again
+  const syncDeviceData = useCallback(async () => {
+    if (linkRef.current && watchData.status === 'connected') {
+      await readAll(linkRef.current, driverRef.current);
     }
-  }, [watchData.status]);
+  }, [readAll, watchData.status]);
 
   return {
     watchData,
     webViewRef,
     handleMessage,
     handleError,
-    handleWebViewLoad,
+    handleLoadStart,
     retryConnection,
     connectToDevice,
     connectToDeviceType,
@@ -491,9 +402,15 @@ export const useFireBoltWatch = () => {
     syncDeviceData,
     selectedDeviceType,
     setSelectedDeviceType,
-    deviceTypes: DEVICE_SERVICES.map(s => ({
-      type: s.type,
-      name: s.name
+    startScan,
+    devices,
+    isScanning,
+    historySyncedAt,
+    // Metrics the selected driver can report
+    capabilities: getDriver(selectedDeviceType).capabilities,
+    deviceTypes: getDrivers().map(driver => ({
+      type: driver.type,
+      name: driver.name
     }))
   };
 };
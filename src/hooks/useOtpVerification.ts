@@ -0,0 +1,114 @@
+import { useEffect, useReducer, useState } from 'react';
+import { useAuth } from '../contexts/auth/AuthContext';
+import {
+  OTP_POLICY,
+  canResend,
+  createOtpState,
+  getAttemptsRemaining,
+  getOtpAttempts,
+  getOtpLockout,
+  otpReducer,
+  saveOtpAttempts,
+  saveOtpLockout,
+} from '../services/OtpService';
+
+/**
+ * Drives the phone code screen: keeps the verification ID from the last code
+ * sent, spaces out resends and locks the number after too many wrong codes.
+ */
+export const useOtpVerification = (phoneNumber: string, initialVerificationId: string | null = null) => {
+  const { loginWithPhone, verifyOtp } = useAuth();
+  const [state, dispatch] = useReducer(otpReducer, undefined, () =>
+    createOtpState(phoneNumber, initialVerificationId)
+  );
+  const [now, setNow] = useState(Date.now());
+  const [isRestored, setIsRestored] = useState(false);
+
+  // Tick once a second while a countdown is on screen
+  const isCountingDown = state.status === 'lockedOut' || now < state.resendAvailableAt;
+  useEffect(() => {
+    if (!isCountingDown) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [isCountingDown, now]);
+
+  // A lockout, the wrong codes and the codes sent on earlier visits still count
+  useEffect(() => {
+    Promise.all([getOtpLockout(phoneNumber), getOtpAttempts(phoneNumber)]).then(([until, attempts]) => {
+      if (attempts) {
+        // A lockout that ran out while away starts a fresh count, as LOCKOUT_EXPIRED does
+        const failedAttempts =
+          !until && attempts.failedAttempts >= OTP_POLICY.maxFailedAttempts ? 0 : attempts.failedAttempts;
+        dispatch({ type: 'RESTORED', attempts: { ...attempts, failedAttempts } });
+      }
+      if (until) dispatch({ type: 'LOCKED_OUT', until });
+      setIsRestored(true);
+    });
+  }, [phoneNumber]);
+
+  // Only saved once the earlier counts are in, so none is counted twice
+  const isVerified = state.status === 'verified';
+  useEffect(() => {
+    if (!isRestored) return;
+    saveOtpAttempts(
+      phoneNumber,
+      isVerified
+        ? null
+        : {
+            sendCount: state.sendCount,
+            failedAttempts: state.failedAttempts,
+            lastSentAt: state.lastSentAt,
+            updatedAt: Date.now(),
+          }
+    );
+  }, [phoneNumber, isRestored, isVerified, state.sendCount, state.failedAttempts, state.lastSentAt]);
+
+  useEffect(() => {
+    if (state.lockedUntil) saveOtpLockout(phoneNumber, state.lockedUntil);
+  }, [phoneNumber, state.lockedUntil]);
+
+  useEffect(() => {
+    if (state.status === 'lockedOut' && state.lockedUntil && now >= state.lockedUntil) {
+      dispatch({ type: 'LOCKOUT_EXPIRED' });
+      saveOtpLockout(phoneNumber, null);
+    }
+  }, [phoneNumber, state.status, state.lockedUntil, now]);
+
+  const sendCode = async (): Promise<boolean> => {
+    if (!canResend(state, Date.now())) return false;
+    dispatch({ type: 'SEND_REQUESTED' });
+    try {
+      const { verificationId } = await loginWithPhone(phoneNumber);
+      const sentAt = Date.now();
+      dispatch({ type: 'CODE_SENT', verificationId, now: sentAt });
+      setNow(sentAt);
+      return true;
+    } catch (error: any) {
+      dispatch({ type: 'SEND_FAILED', error: error?.message || 'Failed to send verification code' });
+      return false;
+    }
+  };
+
+  const verifyCode = async (code: string): Promise<boolean> => {
+    if (state.status !== 'codeSent' || !state.verificationId) return false;
+    dispatch({ type: 'VERIFY_REQUESTED' });
+    try {
+      await verifyOtp(state.verificationId, code);
+      dispatch({ type: 'VERIFIED' });
+      return true;
+    } catch (error: any) {
+      dispatch({ type: 'VERIFY_FAILED', error: error?.message || 'Invalid verification code', now: Date.now() });
+      return false;
+    }
+  };
+
+  return {
+    state,
+    sendCode,
+    verifyCode,
+    canResend: canResend(state, now),
+    resendInSeconds: Math.max(Math.ceil((state.resendAvailableAt - now) / 1000), 0),
+    lockedForSeconds: state.lockedUntil ? Math.max(Math.ceil((state.lockedUntil - now) / 1000), 0) : 0,
+    attemptsRemaining: getAttemptsRemaining(state),
+  };
+};
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { CommonActions, NavigationProp, useNavigation } from '@react-navigation/native';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { UserRole, hasRole } from '../types/roles';
+
+// Root stack route each role lands on
+export const ROLE_HOME_ROUTES: Record<UserRole, 'SeniorTabs' | 'FamilyNavigator'> = {
+  senior: 'SeniorTabs',
+  family: 'FamilyNavigator',
+};
+
+/**
+ * Replace the whole stack with the role's home, from any nested screen
+ */
+export const openRoleHome = (navigation: NavigationProp<any>, role: UserRole) => {
+  let root = navigation;
+  while (root.getParent()) {
+    root = root.getParent();
+  }
+  root.dispatch(CommonActions.reset({ index: 0, routes: [{ name: ROLE_HOME_ROUTES[role] }] }));
+};
+
+/**
+ * After signing in, open the account's last used role, or RoleSelection for
+ * a new account. Call the returned function once sign-in has succeeded; the
+ * move happens when the account's profile has loaded.
+ */
+export const useRouteAfterSignIn = (): (() => void) => {
+  const navigation = useNavigation<NavigationProp<any>>();
+  const { profile } = useAuth();
+  const [signedIn, setSignedIn] = useState(false);
+
+  useEffect(() => {
+    if (!signedIn || !profile) return;
+    setSignedIn(false);
+    if (profile.activeRole) {
+      openRoleHome(navigation, profile.activeRole);
+    } else {
+      navigation.navigate('RoleSelection');
+    }
+  }, [signedIn, profile, navigation]);
+
+  return () => setSignedIn(true);
+};
+
+/**
+ * Only render the screen for accounts holding `role`; anyone else is sent
+ * back to RoleSelection.
+ */
+export const withRoleGuard = <P extends object>(Component: React.ComponentType<P>, role: UserRole) => {
+  const Guarded = (props: P) => {
+    const navigation = useNavigation();
+    const { profile, isRestoring } = useAuth();
+    const allowed = hasRole(profile, role);
+
+    useEffect(() => {
+      if (!isRestoring && !allowed) {
+        navigation.dispatch(CommonActions.reset({ index: 0, routes: [{ name: 'RoleSelection' }] }));
+      }
+    }, [isRestoring, allowed, navigation]);
+
+    if (!allowed) {
+      return null;
+    }
+    return <Component {...props} />;
+  };
+  Guarded.displayName = `withRoleGuard(${Component.displayName || Component.name || 'Component'})`;
+  return Guarded;
+};
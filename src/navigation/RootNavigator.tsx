@@ -1,12 +1,18 @@
 import React from 'react';
+import { ActivityIndicator, View } from 'react-native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { useTheme } from '../contexts/theme/ThemeContext';
+import { useAuth } from '../contexts/auth/AuthContext';
 
 // Import screens
 import WelcomeScreen from '../screens/WelcomeScreen';
 import LanguageScreen from '../screens/LanguageScreen';
 import OnboardingScreen from '../screens/OnboardingScreen';
 import RoleSelectionScreen from '../screens/RoleSelectionScreen';
+import LoginScreen from '../screens/auth/LoginScreen';
+import OTPVerificationScreen from '../screens/auth/OTPVerificationScreen';
+import EmailLinkSignInScreen from '../screens/auth/EmailLinkSignInScreen';
+import AppLockSettingsScreen from '../screens/AppLockSettingsScreen';
 
 // Import main app screens
 import SeniorDashboard from '../screens/Senior/HomeScreen';
@@ -15,6 +21,9 @@ import MapScreen from '../screens/Senior/MapScreen';
 import RemindersScreen from '../screens/Senior/RemindersScreen';
 import IdShareScreen from '../screens/Senior/IdShareScreen';
 import SOSContactsScreen from '../screens/Senior/SOSContactsScreen';
+import LinkRequestsScreen from '../screens/Senior/LinkRequestsScreen';
+import WalkScreen from '../screens/Senior/WalkScreen';
+import VitalsEntryScreen from '../screens/Senior/VitalsEntryScreen';
 
 // Import family screens
 import HomeScreenFamily from '../screens/family/HomeScreenFamily';
@@ -24,10 +33,12 @@ import AlertsScreen from '../screens/family/AlertsScreen';
 import MessagesScreen from '../screens/family/MessagesScreen';
 import FamilySettingsScreen from '../screens/family/FamilySettingsScreen';
 import SeniorsListScreen from '../screens/family/SeniorsListScreen';
+import ScanQRCodeScreen from '../screens/family/ScanQRCodeScreen';
 
 // Import navigators
 import FamilyNavigator from './FamilyNavigator';
 import { SeniorTabs } from './SeniorTabs';
+import { ROLE_HOME_ROUTES, withRoleGuard } from './RoleGuard';
 
 export type RootStackParamList = {
   // Initial flow
@@ -35,6 +46,11 @@ export type RootStackParamList = {
   Language: undefined;
   Onboarding: undefined;
   RoleSelection: undefined;
+
+  // Sign in
+  Login: undefined;
+  OTPVerification: { phoneNumber: string; verificationId: string };
+  EmailLinkSignIn: { email?: string } | undefined;
   
   // Main App
   Main: undefined;
@@ -56,7 +72,7 @@ export type RootStackParamList = {
   AddSenior: undefined;
   ScanQRCode: undefined;
   AddFamilyMember: undefined;
-  ConnectSenior: undefined;
+  ConnectSenior: { shareCode?: string; seniorName?: string; seniorId?: string } | undefined;
   
   // Family Screens
   SeniorDetail: { seniorId: string };
@@ -66,9 +82,13 @@ export type RootStackParamList = {
   
   // Id Share Screen
   IdShare: undefined;
+  LinkRequests: undefined;
   Map: undefined;
   Reminders: undefined;
   SOSContacts: undefined;
+  AppLockSettings: undefined;
+  Walk: undefined;
+  VitalsEntry: undefined;
   
   // Add index signature for dynamic routes
   [key: string]: undefined | object;
@@ -76,12 +96,29 @@ export type RootStackParamList = {
 
 const Stack = createStackNavigator<RootStackParamList>();
 
+const GuardedSeniorTabs = withRoleGuard(SeniorTabs, 'senior');
+const GuardedFamilyNavigator = withRoleGuard(FamilyNavigator, 'family');
+const GuardedHomeScreenFamily = withRoleGuard(HomeScreenFamily, 'family');
+
 const RootNavigator = () => {
   const { colors, isDark } = useTheme();
+  const { profile, isRestoring } = useAuth();
+
+  // The first screen depends on the restored role, so wait for it
+  if (isRestoring) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', backgroundColor: isDark ? '#1A202C' : '#FFFFFF' }}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  // Returning users skip onboarding and open on the side they used last
+  const initialRouteName = profile?.activeRole ? ROLE_HOME_ROUTES[profile.activeRole] : 'Welcome';
 
   return (
     <Stack.Navigator
-      initialRouteName="Welcome"
+      initialRouteName={initialRouteName}
       screenOptions={{
         headerShown: false,
         cardStyle: { backgroundColor: isDark ? '#1A202C' : '#FFFFFF' },
@@ -92,19 +129,22 @@ const RootNavigator = () => {
       <Stack.Screen name="Language" component={LanguageScreen} />
       <Stack.Screen name="Onboarding" component={OnboardingScreen} />
       <Stack.Screen name="RoleSelection" component={RoleSelectionScreen} />
+      <Stack.Screen name="Login" component={LoginScreen} />
+      <Stack.Screen name="OTPVerification" component={OTPVerificationScreen} />
+      <Stack.Screen name="EmailLinkSignIn" component={EmailLinkSignInScreen} />
       <Stack.Screen name="SOSContacts" component={SOSContactsScreen} />
       
       {/* Main App Tabs */}
       <Stack.Screen 
         name="SeniorTabs" 
-        component={SeniorTabs}
+        component={GuardedSeniorTabs}
         options={{ gestureEnabled: false }}
       />
       
       {/* Family Navigator */}
       <Stack.Screen 
         name="FamilyNavigator" 
-        component={FamilyNavigator}
+        component={GuardedFamilyNavigator}
         options={{ headerShown: false }}
       />
       
@@ -151,7 +191,7 @@ const RootNavigator = () => {
       {/* Individual Family Screens - These can be navigated to directly */}
       <Stack.Screen 
         name="HomeScreenFamily" 
-        component={HomeScreenFamily} 
+        component={GuardedHomeScreenFamily} 
         options={{ headerShown: false }}
       />
       
@@ -174,6 +214,82 @@ const RootNavigator = () => {
         }}
       />
       
+      <Stack.Screen 
+        name="LinkRequests" 
+        component={LinkRequestsScreen}
+        options={{ 
+          title: 'Link Requests',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: isDark ? '#1A202C' : '#FFFFFF',
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 0,
+          },
+          headerTintColor: isDark ? '#E2E8F0' : '#1A202C',
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      
+      <Stack.Screen 
+        name="AppLockSettings" 
+        component={AppLockSettingsScreen}
+        options={{ 
+          title: 'App Lock',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: isDark ? '#1A202C' : '#FFFFFF',
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 0,
+          },
+          headerTintColor: isDark ? '#E2E8F0' : '#1A202C',
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      
+      <Stack.Screen 
+        name="Walk" 
+        component={WalkScreen}
+        options={{ 
+          title: 'Walk',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: isDark ? '#1A202C' : '#FFFFFF',
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 0,
+          },
+          headerTintColor: isDark ? '#E2E8F0' : '#1A202C',
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      
+      <Stack.Screen 
+        name="VitalsEntry" 
+        component={VitalsEntryScreen}
+        options={{ 
+          title: 'Enter a Reading',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: isDark ? '#1A202C' : '#FFFFFF',
+            elevation: 0,
+            shadowOpacity: 0,
+            borderBottomWidth: 0,
+          },
+          headerTintColor: isDark ? '#E2E8F0' : '#1A202C',
+          headerTitleStyle: {
+            fontWeight: '600',
+          },
+        }}
+      />
+      
       <Stack.Screen 
         name="ConnectSenior" 
         component={NewConnectSeniorScreen}
@@ -183,6 +299,15 @@ const RootNavigator = () => {
         }}
       />
       
+      <Stack.Screen 
+        name="ScanQRCode" 
+        component={ScanQRCodeScreen}
+        options={{
+          headerShown: true,
+          title: 'Scan QR Code'
+        }}
+      />
+      
       <Stack.Screen 
         name="SeniorDetail" 
         component={SeniorDetailScreen}
@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Switch, TouchableOpacity, SafeAreaView, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/theme/ThemeContext';
+import { useAppLock } from '../contexts/lock/AppLockContext';
+import PinPad from '../components/PinPad';
+import {
+  PIN_LENGTH,
+  authenticateWithBiometrics,
+  isBiometricAvailable,
+  verifyPin,
+} from '../services/AppLockService';
+import { LOCK_TIMEOUT_OPTIONS } from '../types/appLock';
+
+// What the PIN pad is being shown for; 'view' shows the settings list
+type Mode = 'view' | 'newPin' | 'confirmPin' | 'checkPin';
+
+// Changing the PIN or turning the lock off needs the current PIN first
+type ProtectedAction = 'change' | 'disable';
+
+const AppLockSettingsScreen = () => {
+  const { colors } = useTheme();
+  const { settings, isPinSet, enableLock, disableLock, changePin, updateSettings } = useAppLock();
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [mode, setMode] = useState<Mode>('view');
+  const [action, setAction] = useState<ProtectedAction | null>(null);
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [resetKey, setResetKey] = useState(0);
+
+  const isLockOn = settings.enabled && isPinSet;
+
+  useEffect(() => {
+    isBiometricAvailable().then(setBiometricAvailable);
+  }, []);
+
+  const showPad = (next: Mode, message: string | null = null) => {
+    setError(message);
+    setResetKey(key => key + 1);
+    setMode(next);
+  };
+
+  const backToList = () => {
+    setMode('view');
+    setAction(null);
+    setNewPin('');
+    setError(null);
+  };
+
+  const handleToggleLock = (value: boolean) => {
+    if (value) {
+      showPad('newPin');
+    } else {
+      setAction('disable');
+      showPad('checkPin');
+    }
+  };
+
+  const handleChangePin = () => {
+    setAction('change');
+    showPad('checkPin');
+  };
+
+  const handleToggleBiometric = async (value: boolean) => {
+    // Confirm the finger or face works before relying on it
+    if (value && !(await authenticateWithBiometrics('Confirm to use for unlocking'))) {
+      return;
+    }
+    await updateSettings({ biometricEnabled: value });
+  };
+
+  const handleCheckPin = async (pin: string) => {
+    const result = await verifyPin(pin);
+    if (!result.success) {
+      if (result.lockedUntil) {
+        Alert.alert('Too Many Tries', 'Please wait a few minutes and try again.');
+        backToList();
+      } else {
+        showPad('checkPin', `Wrong PIN. ${result.attemptsRemaining} tries left.`);
+      }
+      return;
+    }
+
+    if (action === 'disable') {
+      await disableLock();
+      backToList();
+    } else {
+      showPad('newPin');
+    }
+  };
+
+  const handleNewPin = (pin: string) => {
+    setNewPin(pin);
+    showPad('confirmPin');
+  };
+
+  const handleConfirmPin = async (pin: string) => {
+    if (pin !== newPin) {
+      showPad('newPin', 'The PINs did not match. Please try again.');
+      return;
+    }
+    try {
+      if (action === 'change') {
+        await changePin(pin);
+      } else {
+        await enableLock(pin);
+      }
+      backToList();
+    } catch (err: any) {
+      Alert.alert('Error', err?.message || 'Could not save your PIN. Please try again.');
+      backToList();
+    }
+  };
+
+  if (mode !== 'view') {
+    const pad = {
+      checkPin: { title: 'Enter Current PIN', subtitle: undefined, onComplete: handleCheckPin },
+      newPin: { title: 'Choose a PIN', subtitle: `Enter ${PIN_LENGTH} digits you will remember`, onComplete: handleNewPin },
+      confirmPin: { title: 'Confirm PIN', subtitle: 'Enter the same PIN again', onComplete: handleConfirmPin },
+    }[mode];
+
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <ScrollView contentContainerStyle={styles.padContent}>
+          <PinPad
+            length={PIN_LENGTH}
+            title={pad.title}
+            subtitle={pad.subtitle}
+            error={error}
+            onComplete={pad.onComplete}
+            resetKey={resetKey}
+          />
+          <TouchableOpacity style={styles.cancelButton} onPress={backToList}>
+            <Text style={[styles.cancelText, { color: colors.primary }]}>Cancel</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.description, { color: colors.textSecondary }]}>
+          Ask for a PIN when CareTrek is opened, so only you can see your health and location.
+        </Text>
+
+        <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <View style={styles.row}>
+            <Ionicons name="lock-closed-outline" size={28} color={colors.text} />
+            <Text style={[styles.rowLabel, { color: colors.text }]}>Lock with PIN</Text>
+            <Switch value={isLockOn} onValueChange={handleToggleLock} />
+          </View>
+
+          {isLockOn && biometricAvailable && (
+            <View style={[styles.row, styles.rowBorder, { borderTopColor: colors.border }]}>
+              <Ionicons name="finger-print" size={28} color={colors.text} />
+              <Text style={[styles.rowLabel, { color: colors.text }]}>Unlock with Fingerprint or Face</Text>
+              <Switch value={settings.biometricEnabled} onValueChange={handleToggleBiometric} />
+            </View>
+          )}
+
+          {isLockOn && (
+            <TouchableOpacity
+              style={[styles.row, styles.rowBorder, { borderTopColor: colors.border }]}
+              onPress={handleChangePin}
+            >
+              <Ionicons name="keypad-outline" size={28} color={colors.text} />
+              <Text style={[styles.rowLabel, { color: colors.text }]}>Change PIN</Text>
+              <Ionicons name="chevron-forward" size={24} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isLockOn && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Lock Again</Text>
+            <View style={[styles.section, { backgroundColor: colors.card, borderColor: colors.border }]}>
+              {LOCK_TIMEOUT_OPTIONS.map((option, index) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.row, index > 0 && [styles.rowBorder, { borderTopColor: colors.border }]]}
+                  onPress={() => updateSettings({ timeoutMs: option.value })}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: settings.timeoutMs === option.value }}
+                >
+                  <Text style={[styles.rowLabel, styles.optionLabel, { color: colors.text }]}>{option.label}</Text>
+                  {settings.timeoutMs === option.value && (
+                    <Ionicons name="checkmark-circle" size={28} color={colors.primary} />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={[styles.description, { color: colors.textSecondary }]}>
+              If you forget your PIN, a linked family member can help you set a new one.
+            </Text>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  padContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  description: {
+    fontSize: 18,
+    lineHeight: 26,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  section: {
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 18,
+  },
+  rowBorder: {
+    borderTopWidth: 1,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 20,
+    marginLeft: 16,
+  },
+  optionLabel: {
+    marginLeft: 0,
+  },
+  cancelButton: {
+    marginTop: 16,
+    padding: 12,
+  },
+  cancelText: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+});
+
+export default AppLockSettingsScreen;
@@ -1,13 +1,13 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth } from '../contexts/auth/AuthContext';
 
 export default function AuthScreen() {
-  const { signInAsGuest, loading } = useAuth();
+  const { guestLogin, isLoading } = useAuth();
 
   const handleGuestSignIn = async () => {
     try {
-      await signInAsGuest();
+      await guestLogin();
       // Navigation to the main app will be handled by the auth state change
     } catch (error) {
       console.error('Guest sign in failed:', error);
@@ -23,9 +23,9 @@ export default function AuthScreen() {
         <TouchableOpacity 
           style={[styles.button, styles.guestButton]} 
           onPress={handleGuestSignIn}
-          disabled={loading}
+          disabled={isLoading}
         >
-          {loading ? (
+          {isLoading ? (
             <ActivityIndicator color="#fff" />
           ) : (
             <Text style={styles.buttonText}>Continue as Guest</Text>
@@ -1,17 +1,21 @@
 import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../navigation/RootNavigator';
 import { useTheme } from '../contexts/theme/ThemeContext';
 import { useTranslation } from '../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../hooks/useCachedTranslation';
+import { useAuth } from '../contexts/auth/AuthContext';
+import { openRoleHome } from '../navigation/RoleGuard';
+import { UserRole } from '../types/roles';
 
 type RoleSelectionScreenNavigationProp = StackNavigationProp<RootStackParamList, 'RoleSelection'>;
 
 const RoleSelectionScreen = ({ navigation }: { navigation: RoleSelectionScreenNavigationProp }) => {
   const { isDark } = useTheme();
   const { currentLanguage } = useTranslation();
+  const { user, isGuest, selectRole, isLoading } = useAuth();
   
   // Translations
   const { translatedText: backText } = useCachedTranslation('← Back', currentLanguage);
@@ -20,15 +24,15 @@ const RoleSelectionScreen = ({ navigation }: { navigation: RoleSelectionScreenNa
   const { translatedText: personalizationText } = useCachedTranslation('This helps us personalize your experience', currentLanguage);
   const { translatedText: seniorText } = useCachedTranslation('I\'m a Senior Citizen', currentLanguage);
   const { translatedText: familyText } = useCachedTranslation('I\'m a Family Member', currentLanguage);
+  const { translatedText: signInText } = useCachedTranslation('Already have an account? Sign in', currentLanguage);
 
-  const handleRoleSelect = (role: 'senior' | 'family') => {
-    console.log(`Selected role: ${role}`);
-    if (role === 'senior') {
-      // Navigate to SeniorTabs stack
-      navigation.navigate('SeniorTabs');
-    } else {
-      // Navigate to HomeScreenFamily for family members
-      navigation.navigate('HomeScreenFamily');
+  const handleRoleSelect = async (role: UserRole) => {
+    try {
+      // Saved on the account so the next launch opens straight on this role
+      await selectRole(role);
+      openRoleHome(navigation, role);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Could not save your role. Please try again.');
     }
   };
 
@@ -66,6 +70,7 @@ const RoleSelectionScreen = ({ navigation }: { navigation: RoleSelectionScreenNa
             <TouchableOpacity 
               style={[styles.button, styles.primaryButton, { backgroundColor: isDark ? '#48BB78' : '#2F855A' }]}
               onPress={() => handleRoleSelect('senior')}
+              disabled={isLoading}
               activeOpacity={0.8}
             >
               <Text style={[styles.buttonText, { color: 'white' }]}>{seniorText}</Text>
@@ -74,12 +79,22 @@ const RoleSelectionScreen = ({ navigation }: { navigation: RoleSelectionScreenNa
             <TouchableOpacity 
               style={[styles.button, styles.secondaryButton, { borderColor: isDark ? '#48BB78' : '#2F855A' }]}
               onPress={() => handleRoleSelect('family')}
+              disabled={isLoading}
               activeOpacity={0.8}
             >
               <Text style={[styles.buttonText, { color: isDark ? '#48BB78' : '#2F855A' }]}>
                 {familyText}
               </Text>
             </TouchableOpacity>
+
+            {/* Signing in restores the roles saved on an existing account */}
+            {!user || isGuest ? (
+              <TouchableOpacity onPress={() => navigation.navigate('Login')} disabled={isLoading}>
+                <Text style={[styles.signInText, { color: isDark ? '#48BB78' : '#2F855A' }]}>
+                  {signInText}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
           </View>
         </View>
       </View>
@@ -159,6 +174,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  signInText: {
+    fontSize: 16,
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+    marginTop: 8,
+  },
 });
 
 export default RoleSelectionScreen;
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,7 +10,8 @@ import {
   RefreshControl,
   Platform,
   Modal,
-  FlatList
+  FlatList,
+  Alert
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -21,10 +22,19 @@ import { Ionicons, MaterialCommunityIcons, MaterialIcons, FontAwesome5 } from '@
 import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
 import { WebView } from 'react-native-webview';
-import { useFireBoltWatch, DeviceType } from '../../hooks/useFireBoltWatch';
+import { useFireBoltWatch } from '../../hooks/useFireBoltWatch';
+import { usePhoneActivity } from '../../contexts/activity/PhoneActivityContext';
+import { useHealthSources } from '../../contexts/health/HealthSourcesContext';
+import { PHONE_SOURCE } from '../../services/FallDetection';
+import { DeviceType, WearableMetric } from '../../types/wearables';
+import { HistoryBucket, HistoryRange, summarizeVitals } from '../../services/HealthTimeSeries';
+import { exportHealthData, importHealthData } from '../../services/HealthDataTransfer';
+import { BRIDGE_PAGE_HTML } from '../../services/wearables/WebViewBridge';
+import SourcePriorityList from '../../components/SourcePriorityList';
+import VitalLimitsEditor from '../../components/VitalLimitsEditor';
 import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
-import { LineChart } from 'react-native-chart-kit';
+import { BarChart, LineChart } from 'react-native-chart-kit';
 import * as Haptics from 'expo-haptics';
 
 // Extend dayjs with relativeTime plugin once
@@ -45,25 +55,22 @@ const getDeviceIcon = (type?: DeviceType) => {
   }
 };
 
-// Simple BLE HTML snippet used in the WebView (kept as-is from your original)
-const BLE_HTML = `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1.0"><script>/* BLE script omitted for brevity in this preview - keep your existing script here */ window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify({status:'ready'}));</script></head><body style="display:none"></body></html>`;
-
 type HealthScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Health'>;
 
-const generateSampleChartData = () => {
-  const labels: string[] = [];
-  const data: number[] = [];
-
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date();
-    date.setDate(date.getDate() - i);
-    labels.push(date.toLocaleDateString('en-US', { weekday: 'short' }));
-    data.push(Math.floor(Math.random() * 5000) + 2000);
-  }
+const HISTORY_RANGES: Array<{ range: HistoryRange; label: string }> = [
+  { range: 'day', label: 'Day' },
+  { range: 'week', label: 'Week' },
+  { range: 'month', label: 'Month' },
+];
 
-  return { labels, data };
+// 24 hours or 30 days of labels do not fit under a phone-width chart, so only some are shown
+const thinLabels = (buckets: HistoryBucket[]) => {
+  const every = buckets.length > 12 ? Math.ceil(buckets.length / 8) : 1;
+  return buckets.map((bucket, index) => (index % every === 0 ? bucket.label : ''));
 };
 
+const formatSleepMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
 const HealthScreen: React.FC = () => {
   const navigation = useNavigation<HealthScreenNavigationProp>();
   const { isDark } = useTheme();
@@ -71,14 +78,25 @@ const HealthScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'activity' | 'sleep' | 'settings'>('overview');
   const [showDeviceList, setShowDeviceList] = useState(false);
+  const [activityRange, setActivityRange] = useState<HistoryRange>('week');
+  const [sleepRange, setSleepRange] = useState<HistoryRange>('week');
+  // Set after an import so the charts pick up its readings
+  const [importedAt, setImportedAt] = useState(0);
+  const [transferring, setTransferring] = useState(false);
+  const [charts, setCharts] = useState<{
+    weeklySteps: HistoryBucket[];
+    activitySteps: HistoryBucket[];
+    activityHeartRate: HistoryBucket[];
+    sleepNights: HistoryBucket[];
+  }>({ weeklySteps: [], activitySteps: [], activityHeartRate: [], sleepNights: [] });
 
   // Using the watch hook — make sure your hook returns these fields
   const {
-    watchData,
+    watchData: deviceData,
     webViewRef,
     handleMessage,
     handleError,
-    handleWebViewLoad,
+    handleLoadStart,
     startScan,
     connectToDevice,
     devices = [],
@@ -87,9 +105,21 @@ const HealthScreen: React.FC = () => {
     selectedDeviceType,
     setSelectedDeviceType,
     syncDeviceData,
-    disconnectDevice
+    disconnectDevice,
+    historySyncedAt,
+    capabilities = []
   } = useFireBoltWatch() as any; // cast to any to avoid TS errors if hook typing differs
 
+  // The tiles show one value per metric from every device in use, the phone included
+  const { sources, readings, data: healthData } = useHealthSources();
+  const phoneActivity = usePhoneActivity();
+  const usesPhone = readings.steps?.sourceId === PHONE_SOURCE;
+  const watchData = usesPhone ? { ...deviceData, activityType: phoneActivity.data.activityType } : deviceData;
+  const sourceName = (metric: WearableMetric) => {
+    const sourceId = readings[metric]?.sourceId;
+    return sources.find(source => source.id === sourceId)?.name;
+  };
+
   // Translations (fallback to static strings if translation keys missing)
   const { translatedText: healthOverviewText = 'Health Overview' } = useCachedTranslation('Health Overview', currentLanguage);
   const { translatedText: backText = 'Back' } = useCachedTranslation('Back', currentLanguage);
@@ -100,6 +130,7 @@ const HealthScreen: React.FC = () => {
   const { translatedText: statusText = 'Status' } = useCachedTranslation('Status', currentLanguage);
   const { translatedText: oxygenText = 'Oxygen' } = useCachedTranslation('Oxygen', currentLanguage);
   const { translatedText: bloodPressureText = 'Blood Pressure' } = useCachedTranslation('Blood Pressure', currentLanguage);
+  const { translatedText: temperatureText = 'Temperature' } = useCachedTranslation('Temperature', currentLanguage);
   const { translatedText: caloriesText = 'Calories' } = useCachedTranslation('Calories', currentLanguage);
   const { translatedText: distanceText = 'Distance' } = useCachedTranslation('Distance', currentLanguage);
   const { translatedText: sleepText = 'Sleep' } = useCachedTranslation('Sleep', currentLanguage);
@@ -112,10 +143,51 @@ const HealthScreen: React.FC = () => {
   const { translatedText: firmwareText = 'Firmware' } = useCachedTranslation('Firmware', currentLanguage);
   const { translatedText: hardwareText = 'Hardware' } = useCachedTranslation('Hardware', currentLanguage);
   const { translatedText: signalStrengthText = 'Signal' } = useCachedTranslation('Signal', currentLanguage);
+  const { translatedText: phoneStepsText = 'Counting steps with this phone' } = useCachedTranslation('Counting steps with this phone', currentLanguage);
+  const { translatedText: walkingText = 'Walking' } = useCachedTranslation('Walking', currentLanguage);
+  const { translatedText: restingText = 'Resting' } = useCachedTranslation('Resting', currentLanguage);
+  const { translatedText: enterReadingText = 'Enter a Reading' } = useCachedTranslation('Enter a Reading', currentLanguage);
+  const { translatedText: inVehicleText = 'In a vehicle' } = useCachedTranslation('In a vehicle', currentLanguage);
   const typeText = 'Type'; // fallback
 
-  // Sample chart data
-  const chartData = useMemo(() => generateSampleChartData(), []);
+  // Reload the charts whenever a download from the watch finishes or the phone stores steps
+  useEffect(() => {
+    let cancelled = false;
+    const loadCharts = async () => {
+      const [weeklySteps, activitySteps, heartRate, sleepNights] = await Promise.all([
+        summarizeVitals('steps', 'week'),
+        summarizeVitals('steps', activityRange),
+        summarizeVitals('heartRate', activityRange),
+        summarizeVitals('sleep', sleepRange === 'day' ? 'week' : sleepRange),
+      ]);
+      // Hours with no reading are left out rather than drawn as zero
+      const activityHeartRate = heartRate.filter(bucket => bucket.value !== null);
+      if (!cancelled) setCharts({ weeklySteps, activitySteps, activityHeartRate, sleepNights });
+    };
+    loadCharts();
+    return () => {
+      cancelled = true;
+    };
+  }, [historySyncedAt, phoneActivity.historyUpdatedAt, importedAt, activityRange, sleepRange]);
+
+  const { weeklySteps, activitySteps, activityHeartRate, sleepNights } = charts;
+
+  const chartConfig = {
+    backgroundColor: isDark ? '#2D3748' : '#FFFFFF',
+    backgroundGradientFrom: isDark ? '#2D3748' : '#FFFFFF',
+    backgroundGradientTo: isDark ? '#2D3748' : '#FFFFFF',
+    decimalPlaces: 0,
+    color: (opacity = 1) => (isDark ? `rgba(255, 255, 255, ${opacity})` : `rgba(0, 0, 0, ${opacity})`),
+    labelColor: (opacity = 1) => (isDark ? `rgba(255, 255, 255, ${opacity})` : `rgba(0, 0, 0, ${opacity})`),
+    style: { borderRadius: 8 },
+    propsForDots: { r: '3', strokeWidth: '1', stroke: isDark ? '#4FD1C5' : '#2C7A7B', fill: isDark ? '#1A202C' : '#FFFFFF' },
+    propsForBackgroundLines: { stroke: isDark ? 'rgba(160, 174, 192, 0.2)' : 'rgba(113, 128, 150, 0.2)' },
+    fillShadowGradient: isDark ? '#4FD1C5' : '#2C7A7B',
+    fillShadowGradientOpacity: 0.1,
+    strokeWidth: 1,
+    barPercentage: 0.5,
+    useShadowColorFromDataset: false
+  };
 
   // Utility: get status color
   const getStatusColor = () => {
@@ -185,6 +257,34 @@ const HealthScreen: React.FC = () => {
     setTimeout(() => setRefreshing(false), 1000);
   }, [syncDeviceData]);
 
+  const handleExport = async () => {
+    setTransferring(true);
+    try {
+      await exportHealthData();
+    } catch (error) {
+      console.error('Error exporting health data:', error);
+      Alert.alert('Export failed', 'Your health data could not be exported. Please try again.');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setTransferring(true);
+    try {
+      const result = await importHealthData();
+      if (!result) return;
+      setImportedAt(Date.now());
+      const skipped = result.skipped ? ` ${result.skipped} entries were skipped.` : '';
+      Alert.alert('Import finished', `Added ${result.vitals} readings and ${result.reminders} medications.${skipped}`);
+    } catch (error) {
+      console.error('Error importing health data:', error);
+      Alert.alert('Import failed', 'That file is not a FHIR health record bundle.');
+    } finally {
+      setTransferring(false);
+    }
+  };
+
   const toggleConnection = () => {
     if (watchData?.status === 'connected') {
       if (typeof disconnectDevice === 'function') disconnectDevice();
@@ -240,6 +340,8 @@ const HealthScreen: React.FC = () => {
     onPress?: () => void;
     iconType?: 'ionicons' | 'material' | 'material-community' | 'font-awesome';
     iconSize?: number;
+    // Name of the device the value came from
+    source?: string;
   }
 
   const HealthMetric: React.FC<HealthMetricProps> = React.memo(({
@@ -251,7 +353,8 @@ const HealthScreen: React.FC = () => {
     isLoading = false,
     onPress,
     iconType = 'ionicons',
-    iconSize = 24
+    iconSize = 24,
+    source
   }) => {
     const content = (
       <View style={[styles.metricCard, {
@@ -279,6 +382,9 @@ const HealthScreen: React.FC = () => {
               {value} <Text style={[styles.metricUnit, { color: isDark ? '#A0AEC0' : '#718096' }]}>{unit}</Text>
             </Text>
           )}
+          {source && !isLoading ? (
+            <Text style={[styles.metricSource, { color: isDark ? '#A0AEC0' : '#718096' }]} numberOfLines={1}>{source}</Text>
+          ) : null}
         </View>
       </View>
     );
@@ -321,6 +427,158 @@ const HealthScreen: React.FC = () => {
     );
   }
 
+  const sourceMetrics = Array.from(new Set(sources.flatMap(source => source.metrics)));
+  const supportedMetrics: WearableMetric[] = sourceMetrics.length ? sourceMetrics : capabilities;
+  const activityLabel = watchData?.activityType === 'walking'
+    ? walkingText
+    : watchData?.activityType === 'inVehicle'
+      ? inVehicleText
+      : restingText;
+  const metricTiles: Array<{ metric: WearableMetric; element: React.ReactNode }> = [
+    {
+      metric: 'heartRate',
+      element: (
+        <HealthMetric
+          key="heartRate"
+          source={sourceName('heartRate')}
+          title={heartRateText}
+          value={healthData.heartRate ? healthData.heartRate.toString() : '--'}
+          unit="bpm"
+          icon="heart"
+          color="#F56565"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="font-awesome"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'steps',
+      element: (
+        <HealthMetric
+          key="steps"
+          source={sourceName('steps')}
+          title={stepsText}
+          value={healthData.steps ? healthData.steps.toLocaleString() : '--'}
+          unit=""
+          icon="walk"
+          color="#9F7AEA"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="ionicons"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'distance',
+      element: (
+        <HealthMetric
+          key="distance"
+          source={sourceName('distance')}
+          title={distanceText}
+          value={healthData.distance ? (healthData.distance / 1000).toFixed(2) : '--'}
+          unit="km"
+          icon="map-marker-distance"
+          color="#38B2AC"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="material-community"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'oxygenSaturation',
+      element: (
+        <HealthMetric
+          key="oxygenSaturation"
+          source={sourceName('oxygenSaturation')}
+          title={oxygenText}
+          value={healthData.oxygenSaturation ? healthData.oxygenSaturation.toString() : '--'}
+          unit="%"
+          icon="air-humidifier"
+          color="#4299E1"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="material-community"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'bloodPressure',
+      element: (
+        <HealthMetric
+          key="bloodPressure"
+          source={sourceName('bloodPressure')}
+          title={bloodPressureText}
+          value={healthData.bloodPressure ? `${healthData.bloodPressure.systolic}/${healthData.bloodPressure.diastolic}` : '--/--'}
+          unit="mmHg"
+          icon="blood-bag"
+          color="#ED8936"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="material-community"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'temperature',
+      element: (
+        <HealthMetric
+          key="temperature"
+          source={sourceName('temperature')}
+          title={temperatureText}
+          value={healthData.temperature ? healthData.temperature.toFixed(1) : '--'}
+          unit="°C"
+          icon="thermometer"
+          color="#E53E3E"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="material-community"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'battery',
+      element: (
+        <HealthMetric
+          key="battery"
+          source={sourceName('battery')}
+          title={batteryText}
+          value={healthData.battery ? healthData.battery.toString() : '--'}
+          unit="%"
+          icon="battery"
+          color={healthData.battery && healthData.battery < 20 ? '#F56565' : '#48BB78'}
+          isLoading={watchData?.status === 'connecting'}
+          iconType="material-community"
+          iconSize={20}
+        />
+      ),
+    },
+    {
+      metric: 'calories',
+      element: (
+        <HealthMetric
+          key="calories"
+          source={sourceName('calories')}
+          title={caloriesText}
+          value={healthData.calories ? healthData.calories.toString() : '--'}
+          unit="kcal"
+          icon="fire"
+          color="#ED8936"
+          isLoading={watchData?.status === 'connecting'}
+          iconType="material-community"
+          iconSize={20}
+        />
+      ),
+    },
+  ];
+  const visibleTiles = metricTiles.filter(tile => supportedMetrics.includes(tile.metric));
+  const metricRows = visibleTiles.reduce<Array<typeof visibleTiles>>((rows, tile, index) => {
+    if (index % 2 === 0) rows.push([]);
+    rows[rows.length - 1].push(tile);
+    return rows;
+  }, []);
+
   // Render overview tab
   const renderOverviewTab = () => (
     <ScrollView
@@ -367,6 +625,15 @@ const HealthScreen: React.FC = () => {
           </TouchableOpacity>
         </View>
 
+        {usesPhone && (
+          <View style={styles.deviceDetails}>
+            <View style={styles.detailRow}>
+              <Text style={[styles.detailLabel, { color: isDark ? '#A0AEC0' : '#718096' }]}>{phoneStepsText}</Text>
+              <Text style={[styles.detailValue, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{activityLabel}</Text>
+            </View>
+          </View>
+        )}
+
         {watchData?.status === 'connected' && (
           <View style={styles.deviceDetails}>
             {watchData?.firmwareVersion && (
@@ -391,122 +658,52 @@ const HealthScreen: React.FC = () => {
         )}
       </View>
 
-      {/* Health Metrics */}
+      {/* Health Metrics, only those the connected watch can measure */}
       <View style={styles.metricsGrid}>
-        <View style={styles.metricsRow}>
-          <HealthMetric
-            title={heartRateText}
-            value={watchData?.heartRate ? watchData.heartRate.toString() : '--'}
-            unit="bpm"
-            icon="heart"
-            color="#F56565"
-            isLoading={watchData?.status === 'connecting'}
-            iconType="font-awesome"
-            iconSize={20}
-          />
-
-          <HealthMetric
-            title={stepsText}
-            value={watchData?.steps ? watchData.steps.toLocaleString() : '--'}
-            unit=""
-            icon="walk"
-            color="#9F7AEA"
-            isLoading={watchData?.status === 'connecting'}
-            iconType="ionicons"
-            iconSize={20}
-          />
-        </View>
-
-        <View style={styles.metricsRow}>
-          <HealthMetric
-            title={oxygenText}
-            value={watchData?.oxygenSaturation ? watchData.oxygenSaturation.toString() : '--'}
-            unit="%"
-            icon="air-humidifier"
-            color="#4299E1"
-            isLoading={watchData?.status === 'connecting'}
-            iconType="material-community"
-            iconSize={20}
-          />
+        {metricRows.map((row, index) => (
+          <View key={index} style={styles.metricsRow}>
+            {row.map(tile => tile.element)}
+          </View>
+        ))}
+      </View>
 
-          <HealthMetric
-            title={bloodPressureText}
-            value={watchData?.bloodPressure ? `${watchData.bloodPressure.systolic}/${watchData.bloodPressure.diastolic}` : '--/--'}
-            unit="mmHg"
-            icon="blood-bag"
-            color="#ED8936"
-            isLoading={watchData?.status === 'connecting'}
-            iconType="material-community"
-            iconSize={20}
-          />
-        </View>
+      {/* Readings from devices that cannot connect are typed or spoken in */}
+      <TouchableOpacity
+        style={[styles.entryButton, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF', borderColor: isDark ? '#4FD1C5' : '#2C7A7B' }]}
+        onPress={() => navigation.navigate('VitalsEntry')}
+      >
+        <Ionicons name="create-outline" size={22} color={isDark ? '#4FD1C5' : '#2C7A7B'} />
+        <Text style={[styles.entryButtonText, { color: isDark ? '#4FD1C5' : '#2C7A7B' }]}>{enterReadingText}</Text>
+      </TouchableOpacity>
 
-        <View style={styles.metricsRow}>
-          <HealthMetric
-            title={batteryText}
-            value={watchData?.battery ? watchData.battery.toString() : '--'}
-            unit="%"
-            icon="battery"
-            color={watchData?.battery && watchData.battery < 20 ? '#F56565' : '#48BB78'}
-            isLoading={watchData?.status === 'connecting'}
-            iconType="material-community"
-            iconSize={20}
-          />
+      {/* Activity Chart */}
+      {supportedMetrics.includes('steps') && (
+        <View style={[styles.chartContainer, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+          <View style={styles.chartHeader}>
+            <Text style={[styles.chartTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{stepsText} {activityText}</Text>
+            <TouchableOpacity onPress={() => setActiveTab('activity')}>
+              <Text style={{ color: isDark ? '#4FD1C5' : '#2C7A7B', fontSize: 12 }}>View All</Text>
+            </TouchableOpacity>
+          </View>
 
-          <HealthMetric
-            title={caloriesText}
-            value={watchData?.calories ? watchData.calories.toString() : '--'}
-            unit="kcal"
-            icon="fire"
-            color="#ED8936"
-            isLoading={watchData?.status === 'connecting'}
-            iconType="material-community"
-            iconSize={20}
+          <LineChart
+            data={{
+              labels: weeklySteps.map(bucket => bucket.label),
+              datasets: [{ data: weeklySteps.map(bucket => bucket.value ?? 0), color: (opacity = 1) => (isDark ? `rgba(79, 209, 197, ${opacity})` : `rgba(44, 122, 123, ${opacity})`), strokeWidth: 2 }]
+            }}
+            width={CHART_WIDTH}
+            height={200}
+            chartConfig={chartConfig}
+            bezier
+            style={styles.chart}
+            withDots
+            withInnerLines
+            withOuterLines
+            fromZero
+            segments={4}
           />
         </View>
-      </View>
-
-      {/* Activity Chart */}
-      <View style={[styles.chartContainer, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
-        <View style={styles.chartHeader}>
-          <Text style={[styles.chartTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{stepsText} {activityText}</Text>
-          <TouchableOpacity onPress={() => setActiveTab('activity')}>
-            <Text style={{ color: isDark ? '#4FD1C5' : '#2C7A7B', fontSize: 12 }}>View All</Text>
-          </TouchableOpacity>
-        </View>
-
-        <LineChart
-          data={{
-            labels: chartData.labels,
-            datasets: [{ data: chartData.data, color: (opacity = 1) => (isDark ? `rgba(79, 209, 197, ${opacity})` : `rgba(44, 122, 123, ${opacity})`), strokeWidth: 2 }]
-          }}
-          width={CHART_WIDTH}
-          height={200}
-          chartConfig={{
-            backgroundColor: isDark ? '#2D3748' : '#FFFFFF',
-            backgroundGradientFrom: isDark ? '#2D3748' : '#FFFFFF',
-            backgroundGradientTo: isDark ? '#2D3748' : '#FFFFFF',
-            decimalPlaces: 0,
-            color: (opacity = 1) => (isDark ? `rgba(255, 255, 255, ${opacity})` : `rgba(0, 0, 0, ${opacity})`),
-            labelColor: (opacity = 1) => (isDark ? `rgba(255, 255, 255, ${opacity})` : `rgba(0, 0, 0, ${opacity})`),
-            style: { borderRadius: 8 },
-            propsForDots: { r: '3', strokeWidth: '1', stroke: isDark ? '#4FD1C5' : '#2C7A7B', fill: isDark ? '#1A202C' : '#FFFFFF' },
-            propsForBackgroundLines: { stroke: isDark ? 'rgba(160, 174, 192, 0.2)' : 'rgba(113, 128, 150, 0.2)' },
-            fillShadowGradient: isDark ? '#4FD1C5' : '#2C7A7B',
-            fillShadowGradientOpacity: 0.1,
-            strokeWidth: 1,
-            barPercentage: 0.5,
-            useShadowColorFromDataset: false
-          }}
-          bezier
-          style={styles.chart}
-          withDots
-          withInnerLines
-          withOuterLines
-          fromZero
-          segments={4}
-        />
-      </View>
+      )}
 
       {/* Sleep Summary */}
       {watchData?.sleepData && (
@@ -545,20 +742,139 @@ const HealthScreen: React.FC = () => {
     </ScrollView>
   );
 
-  const renderActivityTab = () => (
-    <View style={{ flex: 1, padding: 16 }}>
-      <Text style={{ color: isDark ? '#E2E8F0' : '#1A202C', fontSize: 16 }}>Activity tab content will go here</Text>
+  const renderRangeSelector = (selected: HistoryRange, onSelect: (range: HistoryRange) => void, ranges = HISTORY_RANGES) => (
+    <View style={styles.rangeSelector}>
+      {ranges.map(({ range, label }) => (
+        <TouchableOpacity
+          key={range}
+          style={[
+            styles.rangeButton,
+            selected === range && { backgroundColor: isDark ? '#4FD1C5' : '#2C7A7B', borderColor: isDark ? '#4FD1C5' : '#2C7A7B' }
+          ]}
+          onPress={() => onSelect(range)}
+        >
+          <Text style={[styles.rangeButtonText, { color: selected === range ? '#FFFFFF' : (isDark ? '#E2E8F0' : '#1A202C') }]}>{label}</Text>
+        </TouchableOpacity>
+      ))}
     </View>
   );
 
-  const renderSleepTab = () => (
-    <View style={{ flex: 1, padding: 16 }}>
-      <Text style={{ color: isDark ? '#E2E8F0' : '#1A202C', fontSize: 16 }}>Sleep tab content will go here</Text>
-    </View>
+  const renderNoHistory = () => (
+    <Text style={[styles.noHistoryText, { color: isDark ? '#A0AEC0' : '#718096' }]}>
+      Nothing recorded yet. History is downloaded from the watch each time it connects.
+    </Text>
   );
 
+  const renderActivityTab = () => {
+    const totalSteps = activitySteps.reduce((sum, bucket) => sum + (bucket.value ?? 0), 0);
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {renderRangeSelector(activityRange, setActivityRange)}
+
+        <View style={[styles.chartContainer, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+          <View style={styles.chartHeader}>
+            <Text style={[styles.chartTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{stepsText}</Text>
+            <Text style={{ color: isDark ? '#A0AEC0' : '#718096', fontSize: 12 }}>{totalSteps.toLocaleString()} total</Text>
+          </View>
+          {totalSteps > 0 ? (
+            <BarChart
+              data={{ labels: thinLabels(activitySteps), datasets: [{ data: activitySteps.map(bucket => bucket.value ?? 0) }] }}
+              width={CHART_WIDTH}
+              height={200}
+              yAxisLabel=""
+              yAxisSuffix=""
+              chartConfig={chartConfig}
+              style={styles.chart}
+              fromZero
+            />
+          ) : renderNoHistory()}
+        </View>
+
+        <View style={[styles.chartContainer, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+          <View style={styles.chartHeader}>
+            <Text style={[styles.chartTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{heartRateText}</Text>
+            <Text style={{ color: isDark ? '#A0AEC0' : '#718096', fontSize: 12 }}>average bpm</Text>
+          </View>
+          {activityHeartRate.length > 1 ? (
+            <LineChart
+              data={{
+                labels: thinLabels(activityHeartRate),
+                datasets: [{ data: activityHeartRate.map(bucket => bucket.value ?? 0), color: (opacity = 1) => `rgba(229, 62, 62, ${opacity})`, strokeWidth: 2 }]
+              }}
+              width={CHART_WIDTH}
+              height={200}
+              chartConfig={chartConfig}
+              bezier
+              style={styles.chart}
+              withDots={activityHeartRate.length <= 12}
+              segments={4}
+            />
+          ) : renderNoHistory()}
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderSleepTab = () => {
+    const nights = sleepNights.filter(bucket => (bucket.value ?? 0) > 0);
+    const averageSleep = nights.length
+      ? Math.round(nights.reduce((sum, bucket) => sum + (bucket.value ?? 0), 0) / nights.length)
+      : 0;
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {watchData?.sleepData && (
+          <View style={[styles.sleepCard, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+            <View style={styles.sleepHeader}>
+              <Ionicons name="moon" size={20} color={isDark ? '#4FD1C5' : '#2C7A7B'} />
+              <Text style={[styles.sleepTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>Last night</Text>
+            </View>
+            <View style={styles.sleepStats}>
+              {[
+                { label: 'Deep', minutes: watchData.sleepData.deepSleep },
+                { label: 'Light', minutes: watchData.sleepData.lightSleep },
+                { label: 'REM', minutes: watchData.sleepData.remSleep },
+                { label: 'Awake', minutes: watchData.sleepData.awake },
+              ].map(stage => (
+                <View key={stage.label} style={styles.sleepStat}>
+                  <Text style={[styles.sleepStatValue, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{formatSleepMinutes(stage.minutes)}</Text>
+                  <Text style={[styles.sleepStatLabel, { color: isDark ? '#A0AEC0' : '#718096' }]}>{stage.label}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {renderRangeSelector(sleepRange, setSleepRange, HISTORY_RANGES.filter(({ range }) => range !== 'day'))}
+
+        <View style={[styles.chartContainer, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+          <View style={styles.chartHeader}>
+            <Text style={[styles.chartTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{sleepText}</Text>
+            {averageSleep > 0 && (
+              <Text style={{ color: isDark ? '#A0AEC0' : '#718096', fontSize: 12 }}>{formatSleepMinutes(averageSleep)} a night</Text>
+            )}
+          </View>
+          {nights.length ? (
+            <BarChart
+              data={{
+                labels: thinLabels(sleepNights),
+                datasets: [{ data: sleepNights.map(bucket => Math.round(((bucket.value ?? 0) / 60) * 10) / 10) }]
+              }}
+              width={CHART_WIDTH}
+              height={200}
+              yAxisLabel=""
+              yAxisSuffix="h"
+              chartConfig={{ ...chartConfig, decimalPlaces: 1 }}
+              style={styles.chart}
+              fromZero
+            />
+          ) : renderNoHistory()}
+        </View>
+      </ScrollView>
+    );
+  };
+
   const renderSettingsTab = () => (
-    <View style={{ flex: 1, padding: 16 }}>
+    <ScrollView contentContainerStyle={{ padding: 16 }}>
       <Text style={[styles.sectionHeader, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>{deviceText} {settingsText}</Text>
 
       <View style={[styles.settingItem, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
@@ -570,10 +886,23 @@ const HealthScreen: React.FC = () => {
         <Ionicons name="chevron-forward" size={20} color={isDark ? '#A0AEC0' : '#718096'} />
       </View>
 
-      <View style={[styles.settingItem, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+      <TouchableOpacity
+        style={[styles.settingItem, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}
+        onPress={handleExport}
+        disabled={transferring}
+      >
         <Text style={[styles.settingLabel, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>Export Data</Text>
         <Ionicons name="download-outline" size={20} color={isDark ? '#A0AEC0' : '#718096'} />
-      </View>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={[styles.settingItem, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}
+        onPress={handleImport}
+        disabled={transferring}
+      >
+        <Text style={[styles.settingLabel, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>Import Data</Text>
+        <Ionicons name="cloud-upload-outline" size={20} color={isDark ? '#A0AEC0' : '#718096'} />
+      </TouchableOpacity>
 
       <View style={[styles.settingItem, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
         <Text style={[styles.settingLabel, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>About</Text>
@@ -601,7 +930,10 @@ const HealthScreen: React.FC = () => {
           ))}
         </View>
       </View>
-    </View>
+
+      <SourcePriorityList />
+      <VitalLimitsEditor />
+    </ScrollView>
   );
 
   const renderContent = () => {
@@ -660,10 +992,10 @@ const HealthScreen: React.FC = () => {
       <View style={styles.webviewContainer}>
         <WebView
           ref={webViewRef as any}
-          source={{ html: BLE_HTML }}
+          source={{ html: BRIDGE_PAGE_HTML }}
           onMessage={handleMessage}
           onError={handleError}
-          onLoad={handleWebViewLoad}
+          onLoadStart={handleLoadStart}
           onContentProcessDidTerminate={retryConnection}
           style={styles.hiddenWebView}
           originWhitelist={['*']}
@@ -791,12 +1123,19 @@ const styles = StyleSheet.create({
   metricTitle: { fontSize: 12, marginBottom: 2, opacity: 0.8, textTransform: 'uppercase', letterSpacing: 0.5 },
   metricValue: { fontSize: 20, fontWeight: 'bold', marginRight: 4 },
   metricUnit: { fontSize: 12, opacity: 0.7 },
+  metricSource: { fontSize: 11, marginTop: 2, opacity: 0.8 },
 
   // chart
+  entryButton: { flexDirection: 'row', justifyContent: 'center', alignItems: 'center', borderWidth: 1, borderRadius: 12, paddingVertical: 14, marginBottom: 16 },
+  entryButtonText: { fontSize: 16, fontWeight: '600', marginLeft: 8 },
   chartContainer: { borderRadius: 12, padding: 16, marginBottom: 16, shadowColor: '#000', shadowOffset: { width: 0, height: 1 }, shadowOpacity: 0.1, shadowRadius: 2, elevation: 1 },
   chartHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
   chartTitle: { fontSize: 16, fontWeight: '600' },
   chart: { marginVertical: 8, borderRadius: 8 },
+  rangeSelector: { flexDirection: 'row', justifyContent: 'center', marginBottom: 16 },
+  rangeButton: { paddingVertical: 6, paddingHorizontal: 16, borderRadius: 16, borderWidth: 1, borderColor: '#E2E8F0', marginHorizontal: 4 },
+  rangeButtonText: { fontSize: 14, fontWeight: '500' },
+  noHistoryText: { fontSize: 14, textAlign: 'center', paddingVertical: 24 },
 
   // sleep
   sleepCard: { borderRadius: 12, padding: 16, marginBottom: 16, shadowColor: '#000', shadowOffset: { width: 0, height: 1 }, shadowOpacity: 0.1, shadowRadius: 2, elevation: 1 },
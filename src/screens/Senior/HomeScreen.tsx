@@ -8,6 +8,7 @@ import { useTheme } from '../../contexts/theme/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
+import { usePhoneActivity } from '../../contexts/activity/PhoneActivityContext';
 
 type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -15,6 +16,7 @@ const HomeScreen = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const { isDark } = useTheme();
   const { currentLanguage } = useTranslation();
+  const { walk, startWalk } = usePhoneActivity();
 
   // Translations
   const { translatedText: welcomeText } = useCachedTranslation('Welcome back', currentLanguage);
@@ -24,11 +26,25 @@ const HomeScreen = () => {
   const { translatedText: idShareText } = useCachedTranslation('ID Share', currentLanguage);
   const { translatedText: sosText } = useCachedTranslation('SOS', currentLanguage);
   const { translatedText: sosContactsText } = useCachedTranslation('SOS Contacts', currentLanguage);
+  const { translatedText: appLockText } = useCachedTranslation('App Lock', currentLanguage);
+  const { translatedText: startWalkText } = useCachedTranslation('Start Walk', currentLanguage);
+  const { translatedText: walkingText } = useCachedTranslation('Walking', currentLanguage);
   const { translatedText: quickActionsText } = useCachedTranslation('Quick Actions', currentLanguage);
   const { translatedText: backText } = useCachedTranslation('Back', currentLanguage);
 
+  // After a launch straight into the senior tabs there is nothing to go back to
   const handleBack = () => {
-    navigation.goBack();
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.navigate('RoleSelection');
+    }
+  };
+
+  // One tap sets off; the walk screen shows how it is going
+  const handleStartWalk = () => {
+    if (!walk) startWalk();
+    navigation.navigate('Walk');
   };
 
   return (
@@ -83,6 +99,18 @@ const HomeScreen = () => {
               </Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={[styles.quickAction, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}
+              onPress={handleStartWalk}
+            >
+              <View style={[styles.iconContainer, { backgroundColor: isDark ? '#38A169' : '#F0FFF4' }]}>
+                <Ionicons name="walk" size={24} color={isDark ? '#FFFFFF' : '#38A169'} />
+              </View>
+              <Text style={[styles.quickActionText, { color: isDark ? '#E2E8F0' : '#2D3748' }]}>
+                {walk ? walkingText : startWalkText}
+              </Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={[styles.quickAction, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}
               onPress={() => navigation.navigate('Reminders')}
@@ -118,6 +146,18 @@ const HomeScreen = () => {
                 {idShareText}
               </Text>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.quickAction, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}
+              onPress={() => navigation.navigate('AppLockSettings')}
+            >
+              <View style={[styles.iconContainer, { backgroundColor: isDark ? '#4A5568' : '#EDF2F7' }]}>
+                <Ionicons name="lock-closed" size={24} color={isDark ? '#FFFFFF' : '#4A5568'} />
+              </View>
+              <Text style={[styles.quickActionText, { color: isDark ? '#E2E8F0' : '#2D3748' }]}>
+                {appLockText}
+              </Text>
+            </TouchableOpacity>
           </View>
         </View>
       </ScrollView>
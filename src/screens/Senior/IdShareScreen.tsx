@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -12,26 +12,41 @@ import {
   Platform,
   KeyboardAvoidingView,
   SafeAreaView,
+  Switch,
+  Modal,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../navigation/RootNavigator';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
-import { getOrCreateSeniorId, getFamilyMembers, addFamilyMember, removeFamilyMember } from '../../utils/idManager';
+import {
+  getOrCreateSeniorId,
+  getFamilyMembers,
+  addFamilyMember,
+  removeFamilyMember,
+  updateFamilyMemberScopes,
+  getSeniorDisplayName,
+  saveSeniorDisplayName,
+  FamilyMember,
+} from '../../utils/idManager';
+import {
+  getPendingLinkRequests,
+  getRequireApproval,
+  setRequireApproval,
+  setLinkScopes,
+  ShareCode,
+} from '../../services/LinkRequestService';
+import { getActiveShareCode, getRegenerateCooldownRemaining, regenerateShareCode } from '../../services/ShareCodeService';
+import { createPairingPayload } from '../../services/QrPairingService';
+import { formatDistanceToNowStrict } from 'date-fns';
+import QRCode from 'react-native-qrcode-svg';
+import { ALL_PERMISSION_SCOPES, PERMISSION_SCOPE_LABELS, PermissionScope } from '../../types/permissions';
 
 type IdShareScreenNavigationProp = StackNavigationProp<RootStackParamList, 'IdShare'>;
 
-interface FamilyMember {
-  id: string;
-  name: string;
-  email: string;
-  photoURL?: string;
-  role?: string;
-}
-
 const IdShareScreen = () => {
   const { colors, isDark } = useTheme();
   const { t } = useTranslation();
@@ -41,6 +56,13 @@ const IdShareScreen = () => {
   const [email, setEmail] = useState('');
   const [seniorId, setSeniorId] = useState('');
   const [name, setName] = useState('');
+  const [requireApproval, setRequireApprovalState] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [shareCode, setShareCode] = useState<ShareCode | null>(null);
+  const [cooldownRemaining, setCooldownRemaining] = useState(0);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [showQrModal, setShowQrModal] = useState(false);
+  const [qrPayload, setQrPayload] = useState<string | null>(null);
 
   useEffect(() => {
     const loadData = async () => {
@@ -51,6 +73,10 @@ const IdShareScreen = () => {
         ]);
         setSeniorId(id);
         setFamilyMembers(members);
+        setName(await getSeniorDisplayName());
+        setRequireApprovalState(await getRequireApproval(id));
+        setShareCode(await getActiveShareCode(id));
+        setCooldownRemaining(await getRegenerateCooldownRemaining(id));
       } catch (error) {
         console.error('Error loading data:', error);
         Alert.alert('Error', 'Failed to load data');
@@ -62,6 +88,64 @@ const IdShareScreen = () => {
     loadData();
   }, []);
 
+  // Signing takes a moment, so the QR code shows once its payload is ready
+  useEffect(() => {
+    setQrPayload(null);
+    if (!shareCode) return;
+    let cancelled = false;
+    createPairingPayload(shareCode)
+      .then(payload => !cancelled && setQrPayload(payload))
+      .catch(error => console.error('Error signing QR code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [shareCode]);
+
+  // Refresh pending requests and members whenever we come back from the requests list
+  useFocusEffect(
+    useCallback(() => {
+      if (!seniorId) return;
+      getPendingLinkRequests(seniorId).then(requests => setPendingCount(requests.length));
+      getFamilyMembers().then(setFamilyMembers);
+    }, [seniorId])
+  );
+
+  const handleRegenerate = () => {
+    Alert.alert(
+      'Regenerate Code',
+      'Your current code will stop working. You can only do this once every 24 hours.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Regenerate',
+          onPress: async () => {
+            setIsRegenerating(true);
+            try {
+              setShareCode(await regenerateShareCode(seniorId));
+            } catch (error) {
+              console.error('Error regenerating share code:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to regenerate code');
+            } finally {
+              setCooldownRemaining(await getRegenerateCooldownRemaining(seniorId));
+              setIsRegenerating(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleToggleApproval = async (value: boolean) => {
+    setRequireApprovalState(value);
+    try {
+      await setRequireApproval(seniorId, value);
+    } catch (error) {
+      console.error('Error saving approval setting:', error);
+      setRequireApprovalState(!value);
+      Alert.alert('Error', 'Failed to update approval setting');
+    }
+  };
+
   const handleAddFamilyMember = async () => {
     if (!email.trim()) {
       Alert.alert('Error', 'Please enter an email address');
@@ -107,10 +191,31 @@ const IdShareScreen = () => {
     }
   };
 
+  const handleToggleScope = async (member: FamilyMember, scope: PermissionScope) => {
+    // SOS alerts always go through so nobody can be cut off in an emergency
+    if (scope === 'sos') return;
+
+    const scopes = member.scopes.includes(scope)
+      ? member.scopes.filter(s => s !== scope)
+      : ALL_PERMISSION_SCOPES.filter(s => s === scope || member.scopes.includes(s));
+
+    setFamilyMembers(prev => prev.map(m => (m.id === member.id ? { ...m, scopes } : m)));
+    try {
+      await updateFamilyMemberScopes(member.id, scopes);
+      if (member.requesterId) {
+        await setLinkScopes(seniorId, member.requesterId, scopes);
+      }
+    } catch (error) {
+      console.error('Error updating permissions:', error);
+      setFamilyMembers(prev => prev.map(m => (m.id === member.id ? member : m)));
+      Alert.alert('Error', 'Failed to update what this family member can see');
+    }
+  };
+
   const copyToClipboard = async () => {
     try {
-      await Clipboard.setStringAsync(seniorId);
-      Alert.alert('Copied!', 'Senior ID has been copied to clipboard');
+      await Clipboard.setStringAsync(shareCode?.code ?? '');
+      Alert.alert('Copied!', 'Share code has been copied to clipboard');
     } catch (error) {
       console.error('Error copying to clipboard:', error);
       Alert.alert('Error', 'Failed to copy ID to clipboard');
@@ -119,7 +224,7 @@ const IdShareScreen = () => {
 
   const shareViaEmail = async () => {
     try {
-      const message = `I'd like to share my CareTrek Senior ID with you. My ID is: ${seniorId}\n\nPlease use this ID to connect with me in the CareTrek app.`;
+      const message = `I'd like to connect with you on CareTrek. My share code is: ${shareCode?.code}\n\nPlease enter this code in the CareTrek app to connect with me.`;
       const shareOptions = {
         message,
         title: 'Share Senior ID',
@@ -158,12 +263,24 @@ const IdShareScreen = () => {
         >
           <View style={[styles.card, { backgroundColor: colors.card }]}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
-              Your Senior ID
+              Your Share Code
             </Text>
             <View style={styles.idContainer}>
-              <Text style={[styles.seniorId, { color: colors.text }]}>
-                {seniorId || 'Generating ID...'}
+              <Text style={[styles.shareCode, { color: colors.text }]}>
+                {shareCode?.code || 'Generating code...'}
               </Text>
+              <TouchableOpacity 
+                onPress={() => setShowQrModal(true)} 
+                style={[styles.copyButton, { backgroundColor: colors.primary + '20', marginRight: 8 }]}
+                accessibilityLabel="Show QR code"
+                disabled={!shareCode}
+              >
+                <MaterialCommunityIcons
+                  name="qrcode"
+                  size={20}
+                  color={colors.primary}
+                />
+              </TouchableOpacity>
               <TouchableOpacity 
                 onPress={copyToClipboard} 
                 style={[styles.copyButton, { backgroundColor: colors.primary + '20' }]}
@@ -189,9 +306,73 @@ const IdShareScreen = () => {
                 </Text>
               </TouchableOpacity>
             </View>
+            {shareCode && (
+              <Text style={[styles.helperText, { color: colors.textSecondary }]}>
+                Expires in {formatDistanceToNowStrict(new Date(shareCode.expiresAt))}
+              </Text>
+            )}
             <Text style={[styles.helperText, { color: colors.textSecondary }]}>
-              Share this ID with family members to connect with you
+              Share only with trusted family. Your Senior ID: {seniorId}
             </Text>
+
+            <TouchableOpacity
+              style={[
+                styles.regenerateButton,
+                { borderColor: colors.primary, opacity: cooldownRemaining > 0 ? 0.5 : 1 },
+              ]}
+              onPress={handleRegenerate}
+              disabled={cooldownRemaining > 0 || isRegenerating}
+              accessibilityLabel="Regenerate share code"
+            >
+              {isRegenerating ? (
+                <ActivityIndicator color={colors.primary} />
+              ) : (
+                <>
+                  <Ionicons name="refresh" size={18} color={colors.primary} />
+                  <Text style={[styles.actionButtonText, { color: colors.primary }]}>
+                    {cooldownRemaining > 0
+                      ? `Regenerate in ${formatDistanceToNowStrict(Date.now() + cooldownRemaining)}`
+                      : 'Regenerate'}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: colors.card }]}>
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={[styles.settingLabel, { color: colors.text }]}>
+                  Require Approval
+                </Text>
+                <Text style={[styles.settingDescription, { color: colors.textSecondary }]}>
+                  Family members must wait for you to approve their request
+                </Text>
+              </View>
+              <Switch
+                value={requireApproval}
+                onValueChange={handleToggleApproval}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                accessibilityLabel="Require approval for link requests"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.requestsButton, { borderTopColor: colors.border }]}
+              onPress={() => navigation.navigate('LinkRequests')}
+              accessibilityLabel="View pending link requests"
+            >
+              <Ionicons name="people" size={22} color={colors.primary} />
+              <Text style={[styles.requestsButtonText, { color: colors.text }]}>
+                Pending Link Requests
+              </Text>
+              {pendingCount > 0 && (
+                <View style={[styles.badge, { backgroundColor: colors.error }]}>
+                  <Text style={styles.badgeText}>{pendingCount}</Text>
+                </View>
+              )}
+              <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
           </View>
 
           <View style={[styles.card, { backgroundColor: colors.card }]}>
@@ -253,6 +434,32 @@ const IdShareScreen = () => {
                     <Text style={[styles.memberEmail, { color: colors.textSecondary }]}>
                       {member.email}
                     </Text>
+                    <View style={styles.scopeList}>
+                      {ALL_PERMISSION_SCOPES.map(scope => {
+                        const granted = member.scopes.includes(scope);
+                        return (
+                          <TouchableOpacity
+                            key={scope}
+                            style={[
+                              styles.scopeChip,
+                              {
+                                borderColor: colors.primary,
+                                backgroundColor: granted ? colors.primary : 'transparent',
+                              },
+                            ]}
+                            onPress={() => handleToggleScope(member, scope)}
+                            disabled={scope === 'sos'}
+                            accessibilityRole="switch"
+                            accessibilityState={{ checked: granted, disabled: scope === 'sos' }}
+                            accessibilityLabel={`${member.name} can see ${PERMISSION_SCOPE_LABELS[scope]}`}
+                          >
+                            <Text style={[styles.scopeChipText, { color: granted ? '#FFFFFF' : colors.primary }]}>
+                              {PERMISSION_SCOPE_LABELS[scope]}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
                   </View>
                   <TouchableOpacity 
                     onPress={() => handleRemoveMember(member.id)}
@@ -271,6 +478,57 @@ const IdShareScreen = () => {
           </View>
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <Modal
+        visible={showQrModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowQrModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
+            <Text style={[styles.sectionTitle, { color: colors.text, textAlign: 'center' }]}>
+              Scan to Connect
+            </Text>
+            {qrPayload ? (
+              <View style={styles.qrContainer}>
+                <QRCode value={qrPayload} size={220} />
+              </View>
+            ) : (
+              <ActivityIndicator style={styles.qrContainer} color={colors.primary} />
+            )}
+            <TextInput
+              style={[
+                styles.input,
+                styles.nameInput,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              placeholder="Your name (shown to family)"
+              placeholderTextColor={colors.textTertiary}
+              value={name}
+              onChangeText={setName}
+              onEndEditing={() => saveSeniorDisplayName(name)}
+              autoCapitalize="words"
+              returnKeyType="done"
+            />
+            <Text style={[styles.helperText, { color: colors.textSecondary, textAlign: 'center' }]}>
+              Ask your family member to scan this code from their CareTrek app
+            </Text>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.modalCloseButton, { backgroundColor: colors.primary }]}
+              onPress={() => {
+                saveSeniorDisplayName(name);
+                setShowQrModal(false);
+              }}
+              accessibilityLabel="Close QR code"
+            >
+              <Text style={[styles.actionButtonText, { color: '#FFFFFF', marginLeft: 0 }]}>
+                Done
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 };
@@ -341,6 +599,49 @@ const styles = StyleSheet.create({
     marginRight: 12,
     flex: 1,
   },
+  shareCode: {
+    fontSize: 32,
+    fontWeight: '700',
+    letterSpacing: 6,
+    fontFamily: Platform.OS === 'ios' ? 'Courier' : 'monospace',
+    marginRight: 12,
+    flex: 1,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 24,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  nameInput: {
+    flex: 0,
+    marginRight: 0,
+    marginBottom: 8,
+  },
+  modalCloseButton: {
+    flex: 0,
+    marginTop: 16,
+  },
+  regenerateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 12,
+  },
   copyButton: {
     padding: 8,
     borderRadius: 8,
@@ -413,10 +714,71 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.8,
   },
+  scopeList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  scopeChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  scopeChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
   removeButton: {
     padding: 8,
     marginLeft: 8,
   },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  settingInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  settingDescription: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  requestsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+  },
+  requestsButtonText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 12,
+  },
+  badge: {
+    minWidth: 24,
+    height: 24,
+    borderRadius: 12,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
 });
 
 export default IdShareScreen;
\ No newline at end of file
@@ -0,0 +1,279 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme/ThemeContext';
+import { getOrCreateSeniorId, addFamilyMember } from '../../utils/idManager';
+import { formatTimeAgo } from '../../utils/dateUtils';
+import {
+  LinkRequest,
+  getPendingLinkRequests,
+  approveLinkRequest,
+  rejectLinkRequest,
+} from '../../services/LinkRequestService';
+
+const LinkRequestsScreen = () => {
+  const { colors } = useTheme();
+  const [requests, setRequests] = useState<LinkRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const seniorId = await getOrCreateSeniorId();
+      setRequests(await getPendingLinkRequests(seniorId));
+    } catch (error) {
+      console.error('Error loading link requests:', error);
+    } finally {
+      setIsLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRequests();
+    }, [loadRequests])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadRequests();
+  };
+
+  const handleApprove = async (request: LinkRequest) => {
+    setRespondingId(request.id);
+    try {
+      const approved = await approveLinkRequest(request.id);
+      if (!approved) {
+        Alert.alert('Request Unavailable', 'This request has expired or was already answered.');
+      } else {
+        await addFamilyMember(approved.requesterEmail || approved.requesterId, approved.requesterName, {
+          requesterId: approved.requesterId,
+        });
+        Alert.alert(
+          'Approved',
+          `${approved.requesterName} can now see your information. You can limit what they see from Share ID.`
+        );
+      }
+    } catch (error) {
+      console.error('Error approving link request:', error);
+      Alert.alert('Error', 'Failed to approve request. Please try again.');
+    } finally {
+      setRespondingId(null);
+      loadRequests();
+    }
+  };
+
+  const handleReject = (request: LinkRequest) => {
+    Alert.alert(
+      'Reject Request',
+      `Do you want to reject the request from ${request.requesterName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reject',
+          style: 'destructive',
+          onPress: async () => {
+            setRespondingId(request.id);
+            try {
+              await rejectLinkRequest(request.id);
+            } catch (error) {
+              console.error('Error rejecting link request:', error);
+              Alert.alert('Error', 'Failed to reject request. Please try again.');
+            } finally {
+              setRespondingId(null);
+              loadRequests();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRequest = ({ item }: { item: LinkRequest }) => {
+    const isResponding = respondingId === item.id;
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.card }]}>
+        <View style={styles.requestHeader}>
+          <View style={[styles.avatar, { backgroundColor: colors.primary + '20' }]}>
+            <Ionicons name="person" size={28} color={colors.primary} />
+          </View>
+          <View style={styles.requestInfo}>
+            <Text style={[styles.requesterName, { color: colors.text }]}>
+              {item.requesterName}
+            </Text>
+            {item.requesterEmail ? (
+              <Text style={[styles.requesterDetail, { color: colors.textSecondary }]}>
+                {item.requesterEmail}
+              </Text>
+            ) : null}
+            <Text style={[styles.requesterDetail, { color: colors.textSecondary }]}>
+              Sent {formatTimeAgo(item.createdAt)}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.rejectButton, { borderColor: colors.error }]}
+            onPress={() => handleReject(item)}
+            disabled={isResponding}
+            accessibilityLabel={`Reject ${item.requesterName}`}
+          >
+            <Ionicons name="close" size={24} color={colors.error} />
+            <Text style={[styles.actionButtonText, { color: colors.error }]}>Reject</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: colors.primary }]}
+            onPress={() => handleApprove(item)}
+            disabled={isResponding}
+            accessibilityLabel={`Approve ${item.requesterName}`}
+          >
+            {isResponding ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <>
+                <Ionicons name="checkmark" size={24} color="#FFFFFF" />
+                <Text style={[styles.actionButtonText, { color: '#FFFFFF' }]}>Approve</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <FlatList
+        data={requests}
+        keyExtractor={(item) => item.id}
+        renderItem={renderRequest}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+        }
+        ListHeaderComponent={
+          <Text style={[styles.helperText, { color: colors.textSecondary }]}>
+            Only approve people you know and trust.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="people-outline" size={64} color={colors.textTertiary} />
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              No pending requests
+            </Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  helperText: {
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  requestInfo: {
+    flex: 1,
+  },
+  requesterName: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  requesterDetail: {
+    fontSize: 16,
+    marginBottom: 2,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginHorizontal: 4,
+  },
+  rejectButton: {
+    borderWidth: 2,
+  },
+  actionButtonText: {
+    marginLeft: 8,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 18,
+    marginTop: 16,
+  },
+});
+
+export default LinkRequestsScreen;
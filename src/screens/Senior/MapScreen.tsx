@@ -20,7 +20,9 @@ import MapView, { Marker, Circle, Region, MapType, Polyline } from 'react-native
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readStore, writeStore } from '../../services/StorageService';
+import { saveSyncedCollection } from '../../services/SyncService';
+import { LocationPoint, SafeZone } from '../../types/location';
 import { RootStackParamList } from '../../navigation/RootNavigator';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
@@ -32,26 +34,6 @@ const { width, height } = Dimensions.get('window');
 
 type MapScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Map'>;
 
-type LocationPoint = {
-  latitude: number;
-  longitude: number;
-  timestamp: number;
-};
-
-type SafeZone = {
-  id: string;
-  title: string;
-  latitude: number;
-  longitude: number;
-  radius: number;
-};
-
-const STORAGE_KEYS = {
-  FAVORITES: '@map_favorites_v1',
-  SAFE_ZONES: '@map_safezones_v1',
-  HISTORY: '@map_history_v1',
-  HOME: '@map_home_v1',
-};
 
 const DEFAULT_REGION: Region = {
   latitude: 21.005066,
@@ -115,6 +97,7 @@ const MapScreen: React.FC = () => {
   const [routeSteps, setRouteSteps] = useState<Array<{ instruction: string; lat: number; lng: number }>>([]);
   const navAnimRef = useRef<number | null>(null);
   const navIndexRef = useRef<number>(0);
+  const persistedLoaded = useRef(false);
 
   // Request location permission for both Android and iOS
   const requestLocationPermission = async () => {
@@ -326,11 +309,12 @@ const MapScreen: React.FC = () => {
     };
   }, []);
 
-  // persist favorites/safezones/history/home when changed
-  useEffect(() => { AsyncStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(favorites)).catch(() => {}); }, [favorites]);
-  useEffect(() => { AsyncStorage.setItem(STORAGE_KEYS.SAFE_ZONES, JSON.stringify(safeZones)).catch(() => {}); }, [safeZones]);
-  useEffect(() => { AsyncStorage.setItem(STORAGE_KEYS.HISTORY, JSON.stringify(locationHistory)).catch(() => {}); }, [locationHistory]);
-  useEffect(() => { AsyncStorage.setItem(STORAGE_KEYS.HOME, JSON.stringify(homeLocation)).catch(() => {}); }, [homeLocation]);
+  // persist favorites/safezones/history/home when changed; skip the initial empty
+  // state so it can't overwrite (or sync a deletion of) what is about to load
+  useEffect(() => { if (persistedLoaded.current) writeStore('mapFavorites', favorites).catch(() => {}); }, [favorites]);
+  useEffect(() => { if (persistedLoaded.current) saveSyncedCollection('safeZones', safeZones).catch(() => {}); }, [safeZones]);
+  useEffect(() => { if (persistedLoaded.current) writeStore('mapHistory', locationHistory).catch(() => {}); }, [locationHistory]);
+  useEffect(() => { if (persistedLoaded.current) writeStore('mapHome', homeLocation).catch(() => {}); }, [homeLocation]);
 
   // update address when currentLocation changes
   useEffect(() => {
@@ -350,21 +334,18 @@ const MapScreen: React.FC = () => {
   // ---------- helpers ----------
   const loadPersistedData = async () => {
     try {
-      const favRaw = await AsyncStorage.getItem(STORAGE_KEYS.FAVORITES);
-      const szRaw = await AsyncStorage.getItem(STORAGE_KEYS.SAFE_ZONES);
-      const histRaw = await AsyncStorage.getItem(STORAGE_KEYS.HISTORY);
-      const homeRaw = await AsyncStorage.getItem(STORAGE_KEYS.HOME);
-      if (favRaw) setFavorites(JSON.parse(favRaw));
-      if (szRaw) setSafeZones(JSON.parse(szRaw));
-      if (histRaw) setLocationHistory(JSON.parse(histRaw));
-      if (homeRaw) {
-        const h = JSON.parse(homeRaw);
+      setFavorites(await readStore('mapFavorites'));
+      setSafeZones(await readStore('mapSafeZones'));
+      setLocationHistory(await readStore('mapHistory'));
+      const h = await readStore('mapHome');
+      if (h) {
         setHomeLocation(h);
-        if (h) reverseGeocode(h.latitude, h.longitude).then(a => setHomeAddress(a)).catch(() => {});
+        reverseGeocode(h.latitude, h.longitude).then(a => setHomeAddress(a)).catch(() => {});
       }
     } catch (e) {
       console.warn('Load persisted failed', e);
     }
+    persistedLoaded.current = true;
 
     // if no history, seed demo
     if (!locationHistory || locationHistory.length === 0) {
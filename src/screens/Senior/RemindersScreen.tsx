@@ -23,7 +23,11 @@ import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import * as Notifications from 'expo-notifications';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readStore } from '../../services/StorageService';
+import { saveSyncedCollection } from '../../services/SyncService';
+import { DoseStatus, Reminder } from '../../types/reminders';
+import { parseTimeString } from '../../utils/dateUtils';
+import { logDose } from '../../services/MedicationAdherence';
 
 // Notification handler (foreground behavior)
 Notifications.setNotificationHandler({
@@ -34,18 +38,7 @@ Notifications.setNotificationHandler({
   }),
 });
 
-type Reminder = {
-  id: string;
-  title: string;
-  time: string; // "hh:mm AM/PM"
-  date: Date;
-  type: 'medication' | 'activity';
-  enabled: boolean;
-  notificationId?: string | null;
-};
-
 type RemindersScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Reminders'>;
-const STORAGE_KEY = '@CareTrek/reminders';
 
 // Haptics / vibration helper
 const triggerNotificationFeedback = async () => {
@@ -64,15 +57,6 @@ const triggerNotificationFeedback = async () => {
   }
 };
 
-// Helper: parse "hh:mm AM/PM" to {hours, minutes}
-const parseTimeString = (timeStr = '08:00 AM') => {
-  const [time, modifier] = timeStr.split(' ');
-  let [hours, minutes] = time.split(':').map(Number);
-  if (modifier === 'PM' && hours < 12) hours += 12;
-  if (modifier === 'AM' && hours === 12) hours = 0;
-  return { hours, minutes };
-};
-
 // Helper: convert "hh:mm AM/PM" to Date (next occurrence)
 const timeStringToDate = (timeStr = '08:00 AM') => {
   const now = new Date();
@@ -106,7 +90,10 @@ const RemindersScreen: React.FC = () => {
   // Persist reminders
   const saveReminders = useCallback(async (updatedReminders: Reminder[]) => {
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedReminders));
+      await saveSyncedCollection(
+        'reminders',
+        updatedReminders.map(r => ({ ...r, date: new Date(r.date).toISOString() }))
+      );
     } catch (e) {
       console.error('saveReminders error', e);
     }
@@ -194,10 +181,9 @@ const RemindersScreen: React.FC = () => {
   // Load reminders from storage; schedule ones lacking notificationId
   const loadReminders = useCallback(async () => {
     try {
-      const json = await AsyncStorage.getItem(STORAGE_KEY);
-      if (!json) return;
-      const parsed = JSON.parse(json) as any[];
-      const normalized: Reminder[] = parsed.map(r => ({ ...r, date: r.date ? new Date(r.date) : new Date() }));
+      const stored = await readStore('reminders');
+      if (stored.length === 0) return;
+      const normalized: Reminder[] = stored.map(r => ({ ...r, date: new Date(r.date) }));
       setReminders(normalized);
 
       // schedule enabled reminders missing notificationId
@@ -261,9 +247,37 @@ const RemindersScreen: React.FC = () => {
     [reminders]
   );
 
+  // Answer today's dose of a medication, for the adherence in health reports
+  const handleDose = useCallback(
+    async (reminderId: string, status: DoseStatus) => {
+      const reminder = reminders.find(r => r.id === reminderId);
+      if (!reminder) return;
+      try {
+        await logDose(reminder, status);
+      } catch (e) {
+        console.error('logDose error', e);
+      }
+    },
+    [reminders]
+  );
+
   // Show action choices when tapping notification
   const showReminderActions = useCallback(
     (reminderId: string) => {
+      // Android shows at most three buttons; the switch in the list still stops a medication reminder
+      if (reminders.find(r => r.id === reminderId)?.type === 'medication') {
+        Alert.alert(
+          'Medication',
+          'Did you take it?',
+          [
+            { text: 'Taken', onPress: () => handleDose(reminderId, 'taken') },
+            { text: 'Snooze 5m', onPress: () => handleSnoozeReminder(reminderId, 5) },
+            { text: 'Skip', style: 'destructive', onPress: () => handleDose(reminderId, 'skipped') },
+          ],
+          { cancelable: true }
+        );
+        return;
+      }
       Alert.alert('Reminder', 'What would you like to do?', [
         {
           text: 'Stop Reminder',
@@ -277,7 +291,7 @@ const RemindersScreen: React.FC = () => {
         { text: 'Cancel', style: 'cancel' },
       ]);
     },
-    [handleStopReminder, handleSnoozeReminder]
+    [reminders, handleStopReminder, handleSnoozeReminder, handleDose]
   );
 
   // Setup notification listeners
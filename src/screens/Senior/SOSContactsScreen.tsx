@@ -1,5 +1,5 @@
 // src/screens/senior/SOSContactsScreen.tsx
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -22,16 +22,9 @@ import { useTheme } from '../../contexts/theme/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
-
-type ContactType = 'family' | 'police' | 'medical' | 'other';
-
-type SOSContact = {
-  id: string;
-  name: string;
-  phone: string;
-  type: ContactType;
-  isEmergency: boolean;
-};
+import { readStore } from '../../services/StorageService';
+import { saveSyncedCollection } from '../../services/SyncService';
+import { ContactType, DEFAULT_SOS_CONTACTS, SOSContact } from '../../types/sos';
 
 type SOSNavigationProp = StackNavigationProp<RootStackParamList, 'SOSContacts'>;
 
@@ -58,34 +51,21 @@ const SOSContactsScreen = () => {
   const { translatedText: deleteText } = useCachedTranslation('Delete', currentLanguage);
   const { translatedText: emergencyContactText } = useCachedTranslation('Emergency Contact', currentLanguage);
 
-  const [contacts, setContacts] = useState<SOSContact[]>([
-    {
-      id: '1',
-      name: 'Local Police',
-      phone: '100',
-      type: 'police',
-      isEmergency: true
-    },
-    {
-      id: '2',
-      name: 'Ambulance',
-      phone: '108',
-      type: 'medical',
-      isEmergency: true
-    },
-    {
-      id: '3',
-      name: 'Fire Department',
-      phone: '101',
-      type: 'other',
-      isEmergency: true
-    }
-  ]);
+  const [contacts, setContacts] = useState<SOSContact[]>(DEFAULT_SOS_CONTACTS);
+
+  useEffect(() => {
+    readStore('sosContacts').then(setContacts);
+  }, []);
+
+  const updateContacts = (updated: SOSContact[]) => {
+    setContacts(updated);
+    saveSyncedCollection('sosContacts', updated).catch(error => {
+      console.error('Error saving SOS contacts:', error);
+    });
+  };
 
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [currentContact, setCurrentContact] = useState<SOSContact | null>(null);
-  type ContactType = 'family' | 'police' | 'medical' | 'other';
-  
   const [formData, setFormData] = useState<{
     name: string;
     phone: string;
@@ -132,7 +112,7 @@ const SOSContactsScreen = () => {
 
     if (currentContact) {
       // Update existing contact
-      setContacts(contacts.map(contact => 
+      updateContacts(contacts.map(contact => 
         contact.id === currentContact.id ? { ...formData, id: currentContact.id } : contact
       ));
     } else {
@@ -141,7 +121,7 @@ const SOSContactsScreen = () => {
         ...formData,
         id: Date.now().toString()
       };
-      setContacts([...contacts, newContact]);
+      updateContacts([...contacts, newContact]);
     }
     setIsModalVisible(false);
   };
@@ -159,7 +139,7 @@ const SOSContactsScreen = () => {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
-            setContacts(contacts.filter(contact => contact.id !== id));
+            updateContacts(contacts.filter(contact => contact.id !== id));
           }
         }
       ]
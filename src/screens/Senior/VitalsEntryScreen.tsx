@@ -0,0 +1,456 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { ExpoSpeechRecognitionModule, useSpeechRecognitionEvent } from 'expo-speech-recognition';
+import { useTheme } from '../../contexts/theme/ThemeContext';
+import { useTranslation } from '../../contexts/translation/TranslationContext';
+import { useCachedTranslation } from '../../hooks/useCachedTranslation';
+import { useHealthSources } from '../../contexts/health/HealthSourcesContext';
+import { MANUAL_SOURCE } from '../../services/HealthTimeSeries';
+import {
+  MANUAL_VITALS,
+  READING_CONTEXTS,
+  getManualReadings,
+  parseManualValue,
+  parseSpokenReading,
+  saveManualReading,
+  validateManualReading,
+} from '../../services/ManualVitals';
+import { ManualReading, ManualVitalKind, ReadingContext, VitalMetric } from '../../types/vitals';
+
+const KINDS: Array<{ kind: ManualVitalKind; icon: keyof typeof Ionicons.glyphMap }> = [
+  { kind: 'bloodPressure', icon: 'pulse' },
+  { kind: 'glucose', icon: 'water' },
+  { kind: 'weight', icon: 'barbell-outline' },
+  { kind: 'temperature', icon: 'thermometer-outline' },
+];
+
+const RECENT_SHOWN = 5;
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const formatReading = ({ kind, values }: ManualReading) =>
+  kind === 'bloodPressure'
+    ? `${values.systolic}/${values.diastolic}`
+    : `${values[MANUAL_VITALS[kind].fields[0].metric]}`;
+
+/**
+ * For readings from a cuff, meter, scale or thermometer that cannot connect:
+ * the senior types the numbers or says them, and they join the readings from
+ * their devices.
+ */
+const VitalsEntryScreen = () => {
+  const { colors } = useTheme();
+  const { currentLanguage } = useTranslation();
+  const { updateSource, reportReading } = useHealthSources();
+  const [kind, setKind] = useState<ManualVitalKind>('bloodPressure');
+  const [texts, setTexts] = useState<Partial<Record<VitalMetric, string>>>({});
+  const [errors, setErrors] = useState<Partial<Record<VitalMetric, string>>>({});
+  const [context, setContext] = useState<ReadingContext | undefined>();
+  // When the reading was taken, if not just now
+  const [takenAt, setTakenAt] = useState<Date | null>(null);
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  const [listening, setListening] = useState(false);
+  const [heard, setHeard] = useState('');
+  const [message, setMessage] = useState('');
+  const [recent, setRecent] = useState<ManualReading[]>([]);
+  const spec = MANUAL_VITALS[kind];
+
+  const { translatedText: enterReadingText = 'Type the numbers or tap the microphone and say them.' } = useCachedTranslation('Type the numbers or tap the microphone and say them.', currentLanguage);
+  const { translatedText: speakText = 'Say the Numbers' } = useCachedTranslation('Say the Numbers', currentLanguage);
+  const { translatedText: listeningText = 'Listening…' } = useCachedTranslation('Listening…', currentLanguage);
+  const { translatedText: noMicText = 'Voice entry needs microphone access.' } = useCachedTranslation('Voice entry needs microphone access.', currentLanguage);
+  const { translatedText: notHeardText = 'Sorry, that was not clear. Please try again.' } = useCachedTranslation('Sorry, that was not clear. Please try again.', currentLanguage);
+  const { translatedText: takenText = 'Taken' } = useCachedTranslation('Taken', currentLanguage);
+  const { translatedText: justNowText = 'Just now' } = useCachedTranslation('Just now', currentLanguage);
+  const { translatedText: saveText = 'Save Reading' } = useCachedTranslation('Save Reading', currentLanguage);
+  const { translatedText: savedText = 'Saved. Your family can see it in your health history.' } = useCachedTranslation('Saved. Your family can see it in your health history.', currentLanguage);
+  const { translatedText: recentText = 'Recent Readings' } = useCachedTranslation('Recent Readings', currentLanguage);
+
+  useEffect(() => {
+    getManualReadings().then(setRecent);
+  }, []);
+
+  // Stop listening when leaving the screen
+  useEffect(() => () => ExpoSpeechRecognitionModule.abort(), []);
+
+  useSpeechRecognitionEvent('result', event => {
+    const transcript = event.results[0]?.transcript || '';
+    setHeard(transcript);
+    if (!event.isFinal) return;
+    const spoken = parseSpokenReading(kind, transcript);
+    if (!Object.keys(spoken).length) {
+      setMessage(notHeardText);
+      return;
+    }
+    setTexts(spoken);
+    setErrors({});
+  });
+  useSpeechRecognitionEvent('end', () => setListening(false));
+  useSpeechRecognitionEvent('error', event => {
+    setListening(false);
+    if (event.error !== 'aborted') setMessage(notHeardText);
+  });
+
+  const selectKind = (next: ManualVitalKind) => {
+    setKind(next);
+    setTexts({});
+    setErrors({});
+    setHeard('');
+    setMessage('');
+    if (context && !MANUAL_VITALS[next].contexts.includes(context)) setContext(undefined);
+  };
+
+  const updateText = (metric: VitalMetric, text: string) => {
+    setTexts(prev => ({ ...prev, [metric]: text }));
+    setErrors(({ [metric]: _fixed, ...rest }) => rest);
+    setMessage('');
+  };
+
+  const toggleListening = async () => {
+    if (listening) {
+      ExpoSpeechRecognitionModule.stop();
+      return;
+    }
+    setMessage('');
+    setHeard('');
+    const { granted } = await ExpoSpeechRecognitionModule.requestPermissionsAsync();
+    if (!granted) {
+      setMessage(noMicText);
+      return;
+    }
+    // Every language the app offers besides English is spoken in India
+    ExpoSpeechRecognitionModule.start({ lang: `${currentLanguage}-IN`, interimResults: true });
+    setListening(true);
+  };
+
+  // A time later than now was this time yesterday
+  const onTimeChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS !== 'ios') setShowTimePicker(false);
+    if (event.type !== 'set' || !selectedDate) return;
+    const date = new Date(selectedDate);
+    if (date.getTime() > Date.now()) date.setDate(date.getDate() - 1);
+    setTakenAt(date);
+  };
+
+  const handleSave = async () => {
+    const values = spec.fields.reduce<Partial<Record<VitalMetric, number>>>((parsed, { metric }) => {
+      const value = parseManualValue(metric, texts[metric] || '');
+      if (value !== undefined) parsed[metric] = value;
+      return parsed;
+    }, {});
+    const found = validateManualReading(kind, values);
+    setErrors(found);
+    if (Object.keys(found).length) return;
+
+    const at = takenAt || new Date();
+    const reading: ManualReading = {
+      id: `manual-${at.getTime()}`,
+      kind,
+      values,
+      timestamp: at.toISOString(),
+      ...(context ? { context } : {}),
+    };
+    try {
+      await saveManualReading(reading);
+    } catch (error) {
+      console.error('Error saving manual reading:', error);
+      return;
+    }
+
+    // Readings a device could have taken are shown with theirs
+    updateSource({ id: MANUAL_SOURCE, name: 'Entered by hand', status: 'connected', metrics: ['bloodPressure', 'temperature'] });
+    if (kind === 'bloodPressure') {
+      reportReading(MANUAL_SOURCE, { bloodPressure: { systolic: values.systolic!, diastolic: values.diastolic! } }, at);
+    } else if (kind === 'temperature') {
+      reportReading(MANUAL_SOURCE, { temperature: values.temperature }, at);
+    }
+
+    setTexts({});
+    setHeard('');
+    setTakenAt(null);
+    setContext(undefined);
+    setMessage(savedText);
+    setRecent(await getManualReadings());
+  };
+
+  const recentOfKind = recent.filter(reading => reading.kind === kind).slice(0, RECENT_SHOWN);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.kinds}>
+          {KINDS.map(option => {
+            const selected = option.kind === kind;
+            return (
+              <TouchableOpacity
+                key={option.kind}
+                style={[
+                  styles.kind,
+                  { backgroundColor: colors.card, borderColor: colors.border },
+                  selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+                ]}
+                onPress={() => selectKind(option.kind)}
+              >
+                <Ionicons name={option.icon} size={28} color={selected ? '#FFFFFF' : colors.primary} />
+                <Text style={[styles.kindText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                  {MANUAL_VITALS[option.kind].name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>{enterReadingText}</Text>
+
+        <View style={[styles.card, { backgroundColor: colors.card }]}>
+          {spec.fields.map(({ metric, label }) => (
+            <View key={metric} style={styles.field}>
+              <Text style={[styles.label, { color: colors.text }]}>{label}</Text>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[
+                    styles.input,
+                    { borderColor: errors[metric] ? colors.error : colors.border, color: colors.text },
+                  ]}
+                  value={texts[metric] || ''}
+                  onChangeText={text => updateText(metric, text)}
+                  keyboardType="decimal-pad"
+                  maxLength={5}
+                  accessibilityLabel={`${label} (${spec.unit})`}
+                />
+                <Text style={[styles.unit, { color: colors.textSecondary }]}>{spec.unit}</Text>
+              </View>
+              {errors[metric] ? <Text style={[styles.error, { color: colors.error }]}>{errors[metric]}</Text> : null}
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.micButton, { borderColor: colors.primary }, listening && { backgroundColor: colors.primary }]}
+            onPress={toggleListening}
+          >
+            <Ionicons name={listening ? 'mic' : 'mic-outline'} size={28} color={listening ? '#FFFFFF' : colors.primary} />
+            <Text style={[styles.micText, { color: listening ? '#FFFFFF' : colors.primary }]}>
+              {listening ? listeningText : speakText}
+            </Text>
+          </TouchableOpacity>
+          {heard ? <Text style={[styles.heard, { color: colors.textSecondary }]}>“{heard}”</Text> : null}
+        </View>
+
+        <View style={styles.chips}>
+          {spec.contexts.map(option => {
+            const selected = option === context;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.chip,
+                  { borderColor: colors.border },
+                  selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+                ]}
+                onPress={() => setContext(selected ? undefined : option)}
+              >
+                <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : colors.text }]}>{READING_CONTEXTS[option]}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.timeButton, { backgroundColor: colors.card, borderColor: colors.border }]}
+          onPress={() => setShowTimePicker(true)}
+        >
+          <Ionicons name="time-outline" size={24} color={colors.primary} />
+          <Text style={[styles.timeText, { color: colors.text }]}>
+            {takenText}: {takenAt ? formatTime(takenAt) : justNowText}
+          </Text>
+        </TouchableOpacity>
+        {showTimePicker && (
+          <DateTimePicker value={takenAt || new Date()} mode="time" display="spinner" onChange={onTimeChange} />
+        )}
+
+        {message ? <Text style={[styles.message, { color: colors.textSecondary }]}>{message}</Text> : null}
+
+        <TouchableOpacity style={[styles.saveButton, { backgroundColor: colors.success }]} onPress={handleSave}>
+          <Ionicons name="checkmark-circle" size={32} color="#FFFFFF" />
+          <Text style={styles.saveText}>{saveText}</Text>
+        </TouchableOpacity>
+
+        {recentOfKind.length ? (
+          <View style={styles.recent}>
+            <Text style={[styles.recentTitle, { color: colors.text }]}>{recentText}</Text>
+            {recentOfKind.map(reading => (
+              <View key={reading.id} style={[styles.recentRow, { borderBottomColor: colors.border }]}>
+                <Text style={[styles.recentValue, { color: colors.text }]}>
+                  {formatReading(reading)} {spec.unit}
+                </Text>
+                <Text style={[styles.recentMeta, { color: colors.textSecondary }]}>
+                  {new Date(reading.timestamp).toLocaleDateString()} {formatTime(new Date(reading.timestamp))}
+                  {reading.context ? ` · ${READING_CONTEXTS[reading.context]}` : ''}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  kinds: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  kind: {
+    width: '48%',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 14,
+    marginBottom: 12,
+  },
+  kindText: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 8,
+  },
+  card: {
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 8,
+  },
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 2,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    fontSize: 40,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  unit: {
+    fontSize: 20,
+    marginLeft: 12,
+    minWidth: 64,
+  },
+  error: {
+    fontSize: 16,
+    marginTop: 6,
+  },
+  micButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderRadius: 16,
+    paddingVertical: 14,
+  },
+  micText: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginLeft: 10,
+  },
+  heard: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 16,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    marginRight: 10,
+    marginBottom: 10,
+  },
+  chipText: {
+    fontSize: 17,
+  },
+  timeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 6,
+  },
+  timeText: {
+    fontSize: 18,
+    marginLeft: 10,
+  },
+  message: {
+    fontSize: 17,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 20,
+    borderRadius: 16,
+    marginTop: 20,
+  },
+  saveText: {
+    color: '#FFFFFF',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+  recent: {
+    marginTop: 28,
+  },
+  recentTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  recentRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  recentValue: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  recentMeta: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+});
+
+export default VitalsEntryScreen;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MapView, { Polyline, Region } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme/ThemeContext';
+import { useTranslation } from '../../contexts/translation/TranslationContext';
+import { useCachedTranslation } from '../../hooks/useCachedTranslation';
+import { usePhoneActivity } from '../../contexts/activity/PhoneActivityContext';
+import { routeDistance, stepsToDistance } from '../../services/PhoneActivity';
+import { WalkSession } from '../../types/activity';
+
+// Map zoom around a single point, and the margin around a whole route
+const POINT_DELTA = 0.005;
+const ROUTE_MARGIN = 1.4;
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}` : `${pad(minutes)}:${pad(seconds % 60)}`;
+};
+
+const walkDistance = (walk: WalkSession) =>
+  (walk.gpsData?.length || 0) > 1 ? routeDistance(walk.gpsData || []) : stepsToDistance(walk.steps);
+
+// Show the whole route, or follow the senior while they walk
+const routeRegion = (walk: WalkSession, follow: boolean): Region | null => {
+  const route = walk.gpsData || [];
+  if (!route.length) return null;
+  if (follow) {
+    const { latitude, longitude } = route[route.length - 1];
+    return { latitude, longitude, latitudeDelta: POINT_DELTA, longitudeDelta: POINT_DELTA };
+  }
+  const latitudes = route.map(point => point.latitude);
+  const longitudes = route.map(point => point.longitude);
+  const [minLat, maxLat] = [Math.min(...latitudes), Math.max(...latitudes)];
+  const [minLon, maxLon] = [Math.min(...longitudes), Math.max(...longitudes)];
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLon + maxLon) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * ROUTE_MARGIN, POINT_DELTA),
+    longitudeDelta: Math.max((maxLon - minLon) * ROUTE_MARGIN, POINT_DELTA),
+  };
+};
+
+const WalkScreen = () => {
+  const { colors } = useTheme();
+  const { currentLanguage } = useTranslation();
+  const { walk, startWalk, stopWalk } = usePhoneActivity();
+  const [finished, setFinished] = useState<WalkSession | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const isWalking = walk !== null;
+
+  const { translatedText: startWalkText = 'Start Walk' } = useCachedTranslation('Start Walk', currentLanguage);
+  const { translatedText: stopWalkText = 'Stop Walk' } = useCachedTranslation('Stop Walk', currentLanguage);
+  const { translatedText: walkDoneText = 'Well done! Your walk is saved.' } = useCachedTranslation('Well done! Your walk is saved.', currentLanguage);
+  const { translatedText: readyText = 'Tap Start Walk when you set off.' } = useCachedTranslation('Tap Start Walk when you set off.', currentLanguage);
+  const { translatedText: timeText = 'Time' } = useCachedTranslation('Time', currentLanguage);
+  const { translatedText: stepsText = 'Steps' } = useCachedTranslation('Steps', currentLanguage);
+  const { translatedText: distanceText = 'Distance' } = useCachedTranslation('Distance', currentLanguage);
+
+  // Tick the clock while walking
+  useEffect(() => {
+    if (!isWalking) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isWalking]);
+
+  const handleStart = () => {
+    setFinished(null);
+    setNow(Date.now());
+    startWalk();
+  };
+
+  const handleStop = async () => {
+    setFinished(await stopWalk());
+  };
+
+  const shown = walk || finished;
+  const duration = walk ? Math.max(0, Math.round((now - new Date(walk.startTime).getTime()) / 1000)) : finished?.duration || 0;
+  const region = shown ? routeRegion(shown, isWalking) : null;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {!walk ? (
+          <Text style={[styles.message, { color: colors.textSecondary }]}>{finished ? walkDoneText : readyText}</Text>
+        ) : null}
+
+        <View style={[styles.stats, { backgroundColor: colors.card }]}>
+          <View style={styles.stat}>
+            <Ionicons name="time-outline" size={28} color={colors.primary} />
+            <Text style={[styles.statValue, { color: colors.text }]}>{formatDuration(duration)}</Text>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{timeText}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Ionicons name="walk" size={28} color={colors.primary} />
+            <Text style={[styles.statValue, { color: colors.text }]}>{(shown?.steps || 0).toLocaleString()}</Text>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{stepsText}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Ionicons name="navigate-outline" size={28} color={colors.primary} />
+            <Text style={[styles.statValue, { color: colors.text }]}>
+              {((shown ? walkDistance(shown) : 0) / 1000).toFixed(2)}
+            </Text>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{distanceText} (km)</Text>
+          </View>
+        </View>
+
+        {shown && region ? (
+          <MapView style={styles.map} region={region} showsUserLocation={isWalking}>
+            <Polyline coordinates={shown.gpsData || []} strokeWidth={5} strokeColor={colors.primary} />
+          </MapView>
+        ) : null}
+
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: walk ? colors.error : colors.success }]}
+          onPress={walk ? handleStop : handleStart}
+        >
+          <Ionicons name={walk ? 'stop-circle' : 'play-circle'} size={32} color="#FFFFFF" />
+          <Text style={styles.buttonText}>{walk ? stopWalkText : startWalkText}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  message: {
+    fontSize: 18,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    borderRadius: 16,
+    paddingVertical: 20,
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  statLabel: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  map: {
+    height: 280,
+    borderRadius: 16,
+    marginTop: 20,
+  },
+  button: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 20,
+    borderRadius: 16,
+    marginTop: 24,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+});
+
+export default WalkScreen;
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Keyboard,
+  SafeAreaView,
+} from 'react-native';
+import * as Linking from 'expo-linking';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { RootStackParamList } from '../../navigation/RootNavigator';
+import { useTheme } from '../../contexts/theme/ThemeContext';
+import { useAuth } from '../../contexts/auth/AuthContext';
+import { useRouteAfterSignIn } from '../../navigation/RoleGuard';
+
+type EmailLinkSignInScreenRouteProp = RouteProp<RootStackParamList, 'EmailLinkSignIn'>;
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * Fallback when phone verification fails: email a sign-in link, then finish
+ * signing in when the link opens the app again.
+ */
+const EmailLinkSignInScreen = () => {
+  const route = useRoute<EmailLinkSignInScreenRouteProp>();
+  const [email, setEmail] = useState(route.params?.email || '');
+  const [linkSent, setLinkSent] = useState(false);
+  // A link that arrived before we knew which address it was sent to
+  const [pendingLink, setPendingLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { colors } = useTheme();
+  const { sendEmailLink, isEmailSignInLink, completeEmailLinkSignIn, isLoading } = useAuth();
+  const routeAfterSignIn = useRouteAfterSignIn();
+  const url = Linking.useURL();
+
+  const completeSignIn = async (link: string, address?: string) => {
+    setError(null);
+    try {
+      await completeEmailLinkSignIn(link, address);
+      setPendingLink(null);
+      routeAfterSignIn();
+    } catch (err: any) {
+      // Most likely opened on another device; ask for the address and retry
+      setPendingLink(link);
+      setError(err?.message || 'Failed to sign in with link');
+    }
+  };
+
+  useEffect(() => {
+    if (url && isEmailSignInLink(url)) {
+      completeSignIn(url, isValidEmail(email) ? email : undefined);
+    }
+    // Only react to a new link, not to typing in the email field
+  }, [url]);
+
+  const handleSubmit = async () => {
+    const address = email.trim();
+    if (!isValidEmail(address)) {
+      setError('Please enter a valid email address');
+      return;
+    }
+
+    Keyboard.dismiss();
+    if (pendingLink) {
+      await completeSignIn(pendingLink, address);
+      return;
+    }
+
+    setError(null);
+    try {
+      await sendEmailLink(address);
+      setLinkSent(true);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to send sign-in link');
+    }
+  };
+
+  const buttonText = pendingLink ? 'Continue' : linkSent ? 'Resend Link' : 'Send Sign-in Link';
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.content}
+      >
+        <Text style={[styles.title, { color: colors.text }]}>Sign in with Email</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          {pendingLink
+            ? 'Enter the email address the sign-in link was sent to'
+            : linkSent
+            ? `We've sent a sign-in link to ${email.trim()}. Open it on this phone to continue.`
+            : "We'll email you a link that signs you in with one tap"}
+        </Text>
+
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.card }]}
+          placeholder="you@example.com"
+          placeholderTextColor={colors.textSecondary}
+          value={email}
+          onChangeText={setEmail}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoComplete="email"
+          autoCorrect={false}
+          returnKeyType="send"
+          onSubmitEditing={handleSubmit}
+        />
+
+        {error && <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.primary, opacity: email ? 1 : 0.7 }]}
+          onPress={handleSubmit}
+          disabled={isLoading || !email}
+        >
+          {isLoading ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.buttonText}>{buttonText}</Text>
+          )}
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    padding: 24,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    marginBottom: 32,
+    textAlign: 'center',
+  },
+  input: {
+    padding: 16,
+    borderWidth: 1,
+    borderRadius: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  button: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default EmailLinkSignInScreen;
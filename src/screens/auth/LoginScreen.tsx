@@ -20,6 +20,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../navigation/RootNavigator';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useAuth } from '../../contexts/auth/AuthContext';
+import { getOtpLockout } from '../../services/OtpService';
 import { Ionicons } from '@expo/vector-icons';
 
 type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'OTPVerification'>;
@@ -117,17 +118,33 @@ const LoginScreen = () => {
     
     try {
       const formattedPhone = `+1${phoneNumber.replace(/\D/g, '')}`; // US numbers
-      const confirmation = await loginWithPhone(formattedPhone);
+
+      // Asking for a fresh code must not get around a lockout
+      const lockedUntil = await getOtpLockout(formattedPhone);
+      if (lockedUntil) {
+        const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+        Alert.alert(
+          'Too Many Attempts',
+          `Please try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}, or sign in with email instead.`
+        );
+        return;
+      }
+
+      const { verificationId } = await loginWithPhone(formattedPhone);
       
       navigation.navigate('OTPVerification', {
         phoneNumber: formattedPhone,
-        verificationId: 'web-sdk-verification' // This is a placeholder, not used in Web SDK
+        verificationId,
       });
     } catch (error: any) {
       console.error('Login error:', error);
       Alert.alert(
         'Error',
-        error.message || 'Failed to send verification code. Please try again.'
+        error.message || 'Failed to send verification code. Please try again.',
+        [
+          { text: 'OK', style: 'cancel' },
+          { text: 'Use Email', onPress: () => navigation.navigate('EmailLinkSignIn') },
+        ]
       );
     } finally {
       setIsLoading(false);
@@ -216,6 +233,14 @@ const LoginScreen = () => {
             <View style={[styles.divider, { backgroundColor: colors.border }]} />
           </View>
 
+          <TouchableOpacity 
+            style={[styles.guestButton, { borderColor: colors.border }]} 
+            onPress={() => navigation.navigate('EmailLinkSignIn')}
+            disabled={isLoading}
+          >
+            <Text style={[styles.guestButtonText, { color: colors.text }]}>Sign in with Email</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity 
             style={[styles.guestButton, { borderColor: colors.border }]} 
             onPress={handleGuestMode}
@@ -1,10 +1,12 @@
-import React, { useState, useRef, useEffect, forwardRef } from 'react';
+import React, { useState, useRef, forwardRef } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, Keyboard, Alert, TextInputProps, ActivityIndicator } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../../navigation/RootNavigator';
-import { useAuth } from '../../contexts/auth/AuthContext';
 import { useTheme } from '../../contexts/theme/ThemeContext';
+import { useOtpVerification } from '../../hooks/useOtpVerification';
+import { OTP_POLICY, extractOtpFromSms } from '../../services/OtpService';
+import { useRouteAfterSignIn } from '../../navigation/RoleGuard';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 // Custom OTP Input Component to handle refs properly
@@ -13,7 +15,8 @@ const OTPInput = forwardRef<TextInput, TextInputProps>((props, ref) => (
     ref={ref}
     style={[styles.otpInput, { borderColor: useTheme().colors.border, color: useTheme().colors.text, backgroundColor: useTheme().colors.card }]}
     keyboardType="number-pad"
-    maxLength={1}
+    // Room for a whole code so SMS auto-fill and paste are not cut to one digit
+    maxLength={OTP_POLICY.codeLength}
     selectTextOnFocus
     textContentType="oneTimeCode"
     autoComplete="sms-otp"
@@ -23,35 +26,77 @@ const OTPInput = forwardRef<TextInput, TextInputProps>((props, ref) => (
 
 OTPInput.displayName = 'OTPInput';
 
+const EMPTY_OTP = Array(OTP_POLICY.codeLength).fill('');
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
 type OTPVerificationScreenRouteProp = RouteProp<RootStackParamList, 'OTPVerification'>;
 type OTPVerificationScreenNavigationProp = StackNavigationProp<RootStackParamList, 'OTPVerification'>;
 
 const OTPVerificationScreen = () => {
-  const [otp, setOtp] = useState(['', '', '', '', '', '']);
-  const [resendTimer, setResendTimer] = useState(60);
-  const [isResendDisabled, setIsResendDisabled] = useState(true);
-  const [isVerifying, setIsVerifying] = useState(false);
-  const otpInputs = useRef<(TextInput | null)[]>(Array(6).fill(null));
+  const [otp, setOtp] = useState<string[]>(EMPTY_OTP);
+  const otpInputs = useRef<(TextInput | null)[]>(Array(OTP_POLICY.codeLength).fill(null));
   const navigation = useNavigation<OTPVerificationScreenNavigationProp>();
   const route = useRoute<OTPVerificationScreenRouteProp>();
-  const { phoneNumber } = route.params;
-  const { verifyOtp, loginWithPhone } = useAuth();
+  const { phoneNumber, verificationId } = route.params;
+  const { state, sendCode, verifyCode, canResend, resendInSeconds, lockedForSeconds, attemptsRemaining } =
+    useOtpVerification(phoneNumber, verificationId);
+  const routeAfterSignIn = useRouteAfterSignIn();
   const { colors } = useTheme();
 
+  const isVerifying = state.status === 'verifying';
+  const isLockedOut = state.status === 'lockedOut';
+  const needsNewCode = state.status === 'idle';
+
+  // Start over on the first box after a wrong code or a new code
+  const clearOtp = () => {
+    setOtp(EMPTY_OTP);
+    otpInputs.current[0]?.focus();
+  };
+
+  // Handle OTP verification
+  const handleVerifyOtp = async (code = otp.join('')) => {
+    if (isVerifying || isLockedOut) return;
+
+    if (code.length !== OTP_POLICY.codeLength) {
+      Alert.alert('Error', `Please enter a valid ${OTP_POLICY.codeLength}-digit OTP`);
+      return;
+    }
+
+    Keyboard.dismiss();
+    if (await verifyCode(code)) {
+      routeAfterSignIn();
+    } else {
+      clearOtp();
+    }
+  };
+
   // Handle OTP input change
   const handleOtpChange = (value: string, index: number) => {
+    // More than one character means SMS auto-fill or a paste
+    if (value.length > 1) {
+      const code = extractOtpFromSms(value);
+      if (code) {
+        setOtp(code.split(''));
+        handleVerifyOtp(code);
+        return;
+      }
+      value = value.replace(/\D/g, '').slice(-1);
+    }
+
     const newOtp = [...otp];
     newOtp[index] = value;
     setOtp(newOtp);
 
     // Auto-focus to next input
-    if (value && index < 5) {
+    if (value && index < OTP_POLICY.codeLength - 1) {
       otpInputs.current[index + 1]?.focus();
     }
 
-    // Auto-submit when last digit is entered
-    if (index === 5 && value) {
-      handleVerifyOtp();
+    // Auto-submit once every digit is in
+    if (value && newOtp.every(digit => digit)) {
+      handleVerifyOtp(newOtp.join(''));
     }
   };
 
@@ -62,67 +107,36 @@ const OTPVerificationScreen = () => {
     }
   };
 
-  // Handle OTP verification
-  const handleVerifyOtp = async () => {
-    if (isVerifying) return;
-    
-    const otpCode = otp.join('');
-    if (otpCode.length !== 6) {
-      Alert.alert('Error', 'Please enter a valid 6-digit OTP');
-      return;
-    }
-
-    setIsVerifying(true);
-    try {
-      const success = await verifyOtp('', otpCode);
-      if (success) {
-        // Navigate to role selection or home based on user state
-        navigation.navigate('RoleSelection');
-      } else {
-        Alert.alert('Error', 'Invalid OTP. Please try again.');
-      }
-    } catch (error: any) {
-      console.error('OTP Verification Error:', error);
-      Alert.alert('Error', error.message || 'Failed to verify OTP. Please try again.');
-    } finally {
-      setIsVerifying(false);
-    }
-  };
-
   // Handle resend OTP
   const handleResendOtp = async () => {
-    if (isResendDisabled) return;
-    
-    try {
-      await loginWithPhone(phoneNumber);
-      setResendTimer(60);
-      setIsResendDisabled(true);
-      setOtp(['', '', '', '', '', '']);
-      otpInputs.current[0]?.focus();
+    if (!canResend) return;
+
+    if (await sendCode()) {
+      clearOtp();
       Alert.alert('Success', 'A new verification code has been sent to your phone.');
-    } catch (error: any) {
-      console.error('Resend OTP Error:', error);
-      Alert.alert('Error', error.message || 'Failed to resend OTP. Please try again.');
     }
   };
 
-  // Countdown timer for resend OTP
-  useEffect(() => {
-    let timer: NodeJS.Timeout;
-    if (resendTimer > 0 && isResendDisabled) {
-      timer = setTimeout(() => setResendTimer(resendTimer - 1), 1000);
-    } else if (resendTimer === 0) {
-      setIsResendDisabled(false);
+  const renderStatus = () => {
+    if (isLockedOut) {
+      return `Too many incorrect codes. Try again in ${formatCountdown(lockedForSeconds)}.`;
     }
-    return () => clearTimeout(timer);
-  }, [resendTimer, isResendDisabled]);
+    if (state.error) {
+      return state.failedAttempts > 0
+        ? `${state.error.replace(/\.$/, '')}. ${attemptsRemaining} ${attemptsRemaining === 1 ? 'attempt' : 'attempts'} left.`
+        : state.error;
+    }
+    return null;
+  };
+
+  const statusText = renderStatus();
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
       <View style={styles.content}>
         <Text style={[styles.otpTitle, { color: colors.text }]}>Enter Verification Code</Text>
         <Text style={[styles.otpSubtitle, { color: colors.textSecondary }]}>
-          We've sent a 6-digit code to {phoneNumber}
+          We've sent a {OTP_POLICY.codeLength}-digit code to {phoneNumber}
         </Text>
         {isVerifying && (
           <View style={styles.loadingContainer}>
@@ -138,38 +152,51 @@ const OTPVerificationScreen = () => {
                 otpInputs.current[index] = ref;
               }}
               value={digit}
+              editable={!isLockedOut && !needsNewCode}
               onChangeText={(text) => handleOtpChange(text, index)}
               onKeyPress={({ nativeEvent: { key } }) => handleKeyPress(index, key)}
             />
           ))}
         </View>
 
+        {statusText && (
+          <Text style={[styles.statusText, { color: colors.error }]}>{statusText}</Text>
+        )}
+
         <TouchableOpacity
           style={[styles.verifyButton, { backgroundColor: colors.primary }]}
-          onPress={handleVerifyOtp}
-          disabled={otp.some((digit) => !digit)}>
+          onPress={() => handleVerifyOtp()}
+          disabled={isVerifying || isLockedOut || otp.some((digit) => !digit)}>
           <Text style={styles.verifyButtonText}>Verify</Text>
         </TouchableOpacity>
 
         <View style={styles.resendContainer}>
           <Text style={[styles.resendText, { color: colors.textSecondary }]}>
-            Didn't receive the code? 
+            {needsNewCode ? 'You need a new code. ' : "Didn't receive the code? "}
           </Text>
           <TouchableOpacity
             onPress={handleResendOtp}
-            disabled={isResendDisabled}>
+            disabled={!canResend || state.status === 'sending'}>
             <Text
               style={[
                 styles.resendButton,
                 {
-                  color: isResendDisabled ? colors.disabled : colors.primary,
+                  color: canResend ? colors.primary : colors.textSecondary,
                   textDecorationLine: 'underline',
                 },
               ]}>
-              {isResendDisabled ? `Resend in ${resendTimer}s` : 'Resend OTP'}
+              {canResend || isLockedOut ? 'Resend OTP' : `Resend in ${formatCountdown(resendInSeconds)}`}
             </Text>
           </TouchableOpacity>
         </View>
+
+        <TouchableOpacity
+          style={styles.emailFallback}
+          onPress={() => navigation.navigate('EmailLinkSignIn')}>
+          <Text style={[styles.resendButton, { color: colors.primary }]}>
+            Sign in with email instead
+          </Text>
+        </TouchableOpacity>
       </View>
     </SafeAreaView>
   );
@@ -232,6 +259,15 @@ const styles = StyleSheet.create({
   resendText: {
     fontSize: 14,
   },
+  statusText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  emailFallback: {
+    marginTop: 24,
+    alignItems: 'center',
+  },
   resendButton: {
     fontSize: 14,
     fontWeight: '600',
@@ -12,6 +12,8 @@ import {
   Alert,
   ScrollView,
   Image,
+  Linking,
+  Platform,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { MaterialIcons, MaterialCommunityIcons, Ionicons } from '@expo/vector-icons';
@@ -19,21 +21,14 @@ import dayjs from 'dayjs';
 import relativeTime from 'dayjs/plugin/relativeTime';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useTranslation } from 'react-i18next';
+import { getSeniors } from '../../utils/seniorStorage';
+import { pullSyncedRecords } from '../../services/SyncService';
+import { AlertLocation, AlertPriority, AlertType, SeniorAlert } from '../../types/alerts';
 
 dayjs.extend(relativeTime);
 
 /* ---------------- Types ---------------- */
-type AlertType =
-  | 'medication'
-  | 'fall'
-  | 'heart'
-  | 'location'
-  | 'battery'
-  | 'general'
-  | 'appointment'
-  | 'vital';
-
-type PriorityType = 'high' | 'medium' | 'low';
+type PriorityType = AlertPriority;
 type FilterType = 'all' | 'unread' | PriorityType | AlertType;
 
 interface AlertItem {
@@ -47,8 +42,32 @@ interface AlertItem {
   seniorName?: string;
   seniorAvatar?: string;
   details?: string;
+  location?: AlertLocation;
 }
 
+// Alerts the family's seniors raised on their own phones, newest first
+const loadSeniorAlerts = async (): Promise<AlertItem[]> => {
+  const seniors = await getSeniors();
+  const perSenior = await Promise.all(
+    seniors.map(async (senior) =>
+      (await pullSyncedRecords(senior.seniorId, 'alerts')).map((alert: SeniorAlert) => ({
+        ...alert,
+        id: `${senior.seniorId}:${alert.id}`,
+        timestamp: new Date(alert.timestamp),
+        read: false,
+        seniorName: senior.name,
+        seniorAvatar: senior.avatar,
+      }))
+    )
+  );
+  return perSenior.flat().sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+const mapsUrl = ({ latitude, longitude }: AlertLocation) =>
+  Platform.OS === 'ios'
+    ? `http://maps.apple.com/?ll=${latitude},${longitude}&q=${latitude},${longitude}`
+    : `geo:${latitude},${longitude}?q=${latitude},${longitude}`;
+
 /* --------- Theme helpers (defensive) --------- */
 const isHex = (s?: string) => typeof s === 'string' && /^#([A-Fa-f0-9]{3,8})$/.test(s.trim());
 const isRgb = (s?: string) => typeof s === 'string' && /^rgba?\(/i.test(s.trim());
@@ -130,6 +149,7 @@ const AlertsScreen: React.FC = () => {
     retry: t('Retry') || 'Retry',
     details: t('Details') || 'Details',
     close: t('Close') || 'Close',
+    openMap: t('Open in Maps') || 'Open in Maps',
   };
 
   // Helpers
@@ -170,80 +190,16 @@ const AlertsScreen: React.FC = () => {
     }
   };
 
-  // Fetch alerts (mock)
+  // Alerts synced from each linked senior's phone
   const fetchAlerts = useCallback(async () => {
     setRefreshing(true);
     try {
-      await new Promise((r) => setTimeout(r, 700));
-      const mock: AlertItem[] = [
-        {
-          id: '1',
-          type: 'fall',
-          title: t('Fall Detected') || 'Fall Detected',
-          message: t('A potential fall was detected. Please check immediately.') || 'A potential fall was detected. Please check immediately.',
-          timestamp: new Date(Date.now() - 5 * 60 * 1000),
-          read: false,
-          priority: 'high',
-          details: t('Fall detected at 2:30 PM. Impact force was 3.5g.') || 'Fall detected at 2:30 PM. Impact force was 3.5g.',
-          seniorName: 'Bhushan Mahant',
-        },
-        {
-          id: '2',
-          type: 'medication',
-          title: t('Medication Missed') || 'Medication Missed',
-          message: t('Afternoon medication was not taken.') || 'Afternoon medication was not taken.',
-          timestamp: new Date(Date.now() - 30 * 60 * 1000),
-          read: false,
-          priority: 'medium',
-          details: t('Lisinopril 10mg was scheduled for 2:00 PM') || 'Lisinopril 10mg was scheduled for 2:00 PM',
-          seniorName: 'Mary Smith',
-        },
-        {
-          id: '3',
-          type: 'heart',
-          title: t('High Heart Rate') || 'High Heart Rate',
-          message: t('Heart rate is elevated (112 BPM).') || 'Heart rate is elevated (112 BPM).',
-          timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000),
-          read: true,
-          priority: 'high',
-          details: t('Normal range: 60-100 BPM\nLast reading: 112 BPM at 1:45 PM') || 'Normal range: 60-100 BPM\nLast reading: 112 BPM at 1:45 PM',
-          seniorName: 'Mary Smith',
-        },
-        {
-          id: '4',
-          type: 'location',
-          title: t('Unusual Location') || 'Unusual Location',
-          message: t('Left the usual area at 10:30 AM') || 'Left the usual area at 10:30 AM',
-          timestamp: new Date(Date.now() - 5 * 60 * 60 * 1000),
-          read: true,
-          priority: 'medium',
-          details: t('Current location: Central Park\nLeft home at 10:30 AM') || 'Current location: Central Park\nLeft home at 10:30 AM',
-          seniorName: 'Bhushan Mahant',
-        },
-        {
-          id: '5',
-          type: 'battery',
-          title: t('Low Battery') || 'Low Battery',
-          message: t('Device battery is at 15%') || 'Device battery is at 15%',
-          timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000),
-          read: true,
-          priority: 'low',
-          details: t('Please charge the device as soon as possible.') || 'Please charge the device as soon as possible.',
-          seniorName: 'Bhushan Mahant',
-        },
-        {
-          id: '6',
-          type: 'appointment',
-          title: t('Upcoming Appointment') || 'Upcoming Appointment',
-          message: t('Doctor appointment tomorrow at 2:00 PM') || 'Doctor appointment tomorrow at 2:00 PM',
-          timestamp: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
-          read: true,
-          priority: 'low',
-          details: t('Dr. Smith\nCardiology Dept\n123 Medical Center') || 'Dr. Smith\nCardiology Dept\n123 Medical Center',
-          seniorName: 'Mary Smith',
-        },
-      ];
-      setAlerts(mock);
+      const synced = await loadSeniorAlerts();
+      // Keep what has been read across refreshes
+      setAlerts((prev) => {
+        const read = new Set(prev.filter((a) => a.read).map((a) => a.id));
+        return synced.map((a) => (read.has(a.id) ? { ...a, read: true } : a));
+      });
     } catch (e) {
       console.error(e);
       Alert.alert(t('Error') || 'Error', t('Failed to load alerts') || 'Failed to load alerts');
@@ -468,6 +424,27 @@ const AlertsScreen: React.FC = () => {
                 </View>
               ) : null}
 
+              {selectedAlert?.location ? (
+                <View
+                  style={[
+                    styles.detailsContainer,
+                    { backgroundColor: isDark ? '#111827' : '#F8FAFC', borderColor: borderColor, borderWidth: 1 },
+                  ]}
+                >
+                  <Text style={[styles.detailsTitle, { color: textColor }]}>{strings.location}</Text>
+                  <Text style={[styles.detailsText, { color: tertiaryText }]}>
+                    {`${selectedAlert.location.latitude.toFixed(5)}, ${selectedAlert.location.longitude.toFixed(5)}`}
+                    {selectedAlert.location.accuracy ? ` (±${selectedAlert.location.accuracy} m)` : ''}
+                  </Text>
+                  <TouchableOpacity
+                    style={{ marginTop: 8 }}
+                    onPress={() => Linking.openURL(mapsUrl(selectedAlert.location!)).catch(() => {})}
+                  >
+                    <Text style={{ color: primaryColor, fontWeight: '600' }}>{strings.openMap}</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : null}
+
               {selectedAlert?.seniorName ? (
                 <View style={{ marginTop: 12 }}>
                   <Text style={[styles.detailsTitle, { color: textColor }]}>{t('Senior') || 'Senior'}</Text>
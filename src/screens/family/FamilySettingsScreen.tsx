@@ -18,6 +18,8 @@ import * as Linking from 'expo-linking';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
+import { useAuth } from '../../contexts/auth/AuthContext';
+import { openRoleHome } from '../../navigation/RoleGuard';
 
 type SettingsStackParamList = {
   EditProfile: undefined;
@@ -26,12 +28,14 @@ type SettingsStackParamList = {
   TermsOfService: undefined;
   HelpCenter: undefined;
   ContactSupport: undefined;
+  AppLockSettings: undefined;
 };
 
 const FamilySettingsScreen = () => {
   const navigation = useNavigation<StackNavigationProp<SettingsStackParamList>>();
   const { isDark, toggleTheme } = useTheme();
   const { currentLanguage, changeLanguage } = useTranslation();
+  const { profile, selectRole } = useAuth();
   
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [locationSharingEnabled, setLocationSharingEnabled] = useState(true);
@@ -43,6 +47,9 @@ const FamilySettingsScreen = () => {
   const { translatedText: accountText } = useCachedTranslation('Account', currentLanguage);
   const { translatedText: editProfileText } = useCachedTranslation('Edit Profile', currentLanguage);
   const { translatedText: notificationSettingsText } = useCachedTranslation('Notification Settings', currentLanguage);
+  const { translatedText: seniorViewText } = useCachedTranslation('Switch to Senior View', currentLanguage);
+  const { translatedText: becomeSeniorText } = useCachedTranslation('Also Use CareTrek as a Senior', currentLanguage);
+  const { translatedText: appLockText } = useCachedTranslation('App Lock', currentLanguage);
   const { translatedText: preferencesText } = useCachedTranslation('Preferences', currentLanguage);
   const { translatedText: darkModeText } = useCachedTranslation('Dark Mode', currentLanguage);
   const { translatedText: notificationsText } = useCachedTranslation('Notifications', currentLanguage);
@@ -82,6 +89,16 @@ const FamilySettingsScreen = () => {
     );
   };
 
+  // One account can be both a caregiver and a senior
+  const handleSwitchToSenior = async () => {
+    try {
+      await selectRole('senior');
+      openRoleHome(navigation, 'senior');
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Could not switch roles. Please try again.');
+    }
+  };
+
   const openLink = async (url: string) => {
     try {
       await WebBrowser.openBrowserAsync(url);
@@ -185,6 +202,17 @@ const FamilySettingsScreen = () => {
             label: notificationSettingsText,
             onPress: () => navigation.navigate('NotificationSettings'),
           })}
+          {renderSettingItem({
+            icon: 'lock-outline',
+            label: appLockText,
+            onPress: () => navigation.navigate('AppLockSettings'),
+          })}
+          {renderSettingItem({
+            icon: 'swap-horiz',
+            label: profile?.roles.includes('senior') ? seniorViewText : becomeSeniorText,
+            onPress: handleSwitchToSenior,
+            isLast: true,
+          })}
         </View>
 
         {/* Preferences Section */}
@@ -20,45 +20,31 @@ import relativeTime from 'dayjs/plugin/relativeTime';
 import { MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useTranslation } from 'react-i18next';
+import { HistoryBucket, SeriesReader, getLatestVital, pullSeniorVitals, summarizeVitals } from '../../services/HealthTimeSeries';
+import { ReportFormat, buildHealthReport, shareHealthReport } from '../../services/HealthReport';
+import { getLinkScopes } from '../../services/LinkRequestService';
+import { getSeniors } from '../../utils/seniorStorage';
+import { getOrCreateFamilyId } from '../../utils/idManager';
+import { VitalMetric } from '../../types/vitals';
+import { HealthRecord, RecordType } from '../../types/healthTypes';
 
 // Extend dayjs with relativeTime plugin
 dayjs.extend(relativeTime);
 
 /* --------- Types --------- */
+type Trend = 'up' | 'down' | 'stable';
+
 interface HealthMetric {
-  value: number | string;
+  value: number | null;
   unit: string;
-  trend?: 'up' | 'down' | 'stable';
-  lastUpdated: Date;
+  trend?: Trend;
+  lastUpdated?: Date;
 }
 
 interface BloodPressure {
-  systolic: number;
-  diastolic: number;
-  lastUpdated: Date;
-}
-
-interface SleepData {
-  duration: number;
-  quality: number;
-  lastUpdated: Date;
-}
-
-type RecordType = 'appointment' | 'medication' | 'symptom' | 'other' | 'activity' | 'vital';
-
-interface HealthRecord {
-  id: string;
-  date: Date;
-  title: string;
-  description?: string;
-  type: RecordType;
-  severity?: 'low' | 'medium' | 'high';
-  doctor?: string;
-  location?: string;
-  notes?: string;
-  icon?: string;
-  value?: string;
-  unit?: string;
+  systolic: number | null;
+  diastolic: number | null;
+  lastUpdated?: Date;
 }
 
 interface HealthData {
@@ -66,10 +52,11 @@ interface HealthData {
   bloodOxygen: HealthMetric;
   bloodPressure: BloodPressure;
   steps: HealthMetric;
-  calories: HealthMetric;
-  sleep: SleepData;
-  lastSync: Date;
+  lastSync?: Date;
   records: HealthRecord[];
+  // The last 7 days, for the charts
+  heartRateWeek: HistoryBucket[];
+  stepsWeek: HistoryBucket[];
 }
 
 type HealthHistoryScreenProps = {
@@ -117,6 +104,45 @@ function extractColor(value: any, fallback = '#000000'): string {
   return fallback;
 }
 
+/* --------- Vitals from the time series --------- */
+// A change smaller than this against the days before counts as stable
+const TREND_THRESHOLD = 0.05;
+
+// How the latest day with a value compares with the average of the days before it
+const trendOf = (week: HistoryBucket[]): Trend | undefined => {
+  const values = week.map(bucket => bucket.value).filter((value): value is number => value !== null && value > 0);
+  if (values.length < 2) return undefined;
+  const latest = values[values.length - 1];
+  const before = values.slice(0, -1).reduce((sum, value) => sum + value, 0) / (values.length - 1);
+  if (latest > before * (1 + TREND_THRESHOLD)) return 'up';
+  if (latest < before * (1 - TREND_THRESHOLD)) return 'down';
+  return 'stable';
+};
+
+const loadMetric = async (
+  metric: VitalMetric,
+  unit: string,
+  week: HistoryBucket[],
+  read: SeriesReader
+): Promise<HealthMetric> => {
+  const latest = await getLatestVital(metric, new Date(), read);
+  return {
+    value: latest ? Math.round(latest.value) : null,
+    unit,
+    trend: trendOf(week),
+    lastUpdated: latest ? new Date(latest.timestamp) : undefined,
+  };
+};
+
+/* --------- Report export --------- */
+const REPORT_PERIODS = [7, 30, 90];
+
+const REPORT_FORMATS: Array<{ format: ReportFormat; label: string; hint: string }> = [
+  { format: 'pdf', label: 'PDF', hint: 'To print or email' },
+  { format: 'csv', label: 'CSV', hint: 'For spreadsheets' },
+  { format: 'fhir', label: 'FHIR', hint: 'For clinic systems' },
+];
+
 /* --------- Component --------- */
 const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
   const { seniorId } = route.params;
@@ -138,20 +164,24 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
 
   // State
   const [healthData, setHealthData] = useState<HealthData>(() => ({
-    heartRate: { value: 72, unit: 'bpm', trend: 'stable', lastUpdated: new Date() },
-    bloodOxygen: { value: 98, unit: '%', trend: 'up', lastUpdated: new Date() },
-    bloodPressure: { systolic: 120, diastolic: 80, lastUpdated: new Date() },
-    steps: { value: 5423, unit: 'steps', trend: 'up', lastUpdated: new Date() },
-    calories: { value: 1245, unit: 'kcal', trend: 'up', lastUpdated: new Date() },
-    sleep: { duration: 420, quality: 85, lastUpdated: new Date() },
-    lastSync: new Date(),
+    heartRate: { value: null, unit: 'bpm' },
+    bloodOxygen: { value: null, unit: '%' },
+    bloodPressure: { systolic: null, diastolic: null },
+    steps: { value: null, unit: 'steps' },
     records: [],
+    heartRateWeek: [],
+    stepsWeek: [],
   }));
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [showRecordModal, setShowRecordModal] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<HealthRecord | null>(null);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [reportDays, setReportDays] = useState(REPORT_PERIODS[1]);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+  // The senior's own id, once the saved link has been found
+  const [linkedSeniorId, setLinkedSeniorId] = useState<string | null>(null);
 
   /* --------- Helpers --------- */
   const formatDate = (d?: Date) => (d ? dayjs(d).format('MMM D, YYYY') : 'N/A');
@@ -198,100 +228,87 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
     }
   };
 
-  /* --------- Data loader (mock) --------- */
+  /* --------- Data loader --------- */
   const loadHealthRecords = useCallback(async () => {
     try {
       setError(null);
       setRefreshing(true);
 
-      // Simulate network latency
-      await new Promise((res) => setTimeout(res, 700));
+      // Screens pass either the saved senior's id or the senior's own id
+      const senior = (await getSeniors()).find(saved => saved.id === seniorId || saved.seniorId === seniorId);
+      if (!senior) {
+        setError(t('This senior is not linked to your account.') || 'This senior is not linked to your account.');
+        return;
+      }
+      setLinkedSeniorId(senior.seniorId);
+      const scopes = await getLinkScopes(senior.seniorId, await getOrCreateFamilyId());
+      if (!scopes.includes('vitals')) {
+        setError(t('This senior has not shared health vitals with you.') || 'This senior has not shared health vitals with you.');
+        return;
+      }
 
-      // Create mock data
+      // Vitals come from the time series the senior's phone synced
+      const read = await pullSeniorVitals(senior.seniorId);
       const now = new Date();
-      const mock: HealthData = {
-        heartRate: {
-          value: Math.floor(Math.random() * 30) + 60,
+      const [heartRateWeek, oxygenWeek, stepsWeek] = await Promise.all([
+        summarizeVitals('heartRate', 'week', now, read),
+        summarizeVitals('oxygenSaturation', 'week', now, read),
+        summarizeVitals('steps', 'week', now, read),
+      ]);
+      const [heartRate, bloodOxygen, steps, systolic, diastolic] = await Promise.all([
+        loadMetric('heartRate', 'bpm', heartRateWeek, read),
+        loadMetric('oxygenSaturation', '%', oxygenWeek, read),
+        loadMetric('steps', 'steps', stepsWeek, read),
+        getLatestVital('systolic', now, read),
+        getLatestVital('diastolic', now, read),
+      ]);
+      const readAt = [heartRate.lastUpdated, bloodOxygen.lastUpdated, systolic ? new Date(systolic.timestamp) : undefined]
+        .filter((date): date is Date => date !== undefined)
+        .sort((a, b) => b.getTime() - a.getTime());
+
+      const vitalRecords: HealthRecord[] = [];
+      if (heartRate.value !== null && heartRate.lastUpdated) {
+        vitalRecords.push({
+          id: 'hr1',
+          date: heartRate.lastUpdated,
+          title: 'Heart Rate',
+          description: 'Latest heart rate reading',
+          type: 'vital',
+          icon: 'heart-pulse',
+          value: String(heartRate.value),
           unit: 'bpm',
-          trend: ['up', 'down', 'stable'][Math.floor(Math.random() * 3)] as any,
-          lastUpdated: now,
-        },
-        bloodOxygen: {
-          value: Math.floor(Math.random() * 6) + 95,
-          unit: '%',
-          trend: ['up', 'down', 'stable'][Math.floor(Math.random() * 3)] as any,
-          lastUpdated: now,
-        },
+        });
+      }
+      if (systolic && diastolic) {
+        vitalRecords.push({
+          id: 'bp1',
+          date: new Date(systolic.timestamp),
+          title: 'Blood Pressure',
+          description: 'Latest blood pressure reading',
+          type: 'vital',
+          icon: 'blood-pressure',
+          value: `${Math.round(systolic.value)}/${Math.round(diastolic.value)}`,
+          unit: 'mmHg',
+        });
+      }
+
+      const data: HealthData = {
+        heartRate,
+        bloodOxygen,
         bloodPressure: {
-          systolic: Math.floor(Math.random() * 30) + 100,
-          diastolic: Math.floor(Math.random() * 20) + 60,
-          lastUpdated: now,
-        },
-        steps: {
-          value: Math.floor(Math.random() * 5000) + 2000,
-          unit: 'steps',
-          trend: 'up',
-          lastUpdated: now,
-        },
-        calories: {
-          value: Math.floor(Math.random() * 1000) + 800,
-          unit: 'kcal',
-          trend: 'up',
-          lastUpdated: now,
-        },
-        sleep: {
-          duration: Math.floor(Math.random() * 240) + 360,
-          quality: Math.floor(Math.random() * 30) + 70,
-          lastUpdated: now,
+          systolic: systolic ? Math.round(systolic.value) : null,
+          diastolic: diastolic ? Math.round(diastolic.value) : null,
+          lastUpdated: systolic ? new Date(systolic.timestamp) : undefined,
         },
-        lastSync: now,
-        records: [
-          {
-            id: 'hr1',
-            date: new Date(),
-            title: 'Heart Rate',
-            description: 'Current heart rate reading',
-            type: 'vital',
-            icon: 'heart-pulse',
-            value: String(Math.floor(Math.random() * 30) + 60),
-            unit: 'bpm',
-          },
-          {
-            id: 'bp1',
-            date: new Date(),
-            title: 'Blood Pressure',
-            description: 'Blood pressure reading',
-            type: 'vital',
-            icon: 'blood-pressure',
-            value: '120/80',
-            unit: 'mmHg',
-          },
-          {
-            id: '1',
-            date: new Date(2025, 10, 1),
-            title: 'Annual Checkup',
-            description: 'Routine physical examination with Dr. Smith',
-            type: 'appointment',
-            severity: 'low',
-            doctor: 'Dr. Sarah Smith',
-            location: 'City Medical Center',
-            notes: 'Blood work scheduled for next visit',
-          },
-          {
-            id: '2',
-            date: new Date(2025, 9, 15),
-            title: 'Blood Pressure Medication',
-            description: 'Prescribed Lisinopril 10mg daily',
-            type: 'medication',
-            severity: 'medium',
-            doctor: 'Dr. Michael Johnson',
-            notes: 'Monitor blood pressure twice daily',
-          },
-        ],
+        steps,
+        lastSync: readAt[0],
+        heartRateWeek,
+        stepsWeek,
+        records: vitalRecords,
       };
 
-      mock.records.sort((a, b) => b.date.getTime() - a.date.getTime());
-      setHealthData(mock);
+      data.records.sort((a, b) => b.date.getTime() - a.date.getTime());
+      setHealthData(data);
     } catch (err) {
       console.error(err);
       setError(t('Failed to load health records. Please try again.') || 'Failed to load health records. Please try again.');
@@ -299,7 +316,7 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
       setIsLoading(false);
       setRefreshing(false);
     }
-  }, [t]);
+  }, [seniorId, t]);
 
   useEffect(() => {
     loadHealthRecords();
@@ -309,6 +326,25 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
     loadHealthRecords();
   }, [loadHealthRecords]);
 
+  // The last `reportDays` days, today included
+  const exportReport = async (format: ReportFormat) => {
+    if (!linkedSeniorId) return;
+    const now = new Date();
+    const to = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    const from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - reportDays);
+    setExporting(format);
+    try {
+      const report = await buildHealthReport(linkedSeniorId, from, to);
+      await shareHealthReport(report, format);
+      setShowExportModal(false);
+    } catch (err) {
+      console.error('Error exporting health report:', err);
+      Alert.alert('Export failed', 'The report could not be created. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
   /* --------- Chart data helpers --------- */
   const generateChartData = (dataPoints: number[], labels: string[]) => ({
     labels,
@@ -321,16 +357,24 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
     ],
   });
 
+  // Days with no heart rate are left out rather than drawn as zero
+  const heartRateDays = useMemo(
+    () => healthData.heartRateWeek.filter(bucket => bucket.value !== null),
+    [healthData.heartRateWeek]
+  );
+
   const heartRateData = useMemo(
-    () => generateChartData([72, 75, 71, 70, 69, 73, Number(healthData.heartRate.value as number)], ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']),
-    [healthData.heartRate.value, primaryColor]
+    () => generateChartData(heartRateDays.map(bucket => bucket.value ?? 0), heartRateDays.map(bucket => bucket.label)),
+    [heartRateDays, primaryColor]
   );
 
   const stepsData = useMemo(
-    () => generateChartData([3421, 4123, 3876, 4532, 4890, Number(healthData.steps.value as number), 0], ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']),
-    [healthData.steps.value, primaryColor]
+    () => generateChartData(healthData.stepsWeek.map(bucket => bucket.value ?? 0), healthData.stepsWeek.map(bucket => bucket.label)),
+    [healthData.stepsWeek, primaryColor]
   );
 
+  const hasSteps = healthData.stepsWeek.some(bucket => (bucket.value ?? 0) > 0);
+
   /* --------- Render record item --------- */
   const renderRecordItem = ({ item }: { item: HealthRecord }) => (
     <TouchableOpacity
@@ -395,9 +439,15 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
         refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={[primaryColor]} tintColor={primaryColor} />}
         showsVerticalScrollIndicator={false}
       >
-        <View style={styles.header}>
-          <Text style={[styles.headerTitle, { color: textColor }]}>Health Overview</Text>
-          <Text style={[styles.lastUpdated, { color: tertiaryText }]}>Last sync: {formatRelative(healthData.lastSync)}</Text>
+        <View style={[styles.header, styles.headerRow]}>
+          <View>
+            <Text style={[styles.headerTitle, { color: textColor }]}>Health Overview</Text>
+            <Text style={[styles.lastUpdated, { color: tertiaryText }]}>Last sync: {formatRelative(healthData.lastSync)}</Text>
+          </View>
+          <TouchableOpacity style={[styles.exportButton, { borderColor: primaryColor }]} onPress={() => setShowExportModal(true)}>
+            <MaterialIcons name="ios-share" size={18} color={primaryColor} />
+            <Text style={[styles.exportButtonText, { color: primaryColor }]}>Report</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Metrics grid */}
@@ -410,7 +460,7 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
               <View style={styles.trendContainer}>{getTrendIcon(healthData.heartRate.trend)}</View>
             </View>
             <Text style={[styles.metricValue, { color: primaryColor }]}>
-              {healthData.heartRate.value} <Text style={[styles.metricUnit, { color: tertiaryText }]}>{healthData.heartRate.unit}</Text>
+              {healthData.heartRate.value ?? '--'} <Text style={[styles.metricUnit, { color: tertiaryText }]}>{healthData.heartRate.unit}</Text>
             </Text>
           </View>
 
@@ -422,7 +472,7 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
               <View style={styles.trendContainer}>{getTrendIcon(healthData.bloodOxygen.trend)}</View>
             </View>
             <Text style={[styles.metricValue, { color: primaryColor }]}>
-              {healthData.bloodOxygen.value} <Text style={[styles.metricUnit, { color: tertiaryText }]}>{healthData.bloodOxygen.unit}</Text>
+              {healthData.bloodOxygen.value ?? '--'} <Text style={[styles.metricUnit, { color: tertiaryText }]}>{healthData.bloodOxygen.unit}</Text>
             </Text>
           </View>
 
@@ -433,7 +483,7 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
               <Text style={[styles.metricTitle, { color: textColor }]}>Blood Pressure</Text>
             </View>
             <Text style={[styles.metricValue, { color: primaryColor }]}>
-              {healthData.bloodPressure.systolic}/{healthData.bloodPressure.diastolic} <Text style={[styles.metricUnit, { color: tertiaryText }]}>mmHg</Text>
+              {healthData.bloodPressure.systolic ?? '--'}/{healthData.bloodPressure.diastolic ?? '--'} <Text style={[styles.metricUnit, { color: tertiaryText }]}>mmHg</Text>
             </Text>
           </View>
 
@@ -445,7 +495,7 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
               <View style={styles.trendContainer}>{getTrendIcon(healthData.steps.trend)}</View>
             </View>
             <Text style={[styles.metricValue, { color: primaryColor }]}>
-              {healthData.steps.value} <Text style={[styles.metricUnit, { color: tertiaryText }]}>{healthData.steps.unit}</Text>
+              {healthData.steps.value ?? '--'} <Text style={[styles.metricUnit, { color: tertiaryText }]}>{healthData.steps.unit}</Text>
             </Text>
           </View>
         </View>
@@ -453,62 +503,126 @@ const HealthHistoryScreen: React.FC<HealthHistoryScreenProps> = ({ route }) => {
         {/* Charts */}
         <View style={[styles.chartContainer, { backgroundColor: cardColor, borderColor }]}>
           <Text style={[styles.chartTitle, { color: textColor }]}>Heart Rate Trend</Text>
-          <LineChart
-            data={heartRateData}
-            width={CHART_WIDTH}
-            height={220}
-            chartConfig={{
-              backgroundColor: 'transparent',
-              backgroundGradientFrom: 'transparent',
-              backgroundGradientTo: 'transparent',
-              decimalPlaces: 0,
-              color: (opacity = 1) => primaryColor,
-              labelColor: (opacity = 1) => `rgba(0,0,0,${opacity})`,
-              style: {
-                borderRadius: 12,
-              },
-              propsForDots: {
-                r: '4',
-                strokeWidth: '2',
-                stroke: primaryColor,
-              },
-            }}
-            bezier
-            style={{ marginVertical: 8, borderRadius: 12 }}
-          />
+          {heartRateDays.length > 1 ? (
+            <LineChart
+              data={heartRateData}
+              width={CHART_WIDTH}
+              height={220}
+              chartConfig={{
+                backgroundColor: 'transparent',
+                backgroundGradientFrom: 'transparent',
+                backgroundGradientTo: 'transparent',
+                decimalPlaces: 0,
+                color: (opacity = 1) => primaryColor,
+                labelColor: (opacity = 1) => `rgba(0,0,0,${opacity})`,
+                style: {
+                  borderRadius: 12,
+                },
+                propsForDots: {
+                  r: '4',
+                  strokeWidth: '2',
+                  stroke: primaryColor,
+                },
+              }}
+              bezier
+              style={{ marginVertical: 8, borderRadius: 12 }}
+            />
+          ) : (
+            <Text style={[styles.noDataText, { color: tertiaryText }]}>Not enough heart rate readings this week</Text>
+          )}
         </View>
 
         <View style={[styles.chartContainer, { backgroundColor: cardColor, borderColor }]}>
           <Text style={[styles.chartTitle, { color: textColor }]}>Daily Steps</Text>
-          <LineChart
-            data={stepsData}
-            width={CHART_WIDTH}
-            height={220}
-            chartConfig={{
-              backgroundColor: 'transparent',
-              backgroundGradientFrom: 'transparent',
-              backgroundGradientTo: 'transparent',
-              decimalPlaces: 0,
-              color: (opacity = 1) => primaryColor,
-              labelColor: (opacity = 1) => `rgba(0,0,0,${opacity})`,
-              style: { borderRadius: 12 },
-              propsForDots: { r: '4', strokeWidth: '2', stroke: primaryColor },
-            }}
-            bezier
-            style={{ marginVertical: 8, borderRadius: 12 }}
-          />
+          {hasSteps ? (
+            <LineChart
+              data={stepsData}
+              width={CHART_WIDTH}
+              height={220}
+              chartConfig={{
+                backgroundColor: 'transparent',
+                backgroundGradientFrom: 'transparent',
+                backgroundGradientTo: 'transparent',
+                decimalPlaces: 0,
+                color: (opacity = 1) => primaryColor,
+                labelColor: (opacity = 1) => `rgba(0,0,0,${opacity})`,
+                style: { borderRadius: 12 },
+                propsForDots: { r: '4', strokeWidth: '2', stroke: primaryColor },
+              }}
+              bezier
+              style={{ marginVertical: 8, borderRadius: 12 }}
+            />
+          ) : (
+            <Text style={[styles.noDataText, { color: tertiaryText }]}>No steps recorded this week</Text>
+          )}
         </View>
 
         {/* Records */}
-        <Text style={[styles.sectionTitle, { color: textColor }]}>Recent Records</Text>
+        <Text style={[styles.sectionTitle, { color: textColor }]}>Latest Readings</Text>
         <FlatList data={healthData.records} renderItem={renderRecordItem} keyExtractor={(i) => i.id} scrollEnabled={false} contentContainerStyle={styles.recordsList} ListEmptyComponent={
           <View style={styles.emptyState}>
             <MaterialIcons name="folder-open" size={48} color={tertiaryText} />
-            <Text style={[styles.emptyText, { color: tertiaryText }]}>No health records found</Text>
+            <Text style={[styles.emptyText, { color: tertiaryText }]}>No readings synced yet</Text>
           </View>
         } />
       </ScrollView>
 
+      {/* Export Modal */}
+      <Modal visible={showExportModal} animationType="slide" transparent onRequestClose={() => setShowExportModal(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: cardColor }]}>
+            <View style={[styles.modalHeader, { borderBottomColor: borderColor }]}>
+              <Text style={[styles.modalTitle, { color: textColor }]}>Health Report for a Doctor</Text>
+              <TouchableOpacity onPress={() => setShowExportModal(false)} style={styles.closeButton}>
+                <MaterialIcons name="close" size={22} color={tertiaryText} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.modalBody}>
+              <Text style={{ color: tertiaryText, marginBottom: 12 }}>
+                Vitals with trend charts, medication adherence, symptoms, appointments and alerts.
+              </Text>
+
+              <Text style={{ color: tertiaryText, fontSize: 13, marginBottom: 6 }}>Period</Text>
+              <View style={styles.periodRow}>
+                {REPORT_PERIODS.map(days => {
+                  const selected = days === reportDays;
+                  return (
+                    <TouchableOpacity
+                      key={days}
+                      style={[styles.periodChip, { borderColor: selected ? primaryColor : borderColor }, selected && { backgroundColor: primaryColor }]}
+                      onPress={() => setReportDays(days)}
+                    >
+                      <Text style={{ color: selected ? '#FFFFFF' : textColor }}>Last {days} days</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={{ color: tertiaryText, fontSize: 13, marginTop: 12, marginBottom: 6 }}>Share as</Text>
+              {REPORT_FORMATS.map(({ format, label, hint }) => (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.formatButton, { borderColor }]}
+                  onPress={() => exportReport(format)}
+                  disabled={exporting !== null}
+                >
+                  <View>
+                    <Text style={[styles.formatLabel, { color: textColor }]}>{label}</Text>
+                    <Text style={{ color: tertiaryText, fontSize: 13 }}>{hint}</Text>
+                  </View>
+                  {exporting === format ? (
+                    <ActivityIndicator color={primaryColor} />
+                  ) : (
+                    <MaterialIcons name="chevron-right" size={22} color={tertiaryText} />
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Record Modal */}
       <Modal visible={showRecordModal} animationType="slide" transparent onRequestClose={() => setShowRecordModal(false)}>
         <View style={styles.modalOverlay}>
@@ -568,6 +682,9 @@ const styles = StyleSheet.create({
   container: { flex: 1 },
   scrollView: { padding: 16, paddingBottom: 40 },
   header: { marginBottom: 12 },
+  headerRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  exportButton: { flexDirection: 'row', alignItems: 'center', borderWidth: 1, borderRadius: 16, paddingHorizontal: 12, paddingVertical: 6 },
+  exportButtonText: { fontSize: 14, fontWeight: '600', marginLeft: 6 },
   headerTitle: { fontSize: 24, fontWeight: '700', marginBottom: 4 },
   lastUpdated: { fontSize: 12, color: '#6B7280' },
   metricsGrid: { 
@@ -591,6 +708,7 @@ const styles = StyleSheet.create({
   metricUnit: { fontSize: 12, fontWeight: '400', marginLeft: 6 },
   chartContainer: { borderRadius: 12, padding: 12, marginBottom: 16, borderWidth: 1 },
   chartTitle: { fontSize: 16, fontWeight: '500', marginBottom: 8 },
+  noDataText: { fontSize: 14, textAlign: 'center', paddingVertical: 24 },
   sectionTitle: { fontSize: 18, fontWeight: '600', marginBottom: 8 },
   recordsList: { paddingBottom: 30 },
   recordCard: { borderRadius: 10, padding: 12, marginBottom: 12, borderWidth: 1 },
@@ -615,6 +733,10 @@ const styles = StyleSheet.create({
   modalHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', padding: 12, borderBottomWidth: 1 },
   modalTitle: { fontSize: 18, fontWeight: '700', flex: 1, marginRight: 8 },
   closeButton: { padding: 6 },
+  periodRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  periodChip: { borderWidth: 1, borderRadius: 16, paddingHorizontal: 12, paddingVertical: 6, marginRight: 8, marginBottom: 8 },
+  formatButton: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', borderWidth: 1, borderRadius: 10, padding: 12, marginBottom: 8 },
+  formatLabel: { fontSize: 16, fontWeight: '600' },
   modalBody: { padding: 12 },
 });
 
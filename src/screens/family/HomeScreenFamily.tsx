@@ -20,7 +20,12 @@ import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { Ionicons, MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
-import { getSeniors, saveSeniors, clearAllSeniors } from '../../utils/seniorStorage';
+import { getSeniors, saveSeniors, clearAllSeniors, addSenior } from '../../utils/seniorStorage';
+import { getOrCreateFamilyId } from '../../utils/idManager';
+import { getSentLinkRequests } from '../../services/LinkRequestService';
+import { registerFamilyPush } from '../../services/FamilyPush';
+import { ALL_PERMISSION_SCOPES, PermissionScope } from '../../types/permissions';
+import PinRecoveryRequests from '../../components/PinRecoveryRequests';
 import type { SeniorData } from '../../utils/seniorStorage';
 
 
@@ -66,6 +71,8 @@ const HomeScreenFamily = () => {
   const [activeTab, setActiveTab] = useState('Home');
   const [seniorMembers, setSeniorMembers] = useState<SeniorData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  // Scopes granted on approved links, keyed by the senior's CareTrek ID
+  const [linkScopes, setLinkScopes] = useState<Record<string, PermissionScope[]>>({});
   
   // Clear all senior data on initial load (for development/testing)
   // Remove or comment this out in production
@@ -119,7 +126,32 @@ const HomeScreenFamily = () => {
   // Load connected seniors from storage
   const loadSeniors = useCallback(async () => {
     try {
-      const savedSeniors = await getSeniors();
+      let savedSeniors = await getSeniors();
+
+      // Pick up link requests the senior has approved since the last load.
+      // Seniors without an approved link show no vitals.
+      const sentRequests = await getSentLinkRequests(await getOrCreateFamilyId());
+      setLinkScopes(
+        sentRequests.reduce<Record<string, PermissionScope[]>>((acc, r) => {
+          if (r.status === 'approved') acc[r.seniorId] = r.scopes ?? ALL_PERMISSION_SCOPES;
+          return acc;
+        }, {})
+      );
+      const newlyApproved = sentRequests.filter(
+        r => r.status === 'approved' && !savedSeniors.some(s => s.seniorId === r.seniorId)
+      );
+      for (const request of newlyApproved) {
+        await addSenior({
+          name: request.seniorName,
+          seniorId: request.seniorId,
+          status: 'online',
+          lastActive: 'Just now',
+          avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(request.seniorName)}&background=random`,
+        });
+      }
+      if (newlyApproved.length > 0) {
+        savedSeniors = await getSeniors();
+      }
       
       // If no seniors exist, create default ones
       if (savedSeniors.length === 0) {
@@ -140,6 +172,11 @@ const HomeScreenFamily = () => {
       loadSeniors();
     }
   }, [isFocused, loadSeniors]);
+
+  // Let urgent alerts such as falls reach this phone while the app is closed
+  useEffect(() => {
+    getOrCreateFamilyId().then(registerFamilyPush);
+  }, []);
   
   const onRefresh = useCallback(() => {
     setRefreshing(true);
@@ -250,20 +287,22 @@ const HomeScreenFamily = () => {
           </Text>
         </View>
       </View>
-      <View style={styles.metricsRow}>
-        <View style={styles.metric}>
-          <Ionicons name="heart" size={16} color="#E53E3E" />
-          <Text style={[styles.metricText, { color: isDark ? '#E2E8F0' : '#2D3748' }]}>
-            {item.heartRate} <Text style={styles.metricUnit}>BPM</Text>
-          </Text>
-        </View>
-        <View style={styles.metric}>
-          <Ionicons name="water" size={16} color="#3182CE" />
-          <Text style={[styles.metricText, { color: isDark ? '#E2E8F0' : '#2D3748' }]}>
-            {item.oxygen}% <Text style={styles.metricUnit}>SpO₂</Text>
-          </Text>
+      {(linkScopes[item.seniorId]?.includes('vitals')) && (
+        <View style={styles.metricsRow}>
+          <View style={styles.metric}>
+            <Ionicons name="heart" size={16} color="#E53E3E" />
+            <Text style={[styles.metricText, { color: isDark ? '#E2E8F0' : '#2D3748' }]}>
+              {item.heartRate} <Text style={styles.metricUnit}>BPM</Text>
+            </Text>
+          </View>
+          <View style={styles.metric}>
+            <Ionicons name="water" size={16} color="#3182CE" />
+            <Text style={[styles.metricText, { color: isDark ? '#E2E8F0' : '#2D3748' }]}>
+              {item.oxygen}% <Text style={styles.metricUnit}>SpO₂</Text>
+            </Text>
+          </View>
         </View>
-      </View>
+      )}
     </TouchableOpacity>
   );
 
@@ -336,6 +375,9 @@ const HomeScreenFamily = () => {
             </TouchableOpacity>
           </View>
 
+          {/* Seniors asking for help with a forgotten app lock PIN */}
+          <PinRecoveryRequests />
+
           {/* Quick Actions */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
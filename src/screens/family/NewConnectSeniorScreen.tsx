@@ -16,7 +16,17 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import StickyInput from '../../components/StickyInput';
 import { useNavigation, useTheme as useNavTheme, useRoute } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import type { RouteProp } from '@react-navigation/native';
 import { addSenior } from '../../utils/seniorStorage';
+import { getOrCreateFamilyId } from '../../utils/idManager';
+import { submitLinkRequest } from '../../services/LinkRequestService';
+import { registerFamilyPush } from '../../services/FamilyPush';
+import {
+  DEFAULT_SHARE_CODE_OPTIONS,
+  isValidShareCodeFormat,
+  redeemShareCode,
+  resolveShareCode,
+} from '../../services/ShareCodeService';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
@@ -24,11 +34,16 @@ import { useTranslation } from '../../contexts/translation/TranslationContext';
 // Define the navigation params type
 type RootStackParamList = {
   Home: undefined;
-  ConnectSenior: undefined;
+  // Filled in by ScanQRCode after the QR signature has been checked
+  ConnectSenior: { shareCode?: string; seniorId?: string } | undefined;
+  ScanQRCode: undefined;
   // Add other screens as needed
 };
 
 type NewConnectSeniorScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ConnectSenior'>;
+type NewConnectSeniorScreenRouteProp = RouteProp<RootStackParamList, 'ConnectSenior'>;
+
+const SHARE_CODE_LENGTH = DEFAULT_SHARE_CODE_OPTIONS.length;
 
 const isHex = (s: string) => /^#([A-Fa-f0-9]{3,8})$/.test(s.trim());
 const isRgb = (s: string) => /^rgba?\(/i.test(s.trim());
@@ -107,22 +122,39 @@ function hexWithAlpha(color: string, alphaHex = 'CC'): string {
 
 const NewConnectSeniorScreen: React.FC = () => {
   const seniorNameInput = React.useRef<any>(null);
-  const seniorIdInput = React.useRef<any>(null);
+  const shareCodeInput = React.useRef<any>(null);
+  const requesterEmailInput = React.useRef<any>(null);
   const navigation = useNavigation<NewConnectSeniorScreenNavigationProp>();
+  const route = useRoute<NewConnectSeniorScreenRouteProp>();
   const theme = useTheme() as any;
   const { colors } = useNavTheme();
   const { t } = useTranslation();
 
   const [formData, setFormData] = useState({
-    seniorId: '',
-    seniorName: ''
+    shareCode: '',
+    seniorName: '',
+    requesterEmail: ''
   });
   const [isConnecting, setIsConnecting] = useState(false);
   const [errors, setErrors] = useState({
-    seniorId: '',
-    seniorName: ''
+    shareCode: '',
+    seniorName: '',
+    requesterEmail: ''
   });
   const [suggestedName, setSuggestedName] = useState('');
+  const scannedSeniorId = route.params?.seniorId;
+
+  // Pre-fill the form from a scanned QR code
+  React.useEffect(() => {
+    const params = route.params;
+    if (!params?.shareCode) return;
+
+    setFormData(prev => ({
+      ...prev,
+      shareCode: params.shareCode!.toUpperCase(),
+    }));
+    setErrors(prev => ({ ...prev, shareCode: '' }));
+  }, [route.params]);
 
   // Mock function to simulate name lookup - replace with your actual API call
   const lookupSeniorName = (id: string) => {
@@ -147,16 +179,17 @@ const NewConnectSeniorScreen: React.FC = () => {
 
   const validateForm = () => {
     const newErrors = {
-      seniorId: '',
-      seniorName: ''
+      shareCode: '',
+      seniorName: '',
+      requesterEmail: ''
     };
     let isValid = true;
 
-    if (!formData.seniorId) {
-      newErrors.seniorId = 'Senior ID is required';
+    if (!formData.shareCode) {
+      newErrors.shareCode = 'Share code is required';
       isValid = false;
-    } else if (!/^[A-Z0-9]{6}$/.test(formData.seniorId)) {
-      newErrors.seniorId = 'ID must be 6 characters (letters/numbers)';
+    } else if (!isValidShareCodeFormat(formData.shareCode, SHARE_CODE_LENGTH)) {
+      newErrors.shareCode = `Code must be ${SHARE_CODE_LENGTH} characters (letters/numbers)`;
       isValid = false;
     }
 
@@ -165,12 +198,17 @@ const NewConnectSeniorScreen: React.FC = () => {
       isValid = false;
     }
 
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.requesterEmail.trim())) {
+      newErrors.requesterEmail = 'Please enter a valid email address';
+      isValid = false;
+    }
+
     setErrors(newErrors);
     return isValid;
   };
 
   const handleInputChange = (field: string, value: string) => {
-    const newValue = field === 'seniorId' ? value.toUpperCase() : value;
+    const newValue = field === 'shareCode' ? value.toUpperCase() : value;
     
     setFormData(prev => ({
       ...prev,
@@ -178,8 +216,8 @@ const NewConnectSeniorScreen: React.FC = () => {
     }));
     
     // If we're updating the senior ID, try to look up the name
-    if (field === 'seniorId') {
-      if (newValue.length === 6) {
+    if (field === 'shareCode') {
+      if (newValue.length === SHARE_CODE_LENGTH) {
         const name = lookupSeniorName(newValue);
         setSuggestedName(name || '');
       } else {
@@ -194,23 +232,45 @@ const NewConnectSeniorScreen: React.FC = () => {
     setIsConnecting(true);
     
     try {
-      // Save the new senior to storage
-      const newSenior = await addSenior({
-        name: formData.seniorName,
-        seniorId: formData.seniorId,
-        status: 'online',
-        lastActive: 'Just now',
-        heartRate: Math.floor(Math.random() * 40) + 60, // Random heart rate between 60-100
-        oxygen: Math.floor(Math.random() * 5) + 95, // Random oxygen between 95-100
-        battery: Math.floor(Math.random() * 50) + 50, // Random battery between 50-100
-        location: 'Home',
-        avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(formData.seniorName)}&background=random`,
+      // Codes expire and can be revoked, so resolve to the permanent senior ID first
+      const seniorId = await resolveShareCode(formData.shareCode);
+      if (!seniorId || (scannedSeniorId && seniorId !== scannedSeniorId)) {
+        setErrors(prev => ({
+          ...prev,
+          shareCode: 'This code is invalid or has expired. Ask the senior for their current code.'
+        }));
+        return;
+      }
+
+      const requesterEmail = formData.requesterEmail.trim();
+      const request = await submitLinkRequest({
+        seniorId,
+        seniorName: formData.seniorName.trim(),
+        requesterId: await getOrCreateFamilyId(),
+        requesterName: requesterEmail.split('@')[0],
+        requesterEmail,
       });
-      
-      // Show success message
+      // Only count the use once the request is in, so a failed submit does not burn a single-use code
+      await redeemShareCode(formData.shareCode).catch(error => console.error('Error redeeming share code:', error));
+      // So this senior's fall and SOS alerts reach the phone while the app is closed
+      registerFamilyPush(request.requesterId);
+
+      if (request.status === 'approved') {
+        await addSenior({
+          name: request.seniorName,
+          seniorId: request.seniorId,
+          status: 'online',
+          lastActive: 'Just now',
+          avatar: `https://ui-avatars.com/api/?name=${encodeURIComponent(request.seniorName)}&background=random`,
+        });
+      }
+
+      // Either linked instantly or waiting on the senior (APP_FLOW.md §3.2)
       Alert.alert(
-        'Success',
-        `Successfully connected with ${formData.seniorName}`,
+        request.status === 'approved' ? 'Success' : 'Request Sent',
+        request.status === 'approved'
+          ? `Successfully connected with ${request.seniorName}`
+          : `Request sent — waiting for approval from ${request.seniorName}.`,
         [
           {
             text: 'OK',
@@ -233,7 +293,9 @@ const NewConnectSeniorScreen: React.FC = () => {
     navigation.goBack();
   };
 
-  const canSubmit = formData.seniorId.length === 6 && formData.seniorName.trim().length > 0;
+  const canSubmit = formData.shareCode.length === SHARE_CODE_LENGTH &&
+    formData.seniorName.trim().length > 0 &&
+    formData.requesterEmail.trim().length > 0;
 
   // Decide button background: if hex -> append alpha for disabled/connecting, otherwise use primaryColor directly
   const buttonBg = (() => {
@@ -293,22 +355,37 @@ const NewConnectSeniorScreen: React.FC = () => {
               />
             </View>
 
+            <TouchableOpacity
+              style={[styles.scanButton, { borderColor: primaryColor }]}
+              onPress={() => navigation.navigate('ScanQRCode')}
+              accessibilityLabel="Scan the senior's QR code"
+            >
+              <Ionicons name="qr-code-outline" size={22} color={primaryColor} />
+              <Text style={[styles.scanButtonText, { color: primaryColor }]}>
+                Scan QR Code
+              </Text>
+            </TouchableOpacity>
+
+            <Text style={[styles.orText, { color: textTertiary }]}>
+              or enter the code
+            </Text>
+
             <View style={styles.formGroup}>
               <Text style={[styles.label, { color: textColor, marginBottom: 8 }]}>
-                Senior's 6-digit ID
+                Senior's Share Code
               </Text>
               <View style={[styles.inputContainer, { 
-                borderColor: errors.seniorId ? '#EF4444' : hexWithAlpha(primaryColor, '33'),
+                borderColor: errors.shareCode ? '#EF4444' : hexWithAlpha(primaryColor, '33'),
                 backgroundColor: cardColor,
                 shadowColor: isDark ? '#000' : hexWithAlpha(primaryColor, '15'),
                 shadowOffset: { width: 0, height: 2 },
                 shadowOpacity: 1,
                 shadowRadius: 8,
                 elevation: 3,
-                marginBottom: errors.seniorId ? 4 : 20
+                marginBottom: errors.shareCode ? 4 : 20
               }]}>
                 <StickyInput
-                  ref={seniorIdInput}
+                  ref={shareCodeInput}
                   style={{ 
                     color: textColor,
                     flex: 1,
@@ -316,25 +393,25 @@ const NewConnectSeniorScreen: React.FC = () => {
                   }}
                   placeholder="e.g. AB1234"
                   placeholderTextColor={textTertiary}
-                  value={formData.seniorId}
+                  value={formData.shareCode}
                   onChangeText={(val: string) => {
-                    handleInputChange('seniorId', val);
-                    if (val.length === 6 && suggestedName) {
+                    handleInputChange('shareCode', val);
+                    if (val.length === SHARE_CODE_LENGTH && suggestedName) {
                       handleInputChange('seniorName', suggestedName);
                       seniorNameInput.current?.focus();
                     }
                   }}
-                  maxLength={6}
+                  maxLength={SHARE_CODE_LENGTH}
                   selectionColor={primaryColor}
-                  returnKeyType={formData.seniorId.length === 5 ? 'next' : 'default'}
+                  returnKeyType={formData.shareCode.length === SHARE_CODE_LENGTH - 1 ? 'next' : 'default'}
                   onSubmitEditing={() => {
-                    if (formData.seniorId.length === 6) {
+                    if (formData.shareCode.length === SHARE_CODE_LENGTH) {
                       if (suggestedName) {
                         handleInputChange('seniorName', suggestedName);
                       }
                       seniorNameInput.current?.focus();
                     } else {
-                      seniorIdInput.current?.focus();
+                      shareCodeInput.current?.focus();
                     }
                   }}
                 />
@@ -349,8 +426,8 @@ const NewConnectSeniorScreen: React.FC = () => {
                 <Text style={[styles.helperText, { color: primaryColor }]}>
                   Found: {suggestedName}
                 </Text>
-              ) : errors.seniorId ? (
-                <Text style={styles.errorText}>{errors.seniorId}</Text>
+              ) : errors.shareCode ? (
+                <Text style={styles.errorText}>{errors.shareCode}</Text>
               ) : null}
             </View>
 
@@ -381,8 +458,8 @@ const NewConnectSeniorScreen: React.FC = () => {
                   onChangeText={(val: string) => handleInputChange('seniorName', val)}
                   autoCapitalize="words"
                   selectionColor={primaryColor}
-                  returnKeyType="done"
-                  onSubmitEditing={handleConnect}
+                  returnKeyType="next"
+                  onSubmitEditing={() => requesterEmailInput.current?.focus()}
                 />
                 <Ionicons 
                   name="person-outline" 
@@ -396,6 +473,50 @@ const NewConnectSeniorScreen: React.FC = () => {
               ) : null}
             </View>
 
+            <View style={styles.formGroup}>
+              <Text style={[styles.label, { color: textColor, marginBottom: 8 }]}>
+                Your Email
+              </Text>
+              <View style={[styles.inputContainer, { 
+                borderColor: errors.requesterEmail ? '#EF4444' : hexWithAlpha(primaryColor, '33'),
+                backgroundColor: cardColor,
+                shadowColor: isDark ? '#000' : hexWithAlpha(primaryColor, '15'),
+                shadowOffset: { width: 0, height: 2 },
+                shadowOpacity: 1,
+                shadowRadius: 8,
+                elevation: 3,
+                marginBottom: errors.requesterEmail ? 4 : 20
+              }]}>
+                <StickyInput
+                  ref={requesterEmailInput}
+                  style={{ 
+                    color: textColor,
+                    flex: 1,
+                    fontSize: 16,
+                  }}
+                  placeholder="e.g. you@example.com"
+                  placeholderTextColor={textTertiary}
+                  value={formData.requesterEmail}
+                  onChangeText={(val: string) => handleInputChange('requesterEmail', val)}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  selectionColor={primaryColor}
+                  returnKeyType="done"
+                  onSubmitEditing={handleConnect}
+                />
+                <Ionicons 
+                  name="mail-outline" 
+                  size={20} 
+                  color={textTertiary} 
+                  style={{ marginLeft: 12, opacity: 0.7 }}
+                />
+              </View>
+              {errors.requesterEmail ? (
+                <Text style={styles.errorText}>{errors.requesterEmail}</Text>
+              ) : null}
+            </View>
+
             <View style={styles.infoBox}>
               <Ionicons 
                 name="information-circle-outline" 
@@ -408,7 +529,7 @@ const NewConnectSeniorScreen: React.FC = () => {
                 flex: 1,
                 lineHeight: 20
               }]}>
-                Ask the senior for their unique 6-digit ID and enter their name to connect and start monitoring their health data.
+                Ask the senior for the share code shown on their Share ID screen and enter their name. They will be asked to approve your request before you can see their health data.
               </Text>
             </View>
 
@@ -513,6 +634,24 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 14,
+  },
+  scanButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  orText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
   connectButton: {
     width: '100%',
     paddingVertical: 16,
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { CameraView, BarcodeScanningResult, useCameraPermissions } from 'expo-camera';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme/ThemeContext';
+import { verifyPairingPayload } from '../../services/QrPairingService';
+
+type RootStackParamList = {
+  ConnectSenior: { shareCode?: string; seniorId?: string } | undefined;
+  ScanQRCode: undefined;
+};
+
+type ScanQRCodeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ScanQRCode'>;
+
+const SCAN_ERRORS = {
+  invalid: 'This is not a CareTrek code. Ask the senior to open their Share ID screen.',
+  unverified: 'This code could not be checked. Make sure you are online, then ask the senior to show their code again.',
+  expired: 'This code has expired. Ask the senior for their current code.',
+};
+
+const ScanQRCodeScreen = () => {
+  const navigation = useNavigation<ScanQRCodeScreenNavigationProp>();
+  const { colors } = useTheme();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [scanned, setScanned] = useState(false);
+
+  useEffect(() => {
+    if (permission?.status === 'undetermined') {
+      requestPermission();
+    }
+  }, [permission?.status, requestPermission]);
+
+  const handleBarcodeScanned = async ({ data }: BarcodeScanningResult) => {
+    setScanned(true);
+
+    const result = await verifyPairingPayload(data);
+    if (!result.ok) {
+      Alert.alert('Cannot Use This Code', SCAN_ERRORS[result.reason], [
+        { text: 'Scan Again', onPress: () => setScanned(false) },
+      ]);
+      return;
+    }
+
+    // Hand the checked details back to the connect form
+    navigation.popTo('ConnectSenior', {
+      shareCode: result.payload.shareCode,
+      seniorId: result.payload.seniorId,
+    });
+  };
+
+  if (!permission || permission.status === 'undetermined') {
+    return (
+      <View style={[styles.centered, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!permission.granted) {
+    return (
+      <SafeAreaView style={[styles.centered, { backgroundColor: colors.background }]}>
+        <Ionicons name="camera-outline" size={64} color={colors.textSecondary} />
+        <Text style={[styles.message, { color: colors.text }]}>
+          Camera access is needed to scan the senior's QR code.
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.primary }]}
+          onPress={() => (permission.canAskAgain ? requestPermission() : Linking.openSettings())}
+        >
+          <Text style={styles.buttonText}>{permission.canAskAgain ? 'Allow Camera' : 'Open Settings'}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={scanned ? undefined : handleBarcodeScanned}
+        style={StyleSheet.absoluteFillObject}
+      />
+      <View style={styles.overlay}>
+        <View style={[styles.frame, { borderColor: colors.primary }]} />
+        <Text style={styles.overlayText}>
+          {scanned ? 'Checking the code…' : "Point your camera at the QR code on the senior's phone"}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 24,
+    lineHeight: 22,
+  },
+  button: {
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  frame: {
+    width: 250,
+    height: 250,
+    borderWidth: 3,
+    borderRadius: 16,
+  },
+  overlayText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 24,
+    lineHeight: 22,
+  },
+});
+
+export default ScanQRCodeScreen;
@@ -19,6 +19,13 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 import { useTranslation } from '../../contexts/translation/TranslationContext';
 import { useCachedTranslation } from '../../hooks/useCachedTranslation';
+import { getSeniors } from '../../utils/seniorStorage';
+import { getOrCreateFamilyId } from '../../utils/idManager';
+import { getLinkScopes } from '../../services/LinkRequestService';
+import { pullSyncedRecords } from '../../services/SyncService';
+import { vitalStatus } from '../../services/VitalRules';
+import { VitalLimitRecord } from '../../types/vitals';
+import { ALL_PERMISSION_SCOPES, PermissionScope, SOS_ONLY_SCOPES } from '../../types/permissions';
 
 const { width } = Dimensions.get('window');
 
@@ -70,6 +77,10 @@ const SeniorDetailScreen = () => {
   
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'overview' | 'activity'>('overview');
+  const [scopes, setScopes] = useState<PermissionScope[]>(SOS_ONLY_SCOPES);
+  const canSee = (scope: PermissionScope) => scopes.includes(scope);
+  // Limits a clinician set for this senior; the defaults apply to anything not set
+  const [vitalLimits, setVitalLimits] = useState<VitalLimitRecord[]>([]);
 
   // Translations
   const { translatedText: backText } = useCachedTranslation('Back', currentLanguage);
@@ -96,6 +107,10 @@ const SeniorDetailScreen = () => {
   const { translatedText: yesText } = useCachedTranslation('Yes', currentLanguage);
   const { translatedText: errorLoadingText } = useCachedTranslation('Error loading senior details', currentLanguage);
   const { translatedText: retryText } = useCachedTranslation('Retry', currentLanguage);
+  const { translatedText: limitedAccessText } = useCachedTranslation(
+    'Some information is hidden by this senior\'s sharing settings',
+    currentLanguage
+  );
 
   // Mock data - replace with actual API call
   useEffect(() => {
@@ -151,6 +166,13 @@ const SeniorDetailScreen = () => {
           ...seniorData
         };
         
+        // Nothing beyond SOS alerts shows until the link's scopes have loaded
+        const saved = (await getSeniors()).find(s => s.id === route.params.seniorId);
+        if (saved) {
+          setScopes(await getLinkScopes(saved.seniorId, await getOrCreateFamilyId()));
+          setVitalLimits(await pullSyncedRecords(saved.seniorId, 'vitalLimits'));
+        }
+        
         setSenior(mockData);
       } catch (error) {
         console.error('Error fetching senior details:', error);
@@ -163,19 +185,28 @@ const SeniorDetailScreen = () => {
   }, [route.params.seniorId]);
 
   const healthMetrics: HealthMetric[] = [
-    { id: '1', type: 'heart', value: senior?.heartRate.toString() || '--', label: bpmText, unit: 'BPM', trend: 'down', status: senior?.heartRate && senior.heartRate > 90 ? 'warning' : 'normal' },
-    { id: '2', type: 'oxygen', value: senior?.oxygen.toString() || '--', label: spo2Text, unit: '%', trend: 'up', status: senior?.oxygen && senior.oxygen < 95 ? 'warning' : 'normal' },
+    { id: '1', type: 'heart', value: senior?.heartRate.toString() || '--', label: bpmText, unit: 'BPM', trend: 'down', status: vitalStatus('heartRate', senior?.heartRate, vitalLimits) },
+    { id: '2', type: 'oxygen', value: senior?.oxygen.toString() || '--', label: spo2Text, unit: '%', trend: 'up', status: vitalStatus('oxygenSaturation', senior?.oxygen, vitalLimits) },
     { id: '3', type: 'steps', value: senior?.steps.toLocaleString() || '0', label: stepsText, trend: 'up' },
     { id: '4', type: 'battery', value: senior?.battery.toString() || '--', label: batteryText, unit: '%', status: senior?.battery && senior.battery < 20 ? 'warning' : 'normal' },
   ];
 
-  const recentActivity: Activity[] = [
+  const allActivity: Activity[] = [
     { id: '1', type: 'walk', title: 'Morning Walk', time: '2 hours ago', details: '1.2 km • 15 min', icon: 'walk' },
     { id: '2', type: 'medication', title: 'Medication Taken', time: '4 hours ago', details: 'Lisinopril 10mg', icon: 'medical-bag' },
     { id: '3', type: 'alert', title: 'High Heart Rate', time: '6 hours ago', details: '102 BPM', icon: 'heart-pulse' },
     { id: '4', type: 'location', title: 'Location Updated', time: '8 hours ago', details: '123 Main St', icon: 'map-marker' },
   ];
 
+  const ACTIVITY_SCOPES: Record<Activity['type'], PermissionScope> = {
+    walk: 'vitals',
+    medication: 'reminders',
+    alert: 'sos',
+    location: 'location',
+  };
+
+  const recentActivity = allActivity.filter(activity => canSee(ACTIVITY_SCOPES[activity.type]));
+
   const handleCall = () => {
     if (!senior) return;
     
@@ -210,8 +241,9 @@ const SeniorDetailScreen = () => {
     if (!senior) return;
     
     try {
+      const status = `${senior.name}'s current status: ${senior.status === 'online' ? 'Online' : 'Needs Attention'}.`;
       await Share.share({
-        message: `${senior.name}'s current status: ${senior.status === 'online' ? 'Online' : 'Needs Attention'}. Location: ${senior.location}`,
+        message: canSee('location') ? `${status} Location: ${senior.location}` : status,
         title: `${senior.name}'s Status`,
       });
     } catch (error) {
@@ -445,34 +477,44 @@ const SeniorDetailScreen = () => {
               </Text>
             </TouchableOpacity>
             
-            <TouchableOpacity 
-              style={[styles.actionButton, { backgroundColor: isDark ? '#2D3748' : '#E2E8F0' }]}
-              onPress={handleMessage}
-            >
-              <Ionicons 
-                name="chatbubble-ellipses" 
-                size={20} 
-                color={isDark ? '#4299E1' : '#2B6CB0'} 
-              />
-              <Text style={[styles.actionButtonText, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
-                {messageText}
-              </Text>
-            </TouchableOpacity>
+            {canSee('messages') && (
+              <TouchableOpacity 
+                style={[styles.actionButton, { backgroundColor: isDark ? '#2D3748' : '#E2E8F0' }]}
+                onPress={handleMessage}
+              >
+                <Ionicons 
+                  name="chatbubble-ellipses" 
+                  size={20} 
+                  color={isDark ? '#4299E1' : '#2B6CB0'} 
+                />
+                <Text style={[styles.actionButtonText, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
+                  {messageText}
+                </Text>
+              </TouchableOpacity>
+            )}
             
-            <TouchableOpacity 
-              style={[styles.actionButton, { backgroundColor: isDark ? '#2D3748' : '#E2E8F0' }]}
-              onPress={handleLocation}
-            >
-              <Ionicons 
-                name="location" 
-                size={20} 
-                color={isDark ? '#9F7AEA' : '#6B46C1'} 
-              />
-              <Text style={[styles.actionButtonText, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
-                {locationText}
-              </Text>
-            </TouchableOpacity>
+            {canSee('location') && (
+              <TouchableOpacity 
+                style={[styles.actionButton, { backgroundColor: isDark ? '#2D3748' : '#E2E8F0' }]}
+                onPress={handleLocation}
+              >
+                <Ionicons 
+                  name="location" 
+                  size={20} 
+                  color={isDark ? '#9F7AEA' : '#6B46C1'} 
+                />
+                <Text style={[styles.actionButtonText, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
+                  {locationText}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
+
+          {scopes.length < ALL_PERMISSION_SCOPES.length && (
+            <Text style={[styles.limitedAccessText, { color: isDark ? '#A0AEC0' : '#718096' }]}>
+              {limitedAccessText}
+            </Text>
+          )}
         </View>
 
         {/* Tabs */}
@@ -529,52 +571,58 @@ const SeniorDetailScreen = () => {
         {activeTab === 'overview' ? (
           <View style={styles.overviewContent}>
             {/* Location Card */}
-            <View style={[styles.locationCard, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
-              <View style={styles.locationHeader}>
-                <Ionicons 
-                  name="location" 
-                  size={20} 
-                  color={isDark ? '#9F7AEA' : '#6B46C1'} 
-                />
-                <Text style={[styles.locationTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
-                  {locationText}
-                </Text>
-              </View>
-              
-              <Text style={[styles.locationAddress, { color: isDark ? '#A0AEC0' : '#4A5568' }]}>
-                {senior.location}
-              </Text>
+            {canSee('location') && (
+              <View style={[styles.locationCard, { backgroundColor: isDark ? '#2D3748' : '#FFFFFF' }]}>
+                <View style={styles.locationHeader}>
+                  <Ionicons 
+                    name="location" 
+                    size={20} 
+                    color={isDark ? '#9F7AEA' : '#6B46C1'} 
+                  />
+                  <Text style={[styles.locationTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
+                    {locationText}
+                  </Text>
+                </View>
               
-              <TouchableOpacity 
-                style={[styles.viewMapButton, { backgroundColor: isDark ? '#2D3748' : '#E2E8F0' }]}
-                onPress={handleLocation}
-              >
-                <Text style={[styles.viewMapButtonText, { color: isDark ? '#9F7AEA' : '#6B46C1' }]}>
-                  {viewOnMapText}
+                <Text style={[styles.locationAddress, { color: isDark ? '#A0AEC0' : '#4A5568' }]}>
+                  {senior.location}
                 </Text>
-                <Ionicons 
-                  name="arrow-forward" 
-                  size={16} 
-                  color={isDark ? '#9F7AEA' : '#6B46C1'} 
-                />
-              </TouchableOpacity>
-            </View>
+              
+                <TouchableOpacity 
+                  style={[styles.viewMapButton, { backgroundColor: isDark ? '#2D3748' : '#E2E8F0' }]}
+                  onPress={handleLocation}
+                >
+                  <Text style={[styles.viewMapButtonText, { color: isDark ? '#9F7AEA' : '#6B46C1' }]}>
+                    {viewOnMapText}
+                  </Text>
+                  <Ionicons 
+                    name="arrow-forward" 
+                    size={16} 
+                    color={isDark ? '#9F7AEA' : '#6B46C1'} 
+                  />
+                </TouchableOpacity>
+              </View>
+            )}
 
             {/* Health Metrics */}
-            <View style={styles.sectionHeader}>
-              <Text style={[styles.sectionTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
-                {healthMetricsText}
-              </Text>
-              <TouchableOpacity onPress={() => navigation.navigate('HealthHistory', { seniorId: senior.id })}>
-                <Text style={[styles.viewAllText, { color: isDark ? '#48BB78' : '#2F855A' }]}>
-                  {viewHealthHistoryText}
-                </Text>
-              </TouchableOpacity>
-            </View>
+            {canSee('vitals') && (
+              <>
+                <View style={styles.sectionHeader}>
+                  <Text style={[styles.sectionTitle, { color: isDark ? '#E2E8F0' : '#1A202C' }]}>
+                    {healthMetricsText}
+                  </Text>
+                  <TouchableOpacity onPress={() => navigation.navigate('HealthHistory', { seniorId: senior.id })}>
+                    <Text style={[styles.viewAllText, { color: isDark ? '#48BB78' : '#2F855A' }]}>
+                      {viewHealthHistoryText}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
             
-            <View style={styles.metricsGrid}>
-              {healthMetrics.map(metric => renderHealthMetric(metric))}
-            </View>
+                <View style={styles.metricsGrid}>
+                  {healthMetrics.map(metric => renderHealthMetric(metric))}
+                </View>
+              </>
+            )}
           </View>
         ) : (
           <View style={styles.activityItemContent}>
@@ -703,6 +751,11 @@ const styles = StyleSheet.create({
     color: '#718096',
     marginBottom: 16,
   },
+  limitedAccessText: {
+    fontSize: 12,
+    marginTop: 12,
+    textAlign: 'center',
+  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -1,10 +1,10 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth } from '../../contexts/auth/AuthContext';
 import { useTheme } from '../../contexts/theme/ThemeContext';
 
 export default function GuestHomeScreen() {
-  const { signOut } = useAuth();
+  const { logout } = useAuth();
   const { isDark } = useTheme();
 
   return (
@@ -30,12 +30,12 @@ export default function GuestHomeScreen() {
 
       <TouchableOpacity 
         style={[styles.button, { backgroundColor: isDark ? '#48BB78' : '#2F855A' }]}
-        onPress={signOut}
+        onPress={logout}
       >
         <Text style={styles.buttonText}>Sign Up for Full Access</Text>
       </TouchableOpacity>
 
-      <TouchableOpacity onPress={signOut}>
+      <TouchableOpacity onPress={logout}>
         <Text style={[styles.signOutText, { color: isDark ? '#4299E1' : '#2B6CB0' }]}>
           Switch to Sign In
         </Text>
@@ -0,0 +1,168 @@
+import * as SecureStore from 'expo-secure-store';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { readStore, writeStore } from './StorageService';
+import { checkPinRecovery, closePinRecovery } from './LinkRequestService';
+import { getRandomBytes } from 'expo-crypto';
+import { safeEqual, stretchedHash } from '../utils/hmac';
+import { AppLockSettings, DEFAULT_APP_LOCK_SETTINGS } from '../types/appLock';
+
+export const PIN_LENGTH = 4;
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+// SecureStore keys; only the salted hash of the PIN is ever stored
+const PIN_HASH_KEY = 'caretrek_app_lock_pin';
+const PIN_ATTEMPTS_KEY = 'caretrek_app_lock_attempts';
+
+// Repeated hashing makes guessing all 10,000 PINs from a stolen hash slow
+const PIN_HASH_ROUNDS = 2000;
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  rounds: number;
+}
+
+interface PinAttempts {
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+export interface PinCheckResult {
+  success: boolean;
+  attemptsRemaining: number;
+  lockedUntil: number | null;
+}
+
+const randomSalt = () =>
+  Array.from(getRandomBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const readSecureJson = async <T>(key: string): Promise<T | null> => {
+  const raw = await SecureStore.getItemAsync(key);
+  return raw ? (JSON.parse(raw) as T) : null;
+};
+
+const readAttempts = async (): Promise<PinAttempts> =>
+  (await readSecureJson<PinAttempts>(PIN_ATTEMPTS_KEY)) ?? { failedAttempts: 0, lockedUntil: null };
+
+const writeAttempts = (attempts: PinAttempts) =>
+  SecureStore.setItemAsync(PIN_ATTEMPTS_KEY, JSON.stringify(attempts));
+
+export const getAppLockSettings = async (): Promise<AppLockSettings> => {
+  try {
+    return await readStore('appLockSettings');
+  } catch (error) {
+    console.error('Error loading app lock settings:', error);
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+};
+
+export const saveAppLockSettings = async (settings: AppLockSettings): Promise<void> => {
+  await writeStore('appLockSettings', settings);
+};
+
+export const hasPin = async (): Promise<boolean> => {
+  try {
+    return !!(await SecureStore.getItemAsync(PIN_HASH_KEY));
+  } catch (error) {
+    console.error('Error checking app lock PIN:', error);
+    return false;
+  }
+};
+
+export const setPin = async (pin: string): Promise<void> => {
+  if (!new RegExp(`^\\d{${PIN_LENGTH}}$`).test(pin)) {
+    throw new Error(`PIN must be ${PIN_LENGTH} digits`);
+  }
+  const salt = randomSalt();
+  const stored: StoredPin = { salt, hash: await stretchedHash(pin, salt, PIN_HASH_ROUNDS), rounds: PIN_HASH_ROUNDS };
+  await SecureStore.setItemAsync(PIN_HASH_KEY, JSON.stringify(stored));
+  await writeAttempts({ failedAttempts: 0, lockedUntil: null });
+};
+
+/**
+ * Remove the PIN and turn the lock off
+ */
+export const clearPin = async (): Promise<void> => {
+  await SecureStore.deleteItemAsync(PIN_HASH_KEY);
+  await SecureStore.deleteItemAsync(PIN_ATTEMPTS_KEY);
+  const settings = await getAppLockSettings();
+  await saveAppLockSettings({ ...settings, enabled: false, biometricEnabled: false });
+};
+
+/**
+ * Finish family-assisted recovery: a valid code from the family member
+ * replaces the forgotten PIN with the new one. The new PIN is saved before
+ * the request is closed, so a failure part way leaves the lock on and the
+ * code still usable.
+ */
+export const resetPinWithRecoveryCode = async (requestId: string, code: string, pin: string): Promise<boolean> => {
+  if (!(await checkPinRecovery(requestId, code))) return false;
+  await setPin(pin);
+  await closePinRecovery(requestId);
+  return true;
+};
+
+/**
+ * When the PIN pad is locked after too many wrong PINs, or null
+ */
+export const getPinLockout = async (now = Date.now()): Promise<number | null> => {
+  try {
+    const { lockedUntil } = await readAttempts();
+    return lockedUntil && lockedUntil > now ? lockedUntil : null;
+  } catch (error) {
+    console.error('Error reading PIN attempts:', error);
+    return null;
+  }
+};
+
+export const verifyPin = async (pin: string): Promise<PinCheckResult> => {
+  const now = Date.now();
+  const attempts = await readAttempts();
+  if (attempts.lockedUntil && attempts.lockedUntil > now) {
+    return { success: false, attemptsRemaining: 0, lockedUntil: attempts.lockedUntil };
+  }
+
+  const stored = await readSecureJson<StoredPin>(PIN_HASH_KEY);
+  if (stored && safeEqual(await stretchedHash(pin, stored.salt, stored.rounds), stored.hash)) {
+    await writeAttempts({ failedAttempts: 0, lockedUntil: null });
+    return { success: true, attemptsRemaining: MAX_PIN_ATTEMPTS, lockedUntil: null };
+  }
+
+  // A lockout that has run out starts a fresh count
+  const failedAttempts = (attempts.lockedUntil ? 0 : attempts.failedAttempts) + 1;
+  const lockedUntil = failedAttempts >= MAX_PIN_ATTEMPTS ? now + PIN_LOCKOUT_MS : null;
+  await writeAttempts({ failedAttempts: lockedUntil ? 0 : failedAttempts, lockedUntil });
+  return {
+    success: false,
+    attemptsRemaining: lockedUntil ? 0 : MAX_PIN_ATTEMPTS - failedAttempts,
+    lockedUntil,
+  };
+};
+
+/**
+ * Whether the device has a fingerprint or face enrolled that we can use
+ */
+export const isBiometricAvailable = async (): Promise<boolean> => {
+  try {
+    return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+  } catch (error) {
+    console.error('Error checking biometrics:', error);
+    return false;
+  }
+};
+
+export const authenticateWithBiometrics = async (promptMessage = 'Unlock CareTrek'): Promise<boolean> => {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: 'Use PIN',
+      // The PIN pad is the fallback, not the device passcode
+      disableDeviceFallback: true,
+    });
+    return result.success;
+  } catch (error) {
+    console.error('Biometric authentication error:', error);
+    return false;
+  }
+};
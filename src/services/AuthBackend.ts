@@ -0,0 +1,229 @@
+import { ENV } from '../config/env';
+import { readStore, writeStore } from './StorageService';
+import type { UserProfile } from '../types/roles';
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+  phoneNumber: string | null;
+  isAnonymous: boolean;
+}
+
+export interface PhoneVerification {
+  verificationId: string;
+}
+
+export type AuthBackendName = 'firebase' | 'mock';
+
+/**
+ * What the AuthProvider needs from an auth service. Backends throw `Error`s
+ * whose message can be shown to the user as is.
+ */
+export interface AuthBackend {
+  name: AuthBackendName;
+  // Called with the current user once it is known and on every change
+  onAuthStateChanged: (listener: (user: AuthUser | null) => void) => () => void;
+  signInWithEmail: (email: string, password: string) => Promise<AuthUser>;
+  register: (email: string, password: string, displayName: string) => Promise<AuthUser>;
+  sendPhoneCode: (phoneNumber: string) => Promise<PhoneVerification>;
+  confirmPhoneCode: (verificationId: string, code: string) => Promise<AuthUser>;
+  signInAnonymously: () => Promise<AuthUser>;
+  // Passwordless fallback for when phone verification fails; the link opens the app at continueUrl
+  sendEmailLink: (email: string, continueUrl: string) => Promise<void>;
+  isEmailLink: (link: string) => boolean;
+  signInWithEmailLink: (email: string, link: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updateProfile: (updates: { displayName?: string; photoURL?: string }) => Promise<AuthUser>;
+  updateEmail: (newEmail: string, password: string) => Promise<AuthUser>;
+  updatePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  deleteAccount: (password: string) => Promise<void>;
+  // Role profile stored with the account; null when none has been saved yet
+  loadProfile: (uid: string) => Promise<UserProfile | null>;
+  saveProfile: (profile: UserProfile) => Promise<void>;
+}
+
+// The only code the mock backend accepts for phone sign-in
+export const MOCK_OTP_CODE = '123456';
+
+// Code carried by every email link the mock backend "sends"
+export const MOCK_EMAIL_LINK_CODE = 'mock-email-link';
+
+export const createMockEmailLink = (continueUrl: string): string =>
+  `${continueUrl}${continueUrl.includes('?') ? '&' : '?'}mode=signIn&oobCode=${MOCK_EMAIL_LINK_CODE}`;
+
+const isMockEmailLink = (link: string): boolean =>
+  link.includes('mode=signIn') && link.includes(`oobCode=${MOCK_EMAIL_LINK_CODE}`);
+
+interface MockAuthOptions {
+  // Keep the signed-in user in local storage so it survives a restart
+  persistSession?: boolean;
+}
+
+/**
+ * Backend with no network and no timers. The same inputs always give the same
+ * user, so it is safe for tests and offline demos.
+ */
+export const createMockAuthBackend = ({ persistSession = false }: MockAuthOptions = {}): AuthBackend => {
+  const passwords = new Map<string, string>();
+  const profiles = new Map<string, UserProfile>();
+  const listeners = new Set<(user: AuthUser | null) => void>();
+  let currentUser: AuthUser | null = null;
+
+  const restored: Promise<void> = persistSession
+    ? readStore('mockAuthSession')
+        .then(user => {
+          currentUser = user;
+        })
+        .catch(error => console.error('Error restoring mock session:', error))
+    : Promise.resolve();
+
+  const setCurrentUser = (user: AuthUser | null) => {
+    currentUser = user;
+    if (persistSession) {
+      writeStore('mockAuthSession', user).catch(error =>
+        console.error('Error saving mock session:', error)
+      );
+    }
+    listeners.forEach(listener => listener(user));
+    return user;
+  };
+
+  const requireUser = (): AuthUser => {
+    if (!currentUser) throw new Error('You need to be signed in to do that');
+    return currentUser;
+  };
+
+  const checkPassword = (email: string | null, password: string) => {
+    const expected = email ? passwords.get(email) : undefined;
+    if (expected !== undefined && expected !== password) {
+      throw new Error('Incorrect password');
+    }
+  };
+
+  const emailUser = (email: string, displayName: string): AuthUser => ({
+    uid: `mock-${email.toLowerCase()}`,
+    email,
+    displayName,
+    photoURL: null,
+    phoneNumber: null,
+    isAnonymous: false,
+  });
+
+  return {
+    name: 'mock',
+    onAuthStateChanged: (listener) => {
+      let subscribed = true;
+      restored.then(() => {
+        if (!subscribed) return;
+        listeners.add(listener);
+        listener(currentUser);
+      });
+      return () => {
+        subscribed = false;
+        listeners.delete(listener);
+      };
+    },
+    // Unknown emails are let in so demos work with any address
+    signInWithEmail: async (email, password) => {
+      checkPassword(email, password);
+      return setCurrentUser(emailUser(email, email.split('@')[0]))!;
+    },
+    register: async (email, password, displayName) => {
+      if (passwords.has(email)) throw new Error('Email is already in use');
+      if (password.length < 6) throw new Error('Password should be at least 6 characters');
+      passwords.set(email, password);
+      return setCurrentUser(emailUser(email, displayName))!;
+    },
+    sendPhoneCode: async (phoneNumber) => ({ verificationId: `mock-verification:${phoneNumber}` }),
+    confirmPhoneCode: async (verificationId, code) => {
+      if (code !== MOCK_OTP_CODE) throw new Error('Invalid verification code');
+      const phoneNumber = verificationId.replace('mock-verification:', '');
+      return setCurrentUser({
+        uid: `mock-phone-${phoneNumber}`,
+        email: null,
+        displayName: phoneNumber,
+        photoURL: null,
+        phoneNumber,
+        isAnonymous: false,
+      })!;
+    },
+    signInAnonymously: async () =>
+      setCurrentUser({
+        uid: 'mock-guest',
+        email: null,
+        displayName: 'Guest',
+        photoURL: null,
+        phoneNumber: null,
+        isAnonymous: true,
+      })!,
+    sendEmailLink: async () => {},
+    isEmailLink: isMockEmailLink,
+    signInWithEmailLink: async (email, link) => {
+      if (!isMockEmailLink(link)) {
+        throw new Error('This sign-in link is invalid or has expired');
+      }
+      return setCurrentUser(emailUser(email, email.split('@')[0]))!;
+    },
+    signOut: async () => {
+      setCurrentUser(null);
+    },
+    sendPasswordReset: async () => {},
+    updateProfile: async (updates) =>
+      setCurrentUser({
+        ...requireUser(),
+        ...(updates.displayName !== undefined ? { displayName: updates.displayName } : {}),
+        ...(updates.photoURL !== undefined ? { photoURL: updates.photoURL } : {}),
+      })!,
+    updateEmail: async (newEmail, password) => {
+      const user = requireUser();
+      checkPassword(user.email, password);
+      if (user.email && passwords.has(user.email)) {
+        passwords.set(newEmail, passwords.get(user.email)!);
+        passwords.delete(user.email);
+      }
+      return setCurrentUser({ ...user, email: newEmail })!;
+    },
+    updatePassword: async (currentPassword, newPassword) => {
+      const user = requireUser();
+      checkPassword(user.email, currentPassword);
+      if (user.email) passwords.set(user.email, newPassword);
+    },
+    deleteAccount: async (password) => {
+      const user = requireUser();
+      checkPassword(user.email, password);
+      if (user.email) passwords.delete(user.email);
+      profiles.delete(user.uid);
+      setCurrentUser(null);
+    },
+    loadProfile: async (uid) => profiles.get(uid) ?? null,
+    saveProfile: async (profile) => {
+      profiles.set(profile.uid, profile);
+    },
+  };
+};
+
+let backend: AuthBackend | null = null;
+
+/**
+ * Backend picked by AUTH_BACKEND in app.config.js. The Firebase one is only
+ * loaded when selected so the mock works without any Firebase setup.
+ */
+export const getAuthBackend = (): AuthBackend => {
+  if (!backend) {
+    backend =
+      ENV.AUTH_BACKEND === 'firebase'
+        ? require('./FirebaseAuthBackend').createFirebaseAuthBackend()
+        : createMockAuthBackend({ persistSession: true });
+  }
+  return backend!;
+};
+
+/**
+ * Replace the backend, e.g. with a fresh mock in tests
+ */
+export const setAuthBackend = (next: AuthBackend): void => {
+  backend = next;
+};
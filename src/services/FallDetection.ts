@@ -0,0 +1,209 @@
+import { Accelerometer } from 'expo-sensors';
+import * as Location from 'expo-location';
+import { saveSeniorAlert } from './SeniorAlerts';
+import { pushToFamily } from './FamilyPush';
+import { getOrCreateSeniorId, getSeniorDisplayName } from '../utils/idManager';
+import { AccelerationSample } from '../types/wearables';
+import { AlertLocation, SeniorAlert } from '../types/alerts';
+
+// A fall is a hard impact, the body ending up at another angle, then lying still
+const IMPACT_G = 2.5;
+// Orientation before the impact is averaged over this window, ending just before it
+const BEFORE_IMPACT_MS = 1000;
+const IMPACT_GAP_MS = 300;
+// Time for the body to come to rest before its new orientation is measured
+const SETTLE_MS = 1500;
+const AFTER_IMPACT_MS = 500;
+const ORIENTATION_CHANGE_DEG = 45;
+// Moving more than this after the impact means the senior is up and about
+const STILL_TOLERANCE_G = 0.3;
+const INACTIVITY_MS = 10 * 1000;
+const BUFFER_MS = BEFORE_IMPACT_MS + IMPACT_GAP_MS + SETTLE_MS;
+
+// Source name for readings from the phone itself
+export const PHONE_SOURCE = 'phone';
+const PHONE_INTERVAL_MS = 40;
+
+const LOCATION_TIMEOUT_MS = 10 * 1000;
+
+export type FallPhase = 'monitoring' | 'impact' | 'inactivity';
+
+export interface FallEvent {
+  // Device id of the wearable, or PHONE_SOURCE
+  source: string;
+  // Time of the impact
+  at: string;
+  impactG: number;
+  // Degrees between the body's orientation before and after the impact
+  orientationChange: number;
+}
+
+export interface FallDetector {
+  push: (samples: AccelerationSample[]) => void;
+  phase: () => FallPhase;
+  reset: () => void;
+}
+
+type Vector = Pick<AccelerationSample, 'x' | 'y' | 'z'>;
+
+const magnitude = ({ x, y, z }: Vector) => Math.sqrt(x * x + y * y + z * z);
+
+const meanVector = (samples: AccelerationSample[]): Vector | null => {
+  if (!samples.length) return null;
+  const sum = samples.reduce((total, { x, y, z }) => ({ x: total.x + x, y: total.y + y, z: total.z + z }), { x: 0, y: 0, z: 0 });
+  return { x: sum.x / samples.length, y: sum.y / samples.length, z: sum.z / samples.length };
+};
+
+const angleBetween = (a: Vector, b: Vector): number => {
+  const cosine = (a.x * b.x + a.y * b.y + a.z * b.z) / (magnitude(a) * magnitude(b) || 1);
+  return (Math.acos(Math.min(Math.max(cosine, -1), 1)) * 180) / Math.PI;
+};
+
+/**
+ * Watch one stream of accelerometer readings for a fall, in three phases: an
+ * impact over IMPACT_G, a change in orientation once the body has settled,
+ * then INACTIVITY_MS without movement. Times come from the samples, so a
+ * stream can be replayed faster than real time. Each source needs its own
+ * detector.
+ */
+export const createFallDetector = (source: string, onFall: (event: FallEvent) => void): FallDetector => {
+  let buffer: AccelerationSample[] = [];
+  let phase: FallPhase = 'monitoring';
+  let impact: { at: number; peak: number; before: Vector | null } | null = null;
+  let orientationChange = 0;
+  let stillSince = 0;
+
+  const reset = () => {
+    phase = 'monitoring';
+    impact = null;
+  };
+
+  const step = (sample: AccelerationSample) => {
+    buffer.push(sample);
+    while (buffer.length && sample.timestamp - buffer[0].timestamp > BUFFER_MS) buffer.shift();
+    const g = magnitude(sample);
+
+    if (phase === 'monitoring') {
+      if (g < IMPACT_G) return;
+      const before = buffer.filter(({ timestamp }) => {
+        const ago = sample.timestamp - timestamp;
+        return ago >= IMPACT_GAP_MS && ago < IMPACT_GAP_MS + BEFORE_IMPACT_MS;
+      });
+      impact = { at: sample.timestamp, peak: g, before: meanVector(before) };
+      phase = 'impact';
+      return;
+    }
+    if (!impact) return;
+
+    if (phase === 'impact') {
+      impact.peak = Math.max(impact.peak, g);
+      if (sample.timestamp - impact.at < SETTLE_MS) return;
+      const after = meanVector(buffer.filter(({ timestamp }) => sample.timestamp - timestamp < AFTER_IMPACT_MS));
+      // A stream that starts with the impact has nothing to compare with, so count it as turned over
+      orientationChange = impact.before && after ? angleBetween(impact.before, after) : 90;
+      if (orientationChange < ORIENTATION_CHANGE_DEG) {
+        reset();
+        return;
+      }
+      phase = 'inactivity';
+      stillSince = sample.timestamp;
+      return;
+    }
+
+    if (Math.abs(g - 1) > STILL_TOLERANCE_G) {
+      reset();
+    } else if (sample.timestamp - stillSince >= INACTIVITY_MS) {
+      onFall({
+        source,
+        at: new Date(impact.at).toISOString(),
+        impactG: Math.round(impact.peak * 10) / 10,
+        orientationChange: Math.round(orientationChange),
+      });
+      reset();
+    }
+  };
+
+  return {
+    push: samples => samples.forEach(step),
+    phase: () => phase,
+    reset: () => {
+      buffer = [];
+      reset();
+    },
+  };
+};
+
+/**
+ * Stream the phone's own accelerometer, for when no wearable can. Returns a
+ * function that stops it.
+ */
+export const watchPhoneAcceleration = (listener: (samples: AccelerationSample[]) => void): (() => void) => {
+  Accelerometer.setUpdateInterval(PHONE_INTERVAL_MS);
+  const subscription = Accelerometer.addListener(({ x, y, z }) => listener([{ x, y, z, timestamp: Date.now() }]));
+  return () => subscription.remove();
+};
+
+export const isPhoneAccelerometerAvailable = (): Promise<boolean> =>
+  Accelerometer.isAvailableAsync().catch(() => false);
+
+/**
+ * Where the senior is, if location is already allowed. Nothing is asked for:
+ * after a fall there may be nobody to answer a prompt.
+ */
+const getAlertLocation = async (): Promise<AlertLocation | undefined> => {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') return undefined;
+
+    const current = await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High }),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+    ]);
+    const position = current || (await Location.getLastKnownPositionAsync());
+    if (!position) return undefined;
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      ...(position.coords.accuracy !== null && { accuracy: Math.round(position.coords.accuracy) }),
+    };
+  } catch (error) {
+    console.error('Error getting location for alert:', error);
+    return undefined;
+  }
+};
+
+/**
+ * Tell the family about a fall the senior did not cancel, with where they
+ * are. The alert is saved first, so it goes out with the next sync if the
+ * phone is offline, then pushed so family phones ring straight away.
+ */
+export const raiseFallAlert = async (event: FallEvent): Promise<SeniorAlert> => {
+  const location = await getAlertLocation();
+  const alert: SeniorAlert = {
+    id: `fall-${new Date(event.at).getTime()}`,
+    type: 'fall',
+    title: 'Fall detected',
+    message: 'A fall was detected and not cancelled. Please check on them now.',
+    timestamp: event.at,
+    priority: 'high',
+    details:
+      `Impact of ${event.impactG}g, then no movement. ` +
+      `Detected by the ${event.source === PHONE_SOURCE ? 'phone' : 'watch'}.`,
+    ...(location && { location }),
+  };
+
+  await saveSeniorAlert(alert);
+
+  try {
+    const name = await getSeniorDisplayName();
+    await pushToFamily(await getOrCreateSeniorId(), 'sos', {
+      title: name ? `${alert.title}: ${name}` : alert.title,
+      body: alert.message,
+      data: { alertId: alert.id, type: alert.type },
+    });
+  } catch (error) {
+    // Already saved; the family still sees it once their app syncs
+    console.error('Error pushing fall alert to family:', error);
+  }
+  return alert;
+};
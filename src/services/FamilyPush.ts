@@ -0,0 +1,81 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { getPushTokensForSenior, setRequesterPushToken } from './LinkRequestService';
+import { PermissionScope } from '../types/permissions';
+
+// Expo's push service, which passes messages on to APNs and FCM
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+
+// Urgent alerts arrive on this channel on the family's Android phones
+const FAMILY_ALERT_CHANNEL = 'family-alerts';
+
+export interface FamilyPushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Let this family member's phone receive urgent alerts from the seniors they
+ * follow, even while the app is closed. Asks for notification permission if
+ * it has not been answered yet. Returns false if push is not available, e.g.
+ * permission was refused or the phone is an emulator.
+ */
+export const registerFamilyPush = async (requesterId: string): Promise<boolean> => {
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(FAMILY_ALERT_CHANNEL, {
+        name: 'Family Alerts',
+        importance: Notifications.AndroidImportance.MAX,
+        vibrationPattern: [0, 500, 200, 500],
+        enableVibrate: true,
+        sound: 'default',
+      });
+    }
+
+    let { status, canAskAgain } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted' && canAskAgain) {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      console.warn('Notifications permission denied; urgent alerts only show in the app');
+      return false;
+    }
+
+    const { data: token } = await Notifications.getExpoPushTokenAsync({
+      projectId: Constants.expoConfig?.extra?.eas?.projectId,
+    });
+    await setRequesterPushToken(requesterId, token);
+    return true;
+  } catch (error) {
+    console.error('Error registering for family alerts:', error);
+    return false;
+  }
+};
+
+/**
+ * Push an urgent alert to every family member whose link grants `scope`.
+ * The alert should also be saved for sync; the push only makes their phones
+ * ring now. Returns how many phones it was sent to.
+ */
+export const pushToFamily = async (
+  seniorId: string,
+  scope: PermissionScope,
+  message: FamilyPushMessage
+): Promise<number> => {
+  const tokens = await getPushTokensForSenior(seniorId, scope);
+  if (!tokens.length) return 0;
+
+  const response = await fetch(EXPO_PUSH_URL, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify(
+      tokens.map(to => ({ to, ...message, sound: 'default', priority: 'high', channelId: FAMILY_ALERT_CHANNEL }))
+    ),
+  });
+  if (!response.ok) {
+    throw new Error(`Push service answered ${response.status}`);
+  }
+  return tokens.length;
+};
@@ -0,0 +1,554 @@
+import {
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirExtension,
+  FhirMedicationStatement,
+  FhirObservation,
+  FhirPatient,
+  FhirPeriod,
+  FhirQuantity,
+  FhirReference,
+  FhirResource,
+} from '../types/fhir';
+import { HealthRecord, RecordType } from '../types/healthTypes';
+import { StoredReminder } from '../types/reminders';
+import { VitalMetric, VitalPoint } from '../types/vitals';
+import { parseTimeString } from '../utils/dateUtils';
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+// The app's own code systems, for what FHIR has no standard code for
+const SENIOR_ID_SYSTEM = 'urn:caretrek:senior-id';
+const RECORD_TYPE_SYSTEM = 'urn:caretrek:record-type';
+const RECORD_EXTENSION = 'urn:caretrek:record';
+
+const BLOOD_PRESSURE_PANEL = '85354-9';
+const BLOOD_PRESSURE_DISPLAY = 'Blood pressure panel with all children optional';
+
+const RECORD_TYPES: RecordType[] = ['appointment', 'medication', 'symptom', 'other', 'activity', 'vital'];
+
+interface LoincVital {
+  code: string;
+  display: string;
+  // UCUM code, and the unit as people read it
+  ucum: string;
+  unit: string;
+  category: 'vital-signs' | 'activity' | 'laboratory';
+}
+
+// Blood pressure is kept as two series; a half without the other gets its own
+// observation, both together make a panel
+export const LOINC_VITALS: Record<VitalMetric, LoincVital> = {
+  heartRate: { code: '8867-4', display: 'Heart rate', ucum: '/min', unit: 'beats/minute', category: 'vital-signs' },
+  oxygenSaturation: {
+    code: '59408-5',
+    display: 'Oxygen saturation in Arterial blood by Pulse oximetry',
+    ucum: '%',
+    unit: '%',
+    category: 'vital-signs',
+  },
+  systolic: { code: '8480-6', display: 'Systolic blood pressure', ucum: 'mm[Hg]', unit: 'mmHg', category: 'vital-signs' },
+  diastolic: { code: '8462-4', display: 'Diastolic blood pressure', ucum: 'mm[Hg]', unit: 'mmHg', category: 'vital-signs' },
+  temperature: { code: '8310-5', display: 'Body temperature', ucum: 'Cel', unit: 'C', category: 'vital-signs' },
+  weight: { code: '29463-7', display: 'Body weight', ucum: 'kg', unit: 'kg', category: 'vital-signs' },
+  glucose: {
+    code: '2339-0',
+    display: 'Glucose [Mass/volume] in Blood',
+    ucum: 'mg/dL',
+    unit: 'mg/dL',
+    category: 'laboratory',
+  },
+  steps: {
+    code: '41950-7',
+    display: 'Number of steps in 24 hour Measured',
+    ucum: '/(24.h)',
+    unit: 'steps/day',
+    category: 'activity',
+  },
+  sleep: { code: '93832-4', display: 'Sleep duration', ucum: 'min', unit: 'min', category: 'activity' },
+};
+
+// Other LOINC codes clinics send for the same measurements
+const LOINC_ALIASES: Record<string, VitalMetric> = {
+  '2708-6': 'oxygenSaturation',
+  '2345-7': 'glucose',
+  '15074-8': 'glucose',
+  '3141-9': 'weight',
+  '8331-1': 'temperature',
+};
+
+const METRIC_BY_LOINC: Record<string, VitalMetric> = {
+  ...LOINC_ALIASES,
+  ...Object.fromEntries((Object.keys(LOINC_VITALS) as VitalMetric[]).map(metric => [LOINC_VITALS[metric].code, metric])),
+};
+
+// Imported values in other units, brought to the ones the series keeps
+const fromUcum = (metric: VitalMetric, { value, code }: FhirQuantity): number => {
+  if (metric === 'temperature' && code === '[degF]') return Math.round(((value - 32) * 5) / 9 * 10) / 10;
+  if (metric === 'weight' && code === '[lb_av]') return Math.round(value * 0.45359237 * 10) / 10;
+  if (metric === 'glucose' && code === 'mmol/L') return Math.round(value * 18);
+  return value;
+};
+
+export const categoryConcept = (code: string, system = OBSERVATION_CATEGORY): FhirCodeableConcept => ({
+  coding: [{ system, code }],
+});
+
+const codesOf = (concept?: FhirCodeableConcept) => (concept?.coding || []).map(coding => coding.code);
+
+/* --------- Patient --------- */
+/**
+ * A senior as a FHIR Patient, identified by their CareTrek ID.
+ */
+export const seniorToPatient = (seniorId: string, name?: string): FhirPatient => ({
+  resourceType: 'Patient',
+  id: seniorId,
+  identifier: [{ system: SENIOR_ID_SYSTEM, value: seniorId }],
+  ...(name ? { name: [{ text: name }] } : {}),
+});
+
+export const patientToSenior = (patient: FhirPatient): { seniorId: string; name?: string } => {
+  const seniorId = patient.identifier?.find(identifier => identifier.system === SENIOR_ID_SYSTEM)?.value || patient.id;
+  const [name] = patient.name || [];
+  const text = name?.text || [...(name?.given || []), name?.family].filter(Boolean).join(' ');
+  return text ? { seniorId, name: text } : { seniorId };
+};
+
+/* --------- Vitals --------- */
+/**
+ * One vital as an Observation: a single reading at `start`, or a value
+ * over the period from `start` to `end` such as a daily average.
+ */
+export const vitalToObservation = (
+  id: string,
+  metric: VitalMetric,
+  value: number,
+  start: string,
+  end?: string,
+  subject?: FhirReference
+): FhirObservation => {
+  const loinc = LOINC_VITALS[metric];
+  return {
+    resourceType: 'Observation',
+    id,
+    status: 'final',
+    category: [categoryConcept(loinc.category)],
+    code: { coding: [{ system: LOINC, code: loinc.code, display: loinc.display }], text: loinc.display },
+    ...(subject ? { subject } : {}),
+    ...(end ? { effectivePeriod: { start, end } } : { effectiveDateTime: start }),
+    valueQuantity: quantityOf(metric, value),
+  };
+};
+
+const quantityOf = (metric: VitalMetric, value: number): FhirQuantity => {
+  const loinc = LOINC_VITALS[metric];
+  return { value, unit: loinc.unit, system: UCUM, code: loinc.ucum };
+};
+
+const componentOf = (metric: VitalMetric, value: number) => {
+  const loinc = LOINC_VITALS[metric];
+  return {
+    code: { coding: [{ system: LOINC, code: loinc.code, display: loinc.display }], text: loinc.display },
+    valueQuantity: quantityOf(metric, value),
+  };
+};
+
+/**
+ * Both halves of a blood pressure reading as one panel, with systolic and
+ * diastolic as its components; at `start`, or over `start` to `end`.
+ */
+export const bloodPressureToObservation = (
+  id: string,
+  systolic: number,
+  diastolic: number,
+  start: string,
+  end?: string,
+  subject?: FhirReference
+): FhirObservation => ({
+  resourceType: 'Observation',
+  id,
+  status: 'final',
+  category: [categoryConcept('vital-signs')],
+  code: {
+    coding: [{ system: LOINC, code: BLOOD_PRESSURE_PANEL, display: BLOOD_PRESSURE_DISPLAY }],
+    text: 'Blood pressure',
+  },
+  ...(subject ? { subject } : {}),
+  ...(end ? { effectivePeriod: { start, end } } : { effectiveDateTime: start }),
+  component: [componentOf('systolic', systolic), componentOf('diastolic', diastolic)],
+});
+
+// Unique per reading, since two devices can read the same metric at the same
+// moment. FHIR ids allow only letters, digits, '-' and '.', up to 64 of them.
+const pointId = (kind: string, source: string, timestamp: string) =>
+  `${kind}-${source.replace(/[^A-Za-z0-9.-]/g, '-').slice(0, 32)}-${new Date(timestamp).getTime()}`;
+
+export const vitalPointToObservation = (
+  { metric, value, timestamp, source }: VitalPoint,
+  subject?: FhirReference
+): FhirObservation => ({
+  ...vitalToObservation(pointId(metric, source, timestamp), metric, value, timestamp, undefined, subject),
+  device: { display: source },
+});
+
+/**
+ * Points as Observations, a systolic and a diastolic reading the same source
+ * took at the same time as one blood pressure panel.
+ */
+export const vitalPointsToObservations = (points: VitalPoint[], subject?: FhirReference): FhirObservation[] => {
+  const takenTogether = ({ timestamp, source }: VitalPoint) => `${new Date(timestamp).getTime()}|${source}`;
+  const diastolic = new Map<string, VitalPoint>();
+  points
+    .filter(point => point.metric === 'diastolic')
+    .forEach(point => diastolic.set(takenTogether(point), diastolic.get(takenTogether(point)) || point));
+
+  // Each systolic reading with its diastolic half
+  const pairs = new Map<VitalPoint, VitalPoint>();
+  const paired = new Set<VitalPoint>();
+  points
+    .filter(point => point.metric === 'systolic')
+    .forEach(point => {
+      const other = diastolic.get(takenTogether(point));
+      if (!other || paired.has(other)) return;
+      pairs.set(point, other);
+      paired.add(other);
+    });
+
+  return points.flatMap(point => {
+    const other = pairs.get(point);
+    if (other) {
+      const id = pointId('bloodPressure', point.source, point.timestamp);
+      return [
+        {
+          ...bloodPressureToObservation(id, point.value, other.value, point.timestamp, undefined, subject),
+          device: { display: point.source },
+        },
+      ];
+    }
+    return paired.has(point) ? [] : [vitalPointToObservation(point, subject)];
+  });
+};
+
+// Source of imported vitals that do not say which device took them
+export const FHIR_SOURCE = 'fhir';
+
+/**
+ * The vitals in an Observation with a LOINC code the app knows, in the
+ * units the series keeps; a blood pressure panel gives both halves. Empty
+ * if it is not one.
+ */
+export const observationToVitals = (observation: FhirObservation): VitalPoint[] => {
+  const timestamp = observation.effectiveDateTime || observation.effectivePeriod?.start;
+  if (!timestamp) return [];
+  const source = observation.device?.display || FHIR_SOURCE;
+  const loincCodes = (observation.code.coding || []).filter(coding => coding.system === LOINC).map(coding => coding.code);
+
+  if (loincCodes.includes(BLOOD_PRESSURE_PANEL)) {
+    return (observation.component || []).flatMap(component => {
+      const metric = codesOf(component.code).map(code => METRIC_BY_LOINC[code]).find(Boolean);
+      return metric && component.valueQuantity
+        ? [{ metric, value: fromUcum(metric, component.valueQuantity), timestamp, source }]
+        : [];
+    });
+  }
+
+  const metric = loincCodes.map(code => METRIC_BY_LOINC[code]).find(Boolean);
+  if (!metric || !observation.valueQuantity) return [];
+  return [{ metric, value: fromUcum(metric, observation.valueQuantity), timestamp, source }];
+};
+
+/* --------- Health records --------- */
+const RECORD_EXTENSIONS = ['description', 'severity', 'location', 'icon', 'unit'] as const;
+
+const extension = (field: string, value?: string): FhirExtension[] =>
+  value ? [{ url: `${RECORD_EXTENSION}#${field}`, valueString: value }] : [];
+
+const readExtension = (observation: FhirObservation, field: string) =>
+  observation.extension?.find(candidate => candidate.url === `${RECORD_EXTENSION}#${field}`)?.valueString;
+
+/**
+ * A history entry as an Observation: its type as the category, the title
+ * as the code's text, the doctor as performer. Fields FHIR has no place
+ * for go into extensions.
+ */
+export const recordToObservation = (record: HealthRecord, subject?: FhirReference): FhirObservation => {
+  const extensions = RECORD_EXTENSIONS.flatMap(field => extension(field, record[field]));
+  return {
+    resourceType: 'Observation',
+    id: record.id,
+    status: 'final',
+    category: [categoryConcept(record.type, RECORD_TYPE_SYSTEM)],
+    code: { text: record.title },
+    ...(subject ? { subject } : {}),
+    effectiveDateTime: record.date.toISOString(),
+    ...(record.doctor ? { performer: [{ display: record.doctor }] } : {}),
+    ...(record.value !== undefined ? { valueString: record.value } : {}),
+    ...(record.notes ? { note: [{ text: record.notes }] } : {}),
+    ...(extensions.length ? { extension: extensions } : {}),
+  };
+};
+
+/**
+ * An Observation as a history entry. One from another system keeps its
+ * code, value and note as an entry of type 'other'.
+ */
+export const observationToRecord = (observation: FhirObservation): HealthRecord => {
+  const typeCode = (observation.category || [])
+    .flatMap(concept => concept.coding || [])
+    .find(coding => coding.system === RECORD_TYPE_SYSTEM)?.code;
+  const type = RECORD_TYPES.find(candidate => candidate === typeCode) || 'other';
+  const severity = readExtension(observation, 'severity');
+  const quantity = observation.valueQuantity;
+  const value = observation.valueString ?? (quantity ? String(quantity.value) : undefined);
+  const unit = readExtension(observation, 'unit') ?? quantity?.unit;
+  const fields: Partial<HealthRecord> = {
+    description: readExtension(observation, 'description'),
+    severity: severity === 'low' || severity === 'medium' || severity === 'high' ? severity : undefined,
+    doctor: observation.performer?.[0]?.display,
+    location: readExtension(observation, 'location'),
+    notes: observation.note?.map(note => note.text).join('\n'),
+    icon: readExtension(observation, 'icon'),
+    value,
+    unit,
+  };
+
+  return {
+    id: observation.id,
+    date: new Date(observation.effectiveDateTime || observation.effectivePeriod?.start || 0),
+    title: observation.code.text || observation.code.coding?.[0]?.display || 'Observation',
+    type,
+    // Leave out what the observation did not have, so a round trip gives back the same record
+    ...(Object.fromEntries(Object.entries(fields).filter(([, field]) => field !== undefined && field !== '')) as Partial<HealthRecord>),
+  };
+};
+
+/* --------- Medications --------- */
+const formatReminderTime = (hours: number, minutes: number) =>
+  `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours >= 12 ? 'PM' : 'AM'}`;
+
+/**
+ * A medication reminder as a MedicationStatement taken daily at its time;
+ * a reminder that is switched off is on hold.
+ */
+export const reminderToMedicationStatement = (reminder: StoredReminder, subject: FhirReference): FhirMedicationStatement => {
+  const { hours, minutes } = parseTimeString(reminder.time);
+  return {
+    resourceType: 'MedicationStatement',
+    id: reminder.id,
+    status: reminder.enabled ? 'active' : 'on-hold',
+    medicationCodeableConcept: { text: reminder.title },
+    subject,
+    effectivePeriod: { start: reminder.date },
+    dosage: [
+      {
+        text: `Daily at ${reminder.time}`,
+        timing: {
+          repeat: {
+            frequency: 1,
+            period: 1,
+            periodUnit: 'd',
+            timeOfDay: [`${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`],
+          },
+        },
+      },
+    ],
+  };
+};
+
+/**
+ * A MedicationStatement as a daily medication reminder, at the first time
+ * of day it gives; 8 AM if it gives none.
+ */
+export const medicationStatementToReminder = (statement: FhirMedicationStatement): StoredReminder => {
+  const [dosage] = statement.dosage || [];
+  const [timeOfDay] = dosage?.timing?.repeat?.timeOfDay || [];
+  const [hours, minutes] = (timeOfDay || '08:00').split(':').map(Number);
+  // Our own exports name the time as the reminder showed it
+  const written = dosage?.text?.match(/(\d{1,2}:\d{2} [AP]M)/)?.[1];
+  const sameTime = written && parseTimeString(written).hours === hours && parseTimeString(written).minutes === minutes;
+  return {
+    id: statement.id,
+    title: statement.medicationCodeableConcept.text || statement.medicationCodeableConcept.coding?.[0]?.display || 'Medication',
+    time: sameTime ? written : formatReminderTime(hours, minutes),
+    date: statement.effectivePeriod?.start || new Date().toISOString(),
+    type: 'medication',
+    enabled: statement.status === 'active' || statement.status === 'intended',
+  };
+};
+
+/* --------- Validation --------- */
+// An import is JSON from outside the app, so each resource is checked for
+// the fields the readers above use before it is read
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isDateTime = (value: unknown): value is string => isString(value) && !isNaN(new Date(value).getTime());
+
+const optional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean) => Array.isArray(value) && value.every(check);
+
+const isCoding = (value: unknown): value is FhirCoding =>
+  isObject(value) && isString(value.system) && isString(value.code) && optional(value.display, isString);
+
+const isConcept = (value: unknown): value is FhirCodeableConcept =>
+  isObject(value) && optional(value.coding, coding => isArrayOf(coding, isCoding)) && optional(value.text, isString);
+
+const isQuantity = (value: unknown): value is FhirQuantity =>
+  isObject(value) &&
+  typeof value.value === 'number' &&
+  Number.isFinite(value.value) &&
+  optional(value.unit, isString) &&
+  optional(value.code, isString);
+
+const isPeriod = (value: unknown): value is FhirPeriod =>
+  isObject(value) && isDateTime(value.start) && optional(value.end, isDateTime);
+
+const isReference = (value: unknown): value is FhirReference =>
+  isObject(value) && optional(value.reference, isString) && optional(value.display, isString);
+
+const isNote = (value: unknown) => isObject(value) && isString(value.text);
+
+// Extensions from other systems may hold other kinds of value; only valueString is read
+const isExtension = (value: unknown): value is FhirExtension =>
+  isObject(value) && isString(value.url) && optional(value.valueString, isString);
+
+const isComponent = (value: unknown) =>
+  isObject(value) && isConcept(value.code) && optional(value.valueQuantity, isQuantity);
+
+const isObservation = (value: unknown): value is FhirObservation =>
+  isObject(value) &&
+  value.resourceType === 'Observation' &&
+  isString(value.id) &&
+  isConcept(value.code) &&
+  optional(value.category, category => isArrayOf(category, isConcept)) &&
+  optional(value.effectiveDateTime, isDateTime) &&
+  optional(value.effectivePeriod, isPeriod) &&
+  optional(value.performer, performer => isArrayOf(performer, isReference)) &&
+  optional(value.device, isReference) &&
+  optional(value.valueQuantity, isQuantity) &&
+  optional(value.valueString, isString) &&
+  optional(value.component, component => isArrayOf(component, isComponent)) &&
+  optional(value.note, note => isArrayOf(note, isNote)) &&
+  optional(value.extension, extension => isArrayOf(extension, isExtension));
+
+const isHumanName = (value: unknown) =>
+  isObject(value) &&
+  optional(value.text, isString) &&
+  optional(value.given, given => isArrayOf(given, isString)) &&
+  optional(value.family, isString);
+
+const isPatient = (value: unknown): value is FhirPatient =>
+  isObject(value) &&
+  value.resourceType === 'Patient' &&
+  isString(value.id) &&
+  optional(value.identifier, identifier =>
+    isArrayOf(identifier, item => isObject(item) && isString(item.value) && optional(item.system, isString))
+  ) &&
+  optional(value.name, name => isArrayOf(name, isHumanName));
+
+// Local times as hh:mm or hh:mm:ss
+const isTimeOfDay = (value: unknown) => isString(value) && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+
+const isDosage = (value: unknown) =>
+  isObject(value) &&
+  optional(value.text, isString) &&
+  optional(
+    value.timing,
+    timing =>
+      isObject(timing) &&
+      optional(timing.repeat, repeat => isObject(repeat) && optional(repeat.timeOfDay, times => isArrayOf(times, isTimeOfDay)))
+  );
+
+const isMedicationStatement = (value: unknown): value is FhirMedicationStatement =>
+  isObject(value) &&
+  value.resourceType === 'MedicationStatement' &&
+  isString(value.id) &&
+  isString(value.status) &&
+  isConcept(value.medicationCodeableConcept) &&
+  optional(value.effectivePeriod, isPeriod) &&
+  optional(value.dosage, dosage => isArrayOf(dosage, isDosage));
+
+/* --------- Bundles --------- */
+/**
+ * Resources as a collection Bundle, the form clinics import.
+ */
+export const toFhirBundle = (id: string, resources: FhirResource[], timestamp = new Date()): FhirBundle => ({
+  resourceType: 'Bundle',
+  id,
+  type: 'collection',
+  timestamp: timestamp.toISOString(),
+  entry: resources.map(resource => ({ resource })),
+});
+
+// What a bundle holds in the app's own terms
+export interface FhirHealthData {
+  patient?: { seniorId: string; name?: string };
+  vitals: VitalPoint[];
+  records: HealthRecord[];
+  // Medication reminders only
+  reminders: StoredReminder[];
+}
+
+/**
+ * A senior's readings, history and medications as one Bundle. Importing it
+ * with fromFhirBundle gives the same data back.
+ */
+export const exportFhirBundle = (
+  data: FhirHealthData & Required<Pick<FhirHealthData, 'patient'>>,
+  id: string,
+  timestamp = new Date()
+): FhirBundle => {
+  const subject = { reference: `Patient/${data.patient.seniorId}` };
+  return toFhirBundle(
+    id,
+    [
+      seniorToPatient(data.patient.seniorId, data.patient.name),
+      ...vitalPointsToObservations(data.vitals, subject),
+      ...data.records.map(record => recordToObservation(record, subject)),
+      ...data.reminders
+        .filter(reminder => reminder.type === 'medication')
+        .map(reminder => reminderToMedicationStatement(reminder, subject)),
+    ],
+    timestamp
+  );
+};
+
+/**
+ * Read a Bundle from a clinic or an earlier export. Observations with a
+ * vital's LOINC code become readings and any others history entries.
+ * Resources of other types, and any missing what the app reads, are counted
+ * as skipped. Throws if `json` is not a Bundle at all.
+ */
+export const fromFhirBundle = (json: unknown): FhirHealthData & { skipped: number } => {
+  if (!isObject(json) || json.resourceType !== 'Bundle' || !optional(json.entry, Array.isArray)) {
+    throw new Error('Not a FHIR Bundle');
+  }
+
+  const data: FhirHealthData & { skipped: number } = { vitals: [], records: [], reminders: [], skipped: 0 };
+  const entries: unknown[] = Array.isArray(json.entry) ? json.entry : [];
+  entries.forEach(entry => {
+    const resource = isObject(entry) ? entry.resource : undefined;
+    if (isPatient(resource)) {
+      data.patient = data.patient || patientToSenior(resource);
+    } else if (isObservation(resource)) {
+      const isRecord = (resource.category || []).some(concept =>
+        (concept.coding || []).some(coding => coding.system === RECORD_TYPE_SYSTEM)
+      );
+      const vitals = isRecord ? [] : observationToVitals(resource);
+      if (vitals.length) data.vitals.push(...vitals);
+      else data.records.push(observationToRecord(resource));
+    } else if (isMedicationStatement(resource)) {
+      data.reminders.push(medicationStatementToReminder(resource));
+    } else {
+      data.skipped += 1;
+    }
+  });
+  return data;
+};
@@ -0,0 +1,195 @@
+import {
+  ConfirmationResult,
+  ApplicationVerifier,
+  EmailAuthProvider,
+  RecaptchaVerifier,
+  User,
+  createUserWithEmailAndPassword,
+  deleteUser,
+  isSignInWithEmailLink,
+  onAuthStateChanged,
+  reauthenticateWithCredential,
+  sendPasswordResetEmail,
+  sendSignInLinkToEmail,
+  signInAnonymously,
+  signInWithEmailAndPassword,
+  signInWithEmailLink,
+  signInWithPhoneNumber,
+  signOut,
+  updateEmail,
+  updatePassword,
+  updateProfile,
+} from 'firebase/auth';
+import { auth, db, doc, getDoc, isAuthEmulator, setDoc } from '../config/firebase';
+import type { AuthBackend, AuthUser } from './AuthBackend';
+import type { UserProfile } from '../types/roles';
+
+const ERROR_MESSAGES: Record<string, string> = {
+  'auth/user-not-found': 'No user found with this email',
+  'auth/wrong-password': 'Incorrect password',
+  'auth/invalid-credential': 'Incorrect email or password',
+  'auth/too-many-requests': 'Too many attempts. Please try again later',
+  'auth/email-already-in-use': 'Email is already in use',
+  'auth/weak-password': 'Password should be at least 6 characters',
+  'auth/invalid-email': 'Invalid email address',
+  'auth/invalid-phone-number': 'Invalid phone number format',
+  'auth/invalid-verification-code': 'Invalid verification code',
+  'auth/code-expired': 'Verification code has expired',
+  'auth/invalid-action-code': 'This sign-in link is invalid or has expired',
+  'auth/expired-action-code': 'This sign-in link is invalid or has expired',
+  'auth/requires-recent-login': 'Please sign in again and retry',
+};
+
+const toAuthUser = (user: User): AuthUser => ({
+  uid: user.uid,
+  email: user.email,
+  displayName: user.displayName,
+  photoURL: user.photoURL,
+  phoneNumber: user.phoneNumber,
+  isAnonymous: user.isAnonymous,
+});
+
+// Rethrow Firebase errors with a message that can go straight into an Alert
+const withFriendlyErrors = async <T>(fallback: string, action: () => Promise<T>): Promise<T> => {
+  try {
+    return await action();
+  } catch (error: any) {
+    console.error(`${fallback}:`, error);
+    // Errors without a Firebase code are our own and already readable
+    const message = error?.code ? ERROR_MESSAGES[error.code] : error?.message;
+    throw new Error(message || fallback);
+  }
+};
+
+const requireUser = (): User => {
+  if (!auth.currentUser) throw new Error('You need to be signed in to do that');
+  return auth.currentUser;
+};
+
+const reauthenticate = async (user: User, password: string) => {
+  if (!user.email) return;
+  await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+};
+
+export const createFirebaseAuthBackend = (): AuthBackend => {
+  // Phone sign-in confirmations by verification ID, kept until used
+  const confirmations = new Map<string, ConfirmationResult>();
+  let recaptchaVerifier: RecaptchaVerifier | null = null;
+
+  // The web SDK needs an invisible reCAPTCHA mounted in the page
+  const getRecaptchaVerifier = (): ApplicationVerifier => {
+    if (typeof document === 'undefined') {
+      // The Auth emulator skips app verification, so any token will do
+      if (isAuthEmulator) {
+        return { type: 'recaptcha', verify: async () => 'emulator-recaptcha-token' };
+      }
+      throw new Error('Phone sign-in is not available on this device');
+    }
+    if (!recaptchaVerifier) {
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+      recaptchaVerifier = new RecaptchaVerifier(auth, container, { size: 'invisible' });
+    }
+    return recaptchaVerifier;
+  };
+
+  return {
+    name: 'firebase',
+    onAuthStateChanged: (listener) =>
+      onAuthStateChanged(auth, user => listener(user ? toAuthUser(user) : null)),
+    signInWithEmail: (email, password) =>
+      withFriendlyErrors('Failed to sign in', async () =>
+        toAuthUser((await signInWithEmailAndPassword(auth, email, password)).user)
+      ),
+    register: (email, password, displayName) =>
+      withFriendlyErrors('Failed to register', async () => {
+        const { user } = await createUserWithEmailAndPassword(auth, email, password);
+        await updateProfile(user, { displayName });
+        await setDoc(doc(db, 'users', user.uid), {
+          uid: user.uid,
+          email: user.email,
+          displayName,
+          createdAt: new Date().toISOString(),
+          isGuest: false,
+          phoneNumber: user.phoneNumber || null,
+          photoURL: user.photoURL || null,
+          emailVerified: user.emailVerified,
+        });
+        return { ...toAuthUser(user), displayName };
+      }),
+    sendPhoneCode: (phoneNumber) =>
+      withFriendlyErrors('Failed to send verification code', async () => {
+        const confirmation = await signInWithPhoneNumber(auth, phoneNumber, getRecaptchaVerifier());
+        confirmations.set(confirmation.verificationId, confirmation);
+        return { verificationId: confirmation.verificationId };
+      }),
+    confirmPhoneCode: (verificationId, code) =>
+      withFriendlyErrors('Failed to verify OTP', async () => {
+        const confirmation = confirmations.get(verificationId);
+        if (!confirmation) {
+          throw new Error('No confirmation found. Please request a new OTP.');
+        }
+        const { user } = await confirmation.confirm(code);
+        confirmations.delete(verificationId);
+        return toAuthUser(user);
+      }),
+    signInAnonymously: () =>
+      withFriendlyErrors('Failed to login as guest', async () => {
+        const { user } = await signInAnonymously(auth);
+        await setDoc(doc(db, 'users', user.uid), {
+          uid: user.uid,
+          isGuest: true,
+          createdAt: new Date().toISOString(),
+          lastLogin: new Date().toISOString(),
+        });
+        return toAuthUser(user);
+      }),
+    sendEmailLink: (email, continueUrl) =>
+      withFriendlyErrors('Failed to send sign-in link', () =>
+        sendSignInLinkToEmail(auth, email, { url: continueUrl, handleCodeInApp: true })
+      ),
+    isEmailLink: (link) => isSignInWithEmailLink(auth, link),
+    signInWithEmailLink: (email, link) =>
+      withFriendlyErrors('Failed to sign in with link', async () =>
+        toAuthUser((await signInWithEmailLink(auth, email, link)).user)
+      ),
+    signOut: () => withFriendlyErrors('Failed to logout', () => signOut(auth)),
+    sendPasswordReset: (email) =>
+      withFriendlyErrors('Failed to send password reset email', () => sendPasswordResetEmail(auth, email)),
+    updateProfile: (updates) =>
+      withFriendlyErrors('Failed to update profile', async () => {
+        const user = requireUser();
+        await updateProfile(user, updates);
+        return toAuthUser(user);
+      }),
+    updateEmail: (newEmail, password) =>
+      withFriendlyErrors('Failed to update email', async () => {
+        const user = requireUser();
+        await reauthenticate(user, password);
+        await updateEmail(user, newEmail);
+        return toAuthUser(user);
+      }),
+    updatePassword: (currentPassword, newPassword) =>
+      withFriendlyErrors('Failed to update password', async () => {
+        const user = requireUser();
+        await reauthenticate(user, currentPassword);
+        await updatePassword(user, newPassword);
+      }),
+    deleteAccount: (password) =>
+      withFriendlyErrors('Failed to delete account', async () => {
+        const user = requireUser();
+        await reauthenticate(user, password);
+        await deleteUser(user);
+      }),
+    // The profile lives on the same users/{uid} document written at sign-up
+    loadProfile: (uid) =>
+      withFriendlyErrors('Failed to load profile', async () => {
+        const snapshot = await getDoc(doc(db, 'users', uid));
+        return (snapshot.exists() && (snapshot.data().profile as UserProfile)) || null;
+      }),
+    saveProfile: (profile) =>
+      withFriendlyErrors('Failed to save profile', () =>
+        setDoc(doc(db, 'users', profile.uid), { profile }, { merge: true })
+      ),
+  };
+};
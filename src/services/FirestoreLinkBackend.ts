@@ -0,0 +1,73 @@
+import { getDocs, writeBatch, Firestore } from 'firebase/firestore';
+import { db, collection, doc, getDoc, setDoc, query, where } from '../config/firebase';
+import { DEFAULT_LINK_SETTINGS } from './LinkRequestService';
+import type { LinkBackend, LinkRequest, LinkSettings, PinRecoveryRequest, ShareCode } from './LinkRequestService';
+import { ALL_PERMISSION_SCOPES } from '../types/permissions';
+
+// Handshake data lives at careTrekLinks/{kind}/items/{id}, shared by both phones
+const ROOT_COLLECTION = 'careTrekLinks';
+
+// `links` mirrors each approved request at {seniorId}_{requesterId}, where
+// firestore.rules can find its scopes without a query
+type LinkCollection = 'requests' | 'links' | 'settings' | 'shareCodes' | 'pinRecoveries';
+
+/**
+ * LinkBackend backed by Firestore, so a family member's request reaches the
+ * senior's phone and the answer comes back.
+ */
+export const createFirestoreLinkBackend = (firestore: Firestore = db): LinkBackend => {
+  const items = (kind: LinkCollection) =>
+    collection(firestore, ROOT_COLLECTION, kind, 'items');
+
+  // Firestore rejects undefined fields, which optional fields often are
+  const plain = (value: object) => JSON.parse(JSON.stringify(value));
+
+  const put = (kind: LinkCollection, id: string, value: object) =>
+    setDoc(doc(items(kind), id), plain(value));
+
+  // A request and its link mirror are written together
+  const putRequests = async (requests: LinkRequest[]) => {
+    const batch = writeBatch(firestore);
+    requests.forEach(request => {
+      batch.set(doc(items('requests'), request.id), plain(request));
+      if (request.status === 'approved') {
+        batch.set(doc(items('links'), `${request.seniorId}_${request.requesterId}`), {
+          seniorId: request.seniorId,
+          requesterId: request.requesterId,
+          scopes: request.scopes ?? ALL_PERMISSION_SCOPES,
+        });
+      }
+    });
+    await batch.commit();
+  };
+
+  const get = async <T>(kind: LinkCollection, id: string): Promise<T | null> => {
+    const snapshot = await getDoc(doc(items(kind), id));
+    return snapshot.exists() ? (snapshot.data() as T) : null;
+  };
+
+  const find = async <T>(kind: LinkCollection, field: string, value: string): Promise<T[]> => {
+    const snapshot = await getDocs(query(items(kind), where(field, '==', value)));
+    return snapshot.docs.map(d => d.data() as T);
+  };
+
+  return {
+    saveRequest: request => putRequests([request]),
+    saveRequests: putRequests,
+    getRequest: id => get<LinkRequest>('requests', id),
+    getRequestsForSenior: seniorId => find<LinkRequest>('requests', 'seniorId', seniorId),
+    getRequestsForRequester: requesterId => find<LinkRequest>('requests', 'requesterId', requesterId),
+    getSettings: async seniorId => ({
+      ...DEFAULT_LINK_SETTINGS,
+      ...(await get<LinkSettings>('settings', seniorId)),
+    }),
+    saveSettings: (seniorId, value) => put('settings', seniorId, value),
+    saveShareCode: shareCode => put('shareCodes', shareCode.code, shareCode),
+    getShareCode: code => get<ShareCode>('shareCodes', code),
+    getShareCodesForSenior: seniorId => find<ShareCode>('shareCodes', 'seniorId', seniorId),
+    savePinRecovery: request => put('pinRecoveries', request.id, request),
+    getPinRecovery: id => get<PinRecoveryRequest>('pinRecoveries', id),
+    getPinRecoveriesForRequester: requesterId =>
+      find<PinRecoveryRequest>('pinRecoveries', 'requesterId', requesterId),
+  };
+};
@@ -0,0 +1,33 @@
+import { getDocs, Firestore } from 'firebase/firestore';
+import { db, collection, doc, getDoc, setDoc, query, where } from '../config/firebase';
+import type { SyncCollection, SyncDocument, SyncRemote } from './SyncService';
+
+// Synced data lives at careTrekSync/{ownerId}/{collection}/{id}
+const ROOT_COLLECTION = 'careTrekSync';
+
+/**
+ * SyncRemote backed by Firestore. Set EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST to
+ * run it against the emulator.
+ */
+export const createFirestoreSyncRemote = (firestore: Firestore = db): SyncRemote => {
+  const collectionRef = (ownerId: string, name: SyncCollection) =>
+    collection(firestore, ROOT_COLLECTION, ownerId, name);
+
+  return {
+    getDocument: async (ownerId, name, id) => {
+      const snapshot = await getDoc(doc(collectionRef(ownerId, name), id));
+      return snapshot.exists() ? (snapshot.data() as SyncDocument) : null;
+    },
+    putDocument: async (document) => {
+      // Firestore rejects undefined fields, which optional record fields often are
+      const plain = JSON.parse(JSON.stringify(document));
+      await setDoc(doc(collectionRef(document.ownerId, document.collection), document.id), plain);
+    },
+    getChangedSince: async (ownerId, name, since) => {
+      const snapshot = await getDocs(
+        query(collectionRef(ownerId, name), where('updatedAt', '>', since))
+      );
+      return snapshot.docs.map(d => d.data() as SyncDocument);
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { readStore, updateStore } from './StorageService';
+import { saveSyncedCollection } from './SyncService';
+import { readSavedVitals, recordVitals } from './HealthTimeSeries';
+import { exportFhirBundle, fromFhirBundle } from './Fhir';
+import { getOrCreateSeniorId, getSeniorDisplayName } from '../utils/idManager';
+import { VitalPoint } from '../types/vitals';
+
+const FHIR_MIME_TYPE = 'application/fhir+json';
+
+export interface HealthDataImport {
+  vitals: number;
+  reminders: number;
+  // Entries that were malformed, of a kind the app does not read, or already here
+  skipped: number;
+}
+
+const vitalKey = ({ metric, timestamp, source }: VitalPoint) => `${metric}|${new Date(timestamp).getTime()}|${source}`;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Share everything this phone keeps of the senior's health as a FHIR Bundle:
+ * every saved reading and the medication reminders.
+ */
+export const exportHealthData = async (): Promise<void> => {
+  const [seniorId, name, vitals, reminders] = await Promise.all([
+    getOrCreateSeniorId(),
+    getSeniorDisplayName(),
+    readSavedVitals(),
+    readStore('reminders'),
+  ]);
+  const bundle = exportFhirBundle(
+    { patient: { seniorId, name: name || undefined }, vitals, records: [], reminders },
+    `export-${seniorId}-${today()}`
+  );
+
+  const file = new File(Paths.cache, `health-data-${today()}.json`);
+  file.create({ overwrite: true });
+  file.write(JSON.stringify(bundle, null, 2));
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, { mimeType: FHIR_MIME_TYPE, UTI: 'public.json', dialogTitle: 'Share health data' });
+};
+
+/**
+ * Add the readings and medications of a FHIR Bundle. Readings this phone
+ * already has, imported before included, and reminders it already knows are
+ * left out; the app keeps no history entries of its own, so those are
+ * counted as skipped. Throws if `json` is not a Bundle.
+ */
+export const importFhirData = async (json: unknown): Promise<HealthDataImport> => {
+  const data = fromFhirBundle(json);
+
+  const known = new Set((await readSavedVitals()).map(vitalKey));
+  const vitals = data.vitals.filter(point => {
+    const key = vitalKey(point);
+    if (known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+  if (vitals.length) {
+    await updateStore('importedVitals', imported => [...imported, ...vitals]);
+    await recordVitals(vitals);
+  }
+
+  const reminders = await readStore('reminders');
+  const added = data.reminders.filter(reminder => !reminders.some(existing => existing.id === reminder.id));
+  // RemindersScreen schedules their notifications the next time it loads
+  if (added.length) await saveSyncedCollection('reminders', [...reminders, ...added]);
+
+  return {
+    vitals: vitals.length,
+    reminders: added.length,
+    skipped:
+      data.skipped +
+      data.records.length +
+      (data.vitals.length - vitals.length) +
+      (data.reminders.length - added.length),
+  };
+};
+
+/**
+ * Let the senior pick a FHIR Bundle, from a clinic or an earlier export, and
+ * import it. Null if nothing was picked; throws if the file is not a Bundle.
+ */
+export const importHealthData = async (): Promise<HealthDataImport | null> => {
+  // The picker rejects when it is closed without a choice
+  const picked = await File.pickFileAsync(undefined, 'application/json').catch(() => null);
+  const file = Array.isArray(picked) ? picked[0] : picked;
+  if (!file) return null;
+
+  return importFhirData(JSON.parse(await file.text()));
+};
@@ -0,0 +1,383 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { readStore } from './StorageService';
+import { pullSyncedRecords } from './SyncService';
+import { SeriesReader, isSummedVital, pullSeniorVitals } from './HealthTimeSeries';
+import { VITAL_NAMES } from './VitalRules';
+import { MedicationAdherence, summarizeAdherence } from './MedicationAdherence';
+import {
+  bloodPressureToObservation,
+  reminderToMedicationStatement,
+  seniorToPatient,
+  toFhirBundle,
+  vitalToObservation,
+} from './Fhir';
+import { FhirBundle, FhirMedicationStatement, FhirReference } from '../types/fhir';
+import { SeniorAlert } from '../types/alerts';
+import { StoredReminder } from '../types/reminders';
+import { VitalMetric } from '../types/vitals';
+
+export type ReportFormat = 'pdf' | 'csv' | 'fhir';
+
+// In the order a clinician reads them
+const REPORT_METRICS: VitalMetric[] = [
+  'systolic',
+  'diastolic',
+  'heartRate',
+  'oxygenSaturation',
+  'temperature',
+  'glucose',
+  'weight',
+  'steps',
+  'sleep',
+];
+
+const FILE_TYPES: Record<ReportFormat, { extension: string; mimeType: string; UTI: string }> = {
+  pdf: { extension: 'pdf', mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+  csv: { extension: 'csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  fhir: { extension: 'json', mimeType: 'application/fhir+json', UTI: 'public.json' },
+};
+
+export interface VitalSummary {
+  metric: VitalMetric;
+  name: string;
+  unit: string;
+  readings: number;
+  min: number;
+  max: number;
+  avg: number;
+  // One value per day with readings: the day's total for steps and sleep, else its average
+  daily: Array<{ date: string; value: number }>;
+}
+
+export interface HealthReport {
+  seniorId: string;
+  seniorName: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  vitals: VitalSummary[];
+  medications: MedicationAdherence[];
+  // The medication reminders `medications` counts doses of
+  reminders: StoredReminder[];
+  alerts: SeniorAlert[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// The calendar day on this device, e.g. 2024-03-05; UTC would move local midnight to the day before east of Greenwich
+const localDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Reports run up to `to`, exclusive
+const lastDay = (report: HealthReport) => new Date(new Date(report.to).getTime() - 1);
+
+const summarizeMetric = async (
+  metric: VitalMetric,
+  from: Date,
+  to: Date,
+  read: SeriesReader
+): Promise<VitalSummary | null> => {
+  const days = await read(metric, { from, to, resolution: 'day' });
+  if (!days.length) return null;
+  const summed = isSummedVital(metric);
+  const daily = days.map(day => ({ date: day.start, value: round(summed ? day.sum : day.avg) }));
+  const { name, unit } = VITAL_NAMES[metric] || { name: metric, unit: '' };
+  if (summed) {
+    const totals = daily.map(day => day.value);
+    return {
+      metric,
+      name,
+      unit,
+      readings: totals.length,
+      min: Math.min(...totals),
+      max: Math.max(...totals),
+      avg: round(totals.reduce((sum, value) => sum + value, 0) / totals.length),
+      daily,
+    };
+  }
+  const count = days.reduce((sum, day) => sum + day.count, 0);
+  return {
+    metric,
+    name,
+    unit,
+    readings: count,
+    min: round(Math.min(...days.map(day => day.min))),
+    max: round(Math.max(...days.map(day => day.max))),
+    avg: round(days.reduce((sum, day) => sum + day.sum, 0) / count),
+    daily,
+  };
+};
+
+const inRange = (date: Date, from: Date, to: Date) => date >= from && date < to;
+
+/**
+ * Everything a physician needs from one period: vitals summarised by day,
+ * how medications were taken and the alerts raised, all as the senior's
+ * phone synced them.
+ */
+export const buildHealthReport = async (seniorId: string, from: Date, to: Date): Promise<HealthReport> => {
+  const [seniors, ownName, reminders, doses, alerts, read] = await Promise.all([
+    readStore('seniors'),
+    readStore('seniorName'),
+    pullSyncedRecords(seniorId, 'reminders'),
+    pullSyncedRecords(seniorId, 'doses'),
+    pullSyncedRecords(seniorId, 'alerts'),
+    pullSeniorVitals(seniorId),
+  ]);
+  const vitals: VitalSummary[] = [];
+  for (const metric of REPORT_METRICS) {
+    const summary = await summarizeMetric(metric, from, to, read);
+    if (summary) vitals.push(summary);
+  }
+
+  return {
+    seniorId,
+    seniorName: seniors.find(senior => senior.seniorId === seniorId)?.name || ownName,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    generatedAt: new Date().toISOString(),
+    vitals,
+    medications: summarizeAdherence(reminders, doses, from, to),
+    reminders: reminders.filter(reminder => reminder.type === 'medication'),
+    alerts: alerts
+      .filter(alert => inRange(new Date(alert.timestamp), from, to))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+  };
+};
+
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const adherencePercent = ({ scheduled, taken }: MedicationAdherence) =>
+  scheduled ? `${Math.round((taken / scheduled) * 100)}%` : '–';
+
+/* --------- CSV --------- */
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The report as one table a clinic system or spreadsheet can read, a row
+ * per summary, daily value, medication and alert.
+ */
+export const reportToCsv = (report: HealthReport): string => {
+  const rows: Array<Array<string | number>> = [['Section', 'Date', 'Item', 'Value', 'Unit', 'Detail']];
+  report.vitals.forEach(vital => {
+    rows.push(['Vital summary', '', vital.name, vital.avg, vital.unit, `min ${vital.min}; max ${vital.max}; ${vital.readings} ${vital.readings === 1 ? 'reading' : 'readings'}`]);
+  });
+  report.vitals.forEach(vital => {
+    const kind = isSummedVital(vital.metric) ? 'Daily total' : 'Daily average';
+    vital.daily.forEach(day => rows.push(['Vital', localDate(new Date(day.date)), vital.name, day.value, vital.unit, kind]));
+  });
+  report.medications.forEach(medication => {
+    rows.push([
+      'Medication',
+      '',
+      medication.title,
+      `${medication.taken}/${medication.scheduled}`,
+      'doses taken',
+      `${medication.time}; skipped ${medication.skipped}; missed ${medication.missed}`,
+    ]);
+  });
+  report.alerts.forEach(alert => {
+    rows.push(['Alert', localDate(new Date(alert.timestamp)), alert.title, '', '', alert.message]);
+  });
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+/* --------- FHIR --------- */
+// A medication's reminder with how its doses were taken over the report
+const medicationToStatement = (
+  medication: MedicationAdherence,
+  report: HealthReport,
+  subject: FhirReference
+): FhirMedicationStatement[] => {
+  const reminder = report.reminders.find(candidate => candidate.id === medication.reminderId);
+  if (!reminder) return [];
+  return [
+    {
+      ...reminderToMedicationStatement(reminder, subject),
+      note: [
+        {
+          text:
+            `From ${formatDay(report.from)} to ${formatDay(lastDay(report).toISOString())}: ` +
+            `${medication.taken} of ${medication.scheduled} doses taken, ` +
+            `${medication.skipped} skipped, ${medication.missed} missed`,
+        },
+      ],
+    },
+  ];
+};
+
+/**
+ * The report for a clinic system: the patient, their daily vitals as
+ * Observations coded with LOINC and their medications as
+ * MedicationStatements, in one Bundle. A daily value covers its day as a
+ * period and says whether it is the day's average or total; a day with both
+ * halves of blood pressure gives one panel.
+ */
+export const reportToFhir = (report: HealthReport): FhirBundle => {
+  const subject = { reference: `Patient/${report.seniorId}` };
+  const dailyOf = (metric: VitalMetric) =>
+    new Map((report.vitals.find(vital => vital.metric === metric)?.daily || []).map(day => [day.date, day.value]));
+  const systolic = dailyOf('systolic');
+  const diastolic = dailyOf('diastolic');
+
+  const observations = report.vitals.flatMap(vital => {
+    const note = [{ text: isSummedVital(vital.metric) ? 'Total for the day' : 'Average of the day\'s readings' }];
+    return vital.daily.flatMap(day => {
+      const start = new Date(day.date);
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1).toISOString();
+      const lower = diastolic.get(day.date);
+      if (vital.metric === 'systolic' && lower !== undefined) {
+        const id = `bloodPressure-${localDate(start)}`;
+        return [{ ...bloodPressureToObservation(id, day.value, lower, day.date, end, subject), note }];
+      }
+      if (vital.metric === 'diastolic' && systolic.has(day.date)) return [];
+      const id = `${vital.metric}-${localDate(start)}`;
+      return [{ ...vitalToObservation(id, vital.metric, day.value, day.date, end, subject), note }];
+    });
+  });
+  return toFhirBundle(
+    `report-${report.seniorId}-${localDate(new Date(report.generatedAt))}`,
+    [
+      seniorToPatient(report.seniorId, report.seniorName || undefined),
+      ...observations,
+      ...report.medications.flatMap(medication => medicationToStatement(medication, report, subject)),
+    ],
+    new Date(report.generatedAt)
+  );
+};
+
+/* --------- PDF --------- */
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 110;
+const CHART_PADDING = 28;
+
+// A line through the daily values, labelled with the lowest and highest and the first and last day
+const trendChart = ({ daily, unit }: VitalSummary) => {
+  if (daily.length < 2) return '';
+  const values = daily.map(day => day.value);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const first = new Date(daily[0].date).getTime();
+  const span = new Date(daily[daily.length - 1].date).getTime() - first || 1;
+  const x = (date: string) =>
+    CHART_PADDING + ((new Date(date).getTime() - first) / span) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING / 2 - ((value - low) / (high - low || 1)) * (CHART_HEIGHT - CHART_PADDING);
+  const points = daily.map(day => `${x(day.date).toFixed(1)},${y(day.value).toFixed(1)}`).join(' ');
+  return `
+    <svg width="${CHART_WIDTH}" height="${CHART_HEIGHT + 14}" xmlns="http://www.w3.org/2000/svg">
+      <polyline points="${points}" fill="none" stroke="#2C7A7B" stroke-width="2" />
+      ${daily.map(day => `<circle cx="${x(day.date).toFixed(1)}" cy="${y(day.value).toFixed(1)}" r="2.5" fill="#2C7A7B" />`).join('')}
+      <text x="0" y="${y(high) + 4}" font-size="9">${high}</text>
+      <text x="0" y="${y(low) + 4}" font-size="9">${low}</text>
+      <text x="${CHART_PADDING}" y="${CHART_HEIGHT + 12}" font-size="9">${escapeHtml(formatDay(daily[0].date))}</text>
+      <text x="${CHART_WIDTH - CHART_PADDING}" y="${CHART_HEIGHT + 12}" font-size="9" text-anchor="end">${escapeHtml(formatDay(daily[daily.length - 1].date))}</text>
+      <text x="${CHART_WIDTH}" y="10" font-size="9" text-anchor="end">${escapeHtml(unit)}</text>
+    </svg>`;
+};
+
+const table = (headers: string[], rows: string[][], empty: string) =>
+  rows.length
+    ? `<table><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr>${rows
+        .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('')}</table>`
+    : `<p class="empty">${empty}</p>`;
+
+/**
+ * The report as a printable page: summaries, trend charts, adherence, then
+ * alerts in date order.
+ */
+export const reportToHtml = (report: HealthReport): string => `
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1A202C; margin: 32px; font-size: 12px; }
+      h1 { font-size: 22px; margin: 0 0 4px; }
+      h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid #CBD5E0; padding-bottom: 4px; }
+      h3 { font-size: 13px; margin: 12px 0 4px; }
+      .meta { color: #4A5568; }
+      table { border-collapse: collapse; width: 100%; }
+      th, td { text-align: left; padding: 5px 8px; border-bottom: 1px solid #E2E8F0; vertical-align: top; }
+      th { background: #EDF2F7; }
+      .empty { color: #718096; font-style: italic; }
+      .chart { page-break-inside: avoid; }
+    </style>
+  </head>
+  <body>
+    <h1>Health Report${report.seniorName ? ` – ${escapeHtml(report.seniorName)}` : ''}</h1>
+    <div class="meta">${formatDay(report.from)} to ${formatDay(lastDay(report).toISOString())}. Generated ${escapeHtml(new Date(report.generatedAt).toLocaleString('en-US'))}.</div>
+
+    <h2>Vitals</h2>
+    ${table(
+      ['Measure', 'Average', 'Lowest', 'Highest', 'Readings'],
+      report.vitals.map(vital => [
+        `${vital.name} (${vital.unit})`,
+        `${vital.avg}${isSummedVital(vital.metric) ? ' a day' : ''}`,
+        String(vital.min),
+        String(vital.max),
+        isSummedVital(vital.metric) ? `${vital.readings} days` : String(vital.readings),
+      ]),
+      'No vitals were recorded in this period.'
+    )}
+    ${report.vitals
+      .filter(vital => vital.daily.length > 1)
+      .map(vital => `<div class="chart"><h3>${escapeHtml(vital.name)}</h3>${trendChart(vital)}</div>`)
+      .join('')}
+
+    <h2>Medication Adherence</h2>
+    ${table(
+      ['Medication', 'Time', 'Doses due', 'Taken', 'Skipped', 'Missed', 'Adherence'],
+      report.medications.map(medication => [
+        medication.title,
+        medication.time,
+        String(medication.scheduled),
+        String(medication.taken),
+        String(medication.skipped),
+        String(medication.missed),
+        adherencePercent(medication),
+      ]),
+      'No medication reminders in this period.'
+    )}
+
+    <h2>Alerts</h2>
+    ${table(
+      ['Date', 'Alert', 'Details'],
+      report.alerts.map(alert => [formatDay(alert.timestamp), alert.title, alert.message]),
+      'No alerts in this period.'
+    )}
+  </body>
+</html>`;
+
+/* --------- Sharing --------- */
+/**
+ * Write the report as a PDF, CSV or FHIR file and open the share sheet so
+ * it can be sent to a physician or clinic.
+ */
+export const shareHealthReport = async (report: HealthReport, format: ReportFormat): Promise<void> => {
+  const { extension, mimeType, UTI } = FILE_TYPES[format];
+  const name = `health-report-${localDate(new Date(report.from))}-to-${localDate(lastDay(report))}.${extension}`;
+  let uri: string;
+  if (format === 'pdf') {
+    uri = (await Print.printToFileAsync({ html: reportToHtml(report) })).uri;
+  } else {
+    const file = new File(Paths.cache, name);
+    file.create({ overwrite: true });
+    file.write(format === 'csv' ? reportToCsv(report) : JSON.stringify(reportToFhir(report), null, 2));
+    uri = file.uri;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: 'Share health report' });
+};
@@ -0,0 +1,357 @@
+import { listShards, readStore, writeStore } from './StorageService';
+import { pullSyncedRecords } from './SyncService';
+import { checkVitals } from './VitalRules';
+import { rankSource } from './wearables/DeviceRegistry';
+import { HistorySample, MetricSourcePriority, WearableMetric, WearableSample } from '../types/wearables';
+import {
+  ManualReading,
+  SeriesBucket,
+  SeriesPoint,
+  SeriesResolution,
+  SeriesTable,
+  VitalMetric,
+  VitalPoint,
+} from '../types/vitals';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Minutes are for the detail of the last day, hours for the day view over a
+// season, days for trends over years
+const RETENTION_MS: Record<SeriesResolution, number> = {
+  minute: DAY_MS,
+  hour: 90 * DAY_MS,
+  day: 2 * 365 * DAY_MS,
+};
+
+const SERIES_STORES = {
+  minute: 'healthSeriesMinute',
+  hour: 'healthSeriesHour',
+  day: 'healthSeriesDay',
+} as const;
+
+const RESOLUTIONS: SeriesResolution[] = ['minute', 'hour', 'day'];
+
+// Source of readings the senior entered by hand
+export const MANUAL_SOURCE = 'manual';
+
+// Where the senior's source order for each vital is kept; glucose and weight
+// have none, so whichever source recorded a bucket first keeps it
+const PRIORITY_METRIC: Partial<Record<VitalMetric, WearableMetric>> = {
+  heartRate: 'heartRate',
+  oxygenSaturation: 'oxygenSaturation',
+  steps: 'steps',
+  systolic: 'bloodPressure',
+  diastolic: 'bloodPressure',
+  sleep: 'sleep',
+  temperature: 'temperature',
+};
+
+// Ranks a source for a metric, most trusted lowest
+export type SourceRank = (metric: VitalMetric, source: string) => number;
+
+const rankBy = (priority: MetricSourcePriority): SourceRank => (metric, source) => {
+  const wearableMetric = PRIORITY_METRIC[metric];
+  return wearableMetric ? rankSource(priority, wearableMetric, source) : 0;
+};
+
+// Totals over a period rather than levels at a moment: charted as sums, and 0 when nothing was recorded
+const SUMMED: VitalMetric[] = ['steps', 'sleep'];
+
+// A night's sleep counts towards the day it ends on, so 23:00 and 02:00 land on the same morning
+const SLEEP_DAY_SHIFT_MS = DAY_MS / 2;
+
+export type HistoryRange = 'day' | 'week' | 'month';
+
+export interface HistoryBucket {
+  start: string;
+  label: string;
+  // Steps and sleep minutes are totals, anything else an average; null when nothing was recorded
+  value: number | null;
+}
+
+export interface SeriesQuery {
+  from: Date;
+  to: Date;
+  resolution: SeriesResolution;
+}
+
+// Where queries read buckets from: this phone's series, or a senior's synced one
+export type SeriesReader = (metric: VitalMetric, query: SeriesQuery) => Promise<SeriesPoint[]>;
+
+export const isSummedVital = (metric: VitalMetric): boolean => SUMMED.includes(metric);
+
+export const bucketStart = (time: number, resolution: SeriesResolution): number => {
+  const date = new Date(time);
+  if (resolution === 'minute') return Math.floor(time / MINUTE_MS) * MINUTE_MS;
+  if (resolution === 'hour') return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()).getTime();
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+/**
+ * Vitals in stored watch history: bpm and steps as they are, sleep as
+ * minutes asleep. Time awake is left out.
+ */
+export const historyToVitals = (samples: HistorySample[]): VitalPoint[] =>
+  samples
+    .filter(sample => sample.kind !== 'sleep' || sample.stage !== 'awake')
+    .map(({ deviceId, kind, value, timestamp }) => ({ metric: kind, value, timestamp, source: deviceId }));
+
+/**
+ * Vitals in a live reading. Steps are left out: a watch reports them as a
+ * running total for the day, and they reach the series through its history.
+ */
+export const readingToVitals = (sample: WearableSample): VitalPoint[] => {
+  const { timestamp, deviceId: source } = sample;
+  const points: VitalPoint[] = [];
+  const add = (metric: VitalMetric, value: number) => points.push({ metric, value, timestamp, source });
+  if (sample.heartRate !== undefined) add('heartRate', sample.heartRate);
+  if (sample.oxygenSaturation !== undefined) add('oxygenSaturation', sample.oxygenSaturation);
+  if (sample.temperature !== undefined) add('temperature', sample.temperature);
+  if (sample.bloodPressure) {
+    add('systolic', sample.bloodPressure.systolic);
+    add('diastolic', sample.bloodPressure.diastolic);
+  }
+  return points;
+};
+
+/**
+ * Vitals in a reading entered by hand, all at the time it was taken.
+ */
+export const manualToVitals = ({ values, timestamp }: ManualReading): VitalPoint[] =>
+  (Object.keys(values) as VitalMetric[])
+    .filter(metric => values[metric] !== undefined)
+    .map(metric => ({ metric, value: values[metric] as number, timestamp, source: MANUAL_SOURCE }));
+
+/**
+ * Add points to the buckets of one resolution and drop buckets past its
+ * retention. A bucket holds one source: a point from a more trusted source
+ * replaces what is there, one from any other source is left out. Returns a
+ * new table; the one passed in is left alone.
+ */
+export const rollUp = (
+  table: SeriesTable,
+  points: VitalPoint[],
+  resolution: SeriesResolution,
+  now = Date.now(),
+  rank: SourceRank = rankBy({})
+): SeriesTable => {
+  const cutoff = bucketStart(now - RETENTION_MS[resolution], resolution);
+  const byMetric = new Map<VitalMetric, Map<number, SeriesBucket>>();
+  const bucketsOf = (metric: VitalMetric) => {
+    let buckets = byMetric.get(metric);
+    if (!buckets) {
+      buckets = new Map((table[metric] || []).map(bucket => [bucket.start, { ...bucket }]));
+      byMetric.set(metric, buckets);
+    }
+    return buckets;
+  };
+
+  points.forEach(({ metric, value, timestamp, source }) => {
+    const shift = metric === 'sleep' && resolution === 'day' ? SLEEP_DAY_SHIFT_MS : 0;
+    const time = new Date(timestamp).getTime() + shift;
+    if (!Number.isFinite(time) || !Number.isFinite(value)) return;
+    const start = bucketStart(time, resolution);
+    if (start < cutoff) return;
+
+    const buckets = bucketsOf(metric);
+    const bucket = buckets.get(start);
+    if (bucket && (bucket.source === undefined || bucket.source === source)) {
+      bucket.count += 1;
+      bucket.sum += value;
+      bucket.min = Math.min(bucket.min, value);
+      bucket.max = Math.max(bucket.max, value);
+    } else if (!bucket || rank(metric, source) < rank(metric, bucket.source as string)) {
+      buckets.set(start, { start, count: 1, sum: value, min: value, max: value, source });
+    }
+  });
+
+  const next: SeriesTable = {};
+  (Object.keys(table) as VitalMetric[]).concat(Array.from(byMetric.keys())).forEach(metric => {
+    const buckets = byMetric.has(metric) ? Array.from(bucketsOf(metric).values()) : table[metric] || [];
+    const kept = buckets.filter(bucket => bucket.start >= cutoff).sort((a, b) => a.start - b.start);
+    if (kept.length) next[metric] = kept;
+  });
+  return next;
+};
+
+const writeSeries = async (points: VitalPoint[]): Promise<void> => {
+  const now = Date.now();
+  const rank = rankBy(await readStore('metricSourcePriority'));
+  for (const resolution of RESOLUTIONS) {
+    const name = SERIES_STORES[resolution];
+    await writeStore(name, rollUp(await readStore(name), points, resolution, now, rank));
+  }
+};
+
+// Writes are read-modify-write on three stores, so they run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Every vital this phone has kept as a sample: watch history, live readings,
+ * readings entered by hand and imported ones.
+ */
+export const readSavedVitals = async (): Promise<VitalPoint[]> => {
+  // Watch history may already be split into day shards, see HistorySync
+  const days = await listShards('wearableHistory');
+  const [legacyHistory, samples, manual, imported, ...historyDays] = await Promise.all([
+    readStore('wearableHistory'),
+    readStore('wearableSamples'),
+    readStore('manualVitals'),
+    readStore('importedVitals'),
+    ...days.map(day => readStore('wearableHistory', day)),
+  ]);
+  const history = [...legacyHistory, ...historyDays.flat()];
+  return [
+    ...historyToVitals(history),
+    ...samples.flatMap(readingToVitals),
+    ...manual.flatMap(manualToVitals),
+    ...imported,
+  ];
+};
+
+/**
+ * Before the time series existed, vitals were only kept as samples. Roll
+ * those in once; returns false if that was already done.
+ */
+const importSavedSamples = async (): Promise<boolean> => {
+  if (await readStore('healthSeriesImported')) return false;
+  await writeSeries(await readSavedVitals());
+  await writeStore('healthSeriesImported', true);
+  return true;
+};
+
+/**
+ * Add measurements to the minute, hour and day buckets, then check them
+ * against the senior's limits. Callers save their samples first: the very
+ * first write imports everything saved so far, these points included,
+ * instead of adding them a second time.
+ */
+export const recordVitals = async (points: VitalPoint[]): Promise<void> => {
+  await enqueue(async () => {
+    try {
+      if ((await importSavedSamples()) || !points.length) return;
+      await writeSeries(points);
+    } catch (error) {
+      console.error('Error recording vitals:', error);
+    }
+  });
+  if (points.length) await checkVitals();
+};
+
+const toSeriesPoint = ({ start, count, sum, min, max, source }: SeriesBucket): SeriesPoint => ({
+  start: new Date(start).toISOString(),
+  count,
+  sum,
+  min,
+  max,
+  avg: sum / count,
+  source,
+});
+
+const pointsIn = (buckets: SeriesBucket[], { from, to, resolution }: SeriesQuery): SeriesPoint[] => {
+  const start = bucketStart(from.getTime(), resolution);
+  return buckets
+    .filter(bucket => bucket.start >= start && bucket.start < to.getTime())
+    .sort((a, b) => a.start - b.start)
+    .map(toSeriesPoint);
+};
+
+/**
+ * Buckets of one metric from `from` up to `to`, oldest first. Only buckets
+ * something was recorded in are returned.
+ */
+export const queryVitals: SeriesReader = (metric, query) =>
+  enqueue(async () => {
+    try {
+      await importSavedSamples();
+    } catch (error) {
+      console.error('Error importing saved samples:', error);
+    }
+    return pointsIn((await readStore(SERIES_STORES[query.resolution]))[metric] || [], query);
+  });
+
+/**
+ * Fetch the recent vitals a senior's phone synced and read them like
+ * queryVitals does. Only hours and days are synced, and only as far back as
+ * SyncService keeps them.
+ */
+export const pullSeniorVitals = async (seniorId: string): Promise<SeriesReader> => {
+  const records = await pullSyncedRecords(seniorId, 'vitalSeries');
+  return async (metric, query) =>
+    pointsIn(
+      records.find(record => record.metric === metric && record.resolution === query.resolution)?.buckets || [],
+      query
+    );
+};
+
+/**
+ * The latest value of a metric: today's total for steps and sleep, else the
+ * average of the most recent bucket. Null if nothing is recorded.
+ */
+export const getLatestVital = async (
+  metric: VitalMetric,
+  now = new Date(),
+  read: SeriesReader = queryVitals
+): Promise<{ value: number; timestamp: string } | null> => {
+  if (isSummedVital(metric)) {
+    const [today] = await read(metric, { from: now, to: new Date(now.getTime() + 1), resolution: 'day' });
+    return today ? { value: today.sum, timestamp: today.start } : null;
+  }
+  for (const resolution of RESOLUTIONS) {
+    const points = await read(metric, {
+      from: new Date(now.getTime() - RETENTION_MS[resolution]),
+      to: new Date(now.getTime() + 1),
+      resolution,
+    });
+    const latest = points[points.length - 1];
+    if (latest) return { value: latest.avg, timestamp: latest.start };
+  }
+  return null;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * One metric in the buckets of a chart: the hours of today, or the last 7 or
+ * 30 days, with a label for each.
+ */
+export const summarizeVitals = async (
+  metric: VitalMetric,
+  range: HistoryRange,
+  now = new Date(),
+  read: SeriesReader = queryVitals
+): Promise<HistoryBucket[]> => {
+  const today = startOfDay(now);
+  const days = range === 'week' ? 7 : 30;
+  const buckets: Array<{ start: Date; label: string }> = range === 'day'
+    ? Array.from({ length: 24 }, (_, hour) => ({
+        start: new Date(today.getFullYear(), today.getMonth(), today.getDate(), hour),
+        label: `${hour}`,
+      }))
+    : Array.from({ length: days }, (_, index) => {
+        const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - index));
+        const label = range === 'week' ? start.toLocaleDateString('en-US', { weekday: 'short' }) : `${start.getDate()}`;
+        return { start, label };
+      });
+
+  const last = buckets[buckets.length - 1].start;
+  const to = range === 'day'
+    ? new Date(last.getFullYear(), last.getMonth(), last.getDate(), last.getHours() + 1)
+    : new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1);
+  const points = await read(metric, { from: buckets[0].start, to, resolution: range === 'day' ? 'hour' : 'day' });
+  const byStart = new Map(points.map(point => [new Date(point.start).getTime(), point]));
+
+  const summed = isSummedVital(metric);
+  return buckets.map(({ start, label }) => {
+    const point = byStart.get(start.getTime());
+    const value = point ? (summed ? point.sum : Math.round(point.avg * 10) / 10) : summed ? 0 : null;
+    return { start: start.toISOString(), label, value };
+  });
+};
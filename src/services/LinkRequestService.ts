@@ -0,0 +1,544 @@
+import { readStore, updateStore, writeStore } from './StorageService';
+import { ALL_PERMISSION_SCOPES, PermissionScope, SOS_ONLY_SCOPES } from '../types/permissions';
+import { getRandomBytes } from 'expo-crypto';
+import { safeEqual, stretchedHash } from '../utils/hmac';
+
+// Pending requests expire after 24h (see APP_FLOW.md §5)
+export const LINK_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type LinkRequestStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+
+export interface LinkRequest {
+  id: string;
+  seniorId: string;
+  seniorName: string;
+  requesterId: string;
+  requesterName: string;
+  requesterEmail?: string;
+  status: LinkRequestStatus;
+  createdAt: string;
+  respondedAt?: string;
+  // What the senior lets this family member see; links made before scopes
+  // existed have none and keep full access
+  scopes?: PermissionScope[];
+  // Expo push token of the family member's phone, for urgent alerts
+  pushToken?: string;
+}
+
+export interface LinkSettings {
+  requireApproval: boolean;
+  // When the senior last regenerated their share code by hand
+  shareCodeRegeneratedAt?: string;
+}
+
+export type ShareCodeMode = 'single-use' | 'multi-use';
+
+export interface ShareCode {
+  code: string;
+  seniorId: string;
+  mode: ShareCodeMode;
+  createdAt: string;
+  expiresAt: string;
+  uses: number;
+  revokedAt?: string;
+  // Random key the QR code for this share code is signed with
+  signingKey?: string;
+}
+
+// A senior locked out of the app asks a linked family member to vouch for them
+export const PIN_RECOVERY_TTL_MS = 30 * 60 * 1000;
+// The code's hash sits where the locked phone can read it, so the code is long
+// and slow to hash: trying every code takes far longer than a request lives
+export const PIN_RECOVERY_CODE_LENGTH = 10;
+export const PIN_RECOVERY_MAX_ATTEMPTS = 5;
+const PIN_RECOVERY_HASH_ROUNDS = 10000;
+
+export type PinRecoveryStatus = 'pending' | 'approved' | 'used' | 'expired';
+
+export interface PinRecoveryRequest {
+  id: string;
+  seniorId: string;
+  seniorName: string;
+  // Family ID of the member asked to help
+  requesterId: string;
+  status: PinRecoveryStatus;
+  createdAt: string;
+  approvedAt?: string;
+  // Only a salted hash travels; the code itself is read out by the family member
+  codeHash?: string;
+  codeSalt?: string;
+  failedAttempts: number;
+}
+
+export const DEFAULT_LINK_SETTINGS: LinkSettings = {
+  requireApproval: true,
+};
+
+/**
+ * Storage/transport used by the link handshake. The senior and the family
+ * member only talk through this interface, so swapping the local backend for
+ * a remote one does not touch the screens.
+ */
+export interface LinkBackend {
+  saveRequest: (request: LinkRequest) => Promise<void>;
+  // Several at once, so none of them overwrites another
+  saveRequests: (requests: LinkRequest[]) => Promise<void>;
+  getRequest: (id: string) => Promise<LinkRequest | null>;
+  getRequestsForSenior: (seniorId: string) => Promise<LinkRequest[]>;
+  getRequestsForRequester: (requesterId: string) => Promise<LinkRequest[]>;
+  getSettings: (seniorId: string) => Promise<LinkSettings>;
+  saveSettings: (seniorId: string, settings: LinkSettings) => Promise<void>;
+  saveShareCode: (shareCode: ShareCode) => Promise<void>;
+  getShareCode: (code: string) => Promise<ShareCode | null>;
+  getShareCodesForSenior: (seniorId: string) => Promise<ShareCode[]>;
+  savePinRecovery: (request: PinRecoveryRequest) => Promise<void>;
+  getPinRecovery: (id: string) => Promise<PinRecoveryRequest | null>;
+  getPinRecoveriesForRequester: (requesterId: string) => Promise<PinRecoveryRequest[]>;
+}
+
+/**
+ * Backend that keeps everything in memory. Used by tests and demos where
+ * nothing should survive a reload.
+ */
+export const createInMemoryLinkBackend = (): LinkBackend => {
+  const requests = new Map<string, LinkRequest>();
+  const settings = new Map<string, LinkSettings>();
+  const shareCodes = new Map<string, ShareCode>();
+  const pinRecoveries = new Map<string, PinRecoveryRequest>();
+
+  return {
+    saveRequest: async (request) => {
+      requests.set(request.id, { ...request });
+    },
+    saveRequests: async (updated) => {
+      updated.forEach(request => requests.set(request.id, { ...request }));
+    },
+    getRequest: async (id) => {
+      const request = requests.get(id);
+      return request ? { ...request } : null;
+    },
+    getRequestsForSenior: async (seniorId) =>
+      Array.from(requests.values())
+        .filter(r => r.seniorId === seniorId)
+        .map(r => ({ ...r })),
+    getRequestsForRequester: async (requesterId) =>
+      Array.from(requests.values())
+        .filter(r => r.requesterId === requesterId)
+        .map(r => ({ ...r })),
+    getSettings: async (seniorId) => ({
+      ...DEFAULT_LINK_SETTINGS,
+      ...settings.get(seniorId),
+    }),
+    saveSettings: async (seniorId, value) => {
+      settings.set(seniorId, { ...value });
+    },
+    saveShareCode: async (shareCode) => {
+      shareCodes.set(shareCode.code, { ...shareCode });
+    },
+    getShareCode: async (code) => {
+      const shareCode = shareCodes.get(code);
+      return shareCode ? { ...shareCode } : null;
+    },
+    getShareCodesForSenior: async (seniorId) =>
+      Array.from(shareCodes.values())
+        .filter(c => c.seniorId === seniorId)
+        .map(c => ({ ...c })),
+    savePinRecovery: async (request) => {
+      pinRecoveries.set(request.id, { ...request });
+    },
+    getPinRecovery: async (id) => {
+      const request = pinRecoveries.get(id);
+      return request ? { ...request } : null;
+    },
+    getPinRecoveriesForRequester: async (requesterId) =>
+      Array.from(pinRecoveries.values())
+        .filter(r => r.requesterId === requesterId)
+        .map(r => ({ ...r })),
+  };
+};
+
+/**
+ * Backend persisted in local storage on this device. Only one phone ever
+ * sees it, so the app uses it until a remote backend is installed at startup.
+ */
+export const createLocalLinkBackend = (): LinkBackend => {
+  const readRequests = () => readStore('linkRequests');
+  const readSettings = () => readStore('linkSettings');
+  const readShareCodes = () => readStore('shareCodes');
+  const readPinRecoveries = () => readStore('pinRecoveries');
+
+  return {
+    saveRequest: async (request) => {
+      const requests = await readRequests();
+      const index = requests.findIndex(r => r.id === request.id);
+      if (index >= 0) {
+        requests[index] = request;
+      } else {
+        requests.push(request);
+      }
+      await writeStore('linkRequests', requests);
+    },
+    saveRequests: async (updated) => {
+      const ids = new Set(updated.map(r => r.id));
+      await updateStore('linkRequests', requests => [...requests.filter(r => !ids.has(r.id)), ...updated]);
+    },
+    getRequest: async (id) => {
+      const requests = await readRequests();
+      return requests.find(r => r.id === id) || null;
+    },
+    getRequestsForSenior: async (seniorId) => {
+      const requests = await readRequests();
+      return requests.filter(r => r.seniorId === seniorId);
+    },
+    getRequestsForRequester: async (requesterId) => {
+      const requests = await readRequests();
+      return requests.filter(r => r.requesterId === requesterId);
+    },
+    getSettings: async (seniorId) => {
+      const all = await readSettings();
+      return { ...DEFAULT_LINK_SETTINGS, ...all[seniorId] };
+    },
+    saveSettings: async (seniorId, value) => {
+      const all = await readSettings();
+      await writeStore('linkSettings', { ...all, [seniorId]: value });
+    },
+    saveShareCode: async (shareCode) => {
+      const codes = await readShareCodes();
+      const index = codes.findIndex(c => c.code === shareCode.code);
+      if (index >= 0) {
+        codes[index] = shareCode;
+      } else {
+        codes.push(shareCode);
+      }
+      await writeStore('shareCodes', codes);
+    },
+    getShareCode: async (code) => {
+      const codes = await readShareCodes();
+      return codes.find(c => c.code === code) || null;
+    },
+    getShareCodesForSenior: async (seniorId) => {
+      const codes = await readShareCodes();
+      return codes.filter(c => c.seniorId === seniorId);
+    },
+    savePinRecovery: async (request) => {
+      const requests = await readPinRecoveries();
+      await writeStore('pinRecoveries', [...requests.filter(r => r.id !== request.id), request]);
+    },
+    getPinRecovery: async (id) => {
+      const requests = await readPinRecoveries();
+      return requests.find(r => r.id === id) || null;
+    },
+    getPinRecoveriesForRequester: async (requesterId) => {
+      const requests = await readPinRecoveries();
+      return requests.filter(r => r.requesterId === requesterId);
+    },
+  };
+};
+
+let backend: LinkBackend = createLocalLinkBackend();
+
+/**
+ * Replace the backend used by the link handshake
+ */
+export const setLinkBackend = (next: LinkBackend): void => {
+  backend = next;
+};
+
+export const getLinkBackend = (): LinkBackend => backend;
+
+const isExpired = (request: LinkRequest, now = Date.now()): boolean =>
+  request.status === 'pending' &&
+  now - new Date(request.createdAt).getTime() > LINK_REQUEST_TTL_MS;
+
+// Persist the expired state so both sides stop treating the request as open
+const expireStale = async (requests: LinkRequest[]): Promise<LinkRequest[]> => {
+  const now = Date.now();
+  const checked = requests.map(request =>
+    isExpired(request, now) ? { ...request, status: 'expired' as const } : request
+  );
+  const expired = checked.filter((request, index) => request !== requests[index]);
+  if (expired.length) await backend.saveRequests(expired);
+  return checked;
+};
+
+/**
+ * Send a link request from a family member to a senior. When the senior has
+ * turned off "Require Approval" the request is approved straight away.
+ */
+export const submitLinkRequest = async (params: {
+  seniorId: string;
+  seniorName: string;
+  requesterId: string;
+  requesterName: string;
+  requesterEmail?: string;
+}): Promise<LinkRequest> => {
+  const existing = await expireStale(
+    await backend.getRequestsForRequester(params.requesterId)
+  );
+  const open = existing.find(
+    r => r.seniorId === params.seniorId && (r.status === 'pending' || r.status === 'approved')
+  );
+  if (open) {
+    return open;
+  }
+
+  const { requireApproval } = await backend.getSettings(params.seniorId);
+  const now = new Date().toISOString();
+  const request: LinkRequest = {
+    ...params,
+    id: 'lnk' + Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+    status: requireApproval ? 'pending' : 'approved',
+    createdAt: now,
+    ...(requireApproval ? {} : { respondedAt: now }),
+  };
+
+  await backend.saveRequest(request);
+  return request;
+};
+
+/**
+ * Requests waiting for the senior's decision, newest first
+ */
+export const getPendingLinkRequests = async (seniorId: string): Promise<LinkRequest[]> => {
+  try {
+    const requests = await expireStale(await backend.getRequestsForSenior(seniorId));
+    return requests
+      .filter(r => r.status === 'pending')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error getting pending link requests:', error);
+    return [];
+  }
+};
+
+/**
+ * Requests sent by a family member, whatever their status
+ */
+export const getSentLinkRequests = async (requesterId: string): Promise<LinkRequest[]> => {
+  try {
+    return await expireStale(await backend.getRequestsForRequester(requesterId));
+  } catch (error) {
+    console.error('Error getting sent link requests:', error);
+    return [];
+  }
+};
+
+const respondToLinkRequest = async (
+  id: string,
+  status: 'approved' | 'rejected'
+): Promise<LinkRequest | null> => {
+  const request = await backend.getRequest(id);
+  if (!request) return null;
+
+  const [current] = await expireStale([request]);
+  if (current.status !== 'pending') return null;
+
+  const updated: LinkRequest = {
+    ...current,
+    status,
+    respondedAt: new Date().toISOString(),
+  };
+  await backend.saveRequest(updated);
+  return updated;
+};
+
+/**
+ * Approve a pending request. Returns null if it no longer exists or has
+ * already been answered or expired.
+ */
+export const approveLinkRequest = (id: string) => respondToLinkRequest(id, 'approved');
+
+/**
+ * Reject a pending request. Returns null if it is no longer pending.
+ */
+export const rejectLinkRequest = (id: string) => respondToLinkRequest(id, 'rejected');
+
+export const getRequireApproval = async (seniorId: string): Promise<boolean> => {
+  try {
+    const settings = await backend.getSettings(seniorId);
+    return settings.requireApproval;
+  } catch (error) {
+    console.error('Error loading link settings:', error);
+    return DEFAULT_LINK_SETTINGS.requireApproval;
+  }
+};
+
+export const setRequireApproval = async (seniorId: string, requireApproval: boolean): Promise<void> => {
+  const settings = await backend.getSettings(seniorId);
+  await backend.saveSettings(seniorId, { ...settings, requireApproval });
+};
+
+/**
+ * Scopes granted on the approved link between a senior and a family member.
+ * Without an approved link, or when it cannot be loaded, only SOS alerts get
+ * through; links approved before scopes existed keep full access.
+ */
+export const getLinkScopes = async (
+  seniorId: string,
+  requesterId: string
+): Promise<PermissionScope[]> => {
+  try {
+    const requests = await backend.getRequestsForRequester(requesterId);
+    const link = requests.find(r => r.seniorId === seniorId && r.status === 'approved');
+    if (!link) return SOS_ONLY_SCOPES;
+    return link.scopes ?? ALL_PERMISSION_SCOPES;
+  } catch (error) {
+    console.error('Error loading link scopes:', error);
+    return SOS_ONLY_SCOPES;
+  }
+};
+
+/**
+ * Change what a linked family member can see. Returns null when there is no
+ * approved link between the two.
+ */
+export const setLinkScopes = async (
+  seniorId: string,
+  requesterId: string,
+  scopes: PermissionScope[]
+): Promise<LinkRequest | null> => {
+  const requests = await backend.getRequestsForSenior(seniorId);
+  const link = requests.find(r => r.requesterId === requesterId && r.status === 'approved');
+  if (!link) return null;
+
+  const updated: LinkRequest = { ...link, scopes };
+  await backend.saveRequest(updated);
+  return updated;
+};
+
+/**
+ * Put the family member's push token on each of their open links, so the
+ * seniors they follow can reach their phone
+ */
+export const setRequesterPushToken = async (requesterId: string, pushToken: string): Promise<void> => {
+  const requests = await backend.getRequestsForRequester(requesterId);
+  const updated = requests
+    .filter(r => (r.status === 'pending' || r.status === 'approved') && r.pushToken !== pushToken)
+    .map(r => ({ ...r, pushToken }));
+  if (updated.length) await backend.saveRequests(updated);
+};
+
+/**
+ * Push tokens of the family members whose approved link grants `scope`
+ */
+export const getPushTokensForSenior = async (seniorId: string, scope: PermissionScope): Promise<string[]> => {
+  const requests = await backend.getRequestsForSenior(seniorId);
+  return requests
+    .filter(r => r.status === 'approved' && (r.scopes ?? ALL_PERMISSION_SCOPES).includes(scope))
+    .flatMap(r => (r.pushToken ? [r.pushToken] : []));
+};
+
+const isRecoveryOpen = (request: PinRecoveryRequest, now = Date.now()): boolean =>
+  (request.status === 'pending' || request.status === 'approved') &&
+  now - new Date(request.createdAt).getTime() <= PIN_RECOVERY_TTL_MS;
+
+const hashRecoveryCode = (code: string, salt: string) => stretchedHash(code, salt, PIN_RECOVERY_HASH_ROUNDS);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Bytes of 250 and up are dropped so each digit is equally likely
+const randomDigits = (length: number): string => {
+  let digits = '';
+  while (digits.length < length) {
+    getRandomBytes(length).forEach(byte => {
+      if (byte < 250 && digits.length < length) digits += String(byte % 10);
+    });
+  }
+  return digits;
+};
+
+/**
+ * Ask a linked family member to help reset a forgotten app lock PIN
+ */
+export const requestPinRecovery = async (params: {
+  seniorId: string;
+  seniorName: string;
+  requesterId: string;
+}): Promise<PinRecoveryRequest> => {
+  const request: PinRecoveryRequest = {
+    ...params,
+    id: 'rec' + Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    failedAttempts: 0,
+  };
+  await backend.savePinRecovery(request);
+  return request;
+};
+
+/**
+ * Recovery requests a family member still needs to answer, newest first
+ */
+export const getPendingPinRecoveries = async (requesterId: string): Promise<PinRecoveryRequest[]> => {
+  try {
+    const requests = await backend.getPinRecoveriesForRequester(requesterId);
+    return requests
+      .filter(r => r.status === 'pending' && isRecoveryOpen(r))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error('Error getting PIN recovery requests:', error);
+    return [];
+  }
+};
+
+/**
+ * Approve on the family member's device. Returns the code they read out to
+ * the senior, or null when the request is no longer open.
+ */
+export const approvePinRecovery = async (id: string): Promise<string | null> => {
+  const request = await backend.getPinRecovery(id);
+  if (!request || request.status !== 'pending' || !isRecoveryOpen(request)) return null;
+
+  const code = randomDigits(PIN_RECOVERY_CODE_LENGTH);
+  const codeSalt = toHex(getRandomBytes(16));
+  await backend.savePinRecovery({
+    ...request,
+    status: 'approved',
+    approvedAt: new Date().toISOString(),
+    codeHash: await hashRecoveryCode(code, codeSalt),
+    codeSalt,
+  });
+  return code;
+};
+
+export const getPinRecovery = (id: string): Promise<PinRecoveryRequest | null> =>
+  backend.getPinRecovery(id);
+
+/**
+ * Check the code the senior typed in, leaving the request open until the new
+ * PIN is saved. A request is closed after too many wrong codes.
+ */
+export const checkPinRecovery = async (id: string, code: string): Promise<boolean> => {
+  const request = await backend.getPinRecovery(id);
+  if (
+    !request ||
+    request.status !== 'approved' ||
+    !request.codeHash ||
+    !request.codeSalt ||
+    !isRecoveryOpen(request)
+  ) {
+    return false;
+  }
+
+  if (safeEqual(await hashRecoveryCode(code, request.codeSalt), request.codeHash)) {
+    return true;
+  }
+
+  const failedAttempts = request.failedAttempts + 1;
+  await backend.savePinRecovery({
+    ...request,
+    failedAttempts,
+    status: failedAttempts >= PIN_RECOVERY_MAX_ATTEMPTS ? 'expired' : request.status,
+  });
+  return false;
+};
+
+/**
+ * Close a request once its code has been used, so it cannot reset the PIN again
+ */
+export const closePinRecovery = async (id: string): Promise<void> => {
+  const request = await backend.getPinRecovery(id);
+  if (request?.status === 'approved') {
+    await backend.savePinRecovery({ ...request, status: 'used' });
+  }
+};
@@ -0,0 +1,48 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+const ALERT_CHANNEL = 'health-alerts';
+
+export interface LocalAlert {
+  key: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * Show alerts as notifications on this phone. Nothing is asked for here:
+ * this can run in the background, where a permission prompt cannot be shown.
+ * Returns false if notifications are not allowed.
+ */
+export const showLocalAlerts = async (alerts: LocalAlert[]): Promise<boolean> => {
+  if (!alerts.length) return true;
+
+  const permission = await Notifications.getPermissionsAsync();
+  if (permission.status !== 'granted') {
+    console.warn('Notifications permission denied; health alerts not shown');
+    return false;
+  }
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ALERT_CHANNEL, {
+      name: 'Health Alerts',
+      importance: Notifications.AndroidImportance.HIGH,
+      vibrationPattern: [0, 500, 200, 500],
+      enableVibrate: true,
+      sound: 'default',
+    });
+  }
+
+  for (const alert of alerts) {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: `CareTrek: ${alert.title}`,
+        body: alert.body,
+        data: { healthAlert: alert.key },
+        sound: 'default',
+      },
+      trigger: Platform.OS === 'android' ? { channelId: ALERT_CHANNEL } : null,
+    });
+  }
+  return true;
+};
@@ -0,0 +1,138 @@
+import { readStore, writeStore } from './StorageService';
+import { manualToVitals, recordVitals } from './HealthTimeSeries';
+import { ManualReading, ManualVitalKind, ReadingContext, VitalMetric } from '../types/vitals';
+
+const MAX_MANUAL_READINGS = 500;
+
+// Glucose meters outside the US show mmol/L; 1 mmol/L is 18 mg/dL
+const MMOL_TO_MG_DL = 18;
+
+interface ManualField {
+  metric: VitalMetric;
+  label: string;
+  // Beyond these the reading is a typo or a faulty meter, not the senior
+  min: number;
+  max: number;
+}
+
+interface ManualKindSpec {
+  name: string;
+  unit: string;
+  fields: ManualField[];
+  // Tags that make sense for this kind of reading
+  contexts: ReadingContext[];
+}
+
+export const MANUAL_VITALS: Record<ManualVitalKind, ManualKindSpec> = {
+  bloodPressure: {
+    name: 'Blood Pressure',
+    unit: 'mmHg',
+    fields: [
+      { metric: 'systolic', label: 'Top number', min: 60, max: 260 },
+      { metric: 'diastolic', label: 'Bottom number', min: 30, max: 160 },
+    ],
+    contexts: ['afterMeal', 'afterWalk'],
+  },
+  glucose: {
+    name: 'Blood Sugar',
+    unit: 'mg/dL',
+    fields: [{ metric: 'glucose', label: 'Blood sugar', min: 20, max: 600 }],
+    contexts: ['fasting', 'afterMeal', 'afterWalk'],
+  },
+  weight: {
+    name: 'Weight',
+    unit: 'kg',
+    fields: [{ metric: 'weight', label: 'Weight', min: 20, max: 300 }],
+    contexts: ['fasting', 'afterMeal'],
+  },
+  temperature: {
+    name: 'Temperature',
+    unit: '°C',
+    fields: [{ metric: 'temperature', label: 'Temperature', min: 32, max: 43 }],
+    contexts: ['afterMeal', 'afterWalk'],
+  },
+};
+
+export const READING_CONTEXTS: Record<ReadingContext, string> = {
+  fasting: 'Fasting',
+  afterMeal: 'After a meal',
+  afterWalk: 'After a walk',
+};
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * A number as typed or heard, in the unit the form asks for. Temperatures
+ * in °F, and blood sugar in mmol/L with its decimal point, are recognised
+ * by their range and converted. Undefined if there is no number.
+ */
+export const parseManualValue = (metric: VitalMetric, text: string): number | undefined => {
+  const value = parseFloat(text.trim().replace(',', '.'));
+  if (!Number.isFinite(value)) return undefined;
+  if (metric === 'temperature' && value >= 89.6 && value <= 109.4) return round(((value - 32) * 5) / 9, 1);
+  if (metric === 'glucose' && value >= 1.1 && value <= 33.3 && !Number.isInteger(value)) {
+    return Math.round(value * MMOL_TO_MG_DL);
+  }
+  return value;
+};
+
+/**
+ * What is wrong with a reading before it can be saved, by field. Empty when
+ * it can be saved.
+ */
+export const validateManualReading = (
+  kind: ManualVitalKind,
+  values: Partial<Record<VitalMetric, number>>
+): Partial<Record<VitalMetric, string>> => {
+  const errors: Partial<Record<VitalMetric, string>> = {};
+  MANUAL_VITALS[kind].fields.forEach(({ metric, label, min, max }) => {
+    const value = values[metric];
+    if (value === undefined) errors[metric] = `Enter the ${label.toLowerCase()}.`;
+    else if (value < min) errors[metric] = `${value} looks too low. Please check the number.`;
+    else if (value > max) errors[metric] = `${value} looks too high. Please check the number.`;
+  });
+  const { systolic, diastolic } = values;
+  if (kind === 'bloodPressure' && !errors.systolic && !errors.diastolic && systolic! <= diastolic!) {
+    errors.diastolic = 'The bottom number should be smaller than the top number.';
+  }
+  return errors;
+};
+
+/**
+ * Pick the numbers out of what the senior said, e.g. "120 over 80" or
+ * "98 point 6 degrees". Numbers go into the fields in order.
+ */
+export const parseSpokenReading = (kind: ManualVitalKind, transcript: string): Partial<Record<VitalMetric, string>> => {
+  const numbers = transcript
+    .toLowerCase()
+    .replace(/(\d)\s*(?:point|dot)\s*(\d)/g, '$1.$2')
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .match(/\d+(?:\.\d+)?/g) || [];
+  return MANUAL_VITALS[kind].fields.reduce<Partial<Record<VitalMetric, string>>>((values, { metric }, index) => {
+    if (numbers[index] !== undefined) values[metric] = numbers[index];
+    return values;
+  }, {});
+};
+
+/**
+ * Readings entered by hand, newest first.
+ */
+export const getManualReadings = async (): Promise<ManualReading[]> => {
+  try {
+    const readings = await readStore('manualVitals');
+    return [...readings].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  } catch (error) {
+    console.error('Error loading manual readings:', error);
+    return [];
+  }
+};
+
+/**
+ * Save a reading entered by hand and add it to the health history next to
+ * the ones from devices.
+ */
+export const saveManualReading = async (reading: ManualReading): Promise<void> => {
+  const readings = await readStore('manualVitals');
+  await writeStore('manualVitals', [...readings, reading].slice(-MAX_MANUAL_READINGS));
+  await recordVitals(manualToVitals(reading));
+};
@@ -0,0 +1,106 @@
+import { readStore } from './StorageService';
+import { saveSyncedCollection } from './SyncService';
+import { parseTimeString } from '../utils/dateUtils';
+import { DoseEvent, DoseStatus, Reminder, StoredReminder } from '../types/reminders';
+
+const MAX_DOSES = 1000;
+
+// How one medication was taken over a period
+export interface MedicationAdherence {
+  reminderId: string;
+  title: string;
+  time: string;
+  // Doses due in the period, and what became of them
+  scheduled: number;
+  taken: number;
+  skipped: number;
+  missed: number;
+}
+
+// The daily dose closest to `at`, so a dose marked just after midnight still answers the evening before
+const doseTimeNear = (time: string, at: Date): Date => {
+  const { hours, minutes } = parseTimeString(time);
+  return [-1, 0, 1]
+    .map(offset => new Date(at.getFullYear(), at.getMonth(), at.getDate() + offset, hours, minutes))
+    .reduce((best, candidate) =>
+      Math.abs(candidate.getTime() - at.getTime()) < Math.abs(best.getTime() - at.getTime()) ? candidate : best
+    );
+};
+
+/**
+ * Mark the dose of a medication reminder nearest to `at` as taken or
+ * skipped. Marking the same dose again replaces the earlier answer.
+ */
+export const logDose = async (
+  reminder: Pick<Reminder, 'id' | 'title' | 'time'>,
+  status: DoseStatus,
+  at = new Date()
+): Promise<DoseEvent[]> => {
+  const scheduledFor = doseTimeNear(reminder.time, at).toISOString();
+  const dose: DoseEvent = {
+    id: `${reminder.id}-${scheduledFor}`,
+    reminderId: reminder.id,
+    title: reminder.title,
+    scheduledFor,
+    status,
+    at: at.toISOString(),
+  };
+  const doses = (await readStore('doseLog')).filter(existing => existing.id !== dose.id);
+  const updated = [...doses, dose].slice(-MAX_DOSES);
+  await saveSyncedCollection('doses', updated);
+  return updated;
+};
+
+// Daily doses of a reminder due from `from` up to `to`, counting from the first one it was set for
+const countDueDoses = (reminder: StoredReminder, from: number, to: number): number => {
+  const { hours, minutes } = parseTimeString(reminder.time);
+  const start = new Date(Math.max(from, new Date(reminder.date).getTime()));
+  const due = new Date(start.getFullYear(), start.getMonth(), start.getDate(), hours, minutes);
+  if (due.getTime() < start.getTime()) due.setDate(due.getDate() + 1);
+  let count = 0;
+  while (due.getTime() < to) {
+    count += 1;
+    due.setDate(due.getDate() + 1);
+  }
+  return count;
+};
+
+/**
+ * Taken, skipped and missed doses of each medication reminder from `from`
+ * up to `to`. A reminder that is switched off only counts the doses marked
+ * while it was on, since when it was switched off is not known.
+ */
+export const summarizeAdherence = (
+  reminders: StoredReminder[],
+  doses: DoseEvent[],
+  from: Date,
+  to: Date,
+  now = new Date()
+): MedicationAdherence[] => {
+  const end = Math.min(to.getTime(), now.getTime());
+  const inRange = doses.filter(dose => {
+    const time = new Date(dose.scheduledFor).getTime();
+    return time >= from.getTime() && time < end;
+  });
+  const ids = new Set([
+    ...reminders.filter(reminder => reminder.type === 'medication').map(reminder => reminder.id),
+    ...inRange.map(dose => dose.reminderId),
+  ]);
+
+  return Array.from(ids).map(id => {
+    const reminder = reminders.find(candidate => candidate.id === id);
+    const logged = inRange.filter(dose => dose.reminderId === id);
+    const taken = logged.filter(dose => dose.status === 'taken').length;
+    const due = reminder?.enabled ? countDueDoses(reminder, from.getTime(), end) : 0;
+    const scheduled = Math.max(due, logged.length);
+    return {
+      reminderId: id,
+      title: reminder?.title || logged[0]?.title || 'Medication',
+      time: reminder?.time || '',
+      scheduled,
+      taken,
+      skipped: logged.length - taken,
+      missed: scheduled - logged.length,
+    };
+  });
+};
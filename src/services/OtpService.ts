@@ -0,0 +1,201 @@
+import { readStore, updateStore } from './StorageService';
+
+export const OTP_POLICY = {
+  codeLength: 6,
+  // Wrong codes allowed before the number is locked out
+  maxFailedAttempts: 5,
+  lockoutMs: 15 * 60 * 1000,
+  // Wait before the first resend; doubles with every code sent after that
+  baseResendDelayMs: 30 * 1000,
+  maxResendDelayMs: 10 * 60 * 1000,
+  // Saved counts are forgotten after a day without a code sent or tried
+  attemptsResetMs: 24 * 60 * 60 * 1000,
+};
+
+export type OtpStatus = 'idle' | 'sending' | 'codeSent' | 'verifying' | 'verified' | 'lockedOut';
+
+export interface OtpState {
+  status: OtpStatus;
+  phoneNumber: string;
+  verificationId: string | null;
+  // Codes sent for this number so far, drives the resend backoff
+  sendCount: number;
+  failedAttempts: number;
+  lastSentAt: number | null;
+  resendAvailableAt: number;
+  lockedUntil: number | null;
+  error: string | null;
+}
+
+// What is kept of an OtpState between visits to the code screen
+export interface OtpAttempts {
+  sendCount: number;
+  failedAttempts: number;
+  lastSentAt: number | null;
+  updatedAt: number;
+}
+
+export type OtpEvent =
+  | { type: 'RESTORED'; attempts: OtpAttempts }
+  | { type: 'SEND_REQUESTED' }
+  | { type: 'CODE_SENT'; verificationId: string; now: number }
+  | { type: 'SEND_FAILED'; error: string }
+  | { type: 'VERIFY_REQUESTED' }
+  | { type: 'VERIFY_FAILED'; error: string; now: number }
+  | { type: 'VERIFIED' }
+  | { type: 'LOCKED_OUT'; until: number }
+  | { type: 'LOCKOUT_EXPIRED' };
+
+export const createOtpState = (phoneNumber: string, verificationId: string | null = null, now = Date.now()): OtpState => ({
+  status: verificationId ? 'codeSent' : 'idle',
+  phoneNumber,
+  verificationId,
+  sendCount: verificationId ? 1 : 0,
+  failedAttempts: 0,
+  lastSentAt: verificationId ? now : null,
+  resendAvailableAt: verificationId ? now + getResendDelay(1) : now,
+  lockedUntil: null,
+  error: null,
+});
+
+/**
+ * How long to wait before another code may be sent, after `sendCount` codes
+ */
+export const getResendDelay = (sendCount: number): number =>
+  Math.min(
+    OTP_POLICY.baseResendDelayMs * Math.pow(2, Math.max(sendCount - 1, 0)),
+    OTP_POLICY.maxResendDelayMs
+  );
+
+export const otpReducer = (state: OtpState, event: OtpEvent): OtpState => {
+  switch (event.type) {
+    case 'RESTORED': {
+      // Codes sent on this visit come on top of those sent before it
+      const sendCount = state.sendCount + event.attempts.sendCount;
+      const lastSentAt = state.lastSentAt ?? event.attempts.lastSentAt;
+      return {
+        ...state,
+        sendCount,
+        failedAttempts: state.failedAttempts + event.attempts.failedAttempts,
+        lastSentAt,
+        resendAvailableAt: lastSentAt === null ? state.resendAvailableAt : lastSentAt + getResendDelay(sendCount),
+      };
+    }
+    case 'SEND_REQUESTED':
+      if (state.status === 'lockedOut' || state.status === 'verified') return state;
+      return { ...state, status: 'sending', error: null };
+    case 'CODE_SENT': {
+      const sendCount = state.sendCount + 1;
+      return {
+        ...state,
+        status: 'codeSent',
+        verificationId: event.verificationId,
+        sendCount,
+        lastSentAt: event.now,
+        resendAvailableAt: event.now + getResendDelay(sendCount),
+        error: null,
+      };
+    }
+    case 'SEND_FAILED':
+      // Keep the previous code usable if there was one
+      return { ...state, status: state.verificationId ? 'codeSent' : 'idle', error: event.error };
+    case 'VERIFY_REQUESTED':
+      if (state.status !== 'codeSent') return state;
+      return { ...state, status: 'verifying', error: null };
+    case 'VERIFY_FAILED': {
+      const failedAttempts = state.failedAttempts + 1;
+      if (failedAttempts >= OTP_POLICY.maxFailedAttempts) {
+        return {
+          ...state,
+          status: 'lockedOut',
+          failedAttempts,
+          lockedUntil: event.now + OTP_POLICY.lockoutMs,
+          error: 'Too many incorrect codes. Please try again later.',
+        };
+      }
+      return { ...state, status: 'codeSent', failedAttempts, error: event.error };
+    }
+    case 'VERIFIED':
+      return { ...state, status: 'verified', error: null };
+    case 'LOCKED_OUT':
+      return { ...state, status: 'lockedOut', lockedUntil: event.until };
+    case 'LOCKOUT_EXPIRED':
+      // The old code was used up by the failed attempts, a new one is needed
+      return { ...state, status: 'idle', verificationId: null, failedAttempts: 0, lockedUntil: null, error: null };
+    default:
+      return state;
+  }
+};
+
+export const canResend = (state: OtpState, now = Date.now()): boolean =>
+  (state.status === 'codeSent' || state.status === 'idle') && now >= state.resendAvailableAt;
+
+export const getAttemptsRemaining = (state: OtpState): number =>
+  Math.max(OTP_POLICY.maxFailedAttempts - state.failedAttempts, 0);
+
+/**
+ * Pull the code out of whatever the keyboard or SMS auto-fill handed us:
+ * the bare code, a pasted message, or an Android SMS Retriever message
+ * (`<#> Your CareTrek code is 123456` followed by the app hash).
+ */
+export const extractOtpFromSms = (text: string, length = OTP_POLICY.codeLength): string | null => {
+  const trimmed = text.trim();
+  if (new RegExp(`^\\d{${length}}$`).test(trimmed)) {
+    return trimmed;
+  }
+  let body = trimmed;
+  if (body.startsWith('<#>')) {
+    // Drop the app hash line so its characters are never mistaken for the code
+    body = body.replace(/^<#>\s*/, '').split('\n').slice(0, -1).join('\n') || body;
+  }
+  const match = body.match(new RegExp(`(?:^|\\D)(\\d{${length}})(?!\\d)`));
+  return match ? match[1] : null;
+};
+
+// Lockouts and attempts are kept on the device so closing the app does not reset them
+
+export const getOtpLockout = async (phoneNumber: string, now = Date.now()): Promise<number | null> => {
+  try {
+    const lockouts = await readStore('otpLockouts');
+    const until = lockouts[phoneNumber];
+    return until && until > now ? until : null;
+  } catch (error) {
+    console.error('Error reading OTP lockout:', error);
+    return null;
+  }
+};
+
+export const saveOtpLockout = async (phoneNumber: string, until: number | null): Promise<void> => {
+  try {
+    await updateStore('otpLockouts', lockouts => {
+      const { [phoneNumber]: _previous, ...rest } = lockouts;
+      return until ? { ...rest, [phoneNumber]: until } : rest;
+    });
+  } catch (error) {
+    console.error('Error saving OTP lockout:', error);
+  }
+};
+
+export const getOtpAttempts = async (phoneNumber: string, now = Date.now()): Promise<OtpAttempts | null> => {
+  try {
+    const attempts = (await readStore('otpAttempts'))[phoneNumber];
+    return attempts && now - attempts.updatedAt < OTP_POLICY.attemptsResetMs ? attempts : null;
+  } catch (error) {
+    console.error('Error reading OTP attempts:', error);
+    return null;
+  }
+};
+
+/**
+ * Remember how many codes were sent and tried for a number, or forget it with null
+ */
+export const saveOtpAttempts = async (phoneNumber: string, attempts: OtpAttempts | null): Promise<void> => {
+  try {
+    await updateStore('otpAttempts', saved => {
+      const { [phoneNumber]: _previous, ...rest } = saved;
+      return attempts ? { ...rest, [phoneNumber]: attempts } : rest;
+    });
+  } catch (error) {
+    console.error('Error saving OTP attempts:', error);
+  }
+};
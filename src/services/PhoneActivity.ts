@@ -0,0 +1,253 @@
+import { Pedometer } from 'expo-sensors';
+import * as Location from 'expo-location';
+import { readStore, writeStore } from './StorageService';
+import { PHONE_SOURCE, isPhoneAccelerometerAvailable, watchPhoneAcceleration } from './FallDetection';
+import { getHistory, mergeHistory } from './wearables/HistorySync';
+import { AccelerationSample, WatchData, WearableMetric } from '../types/wearables';
+import { PhoneActivityType, WalkSession } from '../types/activity';
+
+// What the phone can measure on its own
+export const PHONE_METRICS: WearableMetric[] = ['steps', 'distance'];
+
+// Average step of an older adult; distance is estimated from steps when there is no route
+const STEP_LENGTH_M = 0.6;
+
+// Steps taken over this window decide whether the senior is walking
+const ACTIVITY_WINDOW_MS = 30 * 1000;
+const WALKING_STEPS_PER_MINUTE = 30;
+// Faster than anyone walks or runs for long, about 25 km/h
+const VEHICLE_SPEED_MPS = 7;
+// A speed older than this no longer says anything about now
+const SPEED_MAX_AGE_MS = 60 * 1000;
+
+// Accelerometer step counting, for phones without a step sensor: a step is
+// the smoothed magnitude rising over STEP_PEAK_G, then dropping back under STEP_RESET_G
+const STEP_SMOOTHING = 0.3;
+const STEP_PEAK_G = 1.12;
+const STEP_RESET_G = 1.0;
+const MIN_STEP_INTERVAL_MS = 300;
+
+const ROUTE_DISTANCE_INTERVAL_M = 5;
+// Only a change of speed matters here, so updates can be rare
+const SPEED_DISTANCE_INTERVAL_M = 50;
+const MAX_WALKS = 100;
+
+export interface StepCounter {
+  push: (samples: AccelerationSample[]) => void;
+}
+
+export interface ActivityTracker {
+  addSteps: (steps: number, at: number) => void;
+  // Ground speed from a location fix, in m/s
+  setSpeed: (speed: number, at: number) => void;
+  classify: (now: number) => PhoneActivityType;
+}
+
+export type WalkPoint = NonNullable<WalkSession['gpsData']>[number];
+
+export const stepsToDistance = (steps: number): number => Math.round(steps * STEP_LENGTH_M);
+
+/**
+ * Count steps in a stream of accelerometer readings by their peaks. Rougher
+ * than a step sensor, so only used on phones that lack one.
+ */
+export const createStepCounter = (onSteps: (steps: number) => void): StepCounter => {
+  let smoothed = 1;
+  let armed = true;
+  let lastStepAt = 0;
+
+  const step = ({ x, y, z, timestamp }: AccelerationSample) => {
+    smoothed += (Math.sqrt(x * x + y * y + z * z) - smoothed) * STEP_SMOOTHING;
+    if (!armed) {
+      if (smoothed < STEP_RESET_G) armed = true;
+      return;
+    }
+    if (smoothed > STEP_PEAK_G && timestamp - lastStepAt >= MIN_STEP_INTERVAL_MS) {
+      armed = false;
+      lastStepAt = timestamp;
+      onSteps(1);
+    }
+  };
+
+  return { push: samples => samples.forEach(step) };
+};
+
+/**
+ * Tell walking, sitting still and riding in a vehicle apart from the steps
+ * counted recently and, when location is allowed, how fast the phone is
+ * moving. Steps win over speed, so a walk is never taken for a ride.
+ */
+export const createActivityTracker = (): ActivityTracker => {
+  let steps: Array<{ count: number; at: number }> = [];
+  let speed: { value: number; at: number } | null = null;
+
+  return {
+    addSteps: (count, at) => {
+      steps.push({ count, at });
+    },
+    setSpeed: (value, at) => {
+      speed = { value, at };
+    },
+    classify: now => {
+      steps = steps.filter(({ at }) => now - at < ACTIVITY_WINDOW_MS);
+      const perMinute = (steps.reduce((total, { count }) => total + count, 0) * 60 * 1000) / ACTIVITY_WINDOW_MS;
+      if (perMinute >= WALKING_STEPS_PER_MINUTE) return 'walking';
+      if (speed && now - speed.at < SPEED_MAX_AGE_MS && speed.value >= VEHICLE_SPEED_MPS) return 'inVehicle';
+      return 'idle';
+    },
+  };
+};
+
+/**
+ * Count the senior's steps with the phone, using its step sensor if it has
+ * one and its accelerometer if not. Steps are only counted while the app is
+ * open. Resolves to a function that stops counting, or null if the phone
+ * cannot count steps or the senior said no.
+ */
+export const watchPhoneSteps = async (listener: (steps: number) => void): Promise<(() => void) | null> => {
+  try {
+    if (await Pedometer.isAvailableAsync()) {
+      const { granted } = await Pedometer.requestPermissionsAsync();
+      if (!granted) return null;
+      // Each update is the total since subscribing
+      let counted = 0;
+      const subscription = Pedometer.watchStepCount(({ steps }) => {
+        if (steps > counted) listener(steps - counted);
+        counted = steps;
+      });
+      return () => subscription.remove();
+    }
+  } catch (error) {
+    console.error('Error starting pedometer:', error);
+  }
+
+  if (!(await isPhoneAccelerometerAvailable())) return null;
+  const counter = createStepCounter(listener);
+  return watchPhoneAcceleration(counter.push);
+};
+
+export const isPhoneStepCountingAvailable = async (): Promise<boolean> =>
+  (await Pedometer.isAvailableAsync().catch(() => false)) || isPhoneAccelerometerAvailable();
+
+/**
+ * Follow how fast the phone is moving, if location is already allowed.
+ * Nothing is asked for: this runs whenever the app is open.
+ */
+export const watchPhoneSpeed = async (listener: (speed: number, at: number) => void): Promise<(() => void) | null> => {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+    const subscription = await Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.Balanced, distanceInterval: SPEED_DISTANCE_INTERVAL_M },
+      ({ coords, timestamp }) => {
+        if (coords.speed !== null && coords.speed >= 0) listener(coords.speed, timestamp);
+      }
+    );
+    return () => subscription.remove();
+  } catch (error) {
+    console.error('Error watching speed:', error);
+    return null;
+  }
+};
+
+/**
+ * Store one minute of phone steps with the watch history, so the history
+ * views show them too.
+ */
+export const recordPhoneSteps = async (minute: Date, steps: number): Promise<boolean> => {
+  if (steps <= 0) return false;
+  try {
+    const added = await mergeHistory([
+      { deviceId: PHONE_SOURCE, kind: 'steps', timestamp: minute.toISOString(), durationSec: 60, value: steps },
+    ]);
+    return added > 0;
+  } catch (error) {
+    console.error('Error saving phone steps:', error);
+    return false;
+  }
+};
+
+export const getTodayPhoneSteps = async (now = new Date()): Promise<number> => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  return (await getHistory('steps'))
+    .filter(sample => sample.deviceId === PHONE_SOURCE && new Date(sample.timestamp).getTime() >= today)
+    .reduce((total, sample) => total + sample.value, 0);
+};
+
+/**
+ * Steps, distance and activity from the phone, in the shape a watch reports
+ * them, so screens can show either.
+ */
+export const toWatchReading = (steps: number, activityType: PhoneActivityType): Partial<WatchData> => ({
+  steps,
+  distance: stepsToDistance(steps),
+  activityType,
+  lastUpdated: new Date().toISOString(),
+});
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters
+const distanceBetween = (a: WalkPoint, b: WalkPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+export const routeDistance = (route: WalkPoint[]): number =>
+  Math.round(route.slice(1).reduce((total, point, index) => total + distanceBetween(route[index], point), 0));
+
+/**
+ * Record the route of a walk. Location is asked for here, since the senior
+ * has just tapped Start Walk. Resolves to a function that stops recording,
+ * or null if location is not allowed; the walk is then timed without a route.
+ */
+export const watchWalkRoute = async (listener: (point: WalkPoint) => void): Promise<(() => void) | null> => {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') return null;
+    const subscription = await Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.High, distanceInterval: ROUTE_DISTANCE_INTERVAL_M },
+      ({ coords, timestamp }) =>
+        listener({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          timestamp: new Date(timestamp).toISOString(),
+          ...(coords.altitude !== null && { altitude: coords.altitude }),
+          ...(coords.speed !== null && coords.speed >= 0 && { speed: coords.speed }),
+        })
+    );
+    return () => subscription.remove();
+  } catch (error) {
+    console.error('Error recording walk route:', error);
+    return null;
+  }
+};
+
+/**
+ * Close a walk: its duration, and its distance from the route if one was
+ * recorded, else from the steps.
+ */
+export const finishWalk = (walk: WalkSession, end = new Date()): WalkSession => {
+  const route = walk.gpsData || [];
+  return {
+    ...walk,
+    endTime: end.toISOString(),
+    duration: Math.round((end.getTime() - new Date(walk.startTime).getTime()) / 1000),
+    distance: route.length > 1 ? routeDistance(route) : stepsToDistance(walk.steps),
+  };
+};
+
+export const saveWalk = async (walk: WalkSession): Promise<void> => {
+  try {
+    const walks = (await readStore('walkSessions')).filter(saved => saved.id !== walk.id);
+    await writeStore('walkSessions', [...walks, walk].slice(-MAX_WALKS));
+  } catch (error) {
+    console.error('Error saving walk:', error);
+  }
+};
+
+export const getWalks = async (): Promise<WalkSession[]> => readStore('walkSessions');
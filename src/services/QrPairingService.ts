@@ -0,0 +1,100 @@
+import { ShareCode } from './LinkRequestService';
+import { findUsableShareCode, isValidShareCodeFormat } from './ShareCodeService';
+import { hmacSha256, safeEqual } from '../utils/hmac';
+
+// Signed with the key the link backend keeps alongside the share code, so a
+// scanner can check that the code was made for this share code and senior
+const QR_PAYLOAD_VERSION = 1;
+
+export interface PairingPayload {
+  seniorId: string;
+  shareCode: string;
+  expiresAt: string;
+  signature: string;
+}
+
+export type PairingParseResult =
+  | { ok: true; payload: PairingPayload }
+  | { ok: false; reason: 'invalid' | 'unverified' | 'expired' };
+
+const signedText = ({ seniorId, shareCode, expiresAt }: Omit<PairingPayload, 'signature'>) =>
+  [QR_PAYLOAD_VERSION, seniorId, shareCode, expiresAt].join('|');
+
+/**
+ * Build the string encoded in the senior's QR code. Throws for a share code
+ * issued without a signing key.
+ */
+export const createPairingPayload = async (shareCode: ShareCode): Promise<string> => {
+  if (!shareCode.signingKey) {
+    throw new Error('Share code has no signing key');
+  }
+  const fields = { seniorId: shareCode.seniorId, shareCode: shareCode.code, expiresAt: shareCode.expiresAt };
+  return JSON.stringify({
+    v: QR_PAYLOAD_VERSION,
+    sid: fields.seniorId,
+    code: fields.shareCode,
+    exp: fields.expiresAt,
+    sig: await hmacSha256(shareCode.signingKey, signedText(fields)),
+  });
+};
+
+const readPayload = (data: unknown): PairingPayload | null => {
+  if (typeof data !== 'object' || data === null) return null;
+  const { v, sid, code, exp, sig } = data as Record<string, unknown>;
+  if (
+    v !== QR_PAYLOAD_VERSION ||
+    typeof sid !== 'string' ||
+    typeof code !== 'string' ||
+    typeof exp !== 'string' ||
+    typeof sig !== 'string' ||
+    !isValidShareCodeFormat(code)
+  ) {
+    return null;
+  }
+  return { seniorId: sid, shareCode: code, expiresAt: exp, signature: sig };
+};
+
+/**
+ * Decode a scanned QR string, rejecting anything that is not a CareTrek
+ * pairing code or has expired. Says nothing about who made it; use
+ * verifyPairingPayload before trusting it.
+ */
+export const parsePairingPayload = (raw: string): PairingParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const payload = readPayload(data);
+  if (!payload) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const expiresAt = new Date(payload.expiresAt).getTime();
+  if (isNaN(expiresAt) || expiresAt <= Date.now()) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  return { ok: true, payload };
+};
+
+/**
+ * Parse a scanned QR string and check its signature with the key the link
+ * backend holds for its share code. Fails when the backend cannot be
+ * reached, does not know the code or the code belongs to another senior.
+ */
+export const verifyPairingPayload = async (raw: string): Promise<PairingParseResult> => {
+  const result = parsePairingPayload(raw);
+  if (!result.ok) return result;
+
+  const { payload } = result;
+  const shareCode = await findUsableShareCode(payload.shareCode);
+  if (!shareCode?.signingKey || shareCode.seniorId !== payload.seniorId) {
+    return { ok: false, reason: 'unverified' };
+  }
+
+  const expected = await hmacSha256(shareCode.signingKey, signedText(payload));
+  return safeEqual(expected, payload.signature) ? result : { ok: false, reason: 'unverified' };
+};
@@ -0,0 +1,15 @@
+import { readStore } from './StorageService';
+import { saveSyncedCollection } from './SyncService';
+import { SeniorAlert } from '../types/alerts';
+
+// Older alerts are dropped from the device, and so from sync
+const MAX_ALERTS = 50;
+
+/**
+ * Save an alert for the family. It goes out with the next sync, so it still
+ * arrives if the phone is offline now. Saving the same id again replaces it.
+ */
+export const saveSeniorAlert = async (alert: SeniorAlert): Promise<void> => {
+  const existing = (await readStore('seniorAlerts')).filter(saved => saved.id !== alert.id);
+  await saveSyncedCollection('alerts', [...existing, alert].slice(-MAX_ALERTS));
+};
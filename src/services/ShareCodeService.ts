@@ -0,0 +1,182 @@
+import { getRandomBytes } from 'expo-crypto';
+import { getLinkBackend, ShareCode, ShareCodeMode } from './LinkRequestService';
+
+// Manual regenerate is limited to once a day (see APP_FLOW.md §2.2)
+export const SHARE_CODE_REGENERATE_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+// No 0/O or 1/I so codes survive being read aloud over the phone
+const SHARE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface ShareCodeOptions {
+  length: number;
+  ttlMs: number;
+  mode: ShareCodeMode;
+}
+
+export const DEFAULT_SHARE_CODE_OPTIONS: ShareCodeOptions = {
+  length: 6,
+  ttlMs: 24 * 60 * 60 * 1000,
+  mode: 'multi-use',
+};
+
+/**
+ * Check that a string has the shape of a share code before looking it up
+ */
+export const isValidShareCodeFormat = (
+  code: string,
+  length: number = DEFAULT_SHARE_CODE_OPTIONS.length
+): boolean => new RegExp(`^[A-Z0-9]{${length}}$`).test(code);
+
+const isUsable = (shareCode: ShareCode, now = Date.now()): boolean =>
+  !shareCode.revokedAt &&
+  new Date(shareCode.expiresAt).getTime() > now &&
+  !(shareCode.mode === 'single-use' && shareCode.uses > 0);
+
+// 32 letters divide 256 evenly, so taking each random byte modulo the length is unbiased
+const generateCode = (length: number): string =>
+  Array.from(getRandomBytes(length), byte => SHARE_CODE_ALPHABET[byte % SHARE_CODE_ALPHABET.length]).join('');
+
+const generateSigningKey = (): string =>
+  Array.from(getRandomBytes(32), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const issueShareCode = async (
+  seniorId: string,
+  options: ShareCodeOptions
+): Promise<ShareCode> => {
+  const backend = getLinkBackend();
+
+  // Avoid handing out a code that still belongs to someone else
+  let code = generateCode(options.length);
+  while (await backend.getShareCode(code)) {
+    code = generateCode(options.length);
+  }
+
+  const now = Date.now();
+  const shareCode: ShareCode = {
+    code,
+    seniorId,
+    mode: options.mode,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + options.ttlMs).toISOString(),
+    uses: 0,
+    signingKey: generateSigningKey(),
+  };
+  await backend.saveShareCode(shareCode);
+  return shareCode;
+};
+
+const revokeActiveCodes = async (seniorId: string): Promise<void> => {
+  const backend = getLinkBackend();
+  const codes = await backend.getShareCodesForSenior(seniorId);
+  const revokedAt = new Date().toISOString();
+  // One at a time: each save rewrites the stored list, so parallel saves drop each other's revocations
+  for (const code of codes.filter(c => !c.revokedAt)) {
+    await backend.saveShareCode({ ...code, revokedAt });
+  }
+};
+
+/**
+ * Current share code for a senior. A fresh code is issued when there is none
+ * or the previous one has expired, been used up or has no key to sign its QR
+ * code with; that does not count against the regenerate cooldown.
+ */
+export const getActiveShareCode = async (
+  seniorId: string,
+  options: Partial<ShareCodeOptions> = {}
+): Promise<ShareCode> => {
+  const backend = getLinkBackend();
+  const codes = await backend.getShareCodesForSenior(seniorId);
+  const active = codes
+    .filter(c => isUsable(c) && c.signingKey)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+  if (active) {
+    return active;
+  }
+
+  await revokeActiveCodes(seniorId);
+  return issueShareCode(seniorId, { ...DEFAULT_SHARE_CODE_OPTIONS, ...options });
+};
+
+/**
+ * Milliseconds until the senior may regenerate again, 0 when allowed now
+ */
+export const getRegenerateCooldownRemaining = async (seniorId: string): Promise<number> => {
+  const { shareCodeRegeneratedAt } = await getLinkBackend().getSettings(seniorId);
+  if (!shareCodeRegeneratedAt) return 0;
+
+  const elapsed = Date.now() - new Date(shareCodeRegeneratedAt).getTime();
+  return Math.max(0, SHARE_CODE_REGENERATE_COOLDOWN_MS - elapsed);
+};
+
+/**
+ * Revoke every code the senior has handed out and issue a new one.
+ * Throws while the 24h cooldown is still running.
+ */
+export const regenerateShareCode = async (
+  seniorId: string,
+  options: Partial<ShareCodeOptions> = {}
+): Promise<ShareCode> => {
+  const remaining = await getRegenerateCooldownRemaining(seniorId);
+  if (remaining > 0) {
+    const hours = Math.ceil(remaining / (60 * 60 * 1000));
+    throw new Error(`You can regenerate your code again in ${hours}h`);
+  }
+
+  await revokeActiveCodes(seniorId);
+  const shareCode = await issueShareCode(seniorId, { ...DEFAULT_SHARE_CODE_OPTIONS, ...options });
+
+  const backend = getLinkBackend();
+  const settings = await backend.getSettings(seniorId);
+  await backend.saveSettings(seniorId, {
+    ...settings,
+    shareCodeRegeneratedAt: shareCode.createdAt,
+  });
+
+  return shareCode;
+};
+
+/**
+ * Stop a code from resolving before it expires
+ */
+export const revokeShareCode = async (code: string): Promise<void> => {
+  const backend = getLinkBackend();
+  const shareCode = await backend.getShareCode(code);
+  if (shareCode && !shareCode.revokedAt) {
+    await backend.saveShareCode({ ...shareCode, revokedAt: new Date().toISOString() });
+  }
+};
+
+/**
+ * Look up a code without consuming it. Returns null for unknown, expired,
+ * revoked or used-up codes.
+ */
+export const findUsableShareCode = async (code: string): Promise<ShareCode | null> => {
+  try {
+    const shareCode = await getLinkBackend().getShareCode(code.toUpperCase());
+    return shareCode && isUsable(shareCode) ? shareCode : null;
+  } catch (error) {
+    console.error('Error resolving share code:', error);
+    return null;
+  }
+};
+
+/**
+ * Look up the senior a code belongs to without consuming it.
+ * Returns null for unknown, expired, revoked or used-up codes.
+ */
+export const resolveShareCode = async (code: string): Promise<string | null> =>
+  (await findUsableShareCode(code))?.seniorId ?? null;
+
+/**
+ * Resolve a code and count the use. Single-use codes stop resolving after
+ * this succeeds.
+ */
+export const redeemShareCode = async (code: string): Promise<string | null> => {
+  const backend = getLinkBackend();
+  const shareCode = await backend.getShareCode(code.toUpperCase());
+  if (!shareCode || !isUsable(shareCode)) return null;
+
+  await backend.saveShareCode({ ...shareCode, uses: shareCode.uses + 1 });
+  return shareCode.seniorId;
+};
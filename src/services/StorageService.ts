@@ -0,0 +1,467 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SeniorData } from '../utils/seniorStorage';
+import type { FamilyMember } from '../utils/idManager';
+import type { LinkRequest, LinkSettings, PinRecoveryRequest, ShareCode } from './LinkRequestService';
+import type { LanguageCode } from './TranslationService';
+import type { OtpAttempts } from './OtpService';
+import type { DoseEvent, StoredReminder } from '../types/reminders';
+import type { LocationPoint, SafeZone } from '../types/location';
+import type { SyncDocument } from './SyncService';
+import type { AuthUser } from './AuthBackend';
+import type { UserProfile } from '../types/roles';
+import { DEFAULT_SOS_CONTACTS, SOSContact } from '../types/sos';
+import type { SeniorAlert } from '../types/alerts';
+import type { WalkSession } from '../types/activity';
+import type { ManualReading, SeriesTable, VitalLimitRecord, VitalPoint } from '../types/vitals';
+import { AppLockSettings, DEFAULT_APP_LOCK_SETTINGS } from '../types/appLock';
+import { ALL_PERMISSION_SCOPES } from '../types/permissions';
+import {
+  ConnectionEvent,
+  HistorySample,
+  MetricSourcePriority,
+  PairedWearable,
+  WearableSample,
+} from '../types/wearables';
+
+/**
+ * Values are written as `{ v, data }` so the reader knows which schema they
+ * were saved with. Anything without that wrapper predates this module and is
+ * treated as version 0.
+ */
+interface StoredEnvelope<T> {
+  v: number;
+  data: T;
+}
+
+type Migration = (data: any) => any;
+
+interface StoreDefinition<T> {
+  key: string;
+  version: number;
+  defaultValue: T;
+  // migrations[n] upgrades data saved at version n - 1 to version n
+  migrations?: Record<number, Migration>;
+  // How to read a version 0 value; most were plain JSON, a few were raw strings
+  parseLegacy?: (raw: string) => unknown;
+}
+
+const defineStore = <T>(definition: StoreDefinition<T>): StoreDefinition<T> => definition;
+
+const rawString = (raw: string) => raw;
+
+/**
+ * Every AsyncStorage key the app uses. Keys are kept as they were so existing
+ * installs pick up their data; bump `version` and add a migration whenever the
+ * stored shape changes.
+ */
+export const STORES = {
+  seniors: defineStore<SeniorData[]>({
+    key: '@CareTrek:seniors',
+    version: 1,
+    defaultValue: [],
+  }),
+  seniorId: defineStore<string | null>({
+    key: '@CareTrek:seniorId',
+    version: 1,
+    defaultValue: null,
+    parseLegacy: rawString,
+  }),
+  seniorName: defineStore<string>({
+    key: '@CareTrek:seniorName',
+    version: 1,
+    defaultValue: '',
+    parseLegacy: rawString,
+  }),
+  familyId: defineStore<string | null>({
+    key: '@CareTrek:familyId',
+    version: 1,
+    defaultValue: null,
+    parseLegacy: rawString,
+  }),
+  familyMembers: defineStore<FamilyMember[]>({
+    key: '@CareTrek:familyMembers',
+    version: 1,
+    defaultValue: [],
+    migrations: {
+      // Members saved before permission scopes existed keep full access
+      1: (members: FamilyMember[]) =>
+        members.map(m => ({ ...m, scopes: m.scopes ?? ALL_PERMISSION_SCOPES })),
+    },
+  }),
+  linkRequests: defineStore<LinkRequest[]>({
+    key: '@CareTrek:linkRequests',
+    version: 1,
+    defaultValue: [],
+  }),
+  linkSettings: defineStore<Record<string, LinkSettings>>({
+    key: '@CareTrek:linkSettings',
+    version: 1,
+    defaultValue: {},
+  }),
+  shareCodes: defineStore<ShareCode[]>({
+    key: '@CareTrek:shareCodes',
+    version: 1,
+    defaultValue: [],
+  }),
+  pinRecoveries: defineStore<PinRecoveryRequest[]>({
+    key: '@CareTrek:pinRecoveries',
+    version: 1,
+    defaultValue: [],
+  }),
+  // The PIN itself is hashed into SecureStore, see AppLockService
+  appLockSettings: defineStore<AppLockSettings>({
+    key: '@CareTrek:appLockSettings',
+    version: 1,
+    defaultValue: DEFAULT_APP_LOCK_SETTINGS,
+  }),
+  reminders: defineStore<StoredReminder[]>({
+    key: '@CareTrek/reminders',
+    version: 1,
+    defaultValue: [],
+    migrations: {
+      // Early builds could save reminders without a date
+      1: (reminders: StoredReminder[]) =>
+        reminders.map(r => ({ ...r, date: r.date || new Date().toISOString() })),
+    },
+  }),
+  // Doses marked taken or skipped, see MedicationAdherence; synced as 'doses'
+  doseLog: defineStore<DoseEvent[]>({
+    key: '@CareTrek:doseLog',
+    version: 1,
+    defaultValue: [],
+  }),
+  mapFavorites: defineStore<LocationPoint[]>({
+    key: '@map_favorites_v1',
+    version: 1,
+    defaultValue: [],
+  }),
+  mapSafeZones: defineStore<SafeZone[]>({
+    key: '@map_safezones_v1',
+    version: 1,
+    defaultValue: [],
+  }),
+  mapHistory: defineStore<LocationPoint[]>({
+    key: '@map_history_v1',
+    version: 1,
+    defaultValue: [],
+  }),
+  mapHome: defineStore<LocationPoint | null>({
+    key: '@map_home_v1',
+    version: 1,
+    defaultValue: null,
+  }),
+  sosContacts: defineStore<SOSContact[]>({
+    key: '@CareTrek:sosContacts',
+    version: 1,
+    defaultValue: DEFAULT_SOS_CONTACTS,
+  }),
+  // Alerts raised on this device for the family, e.g. a detected fall; synced as 'alerts'
+  seniorAlerts: defineStore<SeniorAlert[]>({
+    key: '@CareTrek:seniorAlerts',
+    version: 1,
+    defaultValue: [],
+  }),
+  // Devices to reconnect to on launch, see PairedWearables
+  pairedWearables: defineStore<PairedWearable[]>({
+    key: '@CareTrek:pairedWearables',
+    version: 1,
+    defaultValue: [],
+  }),
+  wearableConnectionLog: defineStore<ConnectionEvent[]>({
+    key: '@CareTrek:wearableConnectionLog',
+    version: 1,
+    defaultValue: [],
+  }),
+  // Wearable background sync, see WearableSync
+  wearableSamples: defineStore<WearableSample[]>({
+    key: '@CareTrek:wearableSamples',
+    version: 1,
+    defaultValue: [],
+  }),
+  // When each kind of wearable alert last went out, so a battery that stays low does not notify every sync
+  wearableAlertTimes: defineStore<Record<string, number>>({
+    key: '@CareTrek:wearableAlertTimes',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Samples downloaded from watch memory, one shard per UTC day, see HistorySync.
+  // Older installs kept them all unsharded under the bare key.
+  wearableHistory: defineStore<HistorySample[]>({
+    key: '@CareTrek:wearableHistory',
+    version: 1,
+    defaultValue: [],
+  }),
+  // Per device, where the next history download starts; saved after every page so an interrupted download resumes
+  wearableHistoryCursors: defineStore<Record<string, string>>({
+    key: '@CareTrek:wearableHistoryCursors',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Which device to believe first for each metric when several report it, see DeviceRegistry
+  metricSourcePriority: defineStore<MetricSourcePriority>({
+    key: '@CareTrek:metricSourcePriority',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Walks recorded with the Start Walk button, see PhoneActivity
+  walkSessions: defineStore<WalkSession[]>({
+    key: '@CareTrek:walkSessions',
+    version: 1,
+    defaultValue: [],
+  }),
+  // Vitals rolled up by minute, hour and day, see HealthTimeSeries; recent
+  // hours and days are synced as 'vitalSeries'
+  healthSeriesMinute: defineStore<SeriesTable>({
+    key: '@CareTrek:healthSeries:minute',
+    version: 1,
+    defaultValue: {},
+  }),
+  healthSeriesHour: defineStore<SeriesTable>({
+    key: '@CareTrek:healthSeries:hour',
+    version: 1,
+    defaultValue: {},
+  }),
+  healthSeriesDay: defineStore<SeriesTable>({
+    key: '@CareTrek:healthSeries:day',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Set once the samples saved before the time series existed have been rolled into it
+  healthSeriesImported: defineStore<boolean>({
+    key: '@CareTrek:healthSeries:imported',
+    version: 1,
+    defaultValue: false,
+  }),
+  // Readings the senior entered by hand, see ManualVitals
+  manualVitals: defineStore<ManualReading[]>({
+    key: '@CareTrek:manualVitals',
+    version: 1,
+    defaultValue: [],
+  }),
+  // Readings imported from a FHIR Bundle, see HealthDataTransfer
+  importedVitals: defineStore<VitalPoint[]>({
+    key: '@CareTrek:importedVitals',
+    version: 1,
+    defaultValue: [],
+  }),
+  // Limits a clinician set for this senior, see VitalRules; synced as 'vitalLimits'
+  vitalLimits: defineStore<VitalLimitRecord[]>({
+    key: '@CareTrek:vitalLimits',
+    version: 1,
+    defaultValue: [],
+  }),
+  // When each vital rule last raised an alert, so a reading that stays out of range does not alert every check
+  vitalAlertTimes: defineStore<Record<string, number>>({
+    key: '@CareTrek:vitalAlertTimes',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Sync engine bookkeeping, see SyncService
+  syncDocuments: defineStore<Record<string, SyncDocument>>({
+    key: '@CareTrek:sync:documents',
+    version: 1,
+    defaultValue: {},
+  }),
+  syncOutbox: defineStore<string[]>({
+    key: '@CareTrek:sync:outbox',
+    version: 1,
+    defaultValue: [],
+  }),
+  syncCursors: defineStore<Record<string, number>>({
+    key: '@CareTrek:sync:cursors',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Role profiles by account, so the right navigator opens before the network answers
+  userProfiles: defineStore<Record<string, UserProfile>>({
+    key: '@CareTrek:userProfiles',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Phone numbers locked out after too many wrong codes, with the time the lockout ends
+  otpLockouts: defineStore<Record<string, number>>({
+    key: '@CareTrek:otpLockouts',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Wrong codes and codes sent per phone number, so leaving the screen resets neither
+  otpAttempts: defineStore<Record<string, OtpAttempts>>({
+    key: '@CareTrek:otpAttempts',
+    version: 1,
+    defaultValue: {},
+  }),
+  // Address an email sign-in link was sent to, needed again when the link is opened
+  pendingEmailLink: defineStore<string | null>({
+    key: '@CareTrek:pendingEmailLink',
+    version: 1,
+    defaultValue: null,
+  }),
+  // Signed-in user of the mock auth backend, see AuthBackend
+  mockAuthSession: defineStore<AuthUser | null>({
+    key: '@CareTrek:mockAuthSession',
+    version: 1,
+    defaultValue: null,
+  }),
+  userLanguage: defineStore<LanguageCode | null>({
+    key: 'userLanguage',
+    version: 1,
+    defaultValue: null,
+    parseLegacy: rawString,
+  }),
+};
+
+export type StoreName = keyof typeof STORES;
+
+export type StoreValue<N extends StoreName> =
+  (typeof STORES)[N] extends StoreDefinition<infer T> ? T : never;
+
+// Unreadable values are moved here so they can be inspected instead of lost
+const CORRUPT_SUFFIX = ':corrupt';
+
+const isEnvelope = (value: unknown): value is StoredEnvelope<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as StoredEnvelope<unknown>).v === 'number' &&
+  'data' in value;
+
+const decode = <T>(definition: StoreDefinition<T>, raw: string): { version: number; data: any } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    if (!definition.parseLegacy) throw error;
+    return { version: 0, data: definition.parseLegacy(raw) };
+  }
+
+  if (isEnvelope(parsed)) {
+    return { version: parsed.v, data: parsed.data };
+  }
+  // A legacy raw string such as "123" can also be valid JSON
+  return { version: 0, data: definition.parseLegacy ? definition.parseLegacy(raw) : parsed };
+};
+
+const migrate = <T>(definition: StoreDefinition<T>, version: number, data: any): T => {
+  if (version > definition.version) {
+    throw new Error(
+      `${definition.key} was saved by a newer version of the app (v${version} > v${definition.version})`
+    );
+  }
+
+  let current = data;
+  for (let next = version + 1; next <= definition.version; next++) {
+    const step = definition.migrations?.[next];
+    if (step) {
+      current = step(current);
+    }
+  }
+  return current as T;
+};
+
+const quarantine = async (key: string, raw: string): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key + CORRUPT_SUFFIX, raw);
+    await AsyncStorage.removeItem(key);
+  } catch (error) {
+    console.error(`Error moving corrupt value for ${key}:`, error);
+  }
+};
+
+// A store can also be split into shards, e.g. one per day, each under its own
+// key, so no single value grows past what AsyncStorage can read back
+const storageKey = (name: StoreName, shard?: string) =>
+  shard === undefined ? STORES[name].key : `${STORES[name].key}:${shard}`;
+
+/**
+ * Write a value under the store's current schema version
+ */
+export const writeStore = async <N extends StoreName>(
+  name: N,
+  value: StoreValue<N>,
+  shard?: string
+): Promise<void> => {
+  const definition = STORES[name] as StoreDefinition<StoreValue<N>>;
+  const envelope: StoredEnvelope<StoreValue<N>> = { v: definition.version, data: value };
+  await AsyncStorage.setItem(storageKey(name, shard), JSON.stringify(envelope));
+};
+
+// `strict` rethrows a failed read instead of returning the default, for
+// callers about to write the value back
+const loadStore = async <N extends StoreName>(
+  name: N,
+  shard: string | undefined,
+  strict: boolean
+): Promise<StoreValue<N>> => {
+  const definition = STORES[name] as StoreDefinition<StoreValue<N>>;
+  const key = storageKey(name, shard);
+
+  let raw: string | null;
+  try {
+    raw = await AsyncStorage.getItem(key);
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error);
+    if (strict) throw error;
+    return definition.defaultValue;
+  }
+  if (raw === null) {
+    return definition.defaultValue;
+  }
+
+  let version: number;
+  let value: StoreValue<N>;
+  try {
+    const decoded = decode(definition, raw);
+    version = decoded.version;
+    value = migrate(definition, decoded.version, decoded.data);
+  } catch (error) {
+    console.error(`Discarding unreadable value for ${key}:`, error);
+    await quarantine(key, raw);
+    return definition.defaultValue;
+  }
+
+  // Save the upgraded shape so migrations only run once per install
+  if (version !== definition.version) {
+    try {
+      await writeStore(name, value, shard);
+    } catch (error) {
+      console.error(`Error saving migrated ${key}:`, error);
+    }
+  }
+
+  return value;
+};
+
+/**
+ * Read a value, upgrading it to the current schema if it was saved by an
+ * older build. Data that cannot be parsed or migrated is set aside and the
+ * store's default is returned, so one bad value never blocks a screen.
+ */
+export const readStore = <N extends StoreName>(name: N, shard?: string): Promise<StoreValue<N>> =>
+  loadStore(name, shard, false);
+
+/**
+ * Read, change and write back a value in one call. If the value cannot be
+ * read the error is thrown, rather than the default being written over it.
+ */
+export const updateStore = async <N extends StoreName>(
+  name: N,
+  update: (current: StoreValue<N>) => StoreValue<N>,
+  shard?: string
+): Promise<StoreValue<N>> => {
+  const next = update(await loadStore(name, shard, true));
+  await writeStore(name, next, shard);
+  return next;
+};
+
+export const clearStore = async (name: StoreName, shard?: string): Promise<void> => {
+  await AsyncStorage.removeItem(storageKey(name, shard));
+};
+
+/**
+ * Shards saved for a store, e.g. the days history was recorded on
+ */
+export const listShards = async (name: StoreName): Promise<string[]> => {
+  const prefix = `${STORES[name].key}:`;
+  return (await AsyncStorage.getAllKeys())
+    .filter(key => key.startsWith(prefix) && !key.endsWith(CORRUPT_SUFFIX))
+    .map(key => key.slice(prefix.length));
+};
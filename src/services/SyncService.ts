@@ -0,0 +1,506 @@
+import { readStore, StoreName, StoreValue, writeStore } from './StorageService';
+import { getLinkScopes } from './LinkRequestService';
+import { getOrCreateFamilyId, getOrCreateSeniorId } from '../utils/idManager';
+import type { SeniorData } from '../utils/seniorStorage';
+import type { DoseEvent, StoredReminder } from '../types/reminders';
+import type { SafeZone } from '../types/location';
+import type { SOSContact } from '../types/sos';
+import type { SeniorAlert } from '../types/alerts';
+import type { SeriesResolution, VitalLimitRecord, VitalMetric, VitalSeriesRecord } from '../types/vitals';
+import type { PermissionScope } from '../types/permissions';
+
+export type SyncCollection =
+  | 'seniors'
+  | 'reminders'
+  | 'doses'
+  | 'safeZones'
+  | 'sosContacts'
+  | 'alerts'
+  | 'vitalLimits'
+  | 'vitalSeries';
+
+/**
+ * `document`: the copy written last wins as a whole.
+ * `field`: each field keeps whichever side changed it last, so two devices
+ * editing different fields of the same record both keep their change.
+ */
+export type MergeStrategy = 'document' | 'field';
+
+interface SyncRecordTypes {
+  seniors: SeniorData;
+  reminders: StoredReminder;
+  doses: DoseEvent;
+  safeZones: SafeZone;
+  sosContacts: SOSContact;
+  alerts: SeniorAlert;
+  vitalLimits: VitalLimitRecord;
+  vitalSeries: VitalSeriesRecord;
+}
+
+export type SyncRecord<C extends SyncCollection> = SyncRecordTypes[C];
+
+interface CollectionConfig<C extends SyncCollection> {
+  // The store screens read this device's copy from
+  read: () => Promise<SyncRecord<C>[]>;
+  write: (records: SyncRecord<C>[]) => Promise<void>;
+  // Whose ID the records are filed under remotely
+  owner: 'senior' | 'family';
+  merge: MergeStrategy;
+  // What a linked family member needs to pull a senior's records; none means only the owner can
+  scope?: PermissionScope;
+}
+
+const syncedStore = <N extends StoreName>(store: N) => ({
+  read: () => readStore(store),
+  write: (records: StoreValue<N>) => writeStore(store, records),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back family phones get the senior's vitals: hours for today's
+// chart, days for the monthly chart and reports. Minutes stay on the phone.
+const SYNCED_SERIES: Array<{ resolution: SeriesResolution; store: 'healthSeriesHour' | 'healthSeriesDay'; days: number }> = [
+  { resolution: 'hour', store: 'healthSeriesHour', days: 2 },
+  { resolution: 'day', store: 'healthSeriesDay', days: 90 },
+];
+
+const vitalSeriesStore = {
+  read: async (): Promise<VitalSeriesRecord[]> => {
+    const records: VitalSeriesRecord[] = [];
+    for (const { resolution, store, days } of SYNCED_SERIES) {
+      const table = await readStore(store);
+      const since = Date.now() - days * DAY_MS;
+      (Object.keys(table) as VitalMetric[]).forEach(metric => {
+        const buckets = (table[metric] || []).filter(bucket => bucket.start >= since);
+        if (buckets.length) records.push({ id: `${resolution}:${metric}`, resolution, metric, buckets });
+      });
+    }
+    return records;
+  },
+  // Only the senior's phone records its series, and it keeps more than it
+  // syncs, so nothing is written back
+  write: async () => undefined,
+};
+
+export const SYNC_COLLECTIONS: { [C in SyncCollection]: CollectionConfig<C> } = {
+  seniors: { ...syncedStore('seniors'), owner: 'family', merge: 'document' },
+  reminders: { ...syncedStore('reminders'), owner: 'senior', merge: 'field', scope: 'reminders' },
+  doses: { ...syncedStore('doseLog'), owner: 'senior', merge: 'document', scope: 'reminders' },
+  safeZones: { ...syncedStore('mapSafeZones'), owner: 'senior', merge: 'field', scope: 'location' },
+  sosContacts: { ...syncedStore('sosContacts'), owner: 'senior', merge: 'field', scope: 'sos' },
+  alerts: { ...syncedStore('seniorAlerts'), owner: 'senior', merge: 'document', scope: 'sos' },
+  vitalLimits: { ...syncedStore('vitalLimits'), owner: 'senior', merge: 'field', scope: 'vitals' },
+  vitalSeries: { ...vitalSeriesStore, owner: 'senior', merge: 'document', scope: 'vitals' },
+};
+
+// Deletion is tracked like any other field so it can be merged the same way
+const DELETED_FIELD = '_deleted';
+
+export interface SyncDocument {
+  ownerId: string;
+  collection: SyncCollection;
+  id: string;
+  data: Record<string, unknown>;
+  // Last change time of each field, including DELETED_FIELD
+  fieldUpdatedAt: Record<string, number>;
+  updatedAt: number;
+  deleted: boolean;
+}
+
+/**
+ * Where synced documents are stored remotely. Firestore in the app, an
+ * in-memory fake in tests.
+ */
+export interface SyncRemote {
+  getDocument: (ownerId: string, collection: SyncCollection, id: string) => Promise<SyncDocument | null>;
+  putDocument: (document: SyncDocument) => Promise<void>;
+  // Documents whose updatedAt is later than `since`
+  getChangedSince: (ownerId: string, collection: SyncCollection, since: number) => Promise<SyncDocument[]>;
+}
+
+export const createInMemorySyncRemote = (): SyncRemote => {
+  const documents = new Map<string, SyncDocument>();
+
+  return {
+    getDocument: async (ownerId, collection, id) => {
+      const document = documents.get(documentKey(ownerId, collection, id));
+      return document ? structuredCopy(document) : null;
+    },
+    putDocument: async (document) => {
+      documents.set(
+        documentKey(document.ownerId, document.collection, document.id),
+        structuredCopy(document)
+      );
+    },
+    getChangedSince: async (ownerId, collection, since) =>
+      Array.from(documents.values())
+        .filter(d => d.ownerId === ownerId && d.collection === collection && d.updatedAt > since)
+        .map(structuredCopy),
+  };
+};
+
+let remote: SyncRemote | null = null;
+let inFlight: Promise<SyncResult> | null = null;
+
+// Tail of the queue every change to syncDocuments, syncOutbox, syncCursors and
+// the synced stores waits in. A sync run awaits the network between its steps,
+// so each step re-reads what it changes instead of holding a copy.
+let stateQueue: Promise<unknown> = Promise.resolve();
+
+const withSyncState = <T>(update: () => Promise<T>): Promise<T> => {
+  const run = stateQueue.then(update);
+  stateQueue = run.catch(() => {});
+  return run;
+};
+
+/**
+ * Set the remote used by syncNow. Until one is set, local writes are only
+ * queued.
+ */
+export const setSyncRemote = (next: SyncRemote | null): void => {
+  remote = next;
+};
+
+const structuredCopy = (document: SyncDocument): SyncDocument => JSON.parse(JSON.stringify(document));
+
+const documentKey = (ownerId: string, collection: SyncCollection, id: string) =>
+  `${ownerId}/${collection}/${id}`;
+
+const cursorKey = (ownerId: string, collection: SyncCollection) => `${ownerId}/${collection}`;
+
+const getOwnerId = (collection: SyncCollection): Promise<string> =>
+  SYNC_COLLECTIONS[collection].owner === 'senior' ? getOrCreateSeniorId() : getOrCreateFamilyId();
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Combine the local and remote copy of a document. Ties go to the remote copy
+ * so every device settles on the same result.
+ */
+export const mergeDocuments = (
+  local: SyncDocument,
+  incoming: SyncDocument,
+  strategy: MergeStrategy
+): SyncDocument => {
+  if (strategy === 'document') {
+    return local.updatedAt > incoming.updatedAt ? local : incoming;
+  }
+
+  const data: Record<string, unknown> = {};
+  const fieldUpdatedAt: Record<string, number> = {};
+  const fields = new Set([
+    ...Object.keys(local.fieldUpdatedAt),
+    ...Object.keys(incoming.fieldUpdatedAt),
+  ]);
+
+  fields.forEach(field => {
+    const localTime = local.fieldUpdatedAt[field] ?? -1;
+    const incomingTime = incoming.fieldUpdatedAt[field] ?? -1;
+    const winner = localTime > incomingTime ? local : incoming;
+    fieldUpdatedAt[field] = Math.max(localTime, incomingTime);
+    if (field !== DELETED_FIELD && field in winner.data) {
+      data[field] = winner.data[field];
+    }
+  });
+
+  const deleted =
+    (local.fieldUpdatedAt[DELETED_FIELD] ?? -1) > (incoming.fieldUpdatedAt[DELETED_FIELD] ?? -1)
+      ? local.deleted
+      : incoming.deleted;
+
+  return {
+    ...incoming,
+    data,
+    fieldUpdatedAt,
+    updatedAt: Math.max(local.updatedAt, incoming.updatedAt),
+    deleted,
+  };
+};
+
+// Record the difference between what the engine last saw and `records`
+const trackChanges = (
+  documents: Record<string, SyncDocument>,
+  ownerId: string,
+  collection: SyncCollection,
+  records: Array<{ id: string }>,
+  now: number
+): string[] => {
+  const changed: string[] = [];
+  const seen = new Set<string>();
+
+  records.forEach(record => {
+    const key = documentKey(ownerId, collection, record.id);
+    seen.add(key);
+    const previous = documents[key];
+    const data = record as unknown as Record<string, unknown>;
+    const fieldUpdatedAt = { ...previous?.fieldUpdatedAt };
+
+    let dirty = !previous || previous.deleted;
+    Object.keys({ ...previous?.data, ...data }).forEach(field => {
+      if (!previous || !sameValue(previous.data[field], data[field])) {
+        fieldUpdatedAt[field] = now;
+        dirty = true;
+      }
+    });
+    if (!dirty) return;
+
+    if (!previous || previous.deleted) {
+      fieldUpdatedAt[DELETED_FIELD] = now;
+    }
+    documents[key] = {
+      ownerId,
+      collection,
+      id: record.id,
+      data: { ...data },
+      fieldUpdatedAt,
+      updatedAt: now,
+      deleted: false,
+    };
+    changed.push(key);
+  });
+
+  Object.values(documents).forEach(document => {
+    const key = documentKey(document.ownerId, document.collection, document.id);
+    if (
+      document.ownerId !== ownerId ||
+      document.collection !== collection ||
+      document.deleted ||
+      seen.has(key)
+    ) {
+      return;
+    }
+    documents[key] = {
+      ...document,
+      fieldUpdatedAt: { ...document.fieldUpdatedAt, [DELETED_FIELD]: now },
+      updatedAt: now,
+      deleted: true,
+    };
+    changed.push(key);
+  });
+
+  return changed;
+};
+
+// Only call these from inside withSyncState
+const enqueue = async (keys: string[]): Promise<void> => {
+  if (keys.length === 0) return;
+  const outbox = await readStore('syncOutbox');
+  await writeStore('syncOutbox', Array.from(new Set([...outbox, ...keys])));
+};
+
+const dequeue = async (key: string): Promise<void> => {
+  const outbox = await readStore('syncOutbox');
+  await writeStore('syncOutbox', outbox.filter(k => k !== key));
+};
+
+const recordsFor = <C extends SyncCollection>(
+  documents: Record<string, SyncDocument>,
+  ownerId: string,
+  collection: C
+): SyncRecord<C>[] =>
+  Object.values(documents)
+    .filter(d => d.ownerId === ownerId && d.collection === collection && !d.deleted)
+    .map(d => d.data as unknown as SyncRecord<C>);
+
+// Reflect merged remote changes in the store screens read from
+const writeCollection = <C extends SyncCollection>(
+  documents: Record<string, SyncDocument>,
+  ownerId: string,
+  collection: C
+): Promise<void> => SYNC_COLLECTIONS[collection].write(recordsFor(documents, ownerId, collection));
+
+/**
+ * Save this device's copy of a collection and queue whatever changed for the
+ * next sync. Screens call this instead of writing the store directly.
+ */
+export const saveSyncedCollection = async <C extends SyncCollection>(
+  collection: C,
+  records: SyncRecord<C>[]
+): Promise<void> => {
+  await withSyncState(async () => {
+    await SYNC_COLLECTIONS[collection].write(records);
+
+    try {
+      const ownerId = await getOwnerId(collection);
+      const documents = await readStore('syncDocuments');
+      const changed = trackChanges(documents, ownerId, collection, records, Date.now());
+      if (changed.length > 0) {
+        await writeStore('syncDocuments', documents);
+        await enqueue(changed);
+      }
+    } catch (error) {
+      // The data itself is saved; it will be picked up again on the next sync
+      console.error(`Error queueing ${collection} for sync:`, error);
+    }
+  });
+
+  // A run already in flight may have read the outbox before this write
+  (inFlight ?? Promise.resolve()).then(() => syncNow()).catch(() => {});
+};
+
+/**
+ * Last synced copy of another owner's records, e.g. a senior's reminders on a
+ * family member's device. Call pullSyncedRecords first to refresh it.
+ */
+export const getSyncedRecords = async <C extends SyncCollection>(
+  ownerId: string,
+  collection: C
+): Promise<SyncRecord<C>[]> => recordsFor(await readStore('syncDocuments'), ownerId, collection);
+
+const pull = async (
+  activeRemote: SyncRemote,
+  ownerId: string,
+  collection: SyncCollection
+): Promise<number> => {
+  const key = cursorKey(ownerId, collection);
+  const since = (await readStore('syncCursors'))[key] ?? 0;
+  const changes = await activeRemote.getChangedSince(ownerId, collection, since);
+  if (changes.length === 0) return 0;
+  const { merge } = SYNC_COLLECTIONS[collection];
+
+  await withSyncState(async () => {
+    const documents = await readStore('syncDocuments');
+    const cursors = await readStore('syncCursors');
+    changes.forEach(incoming => {
+      const documentId = documentKey(ownerId, collection, incoming.id);
+      const local = documents[documentId];
+      documents[documentId] = local ? mergeDocuments(local, incoming, merge) : incoming;
+    });
+
+    // Remote timestamps come from device clocks, so a badly skewed clock can
+    // hide a change until that record is written again. A pull that finished
+    // first may already have moved the cursor further.
+    cursors[key] = changes.reduce((latest, d) => Math.max(latest, d.updatedAt), cursors[key] ?? since);
+
+    await writeStore('syncDocuments', documents);
+    await writeStore('syncCursors', cursors);
+    if (ownerId === (await getOwnerId(collection))) {
+      await writeCollection(documents, ownerId, collection);
+    }
+  });
+  return changes.length;
+};
+
+// Another owner's records come through only the scopes on the link with them;
+// firestore.rules holds the remote to the same
+const canPull = async (ownerId: string, collection: SyncCollection): Promise<boolean> => {
+  if (ownerId === (await getOwnerId(collection))) return true;
+  const { scope } = SYNC_COLLECTIONS[collection];
+  return !!scope && (await getLinkScopes(ownerId, await getOrCreateFamilyId())).includes(scope);
+};
+
+/**
+ * Fetch an owner's latest records from the remote. Pulls for different
+ * owners can run side by side. Nothing comes back for a collection the link
+ * with that owner does not cover.
+ */
+export const pullSyncedRecords = async <C extends SyncCollection>(
+  ownerId: string,
+  collection: C
+): Promise<SyncRecord<C>[]> => {
+  if (!(await canPull(ownerId, collection))) return [];
+
+  if (remote) {
+    try {
+      await pull(remote, ownerId, collection);
+    } catch (error) {
+      console.error(`Error pulling ${collection}:`, error);
+    }
+  }
+  return getSyncedRecords(ownerId, collection);
+};
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  // Writes still waiting, e.g. because the device went offline mid-sync
+  pending: number;
+}
+
+// Send one queued document, keeping any write made to it while it was in flight
+const push = async (activeRemote: SyncRemote, key: string): Promise<boolean> => {
+  const local = (await readStore('syncDocuments'))[key];
+  if (!local) {
+    await withSyncState(() => dequeue(key));
+    return false;
+  }
+
+  const { merge } = SYNC_COLLECTIONS[local.collection];
+  const current = await activeRemote.getDocument(local.ownerId, local.collection, local.id);
+  const merged = current ? mergeDocuments(local, current, merge) : local;
+  await activeRemote.putDocument(merged);
+
+  await withSyncState(async () => {
+    const documents = await readStore('syncDocuments');
+    const latest = documents[key];
+    // A newer local write stays queued and goes out with the next round
+    const changedMeanwhile = !!latest && !sameValue(latest, local);
+    documents[key] = changedMeanwhile ? mergeDocuments(latest, merged, merge) : merged;
+    await writeStore('syncDocuments', documents);
+    if (!changedMeanwhile) {
+      await dequeue(key);
+    }
+    if (!latest || !sameValue(documents[key].data, latest.data) || documents[key].deleted !== latest.deleted) {
+      await writeCollection(documents, local.ownerId, local.collection);
+    }
+  });
+  return true;
+};
+
+const runSync = async (activeRemote: SyncRemote): Promise<SyncResult> => {
+  const collections = Object.keys(SYNC_COLLECTIONS) as SyncCollection[];
+  const owners = {} as Record<SyncCollection, string>;
+  for (const collection of collections) {
+    owners[collection] = await getOwnerId(collection);
+  }
+
+  // Pick up anything written before the engine existed or outside saveSyncedCollection
+  const outbox = await withSyncState(async () => {
+    const documents = await readStore('syncDocuments');
+    const now = Date.now();
+    const untracked: string[] = [];
+    for (const collection of collections) {
+      const records = await SYNC_COLLECTIONS[collection].read();
+      untracked.push(...trackChanges(documents, owners[collection], collection, records, now));
+    }
+    if (untracked.length > 0) {
+      await writeStore('syncDocuments', documents);
+      await enqueue(untracked);
+    }
+    return readStore('syncOutbox');
+  });
+
+  let pushed = 0;
+  let pulled = 0;
+  try {
+    for (const key of outbox) {
+      if (await push(activeRemote, key)) pushed++;
+    }
+    for (const collection of collections) {
+      pulled += await pull(activeRemote, owners[collection], collection);
+    }
+  } catch (error) {
+    // Most likely offline; whatever is left in the outbox goes out next time
+    console.warn('Sync interrupted:', error);
+  }
+
+  const pending = (await readStore('syncOutbox')).length;
+  return { pushed, pulled, pending };
+};
+
+/**
+ * Push queued local writes, then pull remote changes for this device's
+ * collections. Concurrent calls share the same run.
+ */
+export const syncNow = async (): Promise<SyncResult> => {
+  if (!remote) {
+    const outbox = await readStore('syncOutbox');
+    return { pushed: 0, pulled: 0, pending: outbox.length };
+  }
+  if (!inFlight) {
+    inFlight = runSync(remote).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+};
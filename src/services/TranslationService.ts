@@ -1,4 +1,4 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readStore, writeStore } from './StorageService';
 import { ENV } from '../config/env';
 
 export type LanguageCode = 'en' | 'hi' | 'bn' | 'te' | 'mr' | 'ta' | 'gu' | 'kn' | 'ml' | 'pa';
@@ -114,7 +114,7 @@ export const translateText = async (
  */
 export const saveLanguagePreference = async (lang: LanguageCode): Promise<void> => {
   try {
-    await AsyncStorage.setItem('userLanguage', lang);
+    await writeStore('userLanguage', lang);
   } catch (error) {
     console.error('Error saving language preference:', error);
   }
@@ -125,7 +125,7 @@ export const saveLanguagePreference = async (lang: LanguageCode): Promise<void>
  */
 export const loadLanguagePreference = async (): Promise<LanguageCode> => {
   try {
-    const savedLang = await AsyncStorage.getItem('userLanguage') as LanguageCode | null;
+    const savedLang = await readStore('userLanguage');
     return savedLang || 'en';
   } catch (error) {
     console.error('Error loading language preference:', error);
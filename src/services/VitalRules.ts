@@ -0,0 +1,313 @@
+import { readStore, writeStore } from './StorageService';
+import { saveSyncedCollection } from './SyncService';
+import { saveSeniorAlert } from './SeniorAlerts';
+import { showLocalAlerts } from './LocalAlerts';
+import { SeniorAlert } from '../types/alerts';
+import {
+  DEFAULT_VITAL_LIMITS,
+  SeriesBucket,
+  SeriesTable,
+  VitalBaselines,
+  VitalChangeRule,
+  VitalLevelRule,
+  VitalLimit,
+  VitalLimitRecord,
+  VitalLimitSource,
+  VitalMetric,
+  VitalRule,
+  VitalRuleMatch,
+} from '../types/vitals';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Baselines are learned from this much hourly history, and only once there is enough of it
+const BASELINE_WINDOW_MS = 14 * DAY_MS;
+const MIN_BASELINE_HOURS = 72;
+// A senior whose usual readings sit past a default limit gets this many
+// standard deviations of room instead, so a COPD patient at 89% SpO₂ is not
+// alerted all day; never past the hard limits below
+const BASELINE_SDS = 3;
+const HARD_LIMITS: Partial<Record<VitalMetric, Required<Pick<VitalLimit, 'low' | 'high'>>>> = {
+  heartRate: { low: 35, high: 150 },
+  oxygenSaturation: { low: 85, high: 100 },
+  temperature: { low: 34, high: 39 },
+  systolic: { low: 80, high: 180 },
+  diastolic: { low: 40, high: 110 },
+  glucose: { low: 54, high: 400 },
+};
+
+// Changes too fast to be normal, whatever the level. A heart rate rise while
+// the senior is walking is left alone.
+const CHANGE_RULES: VitalRule[] = [
+  { id: 'heartRate-rise', metric: 'heartRate', kind: 'rise', amount: 30, withinMs: 10 * MINUTE_MS, unlessActive: true },
+  { id: 'heartRate-fall', metric: 'heartRate', kind: 'fall', amount: 30, withinMs: 10 * MINUTE_MS },
+  { id: 'oxygenSaturation-fall', metric: 'oxygenSaturation', kind: 'fall', amount: 4, withinMs: 15 * MINUTE_MS },
+  { id: 'temperature-rise', metric: 'temperature', kind: 'rise', amount: 1, withinMs: 2 * HOUR_MS },
+];
+
+// A sustained condition is broken by a gap longer than this between readings
+const MAX_GAP_MS = 3 * MINUTE_MS;
+// Nothing is checked against readings older than this
+const STALE_MS = 10 * MINUTE_MS;
+// The same rule does not alert again within this window
+const ALERT_COOLDOWN_MS = 30 * MINUTE_MS;
+
+export const VITAL_NAMES: Partial<Record<VitalMetric, { name: string; unit: string }>> = {
+  heartRate: { name: 'Heart rate', unit: 'bpm' },
+  oxygenSaturation: { name: 'Blood oxygen', unit: '%' },
+  temperature: { name: 'Temperature', unit: '°C' },
+  systolic: { name: 'Systolic blood pressure', unit: 'mmHg' },
+  diastolic: { name: 'Diastolic blood pressure', unit: 'mmHg' },
+  glucose: { name: 'Blood sugar', unit: 'mg/dL' },
+  weight: { name: 'Weight', unit: 'kg' },
+  steps: { name: 'Steps', unit: 'steps' },
+  sleep: { name: 'Sleep', unit: 'min' },
+};
+
+const SOURCE_NOTES: Record<VitalLimitSource, string> = {
+  clinician: 'Limit set by their clinician.',
+  baseline: 'Limit adjusted to their usual readings.',
+  default: 'Standard limit; a clinician can set one for them.',
+};
+
+export type VitalStatus = 'normal' | 'warning';
+
+/**
+ * What each metric usually is for this senior: the mean and spread of their
+ * hourly averages over the last two weeks. Metrics without enough history
+ * are left out.
+ */
+export const learnBaselines = (hourly: SeriesTable, now = Date.now()): VitalBaselines =>
+  (Object.keys(hourly) as VitalMetric[]).reduce<VitalBaselines>((baselines, metric) => {
+    const averages = (hourly[metric] || [])
+      .filter(bucket => bucket.start >= now - BASELINE_WINDOW_MS)
+      .map(bucket => bucket.sum / bucket.count);
+    if (averages.length < MIN_BASELINE_HOURS) return baselines;
+    const mean = averages.reduce((sum, value) => sum + value, 0) / averages.length;
+    const variance = averages.reduce((sum, value) => sum + (value - mean) ** 2, 0) / averages.length;
+    return { ...baselines, [metric]: { mean, sd: Math.sqrt(variance), hours: averages.length } };
+  }, {});
+
+/**
+ * The limits each metric is checked against: a clinician's where set,
+ * otherwise the defaults, widened for a senior whose usual readings lie
+ * beyond them.
+ */
+export const effectiveLimits = (
+  clinician: VitalLimitRecord[],
+  baselines: VitalBaselines = {}
+): Partial<Record<VitalMetric, VitalLimit & { source: VitalLimitSource }>> => {
+  const limits: Partial<Record<VitalMetric, VitalLimit & { source: VitalLimitSource }>> = {};
+  (Object.keys(DEFAULT_VITAL_LIMITS) as VitalMetric[]).forEach(metric => {
+    const defaults = DEFAULT_VITAL_LIMITS[metric] || {};
+    const set = clinician.find(record => record.id === metric);
+    if (set) {
+      limits[metric] = { low: set.low, high: set.high, forMinutes: set.forMinutes ?? defaults.forMinutes, source: 'clinician' };
+      return;
+    }
+
+    const baseline = baselines[metric];
+    const hard = HARD_LIMITS[metric];
+    if (!baseline || !hard) {
+      limits[metric] = { ...defaults, source: 'default' };
+      return;
+    }
+    const usualLow = baseline.mean - BASELINE_SDS * baseline.sd;
+    const usualHigh = baseline.mean + BASELINE_SDS * baseline.sd;
+    const low = defaults.low !== undefined ? Math.max(hard.low, Math.min(defaults.low, usualLow)) : undefined;
+    const high = defaults.high !== undefined ? Math.min(hard.high, Math.max(defaults.high, usualHigh)) : undefined;
+    const widened = low !== defaults.low || high !== defaults.high;
+    limits[metric] = {
+      low: low !== undefined ? Math.round(low) : undefined,
+      high: high !== undefined ? Math.round(high * 10) / 10 : undefined,
+      forMinutes: defaults.forMinutes,
+      source: widened ? 'baseline' : 'default',
+    };
+  });
+  return limits;
+};
+
+/**
+ * Every rule a senior's readings are checked against: their limits, and
+ * changes too fast to be normal.
+ */
+export const buildVitalRules = (clinician: VitalLimitRecord[], baselines: VitalBaselines = {}): VitalRule[] => {
+  const limits = effectiveLimits(clinician, baselines);
+  const levelRules = (Object.keys(limits) as VitalMetric[]).flatMap(metric => {
+    const { low, high, forMinutes = 0, source } = limits[metric]!;
+    const forMs = forMinutes * MINUTE_MS;
+    const rules: VitalRule[] = [];
+    if (high !== undefined) rules.push({ id: `${metric}-above`, metric, kind: 'above', value: high, forMs, source });
+    if (low !== undefined) rules.push({ id: `${metric}-below`, metric, kind: 'below', value: low, forMs, source });
+    return rules;
+  });
+  return [...levelRules, ...CHANGE_RULES];
+};
+
+const isChangeRule = (rule: VitalRule): rule is VitalChangeRule => rule.kind === 'rise' || rule.kind === 'fall';
+
+const average = (bucket: SeriesBucket) => bucket.sum / bucket.count;
+
+// The value that tripped a level rule, or null if it does not hold
+const matchLevel = (rule: VitalLevelRule, buckets: SeriesBucket[]): number | null => {
+  const latest = buckets[buckets.length - 1];
+  const instant = rule.forMs === 0;
+  const breaches = (bucket: SeriesBucket) => {
+    if (rule.kind === 'above') return (instant ? bucket.max : bucket.min) > rule.value;
+    return (instant ? bucket.min : bucket.max) < rule.value;
+  };
+  if (!breaches(latest)) return null;
+  if (instant) return rule.kind === 'above' ? latest.max : latest.min;
+
+  let runStart = latest.start;
+  for (let index = buckets.length - 2; index >= 0; index--) {
+    const bucket = buckets[index];
+    if (runStart - bucket.start > MAX_GAP_MS || !breaches(bucket)) break;
+    runStart = bucket.start;
+  }
+  return latest.start + MINUTE_MS - runStart >= rule.forMs ? average(latest) : null;
+};
+
+// The value that tripped a change rule, or null if it does not hold
+const matchChange = (rule: VitalChangeRule, buckets: SeriesBucket[], steps: SeriesBucket[]): number | null => {
+  const latest = buckets[buckets.length - 1];
+  const from = latest.start - rule.withinMs;
+  const before = buckets.filter(bucket => bucket.start < latest.start && bucket.start >= from).map(average);
+  if (!before.length) return null;
+  const change = rule.kind === 'rise' ? average(latest) - Math.min(...before) : Math.max(...before) - average(latest);
+  if (change < rule.amount) return null;
+  if (rule.unlessActive && steps.some(bucket => bucket.start >= from && bucket.start <= latest.start && bucket.sum > 0)) {
+    return null;
+  }
+  return average(latest);
+};
+
+/**
+ * Check rules against the minute buckets of the time series. A sustained
+ * condition must hold for every minute of the run, with no gap between
+ * readings longer than MAX_GAP_MS; a single reading is enough when `forMs`
+ * is 0. Only the latest minute, if recent, can trip a rule.
+ */
+export const evaluateVitalRules = (rules: VitalRule[], minutes: SeriesTable, now = Date.now()): VitalRuleMatch[] =>
+  rules.reduce<VitalRuleMatch[]>((matches, rule) => {
+    const buckets = minutes[rule.metric] || [];
+    const latest = buckets[buckets.length - 1];
+    if (!latest || now - latest.start > STALE_MS) return matches;
+    const value = isChangeRule(rule)
+      ? matchChange(rule, buckets, minutes.steps || [])
+      : matchLevel(rule, buckets);
+    return value === null ? matches : [...matches, { rule, value, at: new Date(latest.start).toISOString() }];
+  }, []);
+
+const formatValue = (metric: VitalMetric, value: number) => {
+  const unit = VITAL_NAMES[metric]?.unit || '';
+  const number = metric === 'temperature' ? value.toFixed(1) : `${Math.round(value)}`;
+  return unit === '%' ? `${number}%` : `${number} ${unit}`.trim();
+};
+
+const formatDuration = (ms: number) =>
+  ms >= HOUR_MS ? `${Math.round(ms / HOUR_MS)} hours` : `${Math.round(ms / MINUTE_MS)} minutes`;
+
+/**
+ * The alert the family gets for a rule that holds: 'heart' for heart rate,
+ * 'vital' for anything else.
+ */
+export const toVitalAlert = ({ rule, value, at }: VitalRuleMatch): SeniorAlert => {
+  const name = VITAL_NAMES[rule.metric]?.name || rule.metric;
+  const reading = formatValue(rule.metric, value);
+  const base = {
+    id: `vital-${rule.id}-${new Date(at).getTime()}`,
+    type: rule.metric === 'heartRate' ? ('heart' as const) : ('vital' as const),
+    timestamp: at,
+  };
+
+  if (isChangeRule(rule)) {
+    const amount = formatValue(rule.metric, rule.amount);
+    return {
+      ...base,
+      title: `${name} ${rule.kind === 'rise' ? 'rising' : 'falling'} fast`,
+      message: `${name} ${rule.kind === 'rise' ? 'rose' : 'fell'} by more than ${amount} within ${formatDuration(rule.withinMs)}.`,
+      priority: 'medium',
+      details: `Latest reading ${reading}.`,
+    };
+  }
+
+  const limit = formatValue(rule.metric, rule.value);
+  return {
+    ...base,
+    title: `${rule.kind === 'above' ? 'High' : 'Low'} ${name.toLowerCase()}`,
+    message: rule.forMs
+      ? `${name} has been ${rule.kind} ${limit} for ${formatDuration(rule.forMs)}.`
+      : `${name} was ${reading}, ${rule.kind} ${limit}.`,
+    priority: 'high',
+    details: `Latest reading ${reading}. ${SOURCE_NOTES[rule.source]}`,
+  };
+};
+
+export const getVitalLimits = async (): Promise<VitalLimitRecord[]> => readStore('vitalLimits');
+
+export const getVitalBaselines = async (): Promise<VitalBaselines> => learnBaselines(await readStore('healthSeriesHour'));
+
+/**
+ * Set or, with null, clear a clinician's limit for one metric. Synced, so
+ * the family sees readings against the same limits.
+ */
+export const setVitalLimit = async (metric: VitalMetric, limit: VitalLimit | null): Promise<VitalLimitRecord[]> => {
+  const others = (await readStore('vitalLimits')).filter(record => record.id !== metric);
+  const records = limit ? [...others, { ...limit, id: metric, updatedAt: new Date().toISOString() }] : others;
+  try {
+    await saveSyncedCollection('vitalLimits', records);
+  } catch (error) {
+    console.error('Error saving vital limit:', error);
+  }
+  return records;
+};
+
+/**
+ * Check the latest readings against this senior's rules and raise an alert
+ * for the family for each that holds, also shown as a notification on this
+ * phone. Returns the alerts raised.
+ */
+export const checkVitals = async (now = Date.now()): Promise<SeniorAlert[]> => {
+  try {
+    const [clinician, hourly, minutes, lastSent] = await Promise.all([
+      readStore('vitalLimits'),
+      readStore('healthSeriesHour'),
+      readStore('healthSeriesMinute'),
+      readStore('vitalAlertTimes'),
+    ]);
+    const rules = buildVitalRules(clinician, learnBaselines(hourly, now));
+    const due = evaluateVitalRules(rules, minutes, now).filter(
+      ({ rule }) => now - (lastSent[rule.id] || 0) >= ALERT_COOLDOWN_MS
+    );
+    if (!due.length) return [];
+
+    const alerts = due.map(toVitalAlert);
+    for (const alert of alerts) {
+      await saveSeniorAlert(alert);
+    }
+    await writeStore('vitalAlertTimes', {
+      ...lastSent,
+      ...Object.fromEntries(due.map(({ rule }) => [rule.id, now])),
+    });
+    await showLocalAlerts(alerts.map(alert => ({ key: alert.id, title: alert.title, body: alert.message })));
+    return alerts;
+  } catch (error) {
+    console.error('Error checking vitals:', error);
+    return [];
+  }
+};
+
+/**
+ * Whether one reading is outside a senior's limits, for showing it. Without
+ * their history only the clinician's limits and the defaults apply.
+ */
+export const vitalStatus = (metric: VitalMetric, value: number | undefined, clinician: VitalLimitRecord[] = []): VitalStatus => {
+  const limit = effectiveLimits(clinician)[metric];
+  if (value === undefined || !limit) return 'normal';
+  if (limit.high !== undefined && value > limit.high) return 'warning';
+  if (limit.low !== undefined && value < limit.low) return 'warning';
+  return 'normal';
+};
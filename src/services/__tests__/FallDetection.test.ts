@@ -0,0 +1,65 @@
+import { createFallDetector, FallEvent } from '../FallDetection';
+import { fall, phoneDrop, Scenario, stumble } from '../wearables/simulator/index';
+import { AccelerationSample } from '../../types/wearables';
+
+const TARGET = { serviceUuid: 'accel', characteristicUuid: 'accel-data' };
+const INTERVAL_MS = 40;
+
+type Build = (
+  target: typeof TARGET,
+  encode: (readings: Array<Omit<AccelerationSample, 'timestamp'>>, packet: number) => number[]
+) => Scenario;
+
+// Each packet carries its index, so its readings can be looked up again with their times
+const replay = (build: Build) => {
+  const packets: Array<Array<Omit<AccelerationSample, 'timestamp'>>> = [];
+  const scenario = build(TARGET, (readings, packet) => {
+    packets[packet] = readings;
+    return [packet];
+  });
+
+  const falls: FallEvent[] = [];
+  const detector = createFallDetector('watch', event => falls.push(event));
+  const phases = new Set<string>();
+  scenario.steps.forEach(step => {
+    if (!('notify' in step)) return;
+    const readings = packets[step.notify.value[0]];
+    detector.push(
+      readings.map((reading, index) => ({ ...reading, timestamp: step.at - (readings.length - 1 - index) * INTERVAL_MS }))
+    );
+    phases.add(detector.phase());
+  });
+  return { falls, phases };
+};
+
+describe('createFallDetector', () => {
+  it('reports a fall that leaves the senior lying still', () => {
+    const { falls } = replay((target, encode) => fall(target, encode, { at: 10 * 1000, durationMs: 30 * 1000, seed: 7 }));
+
+    expect(falls).toHaveLength(1);
+    expect(falls[0].source).toBe('watch');
+    expect(new Date(falls[0].at).getTime()).toBeGreaterThanOrEqual(10 * 1000);
+    expect(falls[0].impactG).toBeGreaterThan(2.5);
+    expect(falls[0].orientationChange).toBeGreaterThanOrEqual(45);
+  });
+
+  it('stands down when the senior gets back up', () => {
+    const { falls, phases } = replay((target, encode) =>
+      stumble(target, encode, { at: 10 * 1000, downMs: 4000, durationMs: 30 * 1000, seed: 7 })
+    );
+
+    // It got as far as waiting for them to move
+    expect(phases).toContain('inactivity');
+    expect(falls).toEqual([]);
+  });
+
+  it('ignores a dropped phone that lands the way up it was held', () => {
+    const { falls, phases } = replay((target, encode) =>
+      phoneDrop(target, encode, { at: 10 * 1000, durationMs: 30 * 1000, seed: 7 })
+    );
+
+    expect(phases).toContain('impact');
+    expect(phases).not.toContain('inactivity');
+    expect(falls).toEqual([]);
+  });
+});
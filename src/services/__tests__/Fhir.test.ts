@@ -0,0 +1,110 @@
+import { exportFhirBundle, fromFhirBundle, FhirHealthData } from '../Fhir';
+import { FhirObservation } from '../../types/fhir';
+import { VitalPoint } from '../../types/vitals';
+
+const at = (minute: number) => new Date(Date.UTC(2025, 4, 10, 8, minute)).toISOString();
+
+const vitals: VitalPoint[] = [
+  { metric: 'heartRate', value: 72, timestamp: at(0), source: 'watch-1' },
+  { metric: 'systolic', value: 128, timestamp: at(5), source: 'cuff-1' },
+  { metric: 'diastolic', value: 82, timestamp: at(5), source: 'cuff-1' },
+  // Taken alone, so it has no panel to go in
+  { metric: 'systolic', value: 131, timestamp: at(9), source: 'manual' },
+  { metric: 'glucose', value: 104, timestamp: at(20), source: 'manual' },
+];
+
+const data: FhirHealthData & Required<Pick<FhirHealthData, 'patient'>> = {
+  patient: { seniorId: 'CT-1', name: 'Ann Smith' },
+  vitals,
+  records: [
+    {
+      id: 'rec-1',
+      date: new Date(at(30)),
+      title: 'Annual checkup',
+      type: 'appointment',
+      doctor: 'Dr. Sarah Smith',
+      location: 'City Medical Center',
+      notes: 'Blood work next visit',
+    },
+  ],
+  reminders: [
+    { id: 'rem-1', title: 'Lisinopril', time: '8:00 AM', date: at(0), type: 'medication', enabled: true },
+  ],
+};
+
+const byTime = (a: VitalPoint, b: VitalPoint) => a.timestamp.localeCompare(b.timestamp) || a.metric.localeCompare(b.metric);
+
+describe('FHIR bundles', () => {
+  it('gives back what was exported', () => {
+    const bundle = JSON.parse(JSON.stringify(exportFhirBundle(data, 'export-1')));
+    const imported = fromFhirBundle(bundle);
+
+    expect(imported.patient).toEqual(data.patient);
+    expect([...imported.vitals].sort(byTime)).toEqual([...vitals].sort(byTime));
+    expect(imported.records).toEqual(data.records);
+    expect(imported.reminders).toEqual(data.reminders);
+    expect(imported.skipped).toBe(0);
+  });
+
+  it('exports a blood pressure reading as one panel', () => {
+    const observations = exportFhirBundle(data, 'export-1')
+      .entry.map(entry => entry.resource)
+      .filter((resource): resource is FhirObservation => resource.resourceType === 'Observation');
+    const codes = observations.map(observation => observation.code.coding?.[0]?.code);
+
+    const panel = observations[codes.indexOf('85354-9')];
+    expect(panel.valueQuantity).toBeUndefined();
+    expect(panel.component?.map(component => [component.code.coding?.[0].code, component.valueQuantity?.value])).toEqual([
+      ['8480-6', 128],
+      ['8462-4', 82],
+    ]);
+    expect(codes.filter(code => code === '8480-6')).toHaveLength(1);
+    expect(codes).not.toContain('8462-4');
+  });
+
+  it('gives readings two devices took at the same moment their own ids', () => {
+    const together: VitalPoint[] = [
+      { metric: 'heartRate', value: 72, timestamp: at(0), source: 'AA:BB:CC:DD:EE:FF' },
+      { metric: 'heartRate', value: 74, timestamp: at(0), source: 'manual' },
+    ];
+    const ids = exportFhirBundle({ ...data, vitals: together, records: [] }, 'export-1').entry.map(
+      entry => entry.resource.id
+    );
+
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach(id => expect(id).toMatch(/^[A-Za-z0-9\-.]{1,64}$/));
+  });
+
+  it('skips resources it cannot read', () => {
+    const imported = fromFhirBundle({
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        null,
+        { resource: { resourceType: 'Observation', id: 'no-code', status: 'final', effectiveDateTime: at(0) } },
+        { resource: { resourceType: 'Observation', id: 'bad-date', code: { text: 'Pulse' }, effectiveDateTime: 'soon' } },
+        { resource: { resourceType: 'MedicationStatement', id: 'no-drug', status: 'active', subject: {} } },
+        { resource: { resourceType: 'Encounter', id: 'visit' } },
+        {
+          resource: {
+            resourceType: 'Observation',
+            id: 'pulse',
+            status: 'final',
+            code: { coding: [{ system: 'http://loinc.org', code: '8867-4' }] },
+            effectiveDateTime: at(0),
+            valueQuantity: { value: 64, unit: '/min', system: 'http://unitsofmeasure.org', code: '/min' },
+          },
+        },
+      ],
+    });
+
+    expect(imported.vitals).toEqual([{ metric: 'heartRate', value: 64, timestamp: at(0), source: 'fhir' }]);
+    expect(imported.skipped).toBe(5);
+  });
+
+  it('refuses anything that is not a bundle', () => {
+    expect(() => fromFhirBundle(null)).toThrow('Not a FHIR Bundle');
+    expect(() => fromFhirBundle({ resourceType: 'Patient', id: 'CT-1' })).toThrow('Not a FHIR Bundle');
+    expect(() => fromFhirBundle({ resourceType: 'Bundle', entry: 'none' })).toThrow('Not a FHIR Bundle');
+  });
+});
@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { importFhirData } from '../HealthDataTransfer';
+import { readSavedVitals } from '../HealthTimeSeries';
+import { exportFhirBundle } from '../Fhir';
+import { readStore } from '../StorageService';
+import { VitalPoint } from '../../types/vitals';
+
+const HOUR_MS = 60 * 60 * 1000;
+const hour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS - HOUR_MS;
+const at = (minute: number) => new Date(hour + minute * 60 * 1000).toISOString();
+
+const vitals: VitalPoint[] = [
+  { metric: 'heartRate', value: 70, timestamp: at(5), source: 'clinic' },
+  { metric: 'heartRate', value: 74, timestamp: at(35), source: 'clinic' },
+  { metric: 'glucose', value: 104, timestamp: at(20), source: 'clinic' },
+];
+
+// Through JSON, as it comes from a file
+const bundle = () =>
+  JSON.parse(
+    JSON.stringify(
+      exportFhirBundle({ patient: { seniorId: 'CT-1' }, vitals, records: [], reminders: [] }, 'export-1')
+    )
+  );
+
+describe('importFhirData', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('keeps imported readings so importing the same bundle again adds nothing', async () => {
+    expect(await importFhirData(bundle())).toEqual({ vitals: 3, reminders: 0, skipped: 0 });
+    expect(await importFhirData(bundle())).toEqual({ vitals: 0, reminders: 0, skipped: 3 });
+
+    expect(await readSavedVitals()).toHaveLength(3);
+    const { heartRate } = await readStore('healthSeriesHour');
+    expect(heartRate).toEqual([expect.objectContaining({ count: 2, sum: 144 })]);
+  });
+
+  it('adds a reading listed twice in one bundle once', async () => {
+    const twice = bundle();
+    twice.entry.push(twice.entry[1]);
+
+    expect(await importFhirData(twice)).toEqual({ vitals: 3, reminders: 0, skipped: 1 });
+    expect(await readStore('importedVitals')).toHaveLength(3);
+  });
+});
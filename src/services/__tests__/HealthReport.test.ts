@@ -0,0 +1,103 @@
+import { HealthReport, reportToFhir } from '../HealthReport';
+import { FhirMedicationStatement, FhirObservation } from '../../types/fhir';
+
+const report: HealthReport = {
+  seniorId: 'CT-1',
+  seniorName: 'Ann',
+  from: new Date(2025, 4, 1).toISOString(),
+  to: new Date(2025, 4, 8).toISOString(),
+  generatedAt: new Date(2025, 4, 8, 9).toISOString(),
+  vitals: [
+    {
+      metric: 'systolic',
+      name: 'Systolic',
+      unit: 'mmHg',
+      readings: 2,
+      min: 120,
+      max: 130,
+      avg: 125,
+      daily: [
+        { date: new Date(2025, 4, 2).toISOString(), value: 125 },
+        { date: new Date(2025, 4, 3).toISOString(), value: 128 },
+      ],
+    },
+    {
+      metric: 'diastolic',
+      name: 'Diastolic',
+      unit: 'mmHg',
+      readings: 1,
+      min: 80,
+      max: 80,
+      avg: 80,
+      daily: [{ date: new Date(2025, 4, 2).toISOString(), value: 80 }],
+    },
+    {
+      metric: 'heartRate',
+      name: 'Heart rate',
+      unit: 'bpm',
+      readings: 12,
+      min: 60,
+      max: 90,
+      avg: 72,
+      daily: [{ date: new Date(2025, 4, 2).toISOString(), value: 72 }],
+    },
+    {
+      metric: 'steps',
+      name: 'Steps',
+      unit: 'steps',
+      readings: 1,
+      min: 4000,
+      max: 4000,
+      avg: 4000,
+      daily: [{ date: new Date(2025, 4, 2).toISOString(), value: 4000 }],
+    },
+  ],
+  medications: [{ reminderId: 'r1', title: 'Lisinopril', time: '8:00 AM', scheduled: 7, taken: 6, skipped: 0, missed: 1 }],
+  reminders: [
+    { id: 'r1', title: 'Lisinopril', time: '8:00 AM', date: new Date(2025, 3, 1).toISOString(), type: 'medication', enabled: true },
+  ],
+  alerts: [],
+};
+
+describe('reportToFhir', () => {
+  const resources = reportToFhir(report).entry.map(entry => entry.resource);
+
+  it('marks daily values as averages or totals over the day', () => {
+    const observations = resources.filter((resource): resource is FhirObservation => resource.resourceType === 'Observation');
+
+    const heartRate = observations.find(observation => observation.id.startsWith('heartRate'));
+    const steps = observations.find(observation => observation.id.startsWith('steps'));
+
+    expect(heartRate?.note).toEqual([{ text: "Average of the day's readings" }]);
+    expect(steps?.note).toEqual([{ text: 'Total for the day' }]);
+    expect(heartRate?.effectivePeriod).toEqual({
+      start: new Date(2025, 4, 2).toISOString(),
+      end: new Date(2025, 4, 3).toISOString(),
+    });
+  });
+
+  it('pairs the days with both halves of blood pressure into a panel', () => {
+    const observations = resources.filter((resource): resource is FhirObservation => resource.resourceType === 'Observation');
+    const panel = observations.find(observation => observation.code.coding?.[0].code === '85354-9');
+
+    expect(panel?.component?.map(component => [component.code.coding?.[0].code, component.valueQuantity?.value])).toEqual([
+      ['8480-6', 125],
+      ['8462-4', 80],
+    ]);
+    // The day without a diastolic reading keeps its systolic one alone
+    expect(observations.filter(observation => observation.code.coding?.[0].code === '8480-6')).toHaveLength(1);
+    expect(observations.filter(observation => observation.code.coding?.[0].code === '8462-4')).toHaveLength(0);
+  });
+
+  it('includes each medication with how its doses were taken', () => {
+    const statements = resources.filter(
+      (resource): resource is FhirMedicationStatement => resource.resourceType === 'MedicationStatement'
+    );
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0]).toEqual(
+      expect.objectContaining({ id: 'r1', medicationCodeableConcept: { text: 'Lisinopril' }, subject: { reference: 'Patient/CT-1' } })
+    );
+    expect(statements[0].note?.[0].text).toContain('6 of 7 doses taken');
+  });
+});
@@ -0,0 +1,45 @@
+import { MANUAL_SOURCE, rollUp, SourceRank } from '../HealthTimeSeries';
+import { VitalPoint } from '../../types/vitals';
+
+const NOW = new Date(2025, 4, 10, 12, 0).getTime();
+
+const point = (source: string, value: number, minute = 0, metric: VitalPoint['metric'] = 'heartRate'): VitalPoint => ({
+  metric,
+  value,
+  timestamp: new Date(2025, 4, 10, 11, minute).toISOString(),
+  source,
+});
+
+// The watch first, then the oximeter, then anything else
+const rank: SourceRank = (_metric, source) => ['watch', 'oximeter'].indexOf(source) + 1 || 3;
+
+describe('rollUp', () => {
+  it('keeps the points of one source together', () => {
+    const table = rollUp({}, [point('watch', 60), point('watch', 80, 30)], 'hour', NOW, rank);
+
+    expect(table.heartRate).toEqual([
+      expect.objectContaining({ count: 2, sum: 140, min: 60, max: 80, source: 'watch' }),
+    ]);
+  });
+
+  it('never averages two devices together', () => {
+    const table = rollUp({}, [point('oximeter', 90), point('watch', 60, 10), point('oximeter', 95, 20)], 'hour', NOW, rank);
+
+    expect(table.heartRate).toEqual([expect.objectContaining({ count: 1, sum: 60, source: 'watch' })]);
+  });
+
+  it('leaves a bucket to the source that recorded it when no source is preferred', () => {
+    const first = rollUp({}, [point(MANUAL_SOURCE, 110, 0, 'glucose')], 'hour', NOW);
+    const table = rollUp(first, [point('meter', 140, 5, 'glucose')], 'hour', NOW);
+
+    expect(table.glucose).toEqual([expect.objectContaining({ count: 1, sum: 110, source: MANUAL_SOURCE })]);
+  });
+
+  it('adds to buckets recorded before sources were kept', () => {
+    const start = new Date(2025, 4, 10, 11).getTime();
+    const legacy = { heartRate: [{ start, count: 1, sum: 70, min: 70, max: 70 }] };
+    const table = rollUp(legacy, [point('watch', 90)], 'hour', NOW, rank);
+
+    expect(table.heartRate).toEqual([expect.objectContaining({ count: 2, sum: 160 })]);
+  });
+});
@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  approveLinkRequest,
+  createInMemoryLinkBackend,
+  createLocalLinkBackend,
+  getLinkBackend,
+  getPendingLinkRequests,
+  getSentLinkRequests,
+  LINK_REQUEST_TTL_MS,
+  LinkRequest,
+  rejectLinkRequest,
+  setLinkBackend,
+  setRequesterPushToken,
+  setRequireApproval,
+  submitLinkRequest,
+} from '../LinkRequestService';
+
+const ask = (requesterId = 'FAM-1', seniorId = 'CT-1') =>
+  submitLinkRequest({
+    seniorId,
+    seniorName: 'Ann',
+    requesterId,
+    requesterName: 'bob',
+    requesterEmail: 'bob@example.com',
+  });
+
+describe('link handshake', () => {
+  beforeEach(() => {
+    setLinkBackend(createInMemoryLinkBackend());
+  });
+
+  it('leaves a request pending until the senior approves it', async () => {
+    const request = await ask();
+
+    expect(request.status).toBe('pending');
+    expect((await getPendingLinkRequests('CT-1')).map(r => r.id)).toEqual([request.id]);
+
+    const approved = await approveLinkRequest(request.id);
+
+    expect(approved?.status).toBe('approved');
+    expect(approved?.respondedAt).toBeDefined();
+    expect(await getPendingLinkRequests('CT-1')).toEqual([]);
+    expect((await getSentLinkRequests('FAM-1'))[0].status).toBe('approved');
+  });
+
+  it('rejects a request, after which it cannot be approved', async () => {
+    const request = await ask();
+
+    expect((await rejectLinkRequest(request.id))?.status).toBe('rejected');
+    expect(await approveLinkRequest(request.id)).toBeNull();
+  });
+
+  it('approves straight away when the senior does not require approval', async () => {
+    await setRequireApproval('CT-1', false);
+
+    const request = await ask();
+
+    expect(request.status).toBe('approved');
+    expect(request.respondedAt).toBe(request.createdAt);
+    expect(await getPendingLinkRequests('CT-1')).toEqual([]);
+  });
+
+  it('gives back the open request instead of sending a second one', async () => {
+    const first = await ask();
+
+    expect((await ask()).id).toBe(first.id);
+    expect(await getSentLinkRequests('FAM-1')).toHaveLength(1);
+  });
+
+  it('expires requests nobody answered in time', async () => {
+    const request = await ask();
+    const stale: LinkRequest = {
+      ...request,
+      createdAt: new Date(Date.now() - LINK_REQUEST_TTL_MS - 1000).toISOString(),
+    };
+    await getLinkBackend().saveRequest(stale);
+
+    expect(await getPendingLinkRequests('CT-1')).toEqual([]);
+    expect((await getLinkBackend().getRequest(request.id))?.status).toBe('expired');
+    expect(await approveLinkRequest(request.id)).toBeNull();
+  });
+});
+
+describe('local link backend', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    setLinkBackend(createLocalLinkBackend());
+  });
+
+  it('keeps the push token on every open link', async () => {
+    const first = await ask('FAM-1', 'CT-1');
+    const second = await ask('FAM-1', 'CT-2');
+
+    await setRequesterPushToken('FAM-1', 'ExponentPushToken[abc]');
+
+    const saved = await getSentLinkRequests('FAM-1');
+    expect(saved.map(r => [r.id, r.pushToken]).sort()).toEqual(
+      [
+        [first.id, 'ExponentPushToken[abc]'],
+        [second.id, 'ExponentPushToken[abc]'],
+      ].sort()
+    );
+  });
+});
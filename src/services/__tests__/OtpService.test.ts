@@ -0,0 +1,132 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createOtpState,
+  extractOtpFromSms,
+  getAttemptsRemaining,
+  getOtpAttempts,
+  getResendDelay,
+  OTP_POLICY,
+  OtpState,
+  otpReducer,
+  saveOtpAttempts,
+} from '../OtpService';
+
+const NOW = 1_000_000;
+const PHONE = '+15550100';
+
+const failTimes = (state: OtpState, times: number) =>
+  Array.from({ length: times }).reduce<OtpState>(current => {
+    const verifying = otpReducer(current, { type: 'VERIFY_REQUESTED' });
+    return otpReducer(verifying, { type: 'VERIFY_FAILED', error: 'Wrong code', now: NOW });
+  }, state);
+
+describe('otpReducer', () => {
+  it('doubles the wait before each resend, up to the cap', () => {
+    let state = createOtpState(PHONE, 'v1', NOW);
+    expect(state.resendAvailableAt).toBe(NOW + OTP_POLICY.baseResendDelayMs);
+
+    state = otpReducer(state, { type: 'CODE_SENT', verificationId: 'v2', now: NOW });
+    expect(state.sendCount).toBe(2);
+    expect(state.resendAvailableAt).toBe(NOW + 2 * OTP_POLICY.baseResendDelayMs);
+
+    expect(getResendDelay(20)).toBe(OTP_POLICY.maxResendDelayMs);
+  });
+
+  it('keeps the previous code when a resend fails', () => {
+    const state = otpReducer(otpReducer(createOtpState(PHONE, 'v1', NOW), { type: 'SEND_REQUESTED' }), {
+      type: 'SEND_FAILED',
+      error: 'Network error',
+    });
+
+    expect(state).toEqual(expect.objectContaining({ status: 'codeSent', verificationId: 'v1', error: 'Network error' }));
+  });
+
+  it('locks the number after too many wrong codes', () => {
+    const state = failTimes(createOtpState(PHONE, 'v1', NOW), OTP_POLICY.maxFailedAttempts);
+
+    expect(state.status).toBe('lockedOut');
+    expect(state.lockedUntil).toBe(NOW + OTP_POLICY.lockoutMs);
+    expect(getAttemptsRemaining(state)).toBe(0);
+    // Nothing is sent or checked while locked out
+    expect(otpReducer(state, { type: 'SEND_REQUESTED' })).toBe(state);
+    expect(otpReducer(state, { type: 'VERIFY_REQUESTED' })).toBe(state);
+  });
+
+  it('needs a new code once a lockout runs out', () => {
+    const locked = failTimes(createOtpState(PHONE, 'v1', NOW), OTP_POLICY.maxFailedAttempts);
+
+    const state = otpReducer(locked, { type: 'LOCKOUT_EXPIRED' });
+
+    expect(state).toEqual(
+      expect.objectContaining({ status: 'idle', verificationId: null, failedAttempts: 0, lockedUntil: null })
+    );
+  });
+
+  it('adds the counts from an earlier visit', () => {
+    const state = otpReducer(createOtpState(PHONE, 'v3', NOW), {
+      type: 'RESTORED',
+      attempts: { sendCount: 2, failedAttempts: 3, lastSentAt: NOW - 60_000, updatedAt: NOW - 60_000 },
+    });
+
+    expect(state.sendCount).toBe(3);
+    expect(getAttemptsRemaining(state)).toBe(OTP_POLICY.maxFailedAttempts - 3);
+    // The code sent on this visit starts the wait, at the backoff for the third code
+    expect(state.resendAvailableAt).toBe(NOW + getResendDelay(3));
+  });
+
+  it('waits from the last code sent on an earlier visit', () => {
+    const sentAt = NOW - 10_000;
+    const state = otpReducer(createOtpState(PHONE, null, NOW), {
+      type: 'RESTORED',
+      attempts: { sendCount: 1, failedAttempts: 0, lastSentAt: sentAt, updatedAt: sentAt },
+    });
+
+    expect(state.resendAvailableAt).toBe(sentAt + OTP_POLICY.baseResendDelayMs);
+  });
+});
+
+describe('OTP attempts storage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('keeps the counts per phone number', async () => {
+    const attempts = { sendCount: 2, failedAttempts: 1, lastSentAt: NOW, updatedAt: NOW };
+    await saveOtpAttempts(PHONE, attempts);
+
+    expect(await getOtpAttempts(PHONE, NOW)).toEqual(attempts);
+    expect(await getOtpAttempts('+15550199', NOW)).toBeNull();
+
+    await saveOtpAttempts(PHONE, null);
+    expect(await getOtpAttempts(PHONE, NOW)).toBeNull();
+  });
+
+  it('forgets counts that have not changed for a day', async () => {
+    await saveOtpAttempts(PHONE, { sendCount: 4, failedAttempts: 2, lastSentAt: NOW, updatedAt: NOW });
+
+    expect(await getOtpAttempts(PHONE, NOW + OTP_POLICY.attemptsResetMs)).toBeNull();
+  });
+});
+
+describe('extractOtpFromSms', () => {
+  it('takes a bare code', () => {
+    expect(extractOtpFromSms(' 123456 ')).toBe('123456');
+  });
+
+  it('finds the code in a pasted message', () => {
+    expect(extractOtpFromSms('Your CareTrek code is 482913. It expires in 5 minutes.')).toBe('482913');
+  });
+
+  it('ignores the app hash of an SMS Retriever message', () => {
+    expect(extractOtpFromSms('<#> Your CareTrek code is 482913\nFA+9qCX9VSu')).toBe('482913');
+    expect(extractOtpFromSms('<#> Your CareTrek code is 482913\n123456abcde')).toBe('482913');
+  });
+
+  it('does not take part of a longer number', () => {
+    expect(extractOtpFromSms('Call 5550100123 for help')).toBeNull();
+  });
+
+  it('returns null when there is no code', () => {
+    expect(extractOtpFromSms('Hello there')).toBeNull();
+  });
+});
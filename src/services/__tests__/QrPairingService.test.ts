@@ -0,0 +1,50 @@
+import { createInMemoryLinkBackend, setLinkBackend } from '../LinkRequestService';
+import { getActiveShareCode, revokeShareCode } from '../ShareCodeService';
+import { createPairingPayload, verifyPairingPayload } from '../QrPairingService';
+
+describe('QR pairing', () => {
+  beforeEach(() => {
+    setLinkBackend(createInMemoryLinkBackend());
+  });
+
+  it('accepts a QR code signed for the share code', async () => {
+    const shareCode = await getActiveShareCode('CT-1');
+
+    const result = await verifyPairingPayload(await createPairingPayload(shareCode));
+
+    expect(result).toEqual({
+      ok: true,
+      payload: expect.objectContaining({ seniorId: 'CT-1', shareCode: shareCode.code }),
+    });
+  });
+
+  it('rejects a QR code changed to name another senior', async () => {
+    const shareCode = await getActiveShareCode('CT-1');
+    const raw = JSON.parse(await createPairingPayload(shareCode));
+
+    const result = await verifyPairingPayload(JSON.stringify({ ...raw, sid: 'CT-2' }));
+
+    expect(result).toEqual({ ok: false, reason: 'unverified' });
+  });
+
+  it('rejects a QR code with a forged signature', async () => {
+    const shareCode = await getActiveShareCode('CT-1');
+    const raw = JSON.parse(await createPairingPayload(shareCode));
+
+    const result = await verifyPairingPayload(JSON.stringify({ ...raw, sig: '0'.repeat(64) }));
+
+    expect(result).toEqual({ ok: false, reason: 'unverified' });
+  });
+
+  it('rejects a QR code for a revoked share code', async () => {
+    const shareCode = await getActiveShareCode('CT-1');
+    const raw = await createPairingPayload(shareCode);
+    await revokeShareCode(shareCode.code);
+
+    expect(await verifyPairingPayload(raw)).toEqual({ ok: false, reason: 'unverified' });
+  });
+
+  it('rejects anything that is not a pairing code', async () => {
+    expect(await verifyPairingPayload('https://example.com')).toEqual({ ok: false, reason: 'invalid' });
+  });
+});
@@ -0,0 +1,82 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { listShards, readStore, STORES, updateStore, writeStore } from '../StorageService';
+import { ALL_PERMISSION_SCOPES } from '../../types/permissions';
+
+const saved = async (key: string) => JSON.parse((await AsyncStorage.getItem(key))!);
+
+describe('StorageService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('wraps written values with the schema version', async () => {
+    await writeStore('familyId', 'FM1');
+
+    expect(await saved(STORES.familyId.key)).toEqual({ v: 1, data: 'FM1' });
+    expect(await readStore('familyId')).toBe('FM1');
+  });
+
+  it('migrates a value saved before versions and writes the upgrade back', async () => {
+    const member = { id: 'm1', email: 'bob@example.com', name: 'bob' };
+    await AsyncStorage.setItem(STORES.familyMembers.key, JSON.stringify([member]));
+
+    const members = await readStore('familyMembers');
+
+    expect(members).toEqual([{ ...member, scopes: ALL_PERMISSION_SCOPES }]);
+    expect(await saved(STORES.familyMembers.key)).toEqual({ v: 1, data: members });
+  });
+
+  it('fills in what an old build left out', async () => {
+    await AsyncStorage.setItem(STORES.reminders.key, JSON.stringify([{ id: 'r1', title: 'Pill', time: '8:00 AM' }]));
+
+    const [reminder] = await readStore('reminders');
+
+    expect(reminder).toEqual(expect.objectContaining({ id: 'r1', date: expect.any(String) }));
+  });
+
+  it('reads legacy raw strings, including ones that happen to be valid JSON', async () => {
+    await AsyncStorage.setItem(STORES.seniorId.key, 'CTAB12CD');
+    await AsyncStorage.setItem(STORES.seniorName.key, '123');
+
+    expect(await readStore('seniorId')).toBe('CTAB12CD');
+    expect(await readStore('seniorName')).toBe('123');
+    expect(await saved(STORES.seniorName.key)).toEqual({ v: 1, data: '123' });
+  });
+
+  it('sets an unreadable value aside and returns the default', async () => {
+    await AsyncStorage.setItem(STORES.seniors.key, '{"broken');
+
+    expect(await readStore('seniors')).toEqual([]);
+    expect(await AsyncStorage.getItem(STORES.seniors.key)).toBeNull();
+    expect(await AsyncStorage.getItem(`${STORES.seniors.key}:corrupt`)).toBe('{"broken');
+  });
+
+  it('sets aside a value saved by a newer version of the app', async () => {
+    const raw = JSON.stringify({ v: 99, data: [{ id: 'x' }] });
+    await AsyncStorage.setItem(STORES.linkRequests.key, raw);
+
+    expect(await readStore('linkRequests')).toEqual([]);
+    expect(await AsyncStorage.getItem(`${STORES.linkRequests.key}:corrupt`)).toBe(raw);
+  });
+
+  it('does not write over a value it failed to read', async () => {
+    await writeStore('shareCodes', []);
+    jest.spyOn(AsyncStorage, 'getItem').mockRejectedValueOnce(new Error('disk'));
+
+    await expect(updateStore('shareCodes', codes => codes)).rejects.toThrow('disk');
+    expect(await readStore('shareCodes')).toEqual([]);
+  });
+
+  it('lists shards without the quarantined ones', async () => {
+    await writeStore('wearableHistory', [], '2025-05-01');
+    await AsyncStorage.setItem(`${STORES.wearableHistory.key}:2025-05-02`, 'nope');
+    await readStore('wearableHistory', '2025-05-02');
+
+    expect(await listShards('wearableHistory')).toEqual(['2025-05-01']);
+  });
+});
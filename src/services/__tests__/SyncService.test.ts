@@ -0,0 +1,221 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createInMemorySyncRemote,
+  getSyncedRecords,
+  mergeDocuments,
+  pullSyncedRecords,
+  saveSyncedCollection,
+  setSyncRemote,
+  SyncDocument,
+  SyncRemote,
+  syncNow,
+} from '../SyncService';
+import { readStore, writeStore } from '../StorageService';
+import {
+  approveLinkRequest,
+  createInMemoryLinkBackend,
+  setLinkBackend,
+  setLinkScopes,
+  submitLinkRequest,
+} from '../LinkRequestService';
+import { getOrCreateFamilyId, getOrCreateSeniorId } from '../../utils/idManager';
+import { SOSContact } from '../../types/sos';
+
+const contact = (id: string, name: string, phone = '555-0100'): SOSContact => ({
+  id,
+  name,
+  phone,
+  type: 'family',
+  isEmergency: false,
+});
+
+const remoteContact = (ownerId: string, record: SOSContact, updatedAt: number): SyncDocument => ({
+  ownerId,
+  collection: 'sosContacts',
+  id: record.id,
+  data: { ...record },
+  fieldUpdatedAt: Object.fromEntries([...Object.keys(record), '_deleted'].map(field => [field, updatedAt])),
+  updatedAt,
+  deleted: false,
+});
+
+const localDocument = (fields: Record<string, [unknown, number]>, deleted = false): SyncDocument => ({
+  ownerId: 'CT1',
+  collection: 'sosContacts',
+  id: 'a',
+  data: Object.fromEntries(Object.entries(fields).map(([field, [value]]) => [field, value])),
+  fieldUpdatedAt: Object.fromEntries(Object.entries(fields).map(([field, [, at]]) => [field, at])),
+  updatedAt: Math.max(...Object.values(fields).map(([, at]) => at)),
+  deleted,
+});
+
+describe('mergeDocuments', () => {
+  it('keeps each side\'s newer fields with the field strategy', () => {
+    const local = localDocument({ name: ['Ann', 20], phone: ['111', 5] });
+    const incoming = localDocument({ name: ['Anne', 10], phone: ['222', 30] });
+
+    const merged = mergeDocuments(local, incoming, 'field');
+
+    expect(merged.data).toEqual({ name: 'Ann', phone: '222' });
+    expect(merged.updatedAt).toBe(30);
+  });
+
+  it('takes the newer copy whole with the document strategy', () => {
+    const local = localDocument({ name: ['Ann', 20], phone: ['111', 5] });
+    const incoming = localDocument({ name: ['Anne', 10], phone: ['222', 30] });
+
+    expect(mergeDocuments(local, incoming, 'document')).toBe(incoming);
+  });
+
+  it('lets the incoming copy win a tie', () => {
+    const local = localDocument({ name: ['Ann', 10] });
+    const incoming = localDocument({ name: ['Anne', 10] });
+
+    expect(mergeDocuments(local, incoming, 'field').data).toEqual({ name: 'Anne' });
+  });
+
+  it('keeps a newer delete', () => {
+    const local = localDocument({ name: ['Ann', 10], _deleted: [true, 40] }, true);
+    const incoming = localDocument({ name: ['Anne', 20], _deleted: [false, 20] });
+
+    expect(mergeDocuments(local, incoming, 'field').deleted).toBe(true);
+  });
+});
+
+describe('sync engine', () => {
+  let remote: SyncRemote;
+  let seniorId: string;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    remote = createInMemorySyncRemote();
+    setSyncRemote(remote);
+    seniorId = await getOrCreateSeniorId();
+  });
+
+  afterEach(async () => {
+    // Let the run each save kicks off finish before storage is cleared
+    await syncNow();
+    setSyncRemote(null);
+  });
+
+  it('pushes saved records and empties the outbox', async () => {
+    await saveSyncedCollection('sosContacts', [contact('a', 'Ann')]);
+    const result = await syncNow();
+
+    expect(result.pending).toBe(0);
+    expect(await readStore('syncOutbox')).toEqual([]);
+    expect((await remote.getDocument(seniorId, 'sosContacts', 'a'))?.data).toEqual(contact('a', 'Ann'));
+  });
+
+  it('queues writes while no remote is set', async () => {
+    setSyncRemote(null);
+    await saveSyncedCollection('sosContacts', [contact('a', 'Ann')]);
+
+    expect((await syncNow()).pending).toBeGreaterThan(0);
+    expect(await remote.getDocument(seniorId, 'sosContacts', 'a')).toBeNull();
+
+    setSyncRemote(remote);
+    expect((await syncNow()).pending).toBe(0);
+    expect(await remote.getDocument(seniorId, 'sosContacts', 'a')).not.toBeNull();
+  });
+
+  it('merges a change made on another device into the local store', async () => {
+    await saveSyncedCollection('sosContacts', [contact('a', 'Ann')]);
+    await syncNow();
+
+    const pushed = await remote.getDocument(seniorId, 'sosContacts', 'a');
+    const later = pushed!.updatedAt + 1000;
+    await remote.putDocument({
+      ...pushed!,
+      data: { ...pushed!.data, phone: '555-0199' },
+      fieldUpdatedAt: { ...pushed!.fieldUpdatedAt, phone: later },
+      updatedAt: later,
+    });
+    await syncNow();
+
+    expect(await readStore('sosContacts')).toEqual([{ ...contact('a', 'Ann'), phone: '555-0199' }]);
+  });
+
+  it('keeps a save made while a push is in flight', async () => {
+    await saveSyncedCollection('sosContacts', [contact('a', 'Ann')]);
+    await syncNow();
+
+    // Hold the next push on the network until the second save has landed
+    let releasePut: () => void = () => {};
+    const putDocument = remote.putDocument;
+    remote.putDocument = async document => {
+      await new Promise<void>(resolve => {
+        releasePut = resolve;
+      });
+      return putDocument(document);
+    };
+
+    await saveSyncedCollection('sosContacts', [contact('a', 'Ann B')]);
+    const running = syncNow();
+    // A few milliseconds on, so the second save is strictly newer
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await saveSyncedCollection('sosContacts', [contact('a', 'Ann C')]);
+    remote.putDocument = putDocument;
+    releasePut();
+    await running;
+    await syncNow();
+
+    expect(await readStore('sosContacts')).toEqual([contact('a', 'Ann C')]);
+    expect((await remote.getDocument(seniorId, 'sosContacts', 'a'))?.data.name).toBe('Ann C');
+    expect(await readStore('syncOutbox')).toEqual([]);
+  });
+
+  it('syncs only the recent hours and days of the vitals series', async () => {
+    const hour = 60 * 60 * 1000;
+    const recent = { start: Date.now() - hour, count: 1, sum: 70, min: 70, max: 70, source: 'watch' };
+    const old = { ...recent, start: Date.now() - 10 * 24 * hour };
+    await writeStore('healthSeriesHour', { heartRate: [old, recent] });
+    await writeStore('healthSeriesMinute', { heartRate: [recent] });
+    await syncNow();
+
+    expect((await remote.getDocument(seniorId, 'vitalSeries', 'hour:heartRate'))?.data.buckets).toEqual([recent]);
+    expect(await remote.getDocument(seniorId, 'vitalSeries', 'minute:heartRate')).toBeNull();
+    expect(await readStore('healthSeriesHour')).toEqual({ heartRate: [old, recent] });
+  });
+
+  it('keeps both owners\' records when pulls run side by side', async () => {
+    await remote.putDocument(remoteContact('CT-ONE', contact('x', 'Xavier'), 100));
+    await remote.putDocument(remoteContact('CT-TWO', contact('y', 'Yvonne'), 200));
+
+    const [one, two] = await Promise.all([
+      pullSyncedRecords('CT-ONE', 'sosContacts'),
+      pullSyncedRecords('CT-TWO', 'sosContacts'),
+    ]);
+
+    expect(one).toEqual([contact('x', 'Xavier')]);
+    expect(two).toEqual([contact('y', 'Yvonne')]);
+    expect(await getSyncedRecords('CT-ONE', 'sosContacts')).toEqual([contact('x', 'Xavier')]);
+    expect(await readStore('syncCursors')).toEqual(
+      expect.objectContaining({ 'CT-ONE/sosContacts': 100, 'CT-TWO/sosContacts': 200 })
+    );
+  });
+
+  it('pulls another owner\'s records only within the link\'s scopes', async () => {
+    setLinkBackend(createInMemoryLinkBackend());
+    const familyId = await getOrCreateFamilyId();
+    const request = await submitLinkRequest({
+      seniorId: 'CT-ONE',
+      seniorName: 'Ann',
+      requesterId: familyId,
+      requesterName: 'bob',
+      requesterEmail: 'bob@example.com',
+    });
+    await approveLinkRequest(request.id);
+    await setLinkScopes('CT-ONE', familyId, ['sos']);
+    await remote.putDocument(remoteContact('CT-ONE', contact('x', 'Xavier'), 100));
+    await remote.putDocument({
+      ...remoteContact('CT-ONE', contact('z', 'Home'), 100),
+      collection: 'safeZones',
+    });
+
+    expect(await pullSyncedRecords('CT-ONE', 'sosContacts')).toEqual([contact('x', 'Xavier')]);
+    expect(await pullSyncedRecords('CT-ONE', 'safeZones')).toEqual([]);
+    expect(await getSyncedRecords('CT-ONE', 'safeZones')).toEqual([]);
+  });
+});
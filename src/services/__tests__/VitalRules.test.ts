@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { buildVitalRules, checkVitals, effectiveLimits, evaluateVitalRules, learnBaselines } from '../VitalRules';
+import { readStore, writeStore } from '../StorageService';
+import { SeriesBucket } from '../../types/vitals';
+
+jest.mock('expo-notifications', () => ({
+  AndroidImportance: { HIGH: 4 },
+  getPermissionsAsync: jest.fn(async () => ({ status: 'granted' })),
+  setNotificationChannelAsync: jest.fn(async () => null),
+  scheduleNotificationAsync: jest.fn(async () => 'notification'),
+}));
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const START = Date.UTC(2025, 4, 10, 8, 0);
+
+// One bucket per entry of `values`, `stepMs` apart; null leaves a gap
+const buckets = (values: Array<number | null>, stepMs = MINUTE_MS, start = START): SeriesBucket[] =>
+  values.flatMap((value, index) =>
+    value === null ? [] : [{ start: start + index * stepMs, count: 1, sum: value, min: value, max: value }]
+  );
+
+// Half a minute into the last bucket
+const nowAfter = (series: SeriesBucket[]) => series[series.length - 1].start + MINUTE_MS / 2;
+
+const matchedIds = (minutes: Parameters<typeof evaluateVitalRules>[1], now: number) =>
+  evaluateVitalRules(buildVitalRules([]), minutes, now).map(({ rule }) => rule.id);
+
+describe('learnBaselines', () => {
+  it('learns the mean and spread of the hourly averages', () => {
+    const hourly = buckets(Array.from({ length: 96 }, (_, hour) => (hour % 2 ? 89 : 88)), HOUR_MS);
+
+    const { oxygenSaturation } = learnBaselines({ oxygenSaturation: hourly }, nowAfter(hourly));
+
+    expect(oxygenSaturation).toEqual({ mean: 88.5, sd: 0.5, hours: 96 });
+  });
+
+  it('leaves out a metric without three days of history in the last two weeks', () => {
+    const old = buckets(Array(100).fill(70), HOUR_MS);
+    const recent = buckets(Array(50).fill(72), HOUR_MS, START + 30 * 24 * HOUR_MS);
+
+    expect(learnBaselines({ heartRate: [...old, ...recent] }, nowAfter(recent))).toEqual({});
+  });
+});
+
+describe('effectiveLimits', () => {
+  it('uses a clinician limit over everything else', () => {
+    const limits = effectiveLimits(
+      [{ id: 'oxygenSaturation', low: 92, updatedAt: new Date(START).toISOString() }],
+      { oxygenSaturation: { mean: 88.5, sd: 0.5, hours: 96 } }
+    );
+
+    expect(limits.oxygenSaturation).toEqual({ low: 92, high: undefined, forMinutes: 5, source: 'clinician' });
+  });
+
+  it('widens a default for a senior whose usual readings lie beyond it, up to the hard limit', () => {
+    expect(effectiveLimits([], { oxygenSaturation: { mean: 88.5, sd: 0.5, hours: 96 } }).oxygenSaturation).toEqual(
+      expect.objectContaining({ low: 87, source: 'baseline' })
+    );
+    expect(effectiveLimits([], { oxygenSaturation: { mean: 88, sd: 4, hours: 96 } }).oxygenSaturation).toEqual(
+      expect.objectContaining({ low: 85, source: 'baseline' })
+    );
+  });
+
+  it('keeps the default for a senior whose usual readings lie within it', () => {
+    expect(effectiveLimits([], { heartRate: { mean: 70, sd: 5, hours: 96 } }).heartRate).toEqual({
+      low: 45,
+      high: 120,
+      forMinutes: 10,
+      source: 'default',
+    });
+  });
+});
+
+describe('evaluateVitalRules', () => {
+  it('alerts on SpO₂ under 90% for five minutes, and not for four', () => {
+    const five = buckets([88, 87, 88, 89, 88]);
+    const four = five.slice(1);
+
+    expect(matchedIds({ oxygenSaturation: five }, nowAfter(five))).toEqual(['oxygenSaturation-below']);
+    expect(matchedIds({ oxygenSaturation: four }, nowAfter(four))).toEqual([]);
+  });
+
+  it('does not count a minute with any reading at or over the limit', () => {
+    const series = buckets([88, 88, 88, 88, 88]);
+    series[1] = { ...series[1], count: 2, sum: 178, max: 90 };
+
+    expect(matchedIds({ oxygenSaturation: series }, nowAfter(series))).toEqual([]);
+  });
+
+  it('starts the run again after a gap in the readings', () => {
+    // Short gaps are bridged, a four-minute one is not
+    const bridged = buckets([88, null, 88, null, 88]);
+    const broken = buckets([88, 88, 88, null, null, null, 88, 88, 88]);
+
+    expect(matchedIds({ oxygenSaturation: bridged }, nowAfter(bridged))).toEqual(['oxygenSaturation-below']);
+    expect(matchedIds({ oxygenSaturation: broken }, nowAfter(broken))).toEqual([]);
+  });
+
+  it('ignores readings that are no longer recent', () => {
+    const series = buckets([88, 88, 88, 88, 88]);
+
+    expect(matchedIds({ oxygenSaturation: series }, nowAfter(series) + 15 * MINUTE_MS)).toEqual([]);
+  });
+
+  it('alerts on a heart rate that rises fast while the senior is resting', () => {
+    const heartRate = buckets([70, 71, 70, 72, 70, 71, null, null, 105]);
+
+    expect(matchedIds({ heartRate }, nowAfter(heartRate))).toEqual(['heartRate-rise']);
+  });
+
+  it('leaves a heart rate rise alone while the senior is walking', () => {
+    const heartRate = buckets([70, 71, 70, 72, 70, 71, null, null, 105]);
+    const steps = buckets([0, 0, 0, 0, 0, 40, 95, 110, 90]);
+
+    expect(matchedIds({ heartRate, steps }, nowAfter(heartRate))).toEqual([]);
+  });
+
+  it('does not excuse a fast fall because of walking', () => {
+    const heartRate = buckets([100, 101, 100, 102, 100, 60]);
+    const steps = buckets([90, 95, 100, 90, 80, 70]);
+
+    expect(matchedIds({ heartRate, steps }, nowAfter(heartRate))).toEqual(['heartRate-fall']);
+  });
+});
+
+describe('checkVitals', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  it('raises the alert for the family and shows it on this phone, once', async () => {
+    const oxygenSaturation = buckets([88, 87, 88, 89, 88]);
+    await writeStore('healthSeriesMinute', { oxygenSaturation });
+    const now = nowAfter(oxygenSaturation);
+
+    const alerts = await checkVitals(now);
+
+    expect(alerts.map(alert => alert.title)).toEqual(['Low blood oxygen']);
+    expect(await readStore('seniorAlerts')).toEqual(alerts);
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+      expect.objectContaining({ content: expect.objectContaining({ title: 'CareTrek: Low blood oxygen' }) })
+    );
+
+    // Still low a minute later, within the cooldown
+    expect(await checkVitals(now + MINUTE_MS)).toEqual([]);
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+  });
+});
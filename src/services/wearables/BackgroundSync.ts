@@ -0,0 +1,74 @@
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import { getPairedWearables } from './PairedWearables';
+import { syncPairedWearables } from './WearableSync';
+
+export const WEARABLE_SYNC_TASK = 'caretrek-wearable-sync';
+
+// The OS treats this as a lower bound and may run the task less often
+const SYNC_INTERVAL_SECONDS = 15 * 60;
+
+// iOS ends a background fetch after about 30 seconds. A background run skips
+// the listening window, relying on the watch's stored history instead, and
+// leaves a few seconds to store what it got.
+const BACKGROUND_BUDGET_MS = 22 * 1000;
+
+// Tasks must be defined when the JS bundle loads, so index.ts imports this
+// file; the OS may start the app headless just to run it
+TaskManager.defineTask(WEARABLE_SYNC_TASK, async () => {
+  try {
+    const { samples } = await syncPairedWearables({ listenMs: 0, budgetMs: BACKGROUND_BUDGET_MS });
+    return samples.length ? BackgroundFetch.BackgroundFetchResult.NewData : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error('Error in background wearable sync:', error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * Schedule the background sync, if the OS allows background fetch. Keeps
+ * running after the app is closed and after a reboot on Android.
+ */
+export const registerWearableSync = async (): Promise<boolean> => {
+  try {
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      console.warn('Background fetch is not available; wearable data only syncs while the app is open');
+      return false;
+    }
+    if (!(await TaskManager.isTaskRegisteredAsync(WEARABLE_SYNC_TASK))) {
+      await BackgroundFetch.registerTaskAsync(WEARABLE_SYNC_TASK, {
+        minimumInterval: SYNC_INTERVAL_SECONDS,
+        stopOnTerminate: false,
+        startOnBoot: true,
+      });
+    }
+    return true;
+  } catch (error) {
+    console.error('Error registering wearable sync:', error);
+    return false;
+  }
+};
+
+export const unregisterWearableSync = async (): Promise<void> => {
+  try {
+    if (await TaskManager.isTaskRegisteredAsync(WEARABLE_SYNC_TASK)) {
+      await BackgroundFetch.unregisterTaskAsync(WEARABLE_SYNC_TASK);
+    }
+  } catch (error) {
+    console.error('Error unregistering wearable sync:', error);
+  }
+};
+
+/**
+ * Register the task again on launch if a wearable is paired, e.g. after the
+ * app was reinstalled from a backup, and drop it once none are left
+ */
+export const restoreWearableSync = async (): Promise<void> => {
+  const paired = await getPairedWearables();
+  if (paired.some(device => device.transport === 'native')) {
+    await registerWearableSync();
+  } else {
+    await unregisterWearableSync();
+  }
+};
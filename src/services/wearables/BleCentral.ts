@@ -0,0 +1,56 @@
+import { ENV } from '../../config/env';
+import type { GattDevice } from './BlePlxSession';
+
+/**
+ * The parts of a react-native-ble-plx Device the app uses once connected.
+ * Simulated peripherals have the same shape.
+ */
+export interface CentralDevice extends GattDevice {
+  rssi: number | null;
+  cancelConnection: () => Promise<unknown>;
+  readRSSI: () => Promise<{ rssi: number | null }>;
+  onDisconnected: (listener: (error: Error | null, device: CentralDevice) => void) => { remove: () => void };
+}
+
+/**
+ * The parts of react-native-ble-plx's BleManager the app uses; GATT goes
+ * through the devices it returns
+ */
+export interface BleCentral {
+  startDeviceScan: (
+    uuids: string[] | null,
+    options: { allowDuplicates?: boolean } | null,
+    listener: (error: Error | null, device: CentralDevice | null) => void
+  ) => void;
+  stopDeviceScan: () => void;
+  // Connect to a device seen before, without scanning for it again
+  connectToDevice: (deviceId: string, options?: { timeout?: number }) => Promise<CentralDevice>;
+  isDeviceConnected: (deviceId: string) => Promise<boolean>;
+}
+
+let central: BleCentral | null = null;
+
+/**
+ * The real BLE stack, or with BLE_SIMULATOR set to one of SIMULATOR_SCENARIOS,
+ * simulated devices playing that scenario. Each is only loaded when selected.
+ */
+export const getBleCentral = (): BleCentral => {
+  if (!central) {
+    if (ENV.BLE_SIMULATOR) {
+      const simulator: typeof import('./simulator') = require('./simulator');
+      const scenario = simulator.SIMULATOR_SCENARIOS.find(name => name === ENV.BLE_SIMULATOR) ?? 'normal';
+      central = simulator.createSimulatedBleManager(simulator.createSimulatedDevices(scenario));
+    } else {
+      const { BleManager }: typeof import('react-native-ble-plx') = require('react-native-ble-plx');
+      central = new BleManager();
+    }
+  }
+  return central!;
+};
+
+/**
+ * Replace the central, e.g. with a simulated one in tests
+ */
+export const setBleCentral = (next: BleCentral): void => {
+  central = next;
+};
@@ -0,0 +1,126 @@
+import { WatchData, WearableMetric } from '../../types/wearables';
+import { GENERIC_DRIVER_TYPE, GattLink, WearableDriver, createNotificationRouter } from './WearableDriver';
+import { metricsForServices } from './StandardProfiles';
+import { base64ToBytes, bytesToBase64 } from './bytes';
+
+/**
+ * The part of a react-native-ble-plx Device the session uses. The BLE
+ * simulator implements the same shape, so simulated devices run through the
+ * exact code path real ones do.
+ */
+export interface GattDevice {
+  id: string;
+  name: string | null;
+  discoverAllServicesAndCharacteristics: () => Promise<unknown>;
+  services: () => Promise<Array<{ uuid: string }>>;
+  readCharacteristicForService: (serviceUuid: string, characteristicUuid: string) => Promise<{ value: string | null }>;
+  writeCharacteristicWithResponseForService: (
+    serviceUuid: string,
+    characteristicUuid: string,
+    valueBase64: string
+  ) => Promise<unknown>;
+  monitorCharacteristicForService: (
+    serviceUuid: string,
+    characteristicUuid: string,
+    listener: (error: Error | null, characteristic: { value: string | null } | null) => void
+  ) => { remove: () => void };
+}
+
+export interface BlePlxSession {
+  // Metrics this particular device offers, from the services it actually has
+  capabilities: WearableMetric[];
+  // For driver operations after setup, such as downloading history
+  link: GattLink;
+  // Read every readable characteristic again, e.g. on pull-to-refresh
+  refresh: () => Promise<void>;
+  stop: () => void;
+}
+
+/**
+ * Run a driver over a connected react-native-ble-plx device: subscribe to its
+ * notifications, run its handshake, then do the first reads. Parsed values
+ * are passed to `onData` as they arrive.
+ */
+export const startBlePlxSession = async (
+  device: GattDevice,
+  driver: WearableDriver,
+  onData: (data: Partial<WatchData>) => void
+): Promise<BlePlxSession> => {
+  await device.discoverAllServicesAndCharacteristics();
+  const discovered = (await device.services()).map(service => service.uuid.toLowerCase());
+
+  // Only touch characteristics whose service this device really has
+  const keys = Object.keys(driver.characteristics).filter(key =>
+    discovered.includes(driver.characteristics[key].serviceUuid)
+  );
+  const spec = (key: string) => {
+    if (!keys.includes(key)) {
+      throw new Error(`${device.name || 'Device'} does not support ${key}`);
+    }
+    return driver.characteristics[key];
+  };
+
+  const notifications = createNotificationRouter();
+  const handleValue = (key: string, base64: string | null | undefined) => {
+    if (!base64) return;
+    const value = base64ToBytes(base64);
+    notifications.deliver(key, value);
+    const parsed = driver.parse(key, value);
+    if (parsed) onData(parsed);
+  };
+
+  const subscriptions = keys
+    .filter(key => driver.characteristics[key].notify)
+    .map(key => {
+      const { serviceUuid, characteristicUuid } = driver.characteristics[key];
+      return device.monitorCharacteristicForService(serviceUuid, characteristicUuid, (error, characteristic) => {
+        if (error) {
+          console.error(`Error monitoring ${key}:`, error);
+          return;
+        }
+        handleValue(key, characteristic?.value);
+      });
+    });
+
+  const link: GattLink = {
+    deviceId: device.id,
+    waitForNotification: notifications.waitForNotification,
+    subscribe: notifications.subscribe,
+    read: async key => {
+      const { serviceUuid, characteristicUuid } = spec(key);
+      const characteristic = await device.readCharacteristicForService(serviceUuid, characteristicUuid);
+      const value = base64ToBytes(characteristic.value || '');
+      const parsed = driver.parse(key, value);
+      if (parsed) onData(parsed);
+      return value;
+    },
+    write: async (key, value) => {
+      const { serviceUuid, characteristicUuid } = spec(key);
+      await device.writeCharacteristicWithResponseForService(serviceUuid, characteristicUuid, bytesToBase64(value));
+    },
+  };
+
+  const refresh = async () => {
+    const readable = keys.filter(key => driver.characteristics[key].read);
+    await Promise.all(readable.map(key => link.read(key).catch(() => null)));
+  };
+
+  const stop = () => subscriptions.forEach(subscription => subscription.remove());
+
+  try {
+    await driver.authenticate?.(link);
+    await driver.start?.(link);
+    await refresh();
+  } catch (error) {
+    stop();
+    throw error;
+  }
+
+  // A named watch keeps its driver's list; a generic device is judged by its services
+  const serviceMetrics = metricsForServices(discovered);
+  const capabilities = driver.type === GENERIC_DRIVER_TYPE
+    ? driver.capabilities.filter(metric => serviceMetrics.includes(metric))
+    : driver.capabilities;
+
+  return { capabilities, link, refresh, stop };
+};
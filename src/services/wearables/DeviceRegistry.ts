@@ -0,0 +1,177 @@
+import { readStore, writeStore } from '../StorageService';
+import { PHONE_SOURCE } from '../FallDetection';
+import {
+  HealthSource,
+  MetricSourcePriority,
+  MetricValue,
+  SourcedReading,
+  WatchData,
+  WearableMetric,
+} from '../../types/wearables';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How long a reading still describes the senior. Steps, distance and calories
+// are totals for the day, so they last until midnight instead.
+const FRESH_FOR_MS: Record<Exclude<WearableMetric, 'steps' | 'distance' | 'calories'>, number> = {
+  heartRate: 10 * MINUTE_MS,
+  oxygenSaturation: 10 * MINUTE_MS,
+  battery: HOUR_MS,
+  bloodPressure: 24 * HOUR_MS,
+  temperature: 24 * HOUR_MS,
+  sleep: 24 * HOUR_MS,
+};
+
+// Latest reading of each metric, from whichever source is trusted for it
+export type MergedReadings = Partial<Record<WearableMetric, SourcedReading>>;
+
+export interface DeviceRegistry {
+  // Add a source, or update its name, status or metrics; false if nothing changed
+  upsert: (source: HealthSource) => boolean;
+  remove: (id: string) => boolean;
+  // Keep the metrics in `data` as the source's latest, stamped with `at`; returns those whose value changed
+  report: (sourceId: string, data: Partial<WatchData>, at?: Date) => SourcedReading[];
+  sources: () => HealthSource[];
+  readings: () => SourcedReading[];
+}
+
+const metricValue = (data: Partial<WatchData>, metric: WearableMetric): MetricValue | undefined =>
+  metric === 'sleep' ? data.sleepData : data[metric];
+
+const METRICS: WearableMetric[] = [
+  'heartRate',
+  'steps',
+  'calories',
+  'distance',
+  'battery',
+  'oxygenSaturation',
+  'bloodPressure',
+  'temperature',
+  'sleep',
+];
+
+/**
+ * Split a device's data into one reading per metric, each tagged with the
+ * device it came from.
+ */
+export const toSourcedReadings = (sourceId: string, data: Partial<WatchData>, at = new Date()): SourcedReading[] =>
+  METRICS.reduce<SourcedReading[]>((readings, metric) => {
+    const value = metricValue(data, metric);
+    if (value !== undefined && value !== null) {
+      readings.push({ metric, value, sourceId, timestamp: at.toISOString() });
+    }
+    return readings;
+  }, []);
+
+const sameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+export const isReadingFresh = (reading: SourcedReading, now = new Date()): boolean => {
+  const at = new Date(reading.timestamp);
+  if (reading.metric === 'steps' || reading.metric === 'distance' || reading.metric === 'calories') {
+    return sameDay(at, now);
+  }
+  return now.getTime() - at.getTime() <= FRESH_FOR_MS[reading.metric];
+};
+
+/**
+ * Keeps every source the app is getting readings from and each one's latest
+ * value of every metric, so several devices worn at once add up to one
+ * picture. Sources are only known while the app runs; priorities are saved.
+ */
+export const createDeviceRegistry = (): DeviceRegistry => {
+  const sources = new Map<string, HealthSource>();
+  // By source, then metric
+  const latest = new Map<string, Map<WearableMetric, SourcedReading>>();
+
+  return {
+    upsert: source => {
+      const existing = sources.get(source.id);
+      if (existing && JSON.stringify(existing) === JSON.stringify(source)) return false;
+      sources.set(source.id, source);
+      return true;
+    },
+    remove: id => {
+      latest.delete(id);
+      return sources.delete(id);
+    },
+    report: (sourceId, data, at = new Date()) => {
+      const bySource = latest.get(sourceId) || new Map<WearableMetric, SourcedReading>();
+      latest.set(sourceId, bySource);
+      return toSourcedReadings(sourceId, data, at).filter(reading => {
+        const previous = bySource.get(reading.metric);
+        bySource.set(reading.metric, reading);
+        return !previous || JSON.stringify(previous.value) !== JSON.stringify(reading.value);
+      });
+    },
+    sources: () => Array.from(sources.values()),
+    readings: () => Array.from(latest.values()).flatMap(bySource => Array.from(bySource.values())),
+  };
+};
+
+/**
+ * Where a source stands for a metric, most trusted lowest: those the senior
+ * ranked in their order, then any wearable, then the phone
+ */
+export const rankSource = (priority: MetricSourcePriority, metric: WearableMetric, sourceId: string): number => {
+  const ranked = priority[metric] || [];
+  const index = ranked.indexOf(sourceId);
+  if (index !== -1) return index;
+  return ranked.length + (sourceId === PHONE_SOURCE ? 1 : 0);
+};
+
+/**
+ * Pick one current reading per metric. Sources the senior ranked for that
+ * metric come first, in their order; after them a wearable beats the phone,
+ * whose steps are missed whenever it is put down, and then the newest wins.
+ * Readings too old to describe the senior now are passed over.
+ */
+export const mergeReadings = (
+  readings: SourcedReading[],
+  priority: MetricSourcePriority,
+  now = new Date()
+): MergedReadings => {
+  const rank = (reading: SourcedReading) => rankSource(priority, reading.metric, reading.sourceId);
+
+  return readings
+    .filter(reading => isReadingFresh(reading, now))
+    .reduce<MergedReadings>((merged, reading) => {
+      const current = merged[reading.metric];
+      const better = !current
+        || rank(reading) < rank(current)
+        || (rank(reading) === rank(current) && reading.timestamp > current.timestamp);
+      return better ? { ...merged, [reading.metric]: reading } : merged;
+    }, {});
+};
+
+/**
+ * Merged readings in the shape of one watch's data, for screens that show a
+ * single set of numbers.
+ */
+export const toWatchData = (merged: MergedReadings): Partial<WatchData> =>
+  Object.values(merged).reduce<Partial<WatchData>>((data, reading) => {
+    if (!reading) return data;
+    const field = reading.metric === 'sleep' ? 'sleepData' : reading.metric;
+    return {
+      ...data,
+      [field]: reading.value,
+      lastUpdated: !data.lastUpdated || reading.timestamp > data.lastUpdated ? reading.timestamp : data.lastUpdated,
+    };
+  }, {});
+
+export const getSourcePriority = async (): Promise<MetricSourcePriority> => readStore('metricSourcePriority');
+
+/**
+ * Rank the sources for one metric, most trusted first. Sources left out are
+ * used after the ranked ones.
+ */
+export const setSourcePriority = async (metric: WearableMetric, sourceIds: string[]): Promise<MetricSourcePriority> => {
+  const priority = { ...(await readStore('metricSourcePriority')), [metric]: sourceIds };
+  try {
+    await writeStore('metricSourcePriority', priority);
+  } catch (error) {
+    console.error('Error saving source priority:', error);
+  }
+  return priority;
+};
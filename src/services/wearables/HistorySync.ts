@@ -0,0 +1,171 @@
+import { clearStore, listShards, readStore, updateStore } from '../StorageService';
+import { historyToVitals, recordVitals } from '../HealthTimeSeries';
+import { GattLink, WearableDriver } from './WearableDriver';
+import { HistoryKind, HistorySample, SleepStage, WatchData } from '../../types/wearables';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The first download from a watch goes back this far
+const FIRST_DOWNLOAD_MS = 7 * DAY_MS;
+
+// Long enough for the month view
+const HISTORY_RETENTION_MS = 31 * DAY_MS;
+
+// History is saved one UTC day per key. A day is capped well under the 2MB
+// Android will read back from a single AsyncStorage value.
+const MAX_SAMPLES_PER_DAY = 10000;
+
+// Bounds one download, so a watch that keeps sending cannot hold the connection forever
+const MAX_PAGES = 50;
+
+const sampleKey = (sample: HistorySample) => `${sample.deviceId}|${sample.kind}|${sample.timestamp}`;
+
+const dayOf = (timestamp: string | number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// Merges are read-modify-write on the day shards, so they run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+// Add samples to one day's shard, skipping any already there. Returns the new ones.
+const addToDay = async (day: string, samples: HistorySample[]): Promise<HistorySample[]> => {
+  const added: HistorySample[] = [];
+  await updateStore(
+    'wearableHistory',
+    existing => {
+      const seen = new Set(existing.map(sampleKey));
+      samples.forEach(sample => {
+        const key = sampleKey(sample);
+        if (seen.has(key)) return;
+        seen.add(key);
+        added.push(sample);
+      });
+      return [...existing, ...added]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .slice(-MAX_SAMPLES_PER_DAY);
+    },
+    day
+  );
+  return added;
+};
+
+const groupByDay = (samples: HistorySample[]): Map<string, HistorySample[]> => {
+  const days = new Map<string, HistorySample[]>();
+  samples.forEach(sample => {
+    const time = new Date(sample.timestamp).getTime();
+    if (isNaN(time)) return;
+    const day = dayOf(time);
+    days.set(day, [...(days.get(day) || []), sample]);
+  });
+  return days;
+};
+
+let legacyMoved = false;
+
+/**
+ * Older installs kept all history in one value. Split it into day shards
+ * the first time history is touched, clearing it only once they are saved.
+ */
+const shardLegacyHistory = async (): Promise<void> => {
+  if (legacyMoved) return;
+  try {
+    const legacy = await readStore('wearableHistory');
+    if (legacy.length) {
+      for (const [day, samples] of groupByDay(legacy)) {
+        await addToDay(day, samples);
+      }
+      await clearStore('wearableHistory');
+    }
+    legacyMoved = true;
+  } catch (error) {
+    // Left where it is and tried again next time
+    console.error('Error moving saved history:', error);
+  }
+};
+
+/**
+ * Add downloaded samples, skipping any already stored. Returns how many were
+ * new. Throws if they could not be saved, so a download does not move past them.
+ */
+export const mergeHistory = (samples: HistorySample[]): Promise<number> => {
+  if (!samples.length) return Promise.resolve(0);
+  return enqueue(async () => {
+    await shardLegacyHistory();
+    const cutoff = dayOf(Date.now() - HISTORY_RETENTION_MS);
+    const added: HistorySample[] = [];
+    for (const [day, incoming] of groupByDay(samples)) {
+      if (day >= cutoff) added.push(...(await addToDay(day, incoming)));
+    }
+
+    // Days are named YYYY-MM-DD, so they sort by date
+    const expired = (await listShards('wearableHistory')).filter(day => day < cutoff);
+    await Promise.all(expired.map(day => clearStore('wearableHistory', day)));
+
+    if (added.length) await recordVitals(historyToVitals(added));
+    return added.length;
+  });
+};
+
+/**
+ * Download everything the watch has stored since the last download, a page
+ * at a time. Where to start is saved after every page, so a download cut
+ * short by a disconnect, or by reaching `deadline`, carries on from there
+ * next time. Returns how many new samples were stored.
+ */
+export const downloadHistory = async (
+  link: GattLink,
+  driver: WearableDriver,
+  deadline = Infinity
+): Promise<number> => {
+  if (!driver.fetchHistory) return 0;
+  const cursors = await readStore('wearableHistoryCursors');
+  const earliest = Date.now() - FIRST_DOWNLOAD_MS;
+  let since = new Date(Math.max(cursors[link.deviceId] ? new Date(cursors[link.deviceId]).getTime() : 0, earliest));
+  let added = 0;
+
+  try {
+    for (let page = 0; page < MAX_PAGES && Date.now() < deadline; page++) {
+      const { samples, next } = await driver.fetchHistory(link, since);
+      added += await mergeHistory(samples.map(sample => ({ ...sample, deviceId: link.deviceId })));
+      // A watch that does not move forward would otherwise be asked for the same page again
+      if (!next || next.getTime() <= since.getTime()) break;
+      since = next;
+      // Only once the page is saved, so a failed save is downloaded again
+      await updateStore('wearableHistoryCursors', saved => ({ ...saved, [link.deviceId]: since.toISOString() }));
+    }
+  } catch (error) {
+    console.error('Error downloading wearable history:', error);
+  }
+  return added;
+};
+
+/**
+ * Stored history of one kind, oldest first
+ */
+export const getHistory = async (kind: HistoryKind): Promise<HistorySample[]> => {
+  await enqueue(shardLegacyHistory);
+  const days = (await listShards('wearableHistory')).sort();
+  const shards = await Promise.all(days.map(day => readStore('wearableHistory', day)));
+  return shards.flat().filter(sample => sample.kind === kind);
+};
+
+/**
+ * Minutes in each sleep stage over the night that ended this morning, or
+ * undefined if the watch recorded no sleep
+ */
+export const lastNightSleep = (samples: HistorySample[], now = new Date()): WatchData['sleepData'] => {
+  const noon = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 12).getTime();
+  const to = Math.min(now.getTime(), noon);
+  const night = samples.filter(sample => {
+    const time = new Date(sample.timestamp).getTime();
+    return sample.kind === 'sleep' && time >= to - DAY_MS && time < to;
+  });
+  if (!night.length) return undefined;
+
+  const minutes = (stage: SleepStage) =>
+    night.filter(sample => sample.stage === stage).reduce((sum, sample) => sum + sample.value, 0);
+  return { deepSleep: minutes('deep'), lightSleep: minutes('light'), remSleep: minutes('rem'), awake: minutes('awake') };
+};
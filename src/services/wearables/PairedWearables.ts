@@ -0,0 +1,110 @@
+import { readStore, writeStore } from '../StorageService';
+import { ConnectionEvent, ConnectionQuality, PairedWearable } from '../../types/wearables';
+
+// Connection events are kept for this long, and never more than this many
+const HISTORY_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EVENTS = 500;
+
+// Quality is judged on the last day of events
+const QUALITY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const getPairedWearables = (): Promise<PairedWearable[]> => readStore('pairedWearables');
+
+/**
+ * Remember a device, or update it if it is already paired
+ */
+export const savePairedWearable = async (device: Omit<PairedWearable, 'pairedAt'>): Promise<void> => {
+  try {
+    const paired = await getPairedWearables();
+    const existing = paired.find(candidate => candidate.id === device.id);
+    const saved: PairedWearable = { ...existing, ...device, pairedAt: existing?.pairedAt || new Date().toISOString() };
+    await writeStore('pairedWearables', [...paired.filter(candidate => candidate.id !== device.id), saved]);
+  } catch (error) {
+    console.error('Error saving paired wearable:', error);
+  }
+};
+
+export const updatePairedWearable = async (id: string, changes: Partial<PairedWearable>): Promise<void> => {
+  try {
+    const paired = await getPairedWearables();
+    await writeStore(
+      'pairedWearables',
+      paired.map(device => (device.id === id ? { ...device, ...changes, id } : device))
+    );
+  } catch (error) {
+    console.error('Error updating paired wearable:', error);
+  }
+};
+
+export const forgetPairedWearable = async (id: string): Promise<void> => {
+  try {
+    const [paired, log] = await Promise.all([getPairedWearables(), readStore('wearableConnectionLog')]);
+    await writeStore('pairedWearables', paired.filter(device => device.id !== id));
+    await writeStore('wearableConnectionLog', log.filter(event => event.deviceId !== id));
+  } catch (error) {
+    console.error('Error forgetting paired wearable:', error);
+  }
+};
+
+/**
+ * Add to the connection history; a successful connection also becomes the
+ * device's last known signal strength
+ */
+export const logConnectionEvent = async (event: Omit<ConnectionEvent, 'at'>): Promise<void> => {
+  try {
+    const at = new Date().toISOString();
+    const cutoff = Date.now() - HISTORY_MS;
+    const log = (await readStore('wearableConnectionLog')).filter(entry => new Date(entry.at).getTime() >= cutoff);
+    await writeStore('wearableConnectionLog', [...log, { ...event, at }].slice(-MAX_EVENTS));
+
+    if (event.type === 'connected') {
+      await updatePairedWearable(event.deviceId, {
+        lastConnectedAt: at,
+        ...(event.rssi !== undefined && { rssi: event.rssi }),
+      });
+    }
+  } catch (error) {
+    console.error('Error logging connection event:', error);
+  }
+};
+
+export const getConnectionHistory = async (deviceId: string): Promise<ConnectionEvent[]> =>
+  (await readStore('wearableConnectionLog')).filter(event => event.deviceId === deviceId);
+
+/**
+ * Rate a device's recent connections. Good means it connects first time and
+ * stays connected with a usable signal; poor means it mostly fails or drops.
+ */
+export const summarizeConnectionQuality = (events: ConnectionEvent[], now = Date.now()): ConnectionQuality => {
+  const recent = events.filter(event => now - new Date(event.at).getTime() <= QUALITY_WINDOW_MS);
+  const connected = recent.filter(event => event.type === 'connected');
+  const failures = recent.filter(event => event.type === 'failed').length;
+  const drops = recent.filter(event => event.type === 'disconnected' && event.error).length;
+  const rssiValues = connected.map(event => event.rssi).filter((rssi): rssi is number => rssi !== undefined);
+  const averageRssi = rssiValues.length
+    ? Math.round(rssiValues.reduce((sum, rssi) => sum + rssi, 0) / rssiValues.length)
+    : undefined;
+  const attempts = connected.length + failures;
+
+  let rating: ConnectionQuality['rating'] = 'unknown';
+  if (attempts) {
+    const successRate = connected.length / attempts;
+    const dropRate = connected.length ? drops / connected.length : 1;
+    const weakSignal = averageRssi !== undefined && averageRssi < -85;
+    if (successRate >= 0.8 && dropRate <= 0.2 && !weakSignal) rating = 'good';
+    else if (successRate >= 0.5 && dropRate <= 0.5) rating = 'fair';
+    else rating = 'poor';
+  }
+
+  return {
+    attempts,
+    failures,
+    drops,
+    averageRssi,
+    lastConnectedAt: connected.length ? connected[connected.length - 1].at : undefined,
+    rating,
+  };
+};
+
+export const getConnectionQuality = async (deviceId: string): Promise<ConnectionQuality> =>
+  summarizeConnectionQuality(await getConnectionHistory(deviceId));
@@ -0,0 +1,73 @@
+export interface BackoffOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Each delay is randomly shortened by up to this fraction, so devices do not retry in step
+  jitter?: number;
+}
+
+const DEFAULT_BACKOFF: Required<BackoffOptions> = {
+  initialDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000,
+  jitter: 0.2,
+};
+
+/**
+ * Delay before retry number `attempt` (0 for the first retry): doubling from
+ * the initial delay up to the maximum
+ */
+export const backoffDelay = (attempt: number, options: BackoffOptions = {}, random = Math.random): number => {
+  const { initialDelayMs, maxDelayMs, jitter } = { ...DEFAULT_BACKOFF, ...options };
+  const delay = Math.min(initialDelayMs * Math.pow(2, attempt), maxDelayMs);
+  return Math.round(delay * (1 - jitter * random()));
+};
+
+export interface Reconnector {
+  // Try now, then keep retrying with backoff until an attempt succeeds
+  start: () => void;
+  stop: () => void;
+  isRunning: () => boolean;
+}
+
+/**
+ * Retry `connect` with exponential backoff until it resolves. Call `start`
+ * again after a later disconnect; the backoff begins afresh.
+ */
+export const createReconnector = (
+  connect: () => Promise<void>,
+  options: BackoffOptions & { onRetryScheduled?: (delayMs: number, attempt: number) => void } = {}
+): Reconnector => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start/stop so a late result from an old run is ignored
+  let run = 0;
+  let running = false;
+
+  const attempt = async (current: number, failures: number) => {
+    if (current !== run) return;
+    try {
+      await connect();
+      if (current === run) running = false;
+    } catch (error) {
+      if (current !== run) return;
+      const delay = backoffDelay(failures, options);
+      options.onRetryScheduled?.(delay, failures + 1);
+      timer = setTimeout(() => attempt(current, failures + 1), delay);
+    }
+  };
+
+  const stop = () => {
+    run++;
+    running = false;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  return {
+    start: () => {
+      stop();
+      running = true;
+      attempt(run, 0);
+    },
+    stop,
+    isRunning: () => running,
+  };
+};
@@ -0,0 +1,150 @@
+import { WatchData, WearableMetric } from '../../types/wearables';
+import { CharacteristicSpec, sigUuid } from './WearableDriver';
+import { readFloat, readSfloat, readUint16, readUint8, readUtf8 } from './bytes';
+
+// Bluetooth SIG services any compliant strap, cuff, oximeter or thermometer exposes
+export const HEART_RATE_SERVICE = sigUuid(0x180d);
+export const BATTERY_SERVICE = sigUuid(0x180f);
+export const DEVICE_INFO_SERVICE = sigUuid(0x180a);
+export const PULSE_OXIMETER_SERVICE = sigUuid(0x1822);
+export const BLOOD_PRESSURE_SERVICE = sigUuid(0x1810);
+export const HEALTH_THERMOMETER_SERVICE = sigUuid(0x1809);
+
+export const STANDARD_SERVICES = [
+  HEART_RATE_SERVICE,
+  BATTERY_SERVICE,
+  DEVICE_INFO_SERVICE,
+  PULSE_OXIMETER_SERVICE,
+  BLOOD_PRESSURE_SERVICE,
+  HEALTH_THERMOMETER_SERVICE,
+];
+
+// `notify` also covers indications; cuffs and thermometers indicate their readings
+export const STANDARD_CHARACTERISTICS: Record<string, CharacteristicSpec> = {
+  heartRate: { serviceUuid: HEART_RATE_SERVICE, characteristicUuid: sigUuid(0x2a37), notify: true },
+  battery: { serviceUuid: BATTERY_SERVICE, characteristicUuid: sigUuid(0x2a19), notify: true, read: true },
+  firmware: { serviceUuid: DEVICE_INFO_SERVICE, characteristicUuid: sigUuid(0x2a26), read: true },
+  hardware: { serviceUuid: DEVICE_INFO_SERVICE, characteristicUuid: sigUuid(0x2a27), read: true },
+  spo2SpotCheck: { serviceUuid: PULSE_OXIMETER_SERVICE, characteristicUuid: sigUuid(0x2a5e), notify: true },
+  spo2Continuous: { serviceUuid: PULSE_OXIMETER_SERVICE, characteristicUuid: sigUuid(0x2a5f), notify: true },
+  bloodPressure: { serviceUuid: BLOOD_PRESSURE_SERVICE, characteristicUuid: sigUuid(0x2a35), notify: true },
+  temperature: { serviceUuid: HEALTH_THERMOMETER_SERVICE, characteristicUuid: sigUuid(0x2a1c), notify: true },
+};
+
+// What each standard service can tell us, for devices we only know by their services
+const SERVICE_METRICS: Record<string, WearableMetric[]> = {
+  [HEART_RATE_SERVICE]: ['heartRate'],
+  [BATTERY_SERVICE]: ['battery'],
+  [PULSE_OXIMETER_SERVICE]: ['oxygenSaturation', 'heartRate'],
+  [BLOOD_PRESSURE_SERVICE]: ['bloodPressure'],
+  [HEALTH_THERMOMETER_SERVICE]: ['temperature'],
+};
+
+export const metricsForServices = (serviceUuids: string[]): WearableMetric[] => {
+  const metrics = serviceUuids.reduce<WearableMetric[]>(
+    (all, uuid) => all.concat(SERVICE_METRICS[uuid.toLowerCase()] || []),
+    []
+  );
+  return Array.from(new Set(metrics));
+};
+
+const KPA_TO_MMHG = 7.50062;
+
+// Anything faster is a corrupted packet rather than a pulse
+const MAX_HEART_RATE = 250;
+
+/**
+ * Heart Rate Measurement (0x2A37): flags, 8 or 16-bit rate, optional energy
+ * expended, then any number of RR intervals in 1/1024 s
+ */
+export const parseHeartRateMeasurement = (value: number[]): Partial<WatchData> | null => {
+  const flags = readUint8(value, 0);
+  if (flags === null) return null;
+
+  // Bits 1-2: contact detection is supported (bit 2) but the strap is not on the skin (bit 1 clear)
+  if ((flags & 0x06) === 0x04) return null;
+
+  const is16Bit = (flags & 0x01) !== 0;
+  const heartRate = is16Bit ? readUint16(value, 1) : readUint8(value, 1);
+  if (!heartRate || heartRate > MAX_HEART_RATE) return null;
+
+  let offset = is16Bit ? 3 : 2;
+  if (flags & 0x08) offset += 2;
+
+  const rrIntervals: number[] = [];
+  if (flags & 0x10) {
+    for (let rr = readUint16(value, offset); rr !== null; offset += 2, rr = readUint16(value, offset)) {
+      rrIntervals.push(Math.round((rr * 1000) / 1024));
+    }
+  }
+  return rrIntervals.length ? { heartRate, rrIntervals } : { heartRate };
+};
+
+/**
+ * PLX Spot-check (0x2A5E) and Continuous (0x2A5F) Measurement both start with
+ * flags, SpO2 and pulse rate as SFLOATs
+ */
+export const parsePulseOximetry = (value: number[]): Partial<WatchData> | null => {
+  const oxygenSaturation = readSfloat(value, 1);
+  const pulseRate = readSfloat(value, 3);
+  if (oxygenSaturation === null || oxygenSaturation <= 0 || oxygenSaturation > 100) return null;
+  return {
+    oxygenSaturation: Math.round(oxygenSaturation),
+    ...(pulseRate && { heartRate: Math.round(pulseRate) }),
+  };
+};
+
+/**
+ * Blood Pressure Measurement (0x2A35): flags, systolic, diastolic and mean
+ * arterial pressure, an optional time stamp, then an optional pulse rate
+ */
+export const parseBloodPressureMeasurement = (value: number[]): Partial<WatchData> | null => {
+  const flags = readUint8(value, 0);
+  const systolic = readSfloat(value, 1);
+  const diastolic = readSfloat(value, 3);
+  if (flags === null || systolic === null || diastolic === null) return null;
+
+  const toMmHg = (pressure: number) => Math.round(flags & 0x01 ? pressure * KPA_TO_MMHG : pressure);
+  const pulseOffset = flags & 0x02 ? 14 : 7;
+  const pulseRate = flags & 0x04 ? readSfloat(value, pulseOffset) : null;
+
+  return {
+    bloodPressure: { systolic: toMmHg(systolic), diastolic: toMmHg(diastolic) },
+    ...(pulseRate && { heartRate: Math.round(pulseRate) }),
+  };
+};
+
+/**
+ * Temperature Measurement (0x2A1C): flags then a FLOAT in °C or °F; stored in °C
+ */
+export const parseTemperatureMeasurement = (value: number[]): Partial<WatchData> | null => {
+  const flags = readUint8(value, 0);
+  const reading = readFloat(value, 1);
+  if (flags === null || reading === null) return null;
+  const celsius = flags & 0x01 ? ((reading - 32) * 5) / 9 : reading;
+  return { temperature: Math.round(celsius * 10) / 10 };
+};
+
+export const parseStandardCharacteristic = (key: string, value: number[]): Partial<WatchData> | null => {
+  switch (key) {
+    case 'heartRate':
+      return parseHeartRateMeasurement(value);
+    case 'battery': {
+      const battery = readUint8(value, 0);
+      return battery !== null && battery <= 100 ? { battery } : null;
+    }
+    case 'firmware':
+      return value.length ? { firmwareVersion: readUtf8(value) } : null;
+    case 'hardware':
+      return value.length ? { hardwareVersion: readUtf8(value) } : null;
+    case 'spo2SpotCheck':
+    case 'spo2Continuous':
+      return parsePulseOximetry(value);
+    case 'bloodPressure':
+      return parseBloodPressureMeasurement(value);
+    case 'temperature':
+      return parseTemperatureMeasurement(value);
+    default:
+      return null;
+  }
+};
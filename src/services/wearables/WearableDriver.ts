@@ -0,0 +1,160 @@
+import { AccelerationSample, DeviceType, HistorySample, WatchData, WearableMetric } from '../../types/wearables';
+
+// Expand a 16-bit Bluetooth SIG id such as 0x180d to the full 128-bit UUID
+export const sigUuid = (shortId: number): string =>
+  `0000${shortId.toString(16).padStart(4, '0')}-0000-1000-8000-00805f9b34fb`;
+
+export interface CharacteristicSpec {
+  serviceUuid: string;
+  characteristicUuid: string;
+  // Subscribe for notifications once connected
+  notify?: boolean;
+  // Read once after connecting (and on every sync)
+  read?: boolean;
+}
+
+/**
+ * The GATT operations a driver may use, addressed by the keys of its
+ * `characteristics` map. Values are plain byte arrays so they can cross the
+ * WebView bridge as JSON.
+ */
+export interface GattLink {
+  deviceId: string;
+  read: (key: string) => Promise<number[]>;
+  write: (key: string, value: number[]) => Promise<void>;
+  // Resolves with the next notification on `key`
+  waitForNotification: (key: string, timeoutMs?: number) => Promise<number[]>;
+  // Calls `listener` with every notification on `key` until the returned function is called
+  subscribe: (key: string, listener: (value: number[]) => void) => () => void;
+}
+
+/**
+ * One page of samples from the watch's memory. `next` is where the following
+ * page starts, or null once everything stored has been downloaded.
+ */
+export interface HistoryPage {
+  samples: Array<Omit<HistorySample, 'deviceId'>>;
+  next: Date | null;
+}
+
+/**
+ * Everything the app needs to talk to one family of watches. Drivers register
+ * themselves with `registerDriver`, so a new watch only needs a new driver file.
+ */
+export interface WearableDriver {
+  type: DeviceType;
+  name: string;
+  // Advertised-name prefixes used to pick this driver for a scanned device
+  namePrefixes: string[];
+  // Primary services to scan for and request access to
+  services: string[];
+  characteristics: Record<string, CharacteristicSpec>;
+  capabilities: WearableMetric[];
+  // Pairing / authentication handshake, run before anything is read
+  authenticate?: (link: GattLink) => Promise<void>;
+  // Commands that start measurements after authentication
+  start?: (link: GattLink) => Promise<void>;
+  // Turn a raw value from one characteristic into watch data, or null if it is not understood
+  parse: (key: string, value: number[]) => Partial<WatchData> | null;
+  // Download one page of stored samples recorded from `since` onwards
+  fetchHistory?: (link: GattLink, since: Date) => Promise<HistoryPage>;
+  // Start streaming raw accelerometer readings to `listener`; resolves with a function that stops it
+  streamAcceleration?: (link: GattLink, listener: (samples: AccelerationSample[]) => void) => Promise<() => void>;
+}
+
+/**
+ * The serialisable part of a driver, handed to the BLE transport
+ */
+export interface GattProfile {
+  type: DeviceType;
+  name: string;
+  services: string[];
+  characteristics: Record<string, CharacteristicSpec>;
+}
+
+export const GENERIC_DRIVER_TYPE = 'generic';
+
+const drivers = new Map<DeviceType, WearableDriver>();
+
+/**
+ * Add a driver, replacing any registered under the same type
+ */
+export const registerDriver = (driver: WearableDriver): void => {
+  drivers.set(driver.type, driver);
+};
+
+export const getDrivers = (): WearableDriver[] => Array.from(drivers.values());
+
+/**
+ * The driver for a type, falling back to the generic driver
+ */
+export const getDriver = (type?: DeviceType): WearableDriver => {
+  const driver = (type && drivers.get(type)) || drivers.get(GENERIC_DRIVER_TYPE);
+  if (!driver) {
+    throw new Error('No wearable drivers registered');
+  }
+  return driver;
+};
+
+/**
+ * Pick the driver whose name prefix matches an advertised device name
+ */
+export const findDriverForDevice = (deviceName?: string | null): WearableDriver => {
+  const name = (deviceName || '').toLowerCase();
+  const match = getDrivers().find(driver =>
+    driver.namePrefixes.some(prefix => name.startsWith(prefix.toLowerCase()))
+  );
+  return match || getDriver(GENERIC_DRIVER_TYPE);
+};
+
+export const toGattProfile = (driver: WearableDriver): GattProfile => ({
+  type: driver.type,
+  name: driver.name,
+  services: driver.services,
+  characteristics: driver.characteristics,
+});
+
+// How long a driver waits for a reply from the device during its handshake
+export const NOTIFICATION_TIMEOUT_MS = 5000;
+
+/**
+ * Hands incoming characteristic values to pending `waitForNotification`
+ * calls and `subscribe` listeners. Every transport uses one so drivers behave
+ * the same over each.
+ */
+export const createNotificationRouter = () => {
+  const waiters: Record<string, Array<(value: number[]) => void>> = {};
+  const listeners: Record<string, Array<(value: number[]) => void>> = {};
+
+  const waitForNotification = (key: string, timeoutMs = NOTIFICATION_TIMEOUT_MS) =>
+    new Promise<number[]>((resolve, reject) => {
+      const pending = (waiters[key] = waiters[key] || []);
+      const timer = setTimeout(() => {
+        pending.splice(pending.indexOf(done), 1);
+        reject(new Error('The device did not respond'));
+      }, timeoutMs);
+      const done = (value: number[]) => {
+        clearTimeout(timer);
+        resolve(value);
+      };
+      pending.push(done);
+    });
+
+  const subscribe = (key: string, listener: (value: number[]) => void) => {
+    const subscribed = (listeners[key] = listeners[key] || []);
+    subscribed.push(listener);
+    return () => {
+      const index = subscribed.indexOf(listener);
+      if (index >= 0) subscribed.splice(index, 1);
+    };
+  };
+
+  const deliver = (key: string, value: number[]) => {
+    const pending = waiters[key] || [];
+    waiters[key] = [];
+    pending.forEach(resolve => resolve(value));
+    (listeners[key] || []).slice().forEach(listener => listener(value));
+  };
+
+  return { waitForNotification, subscribe, deliver };
+};
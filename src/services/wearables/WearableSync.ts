@@ -0,0 +1,189 @@
+import { readStore, updateStore, writeStore } from '../StorageService';
+import { getBleCentral } from './BleCentral';
+import { startBlePlxSession } from './BlePlxSession';
+import { getPairedWearables, updatePairedWearable } from './PairedWearables';
+import { downloadHistory } from './HistorySync';
+import { readingToVitals, recordVitals } from '../HealthTimeSeries';
+import { LocalAlert, showLocalAlerts } from '../LocalAlerts';
+import { getDriver } from './index';
+import {
+  PairedWearable,
+  WatchData,
+  WearableReading,
+  WearableSample,
+} from '../../types/wearables';
+
+// How long a sync stays connected collecting notifications
+const LISTEN_MS = 20 * 1000;
+const CONNECT_TIMEOUT_MS = 15 * 1000;
+// Not worth starting a connection with less time than this left
+const MIN_CONNECT_MS = 5 * 1000;
+
+// Samples are kept for a week, and never more than this many
+const SAMPLE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SAMPLES = 5000;
+
+// Vitals are checked against the senior's limits by VitalRules; only a low
+// watch battery is alerted here
+const BATTERY_LOW = 15;
+// The same alert is not repeated within this window
+const ALERT_COOLDOWN_MS = 30 * 60 * 1000;
+
+const READING_KEYS: Array<keyof WearableReading> = [
+  'heartRate',
+  'steps',
+  'calories',
+  'distance',
+  'battery',
+  'oxygenSaturation',
+  'temperature',
+  'bloodPressure',
+];
+
+export type WearableAlert = LocalAlert;
+
+export interface WearableSyncOptions {
+  // How long to stay connected collecting notifications after the history download
+  listenMs?: number;
+  // No new connection or history page is started after this long
+  budgetMs?: number;
+}
+
+export interface WearableSyncResult {
+  samples: WearableSample[];
+  alerts: WearableAlert[];
+}
+
+/**
+ * Keep only the readings from a piece of watch data, or null if it has none
+ */
+export const toReading = (data: Partial<WatchData>): WearableReading | null => {
+  const reading: WearableReading = {};
+  READING_KEYS.forEach(key => {
+    if (data[key] !== undefined) {
+      (reading as Record<string, unknown>)[key] = data[key];
+    }
+  });
+  return Object.keys(reading).length ? reading : null;
+};
+
+// The foreground flush and a background sync both append, so appends run one at a time
+let sampleQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Append samples, dropping anything past the retention window
+ */
+export const recordSamples = (samples: WearableSample[]): Promise<void> => {
+  if (!samples.length) return sampleQueue;
+  sampleQueue = sampleQueue.then(async () => {
+    try {
+      const cutoff = Date.now() - SAMPLE_RETENTION_MS;
+      await updateStore('wearableSamples', existing =>
+        [...existing, ...samples]
+          .filter(sample => new Date(sample.timestamp).getTime() >= cutoff)
+          .slice(-MAX_SAMPLES)
+      );
+      await recordVitals(samples.flatMap(readingToVitals));
+    } catch (error) {
+      console.error('Error recording wearable samples:', error);
+    }
+  });
+  return sampleQueue;
+};
+
+export const getRecordedSamples = (): Promise<WearableSample[]> => readStore('wearableSamples');
+
+/**
+ * The alert for a reading of a low watch battery, or null
+ */
+export const checkBattery = ({ battery }: WearableReading): WearableAlert | null =>
+  battery !== undefined && battery < BATTERY_LOW
+    ? { key: 'batteryLow', title: 'Watch battery low', body: `The watch has ${battery}% battery left.` }
+    : null;
+
+// Alerts not already sent within the cooldown, shown as local notifications
+const notifyAlerts = async (alerts: WearableAlert[]): Promise<WearableAlert[]> => {
+  const lastSent = await readStore('wearableAlertTimes');
+  const now = Date.now();
+  const due = alerts.filter(alert => now - (lastSent[alert.key] || 0) >= ALERT_COOLDOWN_MS);
+  if (!due.length || !(await showLocalAlerts(due))) return [];
+
+  due.forEach(alert => {
+    lastSent[alert.key] = now;
+  });
+  await writeStore('wearableAlertTimes', lastSent);
+  return due;
+};
+
+// Connect to one device, collect what it sends for a while, then let it go
+const collectSamples = async (
+  paired: PairedWearable,
+  listenMs: number,
+  deadline: number
+): Promise<WearableSample[]> => {
+  const central = getBleCentral();
+  // The app already holds this connection
+  if (await central.isDeviceConnected(paired.id)) return [];
+
+  const device = await central.connectToDevice(paired.id, {
+    timeout: Math.min(CONNECT_TIMEOUT_MS, deadline - Date.now()),
+  });
+  const samples: WearableSample[] = [];
+  try {
+    const driver = getDriver(paired.deviceType);
+    const session = await startBlePlxSession(device, driver, data => {
+      const reading = toReading(data);
+      if (reading) {
+        samples.push({ ...reading, deviceId: paired.id, timestamp: new Date().toISOString() });
+      }
+    });
+    // Catch up on what the watch stored while it was out of reach
+    await downloadHistory(session.link, driver, deadline);
+    const listenFor = Math.min(listenMs, deadline - Date.now());
+    if (listenFor > 0) {
+      await new Promise(resolve => setTimeout(resolve, listenFor));
+    }
+    session.stop();
+  } finally {
+    await device.cancelConnection().catch(() => null);
+  }
+  return samples;
+};
+
+/**
+ * Connect to each paired wearable in turn, download its stored history,
+ * collect what it sends for a short while and store it, which checks the
+ * vitals against the senior's limits. A low battery is alerted here. Used by the background task, and safe to call
+ * from the foreground too. A device that cannot be reached, or is not
+ * reached within the budget, is skipped until the next run.
+ */
+export const syncPairedWearables = async ({
+  listenMs = LISTEN_MS,
+  budgetMs = Infinity,
+}: WearableSyncOptions = {}): Promise<WearableSyncResult> => {
+  const deadline = Date.now() + budgetMs;
+  const paired = (await getPairedWearables()).filter(device => device.transport === 'native');
+  const samples: WearableSample[] = [];
+
+  for (const device of paired) {
+    if (deadline - Date.now() < MIN_CONNECT_MS) {
+      console.warn(`Out of time for this sync; ${device.name} waits for the next one`);
+      break;
+    }
+    try {
+      samples.push(...(await collectSamples(device, listenMs, deadline)));
+      await updatePairedWearable(device.id, { lastSyncedAt: new Date().toISOString() });
+    } catch (error) {
+      console.error(`Error syncing ${device.name}:`, error);
+    }
+  }
+
+  await recordSamples(samples);
+
+  const alerts = samples.reduce<WearableAlert[]>((all, sample) => {
+    const alert = checkBattery(sample);
+    return alert && !all.some(existing => existing.key === alert.key) ? [...all, alert] : all;
+  }, []);
+
+  return { samples, alerts: await notifyAlerts(alerts) };
+};
@@ -0,0 +1,489 @@
+import { GattProfile } from './WearableDriver';
+
+/*
+ * Message protocol between the app and the Web Bluetooth page in the hidden
+ * WebView. The page's script is generated below from the same names and
+ * version as the native client, so the two sides cannot drift apart.
+ *
+ * - native -> page: { v, type: 'request', id, method, params }
+ * - page -> native: { v, type: 'response', id, ok: true, result } or { ..., ok: false, error: { code, message } }
+ * - page -> native: { v, type: 'event', event, payload }, not tied to a request
+ */
+
+// Bumped whenever a message changes shape; either side rejects any other version
+export const BRIDGE_VERSION = 1;
+
+// Name of the object the page script puts on `window`
+const BRIDGE_GLOBAL = 'caretrekBridge';
+
+export interface BridgeDevice {
+  id: string;
+  name: string;
+  rssi?: number;
+}
+
+// Calls the app makes into the page, with what each takes and answers
+export interface BridgeMethods {
+  // Let the senior pick a device; it is also announced with a deviceFound event
+  scan: { params: { profile: GattProfile }; result: { device: BridgeDevice } };
+  // A device from a scan or one the page was allowed before, otherwise the picker is shown
+  connect: { params: { profile: GattProfile; deviceId?: string }; result: { device: BridgeDevice } };
+  // Enable notifications for the profile's `notify` characteristics; answers with those that worked
+  subscribe: { params: { profile: GattProfile }; result: { keys: string[] } };
+  read: { params: { key: string }; result: { value: number[] } };
+  write: { params: { key: string; value: number[] }; result: null };
+  disconnect: { params: Record<string, never>; result: null };
+}
+
+// Messages the page sends on its own
+export interface BridgeEvents {
+  ready: { version: number; bluetooth: boolean };
+  deviceFound: { device: BridgeDevice };
+  characteristic: { key: string; value: number[] };
+  disconnected: { deviceId: string; error?: string };
+}
+
+export type BridgeMethod = keyof BridgeMethods;
+export type BridgeEventName = keyof BridgeEvents;
+
+export type BridgeErrorCode =
+  | 'timeout' // no answer in time
+  | 'protocol' // malformed message or another version
+  | 'closed' // the page went away before answering
+  | 'unsupported' // unknown method, or the device cannot do it
+  | 'bluetoothUnavailable' // no Web Bluetooth, or permission refused
+  | 'cancelled' // the senior closed the device picker
+  | 'notFound' // unknown device or characteristic
+  | 'notConnected'
+  | 'gatt'; // any other failure talking to the device
+
+export interface BridgeRequest<M extends BridgeMethod = BridgeMethod> {
+  v: number;
+  type: 'request';
+  id: string;
+  method: M;
+  params: BridgeMethods[M]['params'];
+}
+
+export type BridgeResponse =
+  | { v: number; type: 'response'; id: string; ok: true; result: unknown }
+  | { v: number; type: 'response'; id: string; ok: false; error: { code: BridgeErrorCode; message: string } };
+
+export type BridgeEvent<E extends BridgeEventName = BridgeEventName> = {
+  v: number;
+  type: 'event';
+  event: E;
+  payload: BridgeEvents[E];
+};
+
+export class BridgeError extends Error {
+  code: BridgeErrorCode;
+
+  constructor(code: BridgeErrorCode, message: string) {
+    super(message);
+    this.name = 'BridgeError';
+    this.code = code;
+    Object.setPrototypeOf(this, BridgeError.prototype);
+  }
+}
+
+export const isBridgeError = (error: unknown, code?: BridgeErrorCode): error is BridgeError =>
+  error instanceof BridgeError && (!code || error.code === code);
+
+// How long each call may take; scan and connect wait for the senior to pick a device
+const REQUEST_TIMEOUTS_MS: Record<BridgeMethod, number> = {
+  scan: 60 * 1000,
+  connect: 60 * 1000,
+  subscribe: 15 * 1000,
+  read: 10 * 1000,
+  write: 10 * 1000,
+  disconnect: 5 * 1000,
+};
+
+const ERROR_CODES: BridgeErrorCode[] = [
+  'timeout',
+  'protocol',
+  'closed',
+  'unsupported',
+  'bluetoothUnavailable',
+  'cancelled',
+  'notFound',
+  'notConnected',
+  'gatt',
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isByteArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(byte => Number.isInteger(byte) && byte >= 0 && byte <= 255);
+
+const isDevice = (value: unknown): value is BridgeDevice =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  (value.rssi === undefined || typeof value.rssi === 'number');
+
+const isErrorCode = (value: unknown): value is BridgeErrorCode => ERROR_CODES.some(code => code === value);
+
+const EVENT_SCHEMAS: { [E in BridgeEventName]: (payload: unknown) => payload is BridgeEvents[E] } = {
+  ready: (payload): payload is BridgeEvents['ready'] =>
+    isObject(payload) && typeof payload.version === 'number' && typeof payload.bluetooth === 'boolean',
+  deviceFound: (payload): payload is BridgeEvents['deviceFound'] => isObject(payload) && isDevice(payload.device),
+  characteristic: (payload): payload is BridgeEvents['characteristic'] =>
+    isObject(payload) && typeof payload.key === 'string' && isByteArray(payload.value),
+  disconnected: (payload): payload is BridgeEvents['disconnected'] =>
+    isObject(payload) &&
+    typeof payload.deviceId === 'string' &&
+    (payload.error === undefined || typeof payload.error === 'string'),
+};
+
+const isEventName = (value: unknown): value is BridgeEventName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, value);
+
+const RESULT_SCHEMAS: { [M in BridgeMethod]: (result: unknown) => result is BridgeMethods[M]['result'] } = {
+  scan: (result): result is BridgeMethods['scan']['result'] => isObject(result) && isDevice(result.device),
+  connect: (result): result is BridgeMethods['connect']['result'] => isObject(result) && isDevice(result.device),
+  subscribe: (result): result is BridgeMethods['subscribe']['result'] =>
+    isObject(result) && Array.isArray(result.keys) && result.keys.every(key => typeof key === 'string'),
+  read: (result): result is BridgeMethods['read']['result'] => isObject(result) && isByteArray(result.value),
+  write: (result): result is null => result === null,
+  disconnect: (result): result is null => result === null,
+};
+
+/**
+ * Check a message from the page against the protocol. Throws a BridgeError
+ * with code 'protocol' if it is not a response or event of this version.
+ * Response results are checked by the client, which knows the method.
+ */
+export const parseBridgeMessage = (raw: string): BridgeResponse | BridgeEvent => {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new BridgeError('protocol', 'Message from the page is not JSON');
+  }
+  if (!isObject(message) || message.v !== BRIDGE_VERSION) {
+    throw new BridgeError('protocol', `Expected a version ${BRIDGE_VERSION} message from the page`);
+  }
+
+  if (message.type === 'response' && typeof message.id === 'string' && typeof message.ok === 'boolean') {
+    if (message.ok) return message as BridgeResponse;
+    const { error } = message;
+    if (isObject(error) && isErrorCode(error.code) && typeof error.message === 'string') {
+      return message as BridgeResponse;
+    }
+  }
+
+  if (message.type === 'event' && isEventName(message.event)) {
+    if (EVENT_SCHEMAS[message.event](message.payload)) return message as BridgeEvent;
+  }
+
+  throw new BridgeError('protocol', `Malformed ${String(message.type)} message from the page`);
+};
+
+// Messages the page sends, for anything that speaks the page side (the simulator does)
+export const bridgeResult = <M extends BridgeMethod>(id: string, result: BridgeMethods[M]['result']): BridgeResponse => ({
+  v: BRIDGE_VERSION,
+  type: 'response',
+  id,
+  ok: true,
+  result,
+});
+
+export const bridgeFailure = (id: string, code: BridgeErrorCode, message: string): BridgeResponse => ({
+  v: BRIDGE_VERSION,
+  type: 'response',
+  id,
+  ok: false,
+  error: { code, message },
+});
+
+export const bridgeEvent = <E extends BridgeEventName>(event: E, payload: BridgeEvents[E]): BridgeEvent<E> => ({
+  v: BRIDGE_VERSION,
+  type: 'event',
+  event,
+  payload,
+});
+
+/**
+ * The JavaScript that hands a request to the page. The request is embedded
+ * as a JSON string literal, never spliced into code.
+ */
+export const toInjectedScript = (request: BridgeRequest): string =>
+  `window.${BRIDGE_GLOBAL} && window.${BRIDGE_GLOBAL}.receive(${JSON.stringify(JSON.stringify(request))});\ntrue;`;
+
+export interface BridgeClient {
+  request: <M extends BridgeMethod>(
+    method: M,
+    params: BridgeMethods[M]['params'],
+    timeoutMs?: number
+  ) => Promise<BridgeMethods[M]['result']>;
+  // Feed every message the WebView posts in here
+  receive: (raw: string) => void;
+  on: <E extends BridgeEventName>(event: E, listener: (payload: BridgeEvents[E]) => void) => () => void;
+  // Fail every request still waiting, e.g. when the page reloads and will never answer them
+  reset: (reason: string) => void;
+}
+
+/**
+ * The app's side of the protocol. `send` delivers a request to the page,
+ * normally by injecting `toInjectedScript(request)` into the WebView.
+ */
+export const createBridgeClient = (send: (request: BridgeRequest) => void): BridgeClient => {
+  const pending = new Map<string, {
+    // Checks the result against the method's schema before resolving
+    resolve: (result: unknown) => void;
+    reject: (error: BridgeError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  }>();
+  const listeners: { [E in BridgeEventName]?: Array<(payload: BridgeEvents[E]) => void> } = {};
+  let nextId = 0;
+
+  const request: BridgeClient['request'] = (method, params, timeoutMs = REQUEST_TIMEOUTS_MS[method]) =>
+    new Promise((resolve, reject) => {
+      const id = `${Date.now().toString(36)}-${nextId++}`;
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new BridgeError('timeout', `The page did not answer ${method} in time`));
+      }, timeoutMs);
+      const isResult = RESULT_SCHEMAS[method];
+      pending.set(id, {
+        resolve: result =>
+          isResult(result)
+            ? resolve(result)
+            : reject(new BridgeError('protocol', `Malformed result for ${method} from the page`)),
+        reject,
+        timer,
+      });
+
+      try {
+        send({ v: BRIDGE_VERSION, type: 'request', id, method, params });
+      } catch (error) {
+        clearTimeout(timer);
+        pending.delete(id);
+        reject(new BridgeError('closed', error instanceof Error ? error.message : 'Could not reach the page'));
+      }
+    });
+
+  const settle = (response: BridgeResponse) => {
+    const call = pending.get(response.id);
+    // Already timed out, or from before a reset
+    if (!call) return;
+    clearTimeout(call.timer);
+    pending.delete(response.id);
+
+    if (response.ok) {
+      call.resolve(response.result);
+    } else {
+      call.reject(new BridgeError(response.error.code, response.error.message));
+    }
+  };
+
+  const receive = (raw: string) => {
+    let message: BridgeResponse | BridgeEvent;
+    try {
+      message = parseBridgeMessage(raw);
+    } catch (error) {
+      console.warn('Ignoring message from the BLE page:', error);
+      return;
+    }
+    if (message.type === 'response') {
+      settle(message);
+    } else {
+      (listeners[message.event] || []).slice().forEach(listener => (listener as (payload: unknown) => void)(message.payload));
+    }
+  };
+
+  const on: BridgeClient['on'] = (event, listener) => {
+    const subscribed = (listeners[event] = listeners[event] || []) as Array<typeof listener>;
+    subscribed.push(listener);
+    return () => {
+      const index = subscribed.indexOf(listener);
+      if (index >= 0) subscribed.splice(index, 1);
+    };
+  };
+
+  const reset = (reason: string) => {
+    pending.forEach(call => {
+      clearTimeout(call.timer);
+      call.reject(new BridgeError('closed', reason));
+    });
+    pending.clear();
+  };
+
+  return { request, receive, on, reset };
+};
+
+// Names spliced into the page script below are checked against the types above
+const method = (name: BridgeMethod) => JSON.stringify(name);
+const event = (name: BridgeEventName) => JSON.stringify(name);
+const code = (name: BridgeErrorCode) => JSON.stringify(name);
+
+/**
+ * The page side of the protocol, on Web Bluetooth. Plain ES2017 so it runs
+ * in any WebView; it only ever receives data through `receive`.
+ */
+export const BRIDGE_PAGE_SCRIPT = `(function () {
+  var VERSION = ${BRIDGE_VERSION};
+  var state = { devices: {}, device: null, server: null, characteristics: {}, stopNotifications: [] };
+
+  var post = function (message) {
+    message.v = VERSION;
+    window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  };
+  var emit = function (name, payload) { post({ type: 'event', event: name, payload: payload }); };
+  var fail = function (errorCode, message) {
+    var error = new Error(message);
+    error.bridgeCode = errorCode;
+    return error;
+  };
+  var codeFor = function (error) {
+    if (error && error.bridgeCode) return error.bridgeCode;
+    switch (error && error.name) {
+      case 'NotFoundError': return ${code('cancelled')};
+      case 'NotSupportedError': return ${code('unsupported')};
+      case 'NetworkError': return ${code('notConnected')};
+      case 'SecurityError':
+      case 'NotAllowedError': return ${code('bluetoothUnavailable')};
+      default: return ${code('gatt')};
+    }
+  };
+
+  var bluetooth = function () {
+    if (!navigator.bluetooth) throw fail(${code('bluetoothUnavailable')}, 'Bluetooth is not available in this WebView');
+    return navigator.bluetooth;
+  };
+  var describe = function (device) { return { id: device.id, name: device.name || 'Unknown Device' }; };
+  var remember = function (device) {
+    if (!state.devices[device.id]) {
+      state.devices[device.id] = device;
+      device.addEventListener('gattserverdisconnected', function () {
+        if (state.device === device) {
+          state.server = null;
+          state.characteristics = {};
+        }
+        emit(${event('disconnected')}, { deviceId: device.id });
+      });
+    }
+    return device;
+  };
+  var choose = function (profile) {
+    return bluetooth().requestDevice({ acceptAllDevices: true, optionalServices: profile.services }).then(function (device) {
+      remember(device);
+      emit(${event('deviceFound')}, { device: describe(device) });
+      return device;
+    });
+  };
+  var find = function (profile, deviceId) {
+    if (!deviceId) return choose(profile);
+    if (state.devices[deviceId]) return Promise.resolve(state.devices[deviceId]);
+    // Devices allowed on an earlier visit reconnect without the picker, where the WebView supports it
+    var known = bluetooth().getDevices ? bluetooth().getDevices() : Promise.resolve([]);
+    return known.then(function (devices) {
+      var match = devices.filter(function (device) { return device.id === deviceId; })[0];
+      if (!match) throw fail(${code('notFound')}, 'Device not found. Please scan again.');
+      return remember(match);
+    });
+  };
+  var toBytes = function (view) {
+    return Array.prototype.slice.call(new Uint8Array(view.buffer, view.byteOffset, view.byteLength));
+  };
+  // Not every device has every characteristic in its profile; missing ones are skipped
+  var resolveCharacteristics = function (profile) {
+    if (!state.server || !state.server.connected) {
+      return Promise.reject(fail(${code('notConnected')}, 'The device is not connected'));
+    }
+    var server = state.server;
+    var found = {};
+    return Promise.all(Object.keys(profile.characteristics).map(function (key) {
+      var spec = profile.characteristics[key];
+      return server.getPrimaryService(spec.serviceUuid)
+        .then(function (service) { return service.getCharacteristic(spec.characteristicUuid); })
+        .then(function (characteristic) { found[key] = { characteristic: characteristic, spec: spec }; })
+        .catch(function () {});
+    })).then(function () { state.characteristics = found; });
+  };
+  var characteristic = function (key) {
+    var entry = state.characteristics[key];
+    if (!entry) throw fail(${code('notFound')}, 'The device does not support ' + key);
+    return entry.characteristic;
+  };
+
+  var methods = {};
+  methods[${method('scan')}] = function (params) {
+    return choose(params.profile).then(function (device) { return { device: describe(device) }; });
+  };
+  methods[${method('connect')}] = function (params) {
+    return find(params.profile, params.deviceId)
+      .then(function (device) {
+        state.device = device;
+        return device.gatt.connect();
+      })
+      .then(function (server) {
+        state.server = server;
+        return resolveCharacteristics(params.profile);
+      })
+      .then(function () { return { device: describe(state.device) }; });
+  };
+  methods[${method('subscribe')}] = function (params) {
+    state.stopNotifications.forEach(function (stop) { stop(); });
+    state.stopNotifications = [];
+    return resolveCharacteristics(params.profile).then(function () {
+      var keys = Object.keys(state.characteristics).filter(function (key) { return state.characteristics[key].spec.notify; });
+      return Promise.all(keys.map(function (key) {
+        var target = state.characteristics[key].characteristic;
+        var listener = function (e) { emit(${event('characteristic')}, { key: key, value: toBytes(e.target.value) }); };
+        target.addEventListener('characteristicvaluechanged', listener);
+        state.stopNotifications.push(function () { target.removeEventListener('characteristicvaluechanged', listener); });
+        return target.startNotifications().then(function () { return key; }, function () { return null; });
+      }));
+    }).then(function (keys) {
+      return { keys: keys.filter(function (key) { return key !== null; }) };
+    });
+  };
+  methods[${method('read')}] = function (params) {
+    return characteristic(params.key).readValue().then(function (value) { return { value: toBytes(value) }; });
+  };
+  methods[${method('write')}] = function (params) {
+    var target = characteristic(params.key);
+    var bytes = new Uint8Array(params.value);
+    return (target.writeValueWithResponse ? target.writeValueWithResponse(bytes) : target.writeValue(bytes))
+      .then(function () { return null; });
+  };
+  methods[${method('disconnect')}] = function () {
+    if (state.device && state.device.gatt.connected) state.device.gatt.disconnect();
+    return Promise.resolve(null);
+  };
+
+  window.${BRIDGE_GLOBAL} = {
+    receive: function (raw) {
+      var message;
+      try { message = JSON.parse(raw); } catch (error) { return; }
+      if (!message || message.type !== 'request' || typeof message.id !== 'string') return;
+      var respond = function (response) {
+        response.type = 'response';
+        response.id = message.id;
+        post(response);
+      };
+      if (message.v !== VERSION) {
+        return respond({ ok: false, error: { code: ${code('protocol')}, message: 'Bridge version ' + message.v + ' is not supported' } });
+      }
+      var handler = Object.prototype.hasOwnProperty.call(methods, message.method) && methods[message.method];
+      if (!handler) {
+        return respond({ ok: false, error: { code: ${code('unsupported')}, message: 'Unknown method ' + message.method } });
+      }
+      Promise.resolve()
+        .then(function () { return handler(message.params || {}); })
+        .then(function (result) { respond({ ok: true, result: result === undefined ? null : result }); })
+        .catch(function (error) {
+          respond({ ok: false, error: { code: codeFor(error), message: (error && error.message) || String(error) } });
+        });
+    }
+  };
+
+  emit(${event('ready')}, { version: VERSION, bluetooth: !!navigator.bluetooth });
+})();`;
+
+// The whole page loaded into the hidden WebView
+export const BRIDGE_PAGE_HTML = `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1.0"><script>${BRIDGE_PAGE_SCRIPT}</script></head><body></body></html>`;
@@ -0,0 +1,86 @@
+import type AsyncStorageModule from '@react-native-async-storage/async-storage';
+import type * as HistorySyncModule from '../HistorySync';
+import type * as StorageServiceModule from '../../StorageService';
+import { GattLink, WearableDriver } from '../WearableDriver';
+import { HistorySample } from '../../../types/wearables';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const sample = (timestamp: string, value = 70): HistorySample => ({
+  deviceId: 'watch-1',
+  kind: 'heartRate',
+  timestamp,
+  durationSec: 60,
+  value,
+});
+
+const daysAgo = (days: number, hour = 12) => {
+  const date = new Date(Date.now() - days * DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date.toISOString();
+};
+
+describe('HistorySync', () => {
+  let AsyncStorage: typeof AsyncStorageModule;
+  let downloadHistory: typeof HistorySyncModule.downloadHistory;
+  let getHistory: typeof HistorySyncModule.getHistory;
+  let mergeHistory: typeof HistorySyncModule.mergeHistory;
+  let listShards: typeof StorageServiceModule.listShards;
+  let readStore: typeof StorageServiceModule.readStore;
+  let writeStore: typeof StorageServiceModule.writeStore;
+
+  // Fresh modules each time, so the one-off move of unsharded history runs again
+  beforeEach(() => {
+    jest.resetModules();
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+    ({ downloadHistory, getHistory, mergeHistory } = require('../HistorySync'));
+    ({ listShards, readStore, writeStore } = require('../../StorageService'));
+  });
+
+  it('saves each day under its own key and skips repeats', async () => {
+    const samples = [sample(daysAgo(2)), sample(daysAgo(1)), sample(daysAgo(1, 13))];
+
+    expect(await mergeHistory(samples)).toBe(3);
+    expect(await mergeHistory(samples)).toBe(0);
+
+    expect((await listShards('wearableHistory')).sort()).toEqual([daysAgo(2).slice(0, 10), daysAgo(1).slice(0, 10)]);
+    expect(await getHistory('heartRate')).toEqual(samples);
+  });
+
+  it('drops days past the retention window', async () => {
+    await writeStore('wearableHistory', [sample(daysAgo(40))], daysAgo(40).slice(0, 10));
+
+    await mergeHistory([sample(daysAgo(0)), sample(daysAgo(35))]);
+
+    expect(await listShards('wearableHistory')).toEqual([daysAgo(0).slice(0, 10)]);
+  });
+
+  it('moves history saved in one value into day shards', async () => {
+    const legacy = [sample(daysAgo(3)), sample(daysAgo(2))];
+    await writeStore('wearableHistory', legacy);
+
+    expect(await getHistory('heartRate')).toEqual(legacy);
+    expect(await readStore('wearableHistory')).toEqual([]);
+    expect(await listShards('wearableHistory')).toHaveLength(2);
+  });
+
+  it('does not move the download cursor past a page that failed to save', async () => {
+    const link = { deviceId: 'watch-1' } as GattLink;
+    const next = new Date(Date.now() - DAY_MS);
+    const driver = {
+      fetchHistory: jest.fn().mockResolvedValue({ samples: [sample(daysAgo(1))], next }),
+    } as unknown as WearableDriver;
+    const day = daysAgo(1).slice(0, 10);
+    const { getItem } = AsyncStorage;
+    const failingRead = jest
+      .spyOn(AsyncStorage, 'getItem')
+      .mockImplementation(key => (key.endsWith(day) ? Promise.reject(new Error('Row too big')) : getItem(key)));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await downloadHistory(link, driver)).toBe(0);
+    expect(await readStore('wearableHistoryCursors')).toEqual({});
+
+    failingRead.mockRestore();
+    consoleError.mockRestore();
+  });
+});
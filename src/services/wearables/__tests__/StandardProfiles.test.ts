@@ -0,0 +1,126 @@
+import { readFloat, readSfloat } from '../bytes';
+import {
+  parseBloodPressureMeasurement,
+  parseHeartRateMeasurement,
+  parsePulseOximetry,
+  parseStandardCharacteristic,
+  parseTemperatureMeasurement,
+} from '../StandardProfiles';
+
+// Byte vectors follow the Bluetooth SIG characteristic layouts, little-endian
+
+describe('IEEE-11073 numbers', () => {
+  it('reads SFLOATs', () => {
+    expect(readSfloat([0x78, 0x00], 0)).toBe(120);
+    // Mantissa 365, exponent -1
+    expect(readSfloat([0x6d, 0xf1], 0)).toBe(36.5);
+    // Mantissa -15, exponent -1
+    expect(readSfloat([0xf1, 0xff], 0)).toBe(-1.5);
+  });
+
+  it('treats the SFLOAT special values as no reading', () => {
+    // NaN, NRes, +INFINITY, -INFINITY
+    [[0xff, 0x07], [0x00, 0x08], [0xfe, 0x07], [0x02, 0x08]].forEach(bytes => {
+      expect(readSfloat(bytes, 0)).toBeNull();
+    });
+    expect(readSfloat([0x78], 0)).toBeNull();
+  });
+
+  it('reads FLOATs', () => {
+    // Mantissa 364, exponent -1
+    expect(readFloat([0x6c, 0x01, 0x00, 0xff], 0)).toBe(36.4);
+    // Mantissa -5, exponent 2
+    expect(readFloat([0xfb, 0xff, 0xff, 0x02], 0)).toBe(-500);
+    expect(readFloat([0xff, 0xff, 0x7f, 0x00], 0)).toBeNull();
+  });
+});
+
+describe('parseHeartRateMeasurement', () => {
+  it('reads an 8-bit rate', () => {
+    expect(parseHeartRateMeasurement([0x00, 0x48])).toEqual({ heartRate: 72 });
+  });
+
+  it('reads a 16-bit rate, skips the energy expended and converts RR intervals to ms', () => {
+    // Flags: 16-bit rate, energy expended present, RR intervals present
+    const value = [0x19, 0x48, 0x00, 0x10, 0x00, 0x00, 0x04, 0x00, 0x02];
+
+    expect(parseHeartRateMeasurement(value)).toEqual({ heartRate: 72, rrIntervals: [1000, 500] });
+  });
+
+  it('drops readings from a strap that is not on the skin', () => {
+    expect(parseHeartRateMeasurement([0x04, 0x48])).toBeNull();
+    expect(parseHeartRateMeasurement([0x06, 0x48])).toEqual({ heartRate: 72 });
+  });
+
+  it('drops impossible rates', () => {
+    expect(parseHeartRateMeasurement([0x00, 0x00])).toBeNull();
+    expect(parseHeartRateMeasurement([0x01, 0x2c, 0x01])).toBeNull();
+  });
+});
+
+describe('parsePulseOximetry', () => {
+  it('reads SpO2 and pulse rate from a spot-check', () => {
+    expect(parsePulseOximetry([0x00, 0x61, 0x00, 0x48, 0x00])).toEqual({ oxygenSaturation: 97, heartRate: 72 });
+  });
+
+  it('leaves out a pulse rate the oximeter could not measure', () => {
+    expect(parsePulseOximetry([0x00, 0x61, 0x00, 0xff, 0x07])).toEqual({ oxygenSaturation: 97 });
+  });
+
+  it('drops saturations outside 0-100%', () => {
+    expect(parsePulseOximetry([0x00, 0x00, 0x00, 0x48, 0x00])).toBeNull();
+    expect(parsePulseOximetry([0x00, 0x65, 0x00, 0x48, 0x00])).toBeNull();
+  });
+
+  it('is used for continuous measurements too', () => {
+    expect(parseStandardCharacteristic('spo2Continuous', [0x00, 0x62, 0x00, 0x40, 0x00])).toEqual({
+      oxygenSaturation: 98,
+      heartRate: 64,
+    });
+  });
+});
+
+describe('parseBloodPressureMeasurement', () => {
+  it('reads systolic and diastolic in mmHg', () => {
+    // 120/80, mean arterial pressure 93
+    const value = [0x00, 0x78, 0x00, 0x50, 0x00, 0x5d, 0x00];
+
+    expect(parseBloodPressureMeasurement(value)).toEqual({ bloodPressure: { systolic: 120, diastolic: 80 } });
+  });
+
+  it('converts kPa and finds the pulse rate after the time stamp', () => {
+    // Flags: kPa, time stamp present, pulse rate present
+    const value = [
+      0x07,
+      0xa0, 0xf0, // 16.0 kPa
+      0x6b, 0xf0, // 10.7 kPa
+      0x85, 0xf0, // 13.3 kPa
+      0xe9, 0x07, 0x05, 0x0a, 0x08, 0x1e, 0x00, // 2025-05-10 08:30:00
+      0x40, 0x00, // 64 bpm
+    ];
+
+    expect(parseBloodPressureMeasurement(value)).toEqual({
+      bloodPressure: { systolic: 120, diastolic: 80 },
+      heartRate: 64,
+    });
+  });
+
+  it('drops a truncated measurement', () => {
+    expect(parseBloodPressureMeasurement([0x00, 0x78, 0x00])).toBeNull();
+  });
+});
+
+describe('parseTemperatureMeasurement', () => {
+  it('reads Celsius', () => {
+    expect(parseTemperatureMeasurement([0x00, 0x6c, 0x01, 0x00, 0xff])).toEqual({ temperature: 36.4 });
+  });
+
+  it('converts Fahrenheit to Celsius', () => {
+    // 98.6 °F
+    expect(parseTemperatureMeasurement([0x01, 0xda, 0x03, 0x00, 0xff])).toEqual({ temperature: 37 });
+  });
+
+  it('drops a reading the thermometer marked as not a number', () => {
+    expect(parseTemperatureMeasurement([0x00, 0xff, 0xff, 0x7f, 0x00])).toBeNull();
+  });
+});
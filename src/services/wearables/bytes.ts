@@ -0,0 +1,81 @@
+// Little-endian readers for GATT payloads; they return null past the end of the value
+
+export const readUint8 = (value: number[], offset: number): number | null =>
+  offset < value.length ? value[offset] : null;
+
+export const readUint16 = (value: number[], offset: number): number | null =>
+  offset + 2 <= value.length ? value[offset] | (value[offset + 1] << 8) : null;
+
+export const readInt16 = (value: number[], offset: number): number | null => {
+  const raw = readUint16(value, offset);
+  return raw === null ? null : (raw << 16) >> 16;
+};
+
+export const readUint24 = (value: number[], offset: number): number | null =>
+  offset + 3 <= value.length ? value[offset] | (value[offset + 1] << 8) | (value[offset + 2] << 16) : null;
+
+export const readUint32 = (value: number[], offset: number): number | null =>
+  offset + 4 <= value.length
+    ? (value[offset] | (value[offset + 1] << 8) | (value[offset + 2] << 16) | (value[offset + 3] << 24)) >>> 0
+    : null;
+
+export const readUtf8 = (value: number[]): string => {
+  try {
+    return decodeURIComponent(escape(String.fromCharCode(...value))).replace(/\0+$/, '');
+  } catch {
+    return String.fromCharCode(...value).replace(/\0+$/, '');
+  }
+};
+
+// IEEE-11073 16-bit SFLOAT: 4-bit signed exponent, 12-bit signed mantissa.
+// NaN, NRes, ±infinity and the reserved value all come back as null.
+export const readSfloat = (value: number[], offset: number): number | null => {
+  const raw = readUint16(value, offset);
+  if (raw === null || (raw >= 0x07fe && raw <= 0x0802)) return null;
+  let mantissa = raw & 0x0fff;
+  let exponent = raw >> 12;
+  if (mantissa >= 0x0800) mantissa -= 0x1000;
+  if (exponent >= 0x08) exponent -= 0x10;
+  return Number((mantissa * Math.pow(10, exponent)).toFixed(Math.max(-exponent, 0)));
+};
+
+// IEEE-11073 32-bit FLOAT: 8-bit signed exponent, 24-bit signed mantissa, same special values
+export const readFloat = (value: number[], offset: number): number | null => {
+  const raw = readUint32(value, offset);
+  if (raw === null) return null;
+  let mantissa = raw & 0x00ffffff;
+  let exponent = raw >>> 24;
+  if (exponent === 0 && mantissa >= 0x007ffffe && mantissa <= 0x00800002) return null;
+  if (mantissa >= 0x00800000) mantissa -= 0x01000000;
+  if (exponent >= 0x80) exponent -= 0x100;
+  return Number((mantissa * Math.pow(10, exponent)).toFixed(Math.max(-exponent, 0)));
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// react-native-ble-plx hands characteristic values over as base64
+export const base64ToBytes = (base64: string): number[] => {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of base64.replace(/[^A-Za-z0-9+/]/g, '')) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: number[]): string => {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? BASE64_ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+};
@@ -0,0 +1,33 @@
+import { registerDriver, sigUuid } from '../WearableDriver';
+import { readUint24 } from '../bytes';
+import { STANDARD_CHARACTERISTICS, STANDARD_SERVICES, parseStandardCharacteristic } from '../StandardProfiles';
+
+// FireBolt watches use the Da Fit (MOYOUNG) protocol
+const MOYOUNG_SERVICE = sigUuid(0xfeea);
+
+registerDriver({
+  type: 'firebolt',
+  name: 'FireBolt',
+  namePrefixes: ['Fire-Boltt', 'FireBoltt', 'Fire-Bolt', 'FireBolt', 'BSW'],
+  services: [MOYOUNG_SERVICE, ...STANDARD_SERVICES],
+  characteristics: {
+    ...STANDARD_CHARACTERISTICS,
+    steps: { serviceUuid: MOYOUNG_SERVICE, characteristicUuid: sigUuid(0xfee1), notify: true, read: true },
+  },
+  capabilities: ['heartRate', 'steps', 'distance', 'calories', 'battery'],
+  parse: (key, value) => {
+    if (key !== 'steps') {
+      return parseStandardCharacteristic(key, value);
+    }
+    // Three 24-bit counters: steps, metres, kcal
+    const steps = readUint24(value, 0);
+    const distance = readUint24(value, 3);
+    const calories = readUint24(value, 6);
+    if (steps === null) return null;
+    return {
+      steps,
+      ...(distance !== null && { distance }),
+      ...(calories !== null && { calories }),
+    };
+  },
+});
@@ -0,0 +1,13 @@
+import { GENERIC_DRIVER_TYPE, registerDriver } from '../WearableDriver';
+import { STANDARD_CHARACTERISTICS, STANDARD_SERVICES, parseStandardCharacteristic } from '../StandardProfiles';
+
+// Any watch, chest strap, cuff, oximeter or thermometer that speaks the standard profiles
+registerDriver({
+  type: GENERIC_DRIVER_TYPE,
+  name: 'Other Device',
+  namePrefixes: [],
+  services: STANDARD_SERVICES,
+  characteristics: STANDARD_CHARACTERISTICS,
+  capabilities: ['heartRate', 'battery', 'oxygenSaturation', 'bloodPressure', 'temperature'],
+  parse: parseStandardCharacteristic,
+});
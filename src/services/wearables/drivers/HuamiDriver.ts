@@ -0,0 +1,267 @@
+import * as SecureStore from 'expo-secure-store';
+import { getRandomBytes } from 'expo-crypto';
+import { GattLink, HistoryPage, WearableDriver, registerDriver, sigUuid } from '../WearableDriver';
+import { readInt16, readUint16, readUint32, readUint8 } from '../bytes';
+import { STANDARD_CHARACTERISTICS, STANDARD_SERVICES, parseStandardCharacteristic } from '../StandardProfiles';
+import { aes128EncryptBlock } from '../../../utils/aes';
+import { sha256 } from '../../../utils/hmac';
+import { AccelerationSample, SleepStage } from '../../../types/wearables';
+
+// Mi Band 2/3 and Amazfit Bip/Cor share Huami's protocol
+const HUAMI_SERVICE = sigUuid(0xfee0);
+const HUAMI_AUTH_SERVICE = sigUuid(0xfee1);
+const huamiUuid = (id: number) => `0000${id.toString(16).padStart(4, '0')}-0000-3512-2118-0009af100700`;
+
+// Auth commands and the [0x10, command, status] responses to them
+const AUTH_SEND_KEY = 0x01;
+const AUTH_REQUEST_RANDOM = 0x02;
+const AUTH_SEND_ENCRYPTED = 0x03;
+const AUTH_SUCCESS = 0x01;
+const AUTH_RESPONSE = 0x10;
+
+// Pairing waits for the senior to tap the band
+const PAIRING_TIMEOUT_MS = 30 * 1000;
+const AUTH_TIMEOUT_MS = 5 * 1000;
+
+// Start continuous heart rate measurement on the standard control point
+const HR_CONTINUOUS_ON = [0x15, 0x01, 0x01];
+
+// History download: ask for activity from a date on the fetch characteristic,
+// the band answers with how many minutes it holds and from when, then streams
+// them on activityData once told to start
+const FETCH_START = 0x01;
+const FETCH_DATA = 0x02;
+const FETCH_ACTIVITY = 0x01;
+const FETCH_RESPONSE = 0x10;
+const FETCH_SUCCESS = 0x01;
+const FETCH_REPLY_TIMEOUT_MS = 10 * 1000;
+// The band may hold days of data; this bounds the whole stream, not each packet
+const FETCH_STREAM_TIMEOUT_MS = 60 * 1000;
+
+// Each minute is [activity kind, intensity, steps, heart rate]
+const RECORD_SIZE = 4;
+const NO_HEART_RATE = 0xff;
+const SLEEP_KINDS: Record<number, SleepStage> = { 0x09: 'light', 0x0b: 'deep' };
+
+const MINUTE_MS = 60 * 1000;
+
+// Raw sensor stream: enable the accelerometer on sensorControl, then start it.
+// Packets on sensorData are [0x01, counter] followed by x, y, z as signed
+// 16-bit values, several readings at 25 Hz per packet.
+const SENSOR_ENABLE_ACCELEROMETER = [0x01, 0x01, 0x19];
+const SENSOR_START = [0x02];
+const SENSOR_STOP = [0x03];
+const SENSOR_ACCELERATION = 0x01;
+const ACCELERATION_UNITS_PER_G = 4096;
+const ACCELERATION_INTERVAL_MS = 40;
+
+const keyStoreName = async (deviceId: string) => `caretrek_huami_key_${(await sha256(deviceId)).slice(0, 16)}`;
+
+const randomKey = () => Array.from(getRandomBytes(16));
+
+const expectResponse = async (link: GattLink, command: number, timeoutMs: number): Promise<number[]> => {
+  const response = await link.waitForNotification('auth', timeoutMs);
+  if (response[0] !== AUTH_RESPONSE || response[1] !== command) {
+    throw new Error('Unexpected reply from the band during pairing');
+  }
+  return response;
+};
+
+// Answer the band's random challenge; false means the band no longer knows our key
+const proveKey = async (link: GattLink, key: number[]): Promise<boolean> => {
+  await link.write('auth', [AUTH_REQUEST_RANDOM, 0x00]);
+  const challenge = await expectResponse(link, AUTH_REQUEST_RANDOM, AUTH_TIMEOUT_MS);
+  if (challenge[2] !== AUTH_SUCCESS) return false;
+
+  await link.write('auth', [AUTH_SEND_ENCRYPTED, 0x00, ...aes128EncryptBlock(key, challenge.slice(3, 19))]);
+  const result = await expectResponse(link, AUTH_SEND_ENCRYPTED, AUTH_TIMEOUT_MS);
+  return result[2] === AUTH_SUCCESS;
+};
+
+/**
+ * Huami bands only talk to a phone that proves it holds the key agreed at
+ * pairing. We keep one key per band in SecureStore and pair again (tap on the
+ * band) if there is none or the band has been reset. Newer models (Mi Band 4+)
+ * need a key issued by the Zepp cloud and are not supported.
+ */
+const authenticate = async (link: GattLink): Promise<void> => {
+  const storeName = await keyStoreName(link.deviceId);
+  const saved = await SecureStore.getItemAsync(storeName);
+  if (saved && (await proveKey(link, JSON.parse(saved)))) return;
+
+  const key = randomKey();
+  await link.write('auth', [AUTH_SEND_KEY, 0x00, ...key]);
+  const paired = await expectResponse(link, AUTH_SEND_KEY, PAIRING_TIMEOUT_MS);
+  if (paired[2] !== AUTH_SUCCESS || !(await proveKey(link, key))) {
+    throw new Error('Pairing was not confirmed on the band. Tap the band when it vibrates.');
+  }
+  await SecureStore.setItemAsync(storeName, JSON.stringify(key));
+};
+
+// The band keeps local time: [year (2 bytes), month, day, hour, minute, offset in quarter hours]
+const encodeHuamiTime = (date: Date): number[] => {
+  const year = date.getFullYear();
+  const offset = Math.round(-date.getTimezoneOffset() / 15);
+  return [year & 0xff, year >> 8, date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), offset & 0xff];
+};
+
+const decodeHuamiTime = (value: number[], offset: number): Date | null => {
+  const year = readUint16(value, offset);
+  if (year === null || value.length < offset + 6) return null;
+  return new Date(year, value[offset + 2] - 1, value[offset + 3], value[offset + 4], value[offset + 5]);
+};
+
+// One sample per minute for steps and heart rate; runs of the same sleep stage become one sample
+const toHistorySamples = (records: number[], start: Date): HistoryPage['samples'] => {
+  const samples: HistoryPage['samples'] = [];
+  let sleep = null as HistoryPage['samples'][number] | null;
+
+  for (let minute = 0; minute < Math.floor(records.length / RECORD_SIZE); minute++) {
+    const [kind, , steps, heartRate] = records.slice(minute * RECORD_SIZE, (minute + 1) * RECORD_SIZE);
+    const timestamp = new Date(start.getTime() + minute * MINUTE_MS).toISOString();
+    if (steps > 0) {
+      samples.push({ kind: 'steps', timestamp, durationSec: 60, value: steps });
+    }
+    if (heartRate > 0 && heartRate !== NO_HEART_RATE) {
+      samples.push({ kind: 'heartRate', timestamp, durationSec: 60, value: heartRate });
+    }
+
+    const stage = SLEEP_KINDS[kind];
+    if (stage && sleep?.stage === stage) {
+      sleep.durationSec += 60;
+      sleep.value += 1;
+    } else if (stage) {
+      sleep = { kind: 'sleep', timestamp, durationSec: 60, value: 1, stage };
+      samples.push(sleep);
+    } else {
+      sleep = null;
+    }
+  }
+  return samples;
+};
+
+/**
+ * Download the minutes the band has stored since `since`. The band decides
+ * how much one fetch returns, so the next page starts after the last minute
+ * received.
+ */
+const fetchHistory = async (link: GattLink, since: Date): Promise<HistoryPage> => {
+  await link.write('fetch', [FETCH_START, FETCH_ACTIVITY, ...encodeHuamiTime(since)]);
+  const reply = await link.waitForNotification('fetch', FETCH_REPLY_TIMEOUT_MS);
+  if (reply[0] !== FETCH_RESPONSE || reply[1] !== FETCH_START) {
+    throw new Error('Unexpected reply from the band during history download');
+  }
+  const count = readUint32(reply, 3);
+  const start = decodeHuamiTime(reply, 7);
+  if (reply[2] !== FETCH_SUCCESS || !count || !start) return { samples: [], next: null };
+
+  // Each packet is a sequence number followed by whole records
+  const records: number[] = [];
+  const unsubscribe = link.subscribe('activityData', packet => records.push(...packet.slice(1)));
+  try {
+    await link.write('fetch', [FETCH_DATA]);
+    const done = await link.waitForNotification('fetch', FETCH_STREAM_TIMEOUT_MS);
+    if (done[0] !== FETCH_RESPONSE || done[1] !== FETCH_DATA || done[2] !== FETCH_SUCCESS) {
+      throw new Error('The band stopped sending its history');
+    }
+  } finally {
+    unsubscribe();
+  }
+
+  const minutes = Math.floor(records.length / RECORD_SIZE);
+  return {
+    samples: toHistorySamples(records, start),
+    next: minutes ? new Date(start.getTime() + minutes * MINUTE_MS) : null,
+  };
+};
+
+// Readings carry no time of their own, so the last one in a packet is taken as now
+const toAccelerationSamples = (packet: number[], receivedAt: number): AccelerationSample[] => {
+  if (packet[0] !== SENSOR_ACCELERATION) return [];
+  const count = Math.floor((packet.length - 2) / 6);
+  return Array.from({ length: count }, (_, index) => ({
+    x: readInt16(packet, 2 + index * 6)! / ACCELERATION_UNITS_PER_G,
+    y: readInt16(packet, 4 + index * 6)! / ACCELERATION_UNITS_PER_G,
+    z: readInt16(packet, 6 + index * 6)! / ACCELERATION_UNITS_PER_G,
+    timestamp: receivedAt - (count - 1 - index) * ACCELERATION_INTERVAL_MS,
+  }));
+};
+
+const streamAcceleration = async (
+  link: GattLink,
+  listener: (samples: AccelerationSample[]) => void
+): Promise<() => void> => {
+  const unsubscribe = link.subscribe('sensorData', packet => {
+    const samples = toAccelerationSamples(packet, Date.now());
+    if (samples.length) listener(samples);
+  });
+  try {
+    await link.write('sensorControl', SENSOR_ENABLE_ACCELEROMETER);
+    await link.write('sensorControl', SENSOR_START);
+  } catch (error) {
+    unsubscribe();
+    throw error;
+  }
+  return () => {
+    unsubscribe();
+    // The band may already be gone
+    link.write('sensorControl', SENSOR_STOP).catch(() => null);
+  };
+};
+
+const createHuamiDriver = (type: string, name: string, namePrefixes: string[]): WearableDriver => ({
+  type,
+  name,
+  namePrefixes,
+  services: [HUAMI_SERVICE, HUAMI_AUTH_SERVICE, ...STANDARD_SERVICES],
+  characteristics: {
+    ...STANDARD_CHARACTERISTICS,
+    // Huami reports battery on its own characteristic, not the standard one
+    battery: { serviceUuid: HUAMI_SERVICE, characteristicUuid: huamiUuid(0x0006), notify: true, read: true },
+    steps: { serviceUuid: HUAMI_SERVICE, characteristicUuid: huamiUuid(0x0007), notify: true, read: true },
+    auth: { serviceUuid: HUAMI_AUTH_SERVICE, characteristicUuid: huamiUuid(0x0009), notify: true },
+    fetch: { serviceUuid: HUAMI_SERVICE, characteristicUuid: huamiUuid(0x0004), notify: true },
+    activityData: { serviceUuid: HUAMI_SERVICE, characteristicUuid: huamiUuid(0x0005), notify: true },
+    sensorControl: { serviceUuid: HUAMI_SERVICE, characteristicUuid: huamiUuid(0x0001) },
+    sensorData: { serviceUuid: HUAMI_SERVICE, characteristicUuid: huamiUuid(0x0002), notify: true },
+    heartRateControl: { serviceUuid: sigUuid(0x180d), characteristicUuid: sigUuid(0x2a39) },
+  },
+  capabilities: ['heartRate', 'steps', 'distance', 'calories', 'battery', 'sleep'],
+  authenticate,
+  start: link => link.write('heartRateControl', HR_CONTINUOUS_ON),
+  fetchHistory,
+  streamAcceleration,
+  parse: (key, value) => {
+    switch (key) {
+      case 'battery': {
+        const battery = readUint8(value, 1);
+        return battery !== null && battery <= 100 ? { battery } : null;
+      }
+      case 'steps': {
+        // [0x0c, steps, distance, calories]; Mi Band 2 sends a 16-bit step count only
+        if (value[0] !== 0x0c) return null;
+        if (value.length < 13) {
+          const steps = readUint16(value, 1);
+          return steps !== null ? { steps } : null;
+        }
+        return {
+          steps: readUint32(value, 1)!,
+          distance: readUint32(value, 5)!,
+          calories: readUint32(value, 9)!,
+        };
+      }
+      case 'auth':
+      case 'heartRateControl':
+      case 'fetch':
+      case 'activityData':
+      case 'sensorControl':
+      case 'sensorData':
+        return null;
+      default:
+        return parseStandardCharacteristic(key, value);
+    }
+  },
+});
+
+registerDriver(createHuamiDriver('miband', 'Mi Band', ['Mi Band', 'Mi Smart Band']));
+registerDriver(createHuamiDriver('amazfit', 'Amazfit', ['Amazfit']));
@@ -0,0 +1,6 @@
+// Importing a driver registers it; add new watches here
+import './drivers/GenericDriver';
+import './drivers/FireBoltDriver';
+import './drivers/HuamiDriver';
+
+export * from './WearableDriver';
@@ -0,0 +1,59 @@
+import { VirtualPeripheral } from './VirtualPeripheral';
+
+type ScanListener = (error: Error | null, device: VirtualPeripheral | null) => void;
+
+// Gap between simulated advertisements, so the device list fills in like a real scan
+const ADVERTISE_INTERVAL_MS = 300;
+
+/**
+ * Stands in for react-native-ble-plx's BleManager, "discovering" the given
+ * peripherals. Scanning with service UUIDs only finds peripherals that
+ * offer one of them, as on a real phone.
+ */
+export const createSimulatedBleManager = (peripherals: VirtualPeripheral[]) => {
+  let timers: Array<ReturnType<typeof setTimeout>> = [];
+
+  const stopDeviceScan = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+  };
+
+  const startDeviceScan = (uuids: string[] | null, _options: unknown, listener: ScanListener) => {
+    stopDeviceScan();
+    const wanted = (uuids || []).map(uuid => uuid.toLowerCase());
+
+    peripherals.forEach((peripheral, index) => {
+      timers.push(
+        setTimeout(async () => {
+          if (wanted.length) {
+            const services = (await peripheral.services()).map(service => service.uuid);
+            if (!services.some(uuid => wanted.includes(uuid))) return;
+          }
+          listener(null, peripheral);
+        }, (index + 1) * ADVERTISE_INTERVAL_MS)
+      );
+    });
+  };
+
+  const connectToDevice = async (deviceId: string) => {
+    const peripheral = peripherals.find(candidate => candidate.id === deviceId);
+    if (!peripheral) {
+      throw new Error(`Device ${deviceId} is not in range`);
+    }
+    return peripheral.connect();
+  };
+
+  const isDeviceConnected = async (deviceId: string) => {
+    const peripheral = peripherals.find(candidate => candidate.id === deviceId);
+    return peripheral ? peripheral.isConnected() : false;
+  };
+
+  return {
+    startDeviceScan,
+    stopDeviceScan,
+    connectToDevice,
+    isDeviceConnected,
+    state: async () => 'PoweredOn',
+    destroy: stopDeviceScan,
+  };
+};
@@ -0,0 +1,217 @@
+import { GattDevice } from '../BlePlxSession';
+import { base64ToBytes, bytesToBase64 } from '../bytes';
+
+// Initial characteristic values, by service then characteristic UUID
+export type GattTable = Record<string, Record<string, number[]>>;
+
+export interface GattWrite {
+  serviceUuid: string;
+  characteristicUuid: string;
+  value: number[];
+}
+
+export type ScenarioStep =
+  | { at: number; notify: GattWrite }
+  | { at: number; setValue: GattWrite }
+  | { at: number; disconnect: string };
+
+/**
+ * A timed script of what a peripheral does, with `at` in ms from the start
+ */
+export interface Scenario {
+  name: string;
+  steps: ScenarioStep[];
+  // Length of the script when looped; defaults to the time of the last step
+  durationMs?: number;
+}
+
+export interface ScenarioPlayback {
+  stop: () => void;
+  // Resolves once the last step has run
+  done: Promise<void>;
+}
+
+type MonitorListener = (error: Error | null, characteristic: { value: string | null } | null) => void;
+type DisconnectListener = (error: Error | null, device: VirtualPeripheral) => void;
+
+export interface VirtualPeripheral extends GattDevice {
+  rssi: number;
+  // Every write the app has made, oldest first
+  writes: GattWrite[];
+  connect: () => Promise<VirtualPeripheral>;
+  cancelConnection: () => Promise<VirtualPeripheral>;
+  isConnected: () => Promise<boolean>;
+  readRSSI: () => Promise<VirtualPeripheral>;
+  onDisconnected: (listener: DisconnectListener) => { remove: () => void };
+  // Controls for scenarios and tests
+  notify: (serviceUuid: string, characteristicUuid: string, value: number[]) => void;
+  setValue: (serviceUuid: string, characteristicUuid: string, value: number[]) => void;
+  disconnect: (reason?: string) => void;
+  // `speed` 10 runs the script ten times faster; `loop` starts it again when it ends
+  play: (scenario: Scenario, options?: { speed?: number; loop?: boolean }) => ScenarioPlayback;
+}
+
+export interface VirtualPeripheralOptions {
+  id: string;
+  name: string;
+  rssi?: number;
+  services: GattTable;
+  // Called each time the app connects, e.g. to start playing a scenario
+  onConnect?: (peripheral: VirtualPeripheral) => void;
+  // Reply to writes from the app, e.g. to act out a pairing handshake
+  onWrite?: (peripheral: VirtualPeripheral, write: GattWrite) => void;
+}
+
+const slot = (serviceUuid: string, characteristicUuid: string) =>
+  `${serviceUuid.toLowerCase()}/${characteristicUuid.toLowerCase()}`;
+
+/**
+ * An in-memory BLE peripheral with the same methods the app calls on a
+ * react-native-ble-plx Device. It has no React Native dependencies, so it
+ * runs under Jest as well as in the app.
+ */
+export const createVirtualPeripheral = (options: VirtualPeripheralOptions): VirtualPeripheral => {
+  const values = new Map<string, number[]>();
+  const monitors = new Map<string, Set<MonitorListener>>();
+  const disconnectListeners = new Set<DisconnectListener>();
+  let connected = false;
+
+  Object.keys(options.services).forEach(serviceUuid => {
+    Object.keys(options.services[serviceUuid]).forEach(characteristicUuid => {
+      values.set(slot(serviceUuid, characteristicUuid), options.services[serviceUuid][characteristicUuid]);
+    });
+  });
+
+  // Like ble-plx, open monitors end with the error and onDisconnected fires;
+  // a disconnect the app asked for carries no error
+  const dropConnection = (error: Error | null) => {
+    if (!connected) return;
+    connected = false;
+    if (error) {
+      monitors.forEach(listeners => listeners.forEach(listener => listener(error, null)));
+    }
+    monitors.clear();
+    disconnectListeners.forEach(listener => listener(error, peripheral));
+  };
+
+  const requireCharacteristic = (serviceUuid: string, characteristicUuid: string) => {
+    if (!connected) {
+      throw new Error(`${options.name} is not connected`);
+    }
+    const key = slot(serviceUuid, characteristicUuid);
+    if (!values.has(key)) {
+      throw new Error(`${options.name} has no characteristic ${characteristicUuid}`);
+    }
+    return key;
+  };
+
+  const peripheral: VirtualPeripheral = {
+    id: options.id,
+    name: options.name,
+    rssi: options.rssi ?? -60,
+    writes: [],
+
+    connect: async () => {
+      if (!connected) {
+        connected = true;
+        options.onConnect?.(peripheral);
+      }
+      return peripheral;
+    },
+    cancelConnection: async () => {
+      dropConnection(null);
+      return peripheral;
+    },
+    isConnected: async () => connected,
+    readRSSI: async () => {
+      if (!connected) throw new Error(`${options.name} is not connected`);
+      return peripheral;
+    },
+    onDisconnected: listener => {
+      disconnectListeners.add(listener);
+      return { remove: () => disconnectListeners.delete(listener) };
+    },
+
+    discoverAllServicesAndCharacteristics: async () => {
+      if (!connected) throw new Error(`${options.name} is not connected`);
+      return peripheral;
+    },
+    services: async () => Object.keys(options.services).map(uuid => ({ uuid: uuid.toLowerCase() })),
+
+    readCharacteristicForService: async (serviceUuid, characteristicUuid) => {
+      const key = requireCharacteristic(serviceUuid, characteristicUuid);
+      return { value: bytesToBase64(values.get(key)!) };
+    },
+    writeCharacteristicWithResponseForService: async (serviceUuid, characteristicUuid, valueBase64) => {
+      const key = requireCharacteristic(serviceUuid, characteristicUuid);
+      const write = { serviceUuid, characteristicUuid, value: base64ToBytes(valueBase64) };
+      values.set(key, write.value);
+      peripheral.writes.push(write);
+      // Reply on the next tick, as a real device would
+      setTimeout(() => options.onWrite?.(peripheral, write), 0);
+      return peripheral;
+    },
+    monitorCharacteristicForService: (serviceUuid, characteristicUuid, listener) => {
+      let key: string;
+      try {
+        key = requireCharacteristic(serviceUuid, characteristicUuid);
+      } catch (error) {
+        // ble-plx reports a failed subscription through the listener, not by throwing
+        setTimeout(() => listener(error as Error, null), 0);
+        return { remove: () => {} };
+      }
+      const listeners = monitors.get(key) || new Set<MonitorListener>();
+      listeners.add(listener);
+      monitors.set(key, listeners);
+      return { remove: () => listeners.delete(listener) };
+    },
+
+    notify: (serviceUuid, characteristicUuid, value) => {
+      const key = slot(serviceUuid, characteristicUuid);
+      values.set(key, value);
+      if (!connected) return;
+      monitors.get(key)?.forEach(listener => listener(null, { value: bytesToBase64(value) }));
+    },
+    setValue: (serviceUuid, characteristicUuid, value) => {
+      values.set(slot(serviceUuid, characteristicUuid), value);
+    },
+    disconnect: (reason = 'Device disconnected') => dropConnection(new Error(reason)),
+
+    play: (scenario, { speed = 1, loop = false } = {}) => {
+      const timers: Array<ReturnType<typeof setTimeout>> = [];
+      let finish: () => void = () => {};
+      const done = new Promise<void>(resolve => {
+        finish = resolve;
+      });
+
+      const runStep = (step: ScenarioStep) => {
+        if ('notify' in step) {
+          peripheral.notify(step.notify.serviceUuid, step.notify.characteristicUuid, step.notify.value);
+        } else if ('setValue' in step) {
+          peripheral.setValue(step.setValue.serviceUuid, step.setValue.characteristicUuid, step.setValue.value);
+        } else {
+          peripheral.disconnect(step.disconnect);
+        }
+      };
+
+      const length = scenario.durationMs ?? scenario.steps.reduce((max, step) => Math.max(max, step.at), 0);
+      const schedule = () => {
+        timers.length = 0;
+        scenario.steps.forEach(step => timers.push(setTimeout(() => runStep(step), step.at / speed)));
+        // An empty script would loop without pause, so it just ends
+        timers.push(setTimeout(loop && length > 0 ? schedule : finish, length / speed));
+      };
+      schedule();
+
+      return {
+        stop: () => {
+          timers.forEach(clearTimeout);
+          finish();
+        },
+        done,
+      };
+    },
+  };
+
+  return peripheral;
+};
@@ -0,0 +1,108 @@
+import { getDriver, GENERIC_DRIVER_TYPE } from '../../index';
+import { startBlePlxSession } from '../../BlePlxSession';
+import { STANDARD_CHARACTERISTICS } from '../../StandardProfiles';
+import {
+  createBloodPressureCuff,
+  createHeartRateStrap,
+  createSimulatedBleManager,
+  createVirtualPeripheral,
+  encodeHeartRate,
+  steadyHeartRate,
+  VirtualPeripheral,
+} from '../index';
+import { WatchData } from '../../../../types/wearables';
+
+const { heartRate } = STANDARD_CHARACTERISTICS;
+
+const scanAll = (manager: ReturnType<typeof createSimulatedBleManager>, uuids: string[] | null) => {
+  const found: VirtualPeripheral[] = [];
+  manager.startDeviceScan(uuids, null, (error, device) => {
+    if (device) found.push(device);
+  });
+  return found;
+};
+
+describe('BLE simulator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('only finds peripherals offering a scanned service', async () => {
+    const manager = createSimulatedBleManager([createHeartRateStrap(), createBloodPressureCuff()]);
+
+    const found = scanAll(manager, [heartRate.serviceUuid]);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(found.map(device => device.id)).toEqual(['sim-hr-strap']);
+    manager.stopDeviceScan();
+  });
+
+  it('plays a scenario through the generic driver', async () => {
+    const strap = createHeartRateStrap();
+    const received: Array<Partial<WatchData>> = [];
+
+    await strap.connect();
+    const session = await startBlePlxSession(strap, getDriver(GENERIC_DRIVER_TYPE), data => received.push(data));
+    received.length = 0;
+
+    const scenario = steadyHeartRate({ bpm: 60, durationMs: 5000, seed: 7 });
+    strap.play(scenario);
+    await jest.advanceTimersByTimeAsync(5000);
+
+    const rates = received.map(data => data.heartRate).filter((bpm): bpm is number => bpm !== undefined);
+    expect(rates).toHaveLength(scenario.steps.length);
+    rates.forEach(bpm => expect(bpm).toBeGreaterThanOrEqual(57));
+    rates.forEach(bpm => expect(bpm).toBeLessThanOrEqual(63));
+
+    session.stop();
+    await strap.cancelConnection();
+  });
+
+  it('gives the same script for the same seed', () => {
+    expect(steadyHeartRate({ seed: 3 })).toEqual(steadyHeartRate({ seed: 3 }));
+    expect(steadyHeartRate({ seed: 3 })).not.toEqual(steadyHeartRate({ seed: 4 }));
+  });
+
+  it('ends open monitors with an error when the device drops', async () => {
+    const peripheral = createVirtualPeripheral({
+      id: 'sim-test',
+      name: 'SIM Test',
+      services: { [heartRate.serviceUuid]: { [heartRate.characteristicUuid]: encodeHeartRate(70) } },
+    });
+    const monitor = jest.fn();
+    const disconnected = jest.fn();
+
+    await peripheral.connect();
+    peripheral.onDisconnected(disconnected);
+    peripheral.monitorCharacteristicForService(heartRate.serviceUuid, heartRate.characteristicUuid, monitor);
+    peripheral.notify(heartRate.serviceUuid, heartRate.characteristicUuid, encodeHeartRate(71));
+    peripheral.disconnect('Out of range');
+
+    expect(monitor).toHaveBeenCalledTimes(2);
+    expect(monitor.mock.calls[1][0]).toEqual(new Error('Out of range'));
+    expect(disconnected).toHaveBeenCalledWith(new Error('Out of range'), peripheral);
+    await expect(peripheral.isConnected()).resolves.toBe(false);
+  });
+
+  it('records what the app writes', async () => {
+    const peripheral = createVirtualPeripheral({
+      id: 'sim-test',
+      name: 'SIM Test',
+      services: { [heartRate.serviceUuid]: { [heartRate.characteristicUuid]: [] } },
+    });
+
+    await expect(
+      peripheral.writeCharacteristicWithResponseForService(heartRate.serviceUuid, heartRate.characteristicUuid, 'AQI=')
+    ).rejects.toThrow('not connected');
+
+    await peripheral.connect();
+    await peripheral.writeCharacteristicWithResponseForService(heartRate.serviceUuid, heartRate.characteristicUuid, 'AQI=');
+    expect(peripheral.writes).toEqual([
+      { serviceUuid: heartRate.serviceUuid, characteristicUuid: heartRate.characteristicUuid, value: [1, 2] },
+    ]);
+  });
+});
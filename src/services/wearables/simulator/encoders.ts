@@ -0,0 +1,51 @@
+// Build standard GATT payloads, the inverse of the parsers in StandardProfiles
+
+const uint16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+// SFLOAT, keeping one decimal place when the 12-bit mantissa has room for it
+export const encodeSfloat = (value: number): number[] => {
+  const tenths = Math.round(value * 10);
+  if (tenths % 10 !== 0 && Math.abs(tenths) <= 2047) {
+    return uint16((0xf << 12) | (tenths & 0x0fff));
+  }
+  return uint16(Math.round(value) & 0x0fff);
+};
+
+// FLOAT with one decimal place
+export const encodeFloat = (value: number): number[] => {
+  const mantissa = Math.round(value * 10) & 0x00ffffff;
+  return [mantissa & 0xff, (mantissa >> 8) & 0xff, (mantissa >> 16) & 0xff, 0xff];
+};
+
+/**
+ * Heart Rate Measurement with the sensor in contact and optional RR intervals in ms
+ */
+export const encodeHeartRate = (bpm: number, rrIntervals: number[] = []): number[] => {
+  const flags = 0x06 | (bpm > 255 ? 0x01 : 0) | (rrIntervals.length ? 0x10 : 0);
+  const rate = bpm > 255 ? uint16(bpm) : [bpm];
+  const rr = rrIntervals.reduce<number[]>((all, ms) => all.concat(uint16(Math.round((ms * 1024) / 1000))), []);
+  return [flags, ...rate, ...rr];
+};
+
+export const encodeBattery = (percent: number): number[] => [Math.max(0, Math.min(100, Math.round(percent)))];
+
+export const encodePulseOximetry = (spo2: number, pulseRate: number): number[] => [
+  0x00,
+  ...encodeSfloat(spo2),
+  ...encodeSfloat(pulseRate),
+];
+
+export const encodeBloodPressure = (systolic: number, diastolic: number, pulseRate?: number): number[] => {
+  const mean = diastolic + (systolic - diastolic) / 3;
+  return [
+    pulseRate ? 0x04 : 0x00,
+    ...encodeSfloat(systolic),
+    ...encodeSfloat(diastolic),
+    ...encodeSfloat(mean),
+    ...(pulseRate ? encodeSfloat(pulseRate) : []),
+  ];
+};
+
+export const encodeTemperature = (celsius: number): number[] => [0x00, ...encodeFloat(celsius)];
+
+export const encodeText = (text: string): number[] => Array.from(text, char => char.charCodeAt(0) & 0xff);
@@ -0,0 +1,8 @@
+// Virtual BLE peripherals for developing and testing without a watch.
+// Not imported by the app unless BLE_SIMULATOR is set.
+export * from './VirtualPeripheral';
+export * from './encoders';
+export * from './scenarios';
+export * from './presets';
+export * from './SimulatedBleManager';
+export * from './webViewFeed';
@@ -0,0 +1,389 @@
+import { CharacteristicSpec, getDriver } from '../index';
+import { STANDARD_CHARACTERISTICS } from '../StandardProfiles';
+import { aes128EncryptBlock } from '../../../utils/aes';
+import {
+  encodeBattery,
+  encodeBloodPressure,
+  encodeHeartRate,
+  encodePulseOximetry,
+  encodeTemperature,
+  encodeText,
+} from './encoders';
+import { createRandom, arrhythmia, badPackets, batteryDrain, combine, dropConnection, fall, steadyHeartRate } from './scenarios';
+import { GattTable, Scenario, ScenarioPlayback, VirtualPeripheral, createVirtualPeripheral } from './VirtualPeripheral';
+
+export type SimulatorScenario = 'normal' | 'arrhythmia' | 'lowBattery' | 'badPackets' | 'disconnects' | 'fall';
+
+// Values accepted by the BLE_SIMULATOR setting
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = ['normal', 'arrhythmia', 'lowBattery', 'badPackets', 'disconnects', 'fall'];
+
+export interface PresetOptions {
+  id?: string;
+  name?: string;
+  battery?: number;
+  seed?: number;
+}
+
+interface Characteristic {
+  spec: CharacteristicSpec;
+  value: number[];
+}
+
+// What a preset needs to act out each named scenario
+interface DeviceProfile {
+  characteristics: Characteristic[];
+  baseline: (seed?: number) => Scenario;
+  battery: CharacteristicSpec;
+  encodeBattery: (percent: number) => number[];
+  heartRate?: CharacteristicSpec;
+  // A valid payload on the device's main characteristic, mangled by the badPackets scenario
+  sample: Characteristic;
+  // Where the device streams raw accelerometer readings, for the fall scenario
+  accelerometer?: {
+    spec: CharacteristicSpec;
+    encode: Parameters<typeof fall>[1];
+  };
+}
+
+const LOOP_MS = 60 * 1000;
+const LOW_BATTERY_FROM = 15;
+
+const toTable = (characteristics: Characteristic[]): GattTable =>
+  characteristics.reduce<GattTable>((table, { spec, value }) => {
+    table[spec.serviceUuid] = { ...table[spec.serviceUuid], [spec.characteristicUuid]: value };
+    return table;
+  }, {});
+
+const deviceInfo = (firmware: string): Characteristic[] => [
+  { spec: STANDARD_CHARACTERISTICS.firmware, value: encodeText(firmware) },
+  { spec: STANDARD_CHARACTERISTICS.hardware, value: encodeText('SIM-1') },
+];
+
+// A reading every `intervalMs`, e.g. from a cuff or thermometer taking spot checks
+const periodic = (spec: CharacteristicSpec, intervalMs: number, reading: (index: number) => number[]): Scenario => ({
+  name: 'periodic',
+  durationMs: LOOP_MS,
+  steps: Array.from({ length: Math.floor(LOOP_MS / intervalMs) }, (_, index) => ({
+    at: (index + 1) * intervalMs,
+    notify: { serviceUuid: spec.serviceUuid, characteristicUuid: spec.characteristicUuid, value: reading(index) },
+  })),
+});
+
+const scenarioFor = (profile: DeviceProfile, scenario: SimulatorScenario, seed?: number): Scenario => {
+  switch (scenario) {
+    case 'arrhythmia':
+      return profile.heartRate
+        ? combine(scenario, arrhythmia({ rhythm: 'afib', durationMs: LOOP_MS, seed }, profile.heartRate))
+        : profile.baseline(seed);
+    case 'lowBattery':
+      return combine(
+        scenario,
+        profile.baseline(seed),
+        batteryDrain({ from: LOW_BATTERY_FROM, to: 1, durationMs: LOOP_MS }, profile.battery, profile.encodeBattery)
+      );
+    case 'badPackets':
+      return combine(scenario, profile.baseline(seed), badPackets(profile.sample.spec, profile.sample.value, { seed }));
+    case 'disconnects':
+      return combine(scenario, profile.baseline(seed), dropConnection(LOOP_MS / 2));
+    case 'fall':
+      return profile.accelerometer
+        ? combine(
+            scenario,
+            profile.baseline(seed),
+            fall(profile.accelerometer.spec, profile.accelerometer.encode, { durationMs: LOOP_MS, seed })
+          )
+        : profile.baseline(seed);
+    default:
+      return profile.baseline(seed);
+  }
+};
+
+/**
+ * A peripheral that starts playing `scenario` (looped) each time the app
+ * connects and stops when it disconnects
+ */
+const createPreset = (
+  profile: DeviceProfile,
+  options: PresetOptions & { id: string; name: string; scenario?: SimulatorScenario },
+  onWrite?: Parameters<typeof createVirtualPeripheral>[0]['onWrite']
+): VirtualPeripheral => {
+  let playback: ScenarioPlayback | null = null;
+  const battery: Characteristic = {
+    spec: profile.battery,
+    value: profile.encodeBattery(options.battery ?? 85),
+  };
+
+  const peripheral = createVirtualPeripheral({
+    id: options.id,
+    name: options.name,
+    services: toTable([...profile.characteristics, battery]),
+    onWrite,
+    onConnect: device => {
+      if (!options.scenario) return;
+      playback?.stop();
+      playback = device.play(scenarioFor(profile, options.scenario, options.seed), { loop: true });
+    },
+  });
+  peripheral.onDisconnected(() => {
+    playback?.stop();
+    playback = null;
+  });
+  return peripheral;
+};
+
+type PresetFactory = (options?: PresetOptions & { scenario?: SimulatorScenario }) => VirtualPeripheral;
+
+const heartRateProfile: DeviceProfile = {
+  characteristics: [
+    { spec: STANDARD_CHARACTERISTICS.heartRate, value: encodeHeartRate(72) },
+    ...deviceInfo('HRM 1.0'),
+  ],
+  baseline: seed => steadyHeartRate({ durationMs: LOOP_MS, seed }),
+  battery: STANDARD_CHARACTERISTICS.battery,
+  encodeBattery,
+  heartRate: STANDARD_CHARACTERISTICS.heartRate,
+  sample: { spec: STANDARD_CHARACTERISTICS.heartRate, value: encodeHeartRate(72, [833]) },
+};
+
+/**
+ * A chest strap on the standard Heart Rate profile, sending RR intervals
+ */
+export const createHeartRateStrap: PresetFactory = (options = {}) =>
+  createPreset(heartRateProfile, { id: 'sim-hr-strap', name: 'SIM HR Strap', ...options });
+
+const oximeterProfile = (seed?: number): DeviceProfile => {
+  const random = createRandom(seed);
+  const spo2 = STANDARD_CHARACTERISTICS.spo2Continuous;
+  return {
+    characteristics: [
+      { spec: STANDARD_CHARACTERISTICS.spo2SpotCheck, value: encodePulseOximetry(97, 72) },
+      { spec: spo2, value: encodePulseOximetry(97, 72) },
+      ...deviceInfo('OXI 2.1'),
+    ],
+    baseline: () => periodic(spo2, 2000, () => encodePulseOximetry(95 + Math.round(random() * 3), 68 + Math.round(random() * 8))),
+    battery: STANDARD_CHARACTERISTICS.battery,
+    encodeBattery,
+    sample: { spec: spo2, value: encodePulseOximetry(97, 72) },
+  };
+};
+
+export const createPulseOximeter: PresetFactory = (options = {}) =>
+  createPreset(oximeterProfile(options.seed), { id: 'sim-oximeter', name: 'SIM Oximeter', ...options });
+
+const cuffProfile = (seed?: number): DeviceProfile => {
+  const random = createRandom(seed);
+  const bloodPressure = STANDARD_CHARACTERISTICS.bloodPressure;
+  return {
+    characteristics: [{ spec: bloodPressure, value: encodeBloodPressure(120, 80, 70) }, ...deviceInfo('BPM 3.0')],
+    baseline: () =>
+      periodic(bloodPressure, 20 * 1000, () =>
+        encodeBloodPressure(118 + Math.round(random() * 14), 76 + Math.round(random() * 8), 66 + Math.round(random() * 10))
+      ),
+    battery: STANDARD_CHARACTERISTICS.battery,
+    encodeBattery,
+    sample: { spec: bloodPressure, value: encodeBloodPressure(120, 80, 70) },
+  };
+};
+
+export const createBloodPressureCuff: PresetFactory = (options = {}) =>
+  createPreset(cuffProfile(options.seed), { id: 'sim-bp-cuff', name: 'SIM BP Cuff', ...options });
+
+const thermometerProfile = (seed?: number): DeviceProfile => {
+  const random = createRandom(seed);
+  const temperature = STANDARD_CHARACTERISTICS.temperature;
+  return {
+    characteristics: [{ spec: temperature, value: encodeTemperature(36.8) }, ...deviceInfo('THERM 1.2')],
+    baseline: () => periodic(temperature, 15 * 1000, () => encodeTemperature(36.4 + Math.round(random() * 8) / 10)),
+    battery: STANDARD_CHARACTERISTICS.battery,
+    encodeBattery,
+    sample: { spec: temperature, value: encodeTemperature(36.8) },
+  };
+};
+
+export const createThermometer: PresetFactory = (options = {}) =>
+  createPreset(thermometerProfile(options.seed), { id: 'sim-thermometer', name: 'SIM Thermometer', ...options });
+
+// Steps, metres and kcal as three 24-bit counters
+const encodeMoyoungSteps = (steps: number) => {
+  const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+  return [...uint24(steps), ...uint24(Math.round(steps * 0.7)), ...uint24(Math.round(steps * 0.04))];
+};
+
+// Steps taken while the scenario plays, one notification every 10 s
+const walking = (spec: CharacteristicSpec, encode: (steps: number) => number[], startSteps: number) =>
+  periodic(spec, 10 * 1000, index => encode(startSteps + (index + 1) * 15));
+
+const fireBoltProfile = (): DeviceProfile => {
+  const { characteristics } = getDriver('firebolt');
+  return {
+    characteristics: [
+      { spec: characteristics.heartRate, value: encodeHeartRate(72) },
+      { spec: characteristics.steps, value: encodeMoyoungSteps(3200) },
+      ...deviceInfo('MOY-1.7.3'),
+    ],
+    baseline: seed =>
+      combine(
+        'normal',
+        steadyHeartRate({ durationMs: LOOP_MS, seed }, characteristics.heartRate),
+        walking(characteristics.steps, encodeMoyoungSteps, 3200)
+      ),
+    battery: characteristics.battery,
+    encodeBattery,
+    heartRate: characteristics.heartRate,
+    sample: { spec: characteristics.steps, value: encodeMoyoungSteps(3200) },
+  };
+};
+
+export const createFireBoltWatch: PresetFactory = (options = {}) =>
+  createPreset(fireBoltProfile(), { id: 'sim-firebolt', name: 'Fire-Boltt SIM', ...options });
+
+const uint32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+const encodeHuamiSteps = (steps: number) =>
+  [0x0c, ...uint32(steps), ...uint32(Math.round(steps * 0.7)), ...uint32(Math.round(steps * 0.04))];
+
+// [year (2 bytes), month, day, hour, minute, offset in quarter hours], in local time
+const encodeHuamiTime = (date: Date) => {
+  const year = date.getFullYear();
+  const offset = Math.round(-date.getTimezoneOffset() / 15);
+  return [year & 0xff, year >> 8, date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), offset & 0xff];
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// A real band hands its memory over a day or so per fetch, so downloads take several pages
+const MAX_FETCH_MINUTES = 24 * 60;
+const RECORDS_PER_PACKET = 4;
+
+/**
+ * One minute of the band's memory as [kind, intensity, steps, heart rate]:
+ * asleep from 23:00 to 07:00 in alternating light and deep spells, otherwise
+ * pottering about. The same minute always gives the same record, as it would
+ * when a band is asked for it twice.
+ */
+const huamiMinute = (time: Date): number[] => {
+  const random = createRandom(Math.floor(time.getTime() / MINUTE_MS));
+  const hour = time.getHours();
+  if (hour >= 23 || hour < 7) {
+    const deep = Math.floor((((hour + 1) % 24) * 60 + time.getMinutes()) / 45) % 2 === 1;
+    return [deep ? 0x0b : 0x09, 0, 0, 52 + Math.round(random() * 6)];
+  }
+  const walking = random() < 0.2;
+  return [0x01, walking ? 40 : 5, walking ? 60 + Math.round(random() * 40) : 0, 68 + Math.round(random() * 15)];
+};
+
+// [0x01, counter] then x, y, z as signed 16-bit values at 4096 per g
+const encodeHuamiAcceleration = (readings: Array<{ x: number; y: number; z: number }>, packet: number) => [
+  0x01,
+  packet & 0xff,
+  ...readings.flatMap(({ x, y, z }) =>
+    [x, y, z].flatMap(axis => {
+      const raw = Math.round(axis * 4096) & 0xffff;
+      return [raw & 0xff, raw >> 8];
+    })
+  ),
+];
+
+// Huami reports battery as [status, level, ...]
+const encodeHuamiBattery = (percent: number) => [0x0f, ...encodeBattery(percent), 0x00];
+
+const miBandProfile = (): DeviceProfile => {
+  const { characteristics } = getDriver('miband');
+  return {
+    characteristics: [
+      { spec: characteristics.heartRate, value: encodeHeartRate(72) },
+      { spec: characteristics.steps, value: encodeHuamiSteps(5400) },
+      { spec: characteristics.auth, value: [] },
+      { spec: characteristics.heartRateControl, value: [] },
+      { spec: characteristics.fetch, value: [] },
+      { spec: characteristics.activityData, value: [] },
+      { spec: characteristics.sensorControl, value: [] },
+      { spec: characteristics.sensorData, value: [] },
+      ...deviceInfo('V1.0.9.66'),
+    ],
+    baseline: seed =>
+      combine(
+        'normal',
+        steadyHeartRate({ durationMs: LOOP_MS, seed }, characteristics.heartRate),
+        walking(characteristics.steps, encodeHuamiSteps, 5400)
+      ),
+    battery: characteristics.battery,
+    encodeBattery: encodeHuamiBattery,
+    heartRate: characteristics.heartRate,
+    sample: { spec: characteristics.steps, value: encodeHuamiSteps(5400) },
+    accelerometer: { spec: characteristics.sensorData, encode: encodeHuamiAcceleration },
+  };
+};
+
+/**
+ * A Mi Band that acts out Huami pairing: it accepts a new key as if the
+ * senior tapped the band, then answers challenges with that key. Set
+ * `rejectPairing` to act out a senior who never taps it. It also holds
+ * `historyDays` of stored activity, heart rate and sleep for download.
+ */
+export const createMiBand = (
+  options: PresetOptions & { scenario?: SimulatorScenario; rejectPairing?: boolean; historyDays?: number } = {}
+): VirtualPeripheral => {
+  const profile = miBandProfile();
+  const { auth, fetch, activityData } = getDriver('miband').characteristics;
+  const historyDays = options.historyDays ?? 3;
+  let key: number[] | null = null;
+  let challenge: number[] = [];
+  let pendingFetch: { start: Date; minutes: number } | null = null;
+
+  const answerAuth = (band: VirtualPeripheral, value: number[]) => {
+    const reply = (command: number, ok: boolean, payload: number[] = []) =>
+      band.notify(auth.serviceUuid, auth.characteristicUuid, [0x10, command, ok ? 0x01 : 0x04, ...payload]);
+
+    switch (value[0]) {
+      case 0x01:
+        if (options.rejectPairing) return;
+        key = value.slice(2, 18);
+        reply(0x01, true);
+        break;
+      case 0x02:
+        challenge = Array.from({ length: 16 }, () => Math.floor(Math.random() * 256));
+        reply(0x02, key !== null, challenge);
+        break;
+      case 0x03: {
+        const expected = key ? aes128EncryptBlock(key, challenge) : [];
+        reply(0x03, expected.length > 0 && expected.every((byte, index) => byte === value[2 + index]));
+        break;
+      }
+    }
+  };
+
+  const answerFetch = (band: VirtualPeripheral, value: number[]) => {
+    if (value[0] === 0x01) {
+      const requested = new Date(value[2] | (value[3] << 8), value[4] - 1, value[5], value[6], value[7]);
+      const now = Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS;
+      const start = new Date(Math.max(requested.getTime(), now - historyDays * 24 * 60 * MINUTE_MS));
+      const minutes = Math.max(0, Math.min(Math.floor((now - start.getTime()) / MINUTE_MS), MAX_FETCH_MINUTES));
+      pendingFetch = { start, minutes };
+      band.notify(fetch.serviceUuid, fetch.characteristicUuid, [0x10, 0x01, 0x01, ...uint32(minutes), ...encodeHuamiTime(start)]);
+    } else if (value[0] === 0x02 && pendingFetch) {
+      const { start, minutes } = pendingFetch;
+      pendingFetch = null;
+      for (let first = 0, packet = 0; first < minutes; first += RECORDS_PER_PACKET, packet++) {
+        const records = Array.from({ length: Math.min(RECORDS_PER_PACKET, minutes - first) }, (_, index) =>
+          huamiMinute(new Date(start.getTime() + (first + index) * MINUTE_MS))
+        );
+        band.notify(activityData.serviceUuid, activityData.characteristicUuid, [packet & 0xff, ...records.flat()]);
+      }
+      band.notify(fetch.serviceUuid, fetch.characteristicUuid, [0x10, 0x02, 0x01]);
+    }
+  };
+
+  return createPreset(profile, { id: 'sim-miband', name: 'Mi Band 3', ...options }, (band, write) => {
+    const characteristicUuid = write.characteristicUuid.toLowerCase();
+    if (characteristicUuid === auth.characteristicUuid) answerAuth(band, write.value);
+    else if (characteristicUuid === fetch.characteristicUuid) answerFetch(band, write.value);
+  });
+};
+
+/**
+ * One of each preset, all playing the same named scenario
+ */
+export const createSimulatedDevices = (scenario: SimulatorScenario = 'normal'): VirtualPeripheral[] =>
+  [createHeartRateStrap, createPulseOximeter, createBloodPressureCuff, createThermometer, createFireBoltWatch, createMiBand]
+    .map(create => create({ scenario }));
@@ -0,0 +1,285 @@
+import { CharacteristicSpec } from '../WearableDriver';
+import { STANDARD_CHARACTERISTICS } from '../StandardProfiles';
+import { encodeBattery, encodeHeartRate } from './encoders';
+import { Scenario, ScenarioStep } from './VirtualPeripheral';
+import { AccelerationSample } from '../../../types/wearables';
+
+type Target = Pick<CharacteristicSpec, 'serviceUuid' | 'characteristicUuid'>;
+
+export type Rhythm = 'afib' | 'bradycardia' | 'tachycardia' | 'pvc';
+
+export interface ScenarioOptions {
+  durationMs?: number;
+  // Same seed, same script, so a failing test can be replayed exactly
+  seed?: number;
+}
+
+export interface RecordedNotification {
+  at: number;
+  serviceUuid: string;
+  characteristicUuid: string;
+  // Raw payload as hex, e.g. "16480004"
+  hex: string;
+}
+
+const DEFAULT_DURATION_MS = 60 * 1000;
+const NOTIFY_INTERVAL_MS = 1000;
+
+// Accelerometer readings at 25 Hz, sent five to a packet
+const ACCELERATION_INTERVAL_MS = 40;
+const ACCELERATION_PACKET_MS = 200;
+
+// mulberry32: small, fast and good enough for jitter
+export const createRandom = (seed = 1) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const notifyStep = (at: number, target: Target, value: number[]): ScenarioStep => ({
+  at,
+  notify: { serviceUuid: target.serviceUuid, characteristicUuid: target.characteristicUuid, value },
+});
+
+/**
+ * Group beat-to-beat intervals into one Heart Rate Measurement per second,
+ * the way a chest strap reports them
+ */
+const beatsToNotifications = (rrIntervals: number[], durationMs: number, target: Target): ScenarioStep[] => {
+  const steps: ScenarioStep[] = [];
+  let elapsed = 0;
+  let pending: number[] = [];
+  let nextNotify = NOTIFY_INTERVAL_MS;
+
+  for (const rr of rrIntervals) {
+    elapsed += rr;
+    if (elapsed > durationMs) break;
+    pending.push(rr);
+    if (elapsed >= nextNotify) {
+      const mean = pending.reduce((sum, value) => sum + value, 0) / pending.length;
+      steps.push(notifyStep(elapsed, target, encodeHeartRate(Math.round(60000 / mean), pending)));
+      pending = [];
+      nextNotify = elapsed + NOTIFY_INTERVAL_MS;
+    }
+  }
+  return steps;
+};
+
+// Enough beats to fill the duration at the fastest rate we generate
+const beatCount = (durationMs: number) => Math.ceil(durationMs / 300);
+
+/**
+ * A resting heart rate with a little natural variability
+ */
+export const steadyHeartRate = (
+  { bpm = 72, durationMs = DEFAULT_DURATION_MS, seed }: ScenarioOptions & { bpm?: number } = {},
+  target: Target = STANDARD_CHARACTERISTICS.heartRate
+): Scenario => {
+  const random = createRandom(seed);
+  const rr = 60000 / bpm;
+  const beats = Array.from({ length: beatCount(durationMs) }, () => Math.round(rr * (0.97 + random() * 0.06)));
+  return { name: 'steadyHeartRate', durationMs, steps: beatsToNotifications(beats, durationMs, target) };
+};
+
+/**
+ * Irregular rhythms for exercising alerting. RR intervals follow the textbook
+ * pattern of each: irregularly irregular AF, slow or fast sinus rhythm, and
+ * a premature beat with a compensatory pause every fourth beat.
+ */
+export const arrhythmia = (
+  { rhythm = 'afib', durationMs = DEFAULT_DURATION_MS, seed }: ScenarioOptions & { rhythm?: Rhythm } = {},
+  target: Target = STANDARD_CHARACTERISTICS.heartRate
+): Scenario => {
+  const random = createRandom(seed);
+  const beat = (index: number): number => {
+    switch (rhythm) {
+      case 'afib':
+        return 450 + random() * 600;
+      case 'bradycardia':
+        return 1400 + random() * 100;
+      case 'tachycardia':
+        return 420 + random() * 30;
+      case 'pvc':
+        if (index % 4 === 2) return 480;
+        if (index % 4 === 3) return 1120;
+        return 780 + random() * 40;
+    }
+  };
+  const beats = Array.from({ length: beatCount(durationMs) }, (_, index) => Math.round(beat(index)));
+  return { name: `arrhythmia:${rhythm}`, durationMs, steps: beatsToNotifications(beats, durationMs, target) };
+};
+
+/**
+ * Battery level falling steadily, one percent at a time
+ */
+export const batteryDrain = (
+  { from = 100, to = 5, durationMs = DEFAULT_DURATION_MS }: ScenarioOptions & { from?: number; to?: number } = {},
+  target: Target = STANDARD_CHARACTERISTICS.battery,
+  encode: (percent: number) => number[] = encodeBattery
+): Scenario => {
+  const levels = Math.max(Math.abs(from - to), 1);
+  const steps = Array.from({ length: levels + 1 }, (_, index) =>
+    notifyStep(Math.round((durationMs * index) / levels), target, encode(from + (to > from ? index : -index)))
+  );
+  return { name: 'batteryDrain', durationMs, steps };
+};
+
+/**
+ * Malformed payloads on one characteristic: empty, cut short and random
+ * bytes, interleaved with a valid one so recovery can be checked
+ */
+export const badPackets = (
+  target: Target,
+  valid: number[],
+  { count = 10, durationMs = DEFAULT_DURATION_MS, seed }: ScenarioOptions & { count?: number } = {}
+): Scenario => {
+  const random = createRandom(seed);
+  const garbage = () => Array.from({ length: Math.floor(random() * 20) }, () => Math.floor(random() * 256));
+  const variants = [() => [], () => valid.slice(0, Math.max(valid.length - 1, 1)), garbage, () => valid];
+  const steps = Array.from({ length: count }, (_, index) =>
+    notifyStep(Math.round((durationMs * index) / count), target, variants[index % variants.length]())
+  );
+  return { name: 'badPackets', durationMs, steps };
+};
+
+type AccelerationReading = Omit<AccelerationSample, 'timestamp'>;
+type AccelerationEncoder = (readings: AccelerationReading[], packet: number) => number[];
+type AccelerationOptions = ScenarioOptions & { at?: number };
+
+/**
+ * Packets of accelerometer readings, each taken from `reading` at the time
+ * it was sampled
+ */
+const accelerationSteps = (
+  target: Target,
+  encode: AccelerationEncoder,
+  durationMs: number,
+  reading: (time: number) => AccelerationReading
+): ScenarioStep[] => {
+  const perPacket = ACCELERATION_PACKET_MS / ACCELERATION_INTERVAL_MS;
+  return Array.from({ length: Math.floor(durationMs / ACCELERATION_PACKET_MS) }, (_, packet) => {
+    const end = (packet + 1) * ACCELERATION_PACKET_MS;
+    const readings = Array.from({ length: perPacket }, (_, index) =>
+      reading(end - (perPacket - 1 - index) * ACCELERATION_INTERVAL_MS)
+    );
+    return notifyStep(end, target, encode(readings, packet));
+  });
+};
+
+// Upright, with the bounce of each step
+const walking = (time: number, jitter: (amount: number) => number): AccelerationReading => {
+  const stride = Math.sin((2 * Math.PI * time) / 500);
+  return { x: 0.1 * stride + jitter(0.05), y: 1 + 0.2 * stride + jitter(0.05), z: jitter(0.05) };
+};
+
+// A trip `since` ms ago: a moment of free fall, an impact of about 3.5 g,
+// then a few bounces that settle with the body on its side
+const tripping = (since: number, jitter: (amount: number) => number): AccelerationReading => {
+  if (since < 300) return { x: jitter(0.05), y: 0.15 + jitter(0.05), z: jitter(0.05) };
+  if (since < 400) return { x: 1.5 + jitter(0.2), y: 1 + jitter(0.2), z: 3 + jitter(0.2) };
+  if (since < 1000) {
+    const decay = 1 - (since - 400) / 600;
+    return { x: 0.5 * decay * Math.sin(since / 20), y: 0.3 * decay, z: 1 + 0.6 * decay * Math.cos(since / 30) };
+  }
+  return { x: jitter(0.02), y: jitter(0.02), z: 1 + jitter(0.02) };
+};
+
+/**
+ * Accelerometer readings of someone walking who trips at `at` ms: a moment
+ * of free fall, an impact of about 3.5 g, a few bounces, then lying on their
+ * side without moving for the rest of the scenario
+ */
+export const fall = (
+  target: Target,
+  encode: AccelerationEncoder,
+  { at = 10 * 1000, durationMs = DEFAULT_DURATION_MS, seed }: AccelerationOptions = {}
+): Scenario => {
+  const random = createRandom(seed);
+  const jitter = (amount: number) => (random() - 0.5) * 2 * amount;
+  const steps = accelerationSteps(target, encode, durationMs, time =>
+    time < at ? walking(time, jitter) : tripping(time - at, jitter)
+  );
+  return { name: 'fall', durationMs, steps };
+};
+
+/**
+ * Like fall, but `downMs` after the trip the senior pushes themselves back
+ * up over a second and walks on
+ */
+export const stumble = (
+  target: Target,
+  encode: AccelerationEncoder,
+  { at = 10 * 1000, downMs = 3000, durationMs = DEFAULT_DURATION_MS, seed }: AccelerationOptions & { downMs?: number } = {}
+): Scenario => {
+  const random = createRandom(seed);
+  const jitter = (amount: number) => (random() - 0.5) * 2 * amount;
+  const steps = accelerationSteps(target, encode, durationMs, time => {
+    const since = time - at;
+    if (since < 0) return walking(time, jitter);
+    if (since < downMs) return tripping(since, jitter);
+    if (since < downMs + 1000) {
+      // Rolling over and pushing up, from lying on the side to upright
+      const progress = (since - downMs) / 1000;
+      const push = 0.9 * Math.sin(Math.PI * progress);
+      return { x: jitter(0.1), y: progress + push, z: 1 - progress + jitter(0.1) };
+    }
+    return walking(time, jitter);
+  });
+  return { name: 'stumble', durationMs, steps };
+};
+
+/**
+ * A phone held flat that slips at `at` ms and lands flat on the floor, hitting
+ * harder than a fall but ending the way up it started
+ */
+export const phoneDrop = (
+  target: Target,
+  encode: AccelerationEncoder,
+  { at = 10 * 1000, durationMs = DEFAULT_DURATION_MS, seed }: AccelerationOptions = {}
+): Scenario => {
+  const random = createRandom(seed);
+  const jitter = (amount: number) => (random() - 0.5) * 2 * amount;
+  const steps = accelerationSteps(target, encode, durationMs, time => {
+    const since = time - at;
+    // In a hand, with a little tremor
+    if (since < 0) return { x: jitter(0.05), y: jitter(0.05), z: 1 + jitter(0.05) };
+    if (since < 400) return { x: jitter(0.02), y: jitter(0.02), z: jitter(0.02) };
+    if (since < 480) return { x: jitter(0.3), y: jitter(0.3), z: 5 + jitter(0.3) };
+    if (since < 800) return { x: jitter(0.3), y: jitter(0.3), z: 1 + 0.8 * Math.cos(since / 15) };
+    return { x: jitter(0.01), y: jitter(0.01), z: 1 + jitter(0.01) };
+  });
+  return { name: 'phoneDrop', durationMs, steps };
+};
+
+/**
+ * The device going out of range at `at` ms
+ */
+export const dropConnection = (at: number, reason = 'Device went out of range'): Scenario => ({
+  name: 'dropConnection',
+  steps: [{ at, disconnect: reason }],
+});
+
+const hexToBytes = (hex: string): number[] =>
+  (hex.replace(/[^0-9a-f]/gi, '').match(/../g) || []).map(byte => parseInt(byte, 16));
+
+/**
+ * Replay notifications captured from a real device, e.g. with nRF Connect
+ */
+export const fromRecording = (name: string, recording: RecordedNotification[]): Scenario => ({
+  name,
+  steps: recording.map(event => notifyStep(event.at, event, hexToBytes(event.hex))),
+});
+
+/**
+ * Run several scenarios at once, e.g. a heart rate with a dropped connection
+ */
+export const combine = (name: string, ...scenarios: Scenario[]): Scenario => ({
+  name,
+  durationMs: Math.max(0, ...scenarios.map(scenario => scenario.durationMs ?? 0)) || undefined,
+  steps: scenarios.reduce<ScenarioStep[]>((all, scenario) => all.concat(scenario.steps), []).sort((a, b) => a.at - b.at),
+});
@@ -0,0 +1,112 @@
+import { GattProfile } from '../WearableDriver';
+import { base64ToBytes, bytesToBase64 } from '../bytes';
+import {
+  BRIDGE_VERSION,
+  BridgeError,
+  BridgeMethod,
+  BridgeMethods,
+  BridgeRequest,
+  bridgeEvent,
+  bridgeFailure,
+  bridgeResult,
+  isBridgeError,
+} from '../WebViewBridge';
+import { VirtualPeripheral } from './VirtualPeripheral';
+
+/**
+ * Speaks the page side of the WebView bridge protocol for a simulated
+ * peripheral. Hand `handle` each request the native client sends; `post`
+ * receives the JSON strings the BLE page would send with postMessage. Lets
+ * useFireBoltWatch run in Jest without a WebView.
+ */
+export const createWebViewFeed = (peripheral: VirtualPeripheral, post: (message: string) => void) => {
+  const send = (message: object) => post(JSON.stringify(message));
+  const device = () => ({ id: peripheral.id, name: peripheral.name || 'Unknown Device', rssi: peripheral.rssi });
+  let profile: GattProfile | null = null;
+  let connected = false;
+  let subscriptions: Array<{ remove: () => void }> = [];
+
+  const spec = (key: string) => {
+    if (!connected || !profile) throw new BridgeError('notConnected', 'No device is connected');
+    const characteristic = profile.characteristics[key];
+    if (!characteristic) throw new BridgeError('notFound', `${profile.name} has no characteristic ${key}`);
+    return characteristic;
+  };
+
+  const methods: { [M in BridgeMethod]: (params: BridgeMethods[M]['params']) => Promise<BridgeMethods[M]['result']> } = {
+    scan: async () => {
+      send(bridgeEvent('deviceFound', { device: device() }));
+      return { device: device() };
+    },
+    connect: async params => {
+      if (params.deviceId && params.deviceId !== peripheral.id) {
+        throw new BridgeError('notFound', `Device ${params.deviceId} is not known`);
+      }
+      await peripheral.connect();
+      profile = params.profile;
+      connected = true;
+      subscriptions.push(
+        peripheral.onDisconnected(error => {
+          connected = false;
+          subscriptions.forEach(subscription => subscription.remove());
+          subscriptions = [];
+          send(bridgeEvent('disconnected', { deviceId: peripheral.id, ...(error && { error: error.message }) }));
+        })
+      );
+      return { device: device() };
+    },
+    subscribe: async params => {
+      profile = params.profile;
+      const discovered = (await peripheral.services()).map(service => service.uuid);
+      const keys = Object.keys(params.profile.characteristics).filter(key => {
+        const characteristic = params.profile.characteristics[key];
+        return characteristic.notify && discovered.includes(characteristic.serviceUuid);
+      });
+      keys.forEach(key => {
+        const { serviceUuid, characteristicUuid } = spec(key);
+        subscriptions.push(
+          peripheral.monitorCharacteristicForService(serviceUuid, characteristicUuid, (error, characteristic) => {
+            // A dropped connection is reported once, by the disconnected event
+            if (error) return;
+            send(bridgeEvent('characteristic', { key, value: base64ToBytes(characteristic?.value || '') }));
+          })
+        );
+      });
+      return { keys };
+    },
+    read: async ({ key }) => {
+      const { serviceUuid, characteristicUuid } = spec(key);
+      const characteristic = await peripheral.readCharacteristicForService(serviceUuid, characteristicUuid);
+      return { value: base64ToBytes(characteristic.value || '') };
+    },
+    write: async ({ key, value }) => {
+      const { serviceUuid, characteristicUuid } = spec(key);
+      await peripheral.writeCharacteristicWithResponseForService(serviceUuid, characteristicUuid, bytesToBase64(value));
+      return null;
+    },
+    disconnect: async () => {
+      if (connected) await peripheral.cancelConnection();
+      return null;
+    },
+  };
+
+  const handle = (request: BridgeRequest) => {
+    const method = methods[request.method] as (params: unknown) => Promise<unknown>;
+    if (!method) {
+      send(bridgeFailure(request.id, 'unsupported', `Unknown method ${request.method}`));
+      return;
+    }
+    method(request.params)
+      .then(result => send(bridgeResult(request.id, result as BridgeMethods[typeof request.method]['result'])))
+      .catch(error => send(bridgeFailure(
+        request.id,
+        isBridgeError(error) ? error.code : 'gatt',
+        error?.message || 'Request failed'
+      )));
+  };
+
+  // What the page announces once its script has loaded
+  const announce = () => send(bridgeEvent('ready', { version: BRIDGE_VERSION, bluetooth: true }));
+
+  return { handle, announce };
+};
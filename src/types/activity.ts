@@ -0,0 +1,11 @@
+import { WatchData } from './wearables';
+
+// What the phone's own sensors can tell about what the senior is doing
+export type PhoneActivityType = Extract<NonNullable<WatchData['activityType']>, 'walking' | 'idle' | 'inVehicle'>;
+
+// A walk started with the Start Walk button, with the route the phone recorded
+export interface WalkSession extends NonNullable<WatchData['activityData']> {
+  id: string;
+  steps: number;
+  distance: number; // in meters
+}
@@ -0,0 +1,30 @@
+export type AlertType =
+  | 'medication'
+  | 'fall'
+  | 'heart'
+  | 'location'
+  | 'battery'
+  | 'general'
+  | 'appointment'
+  | 'vital';
+
+export type AlertPriority = 'high' | 'medium' | 'low';
+
+export interface AlertLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // metres
+}
+
+// An alert raised on the senior's device and synced to their family
+export interface SeniorAlert {
+  id: string;
+  type: AlertType;
+  title: string;
+  message: string;
+  timestamp: string;
+  priority: AlertPriority;
+  details?: string;
+  // Where the senior was when it was raised, if the phone could tell
+  location?: AlertLocation;
+}
@@ -0,0 +1,19 @@
+export interface AppLockSettings {
+  enabled: boolean;
+  biometricEnabled: boolean;
+  // How long the app may sit in the background before it asks again
+  timeoutMs: number;
+}
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricEnabled: false,
+  timeoutMs: 60 * 1000,
+};
+
+export const LOCK_TIMEOUT_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Immediately', value: 0 },
+  { label: 'After 1 minute', value: 60 * 1000 },
+  { label: 'After 5 minutes', value: 5 * 60 * 1000 },
+  { label: 'After 15 minutes', value: 15 * 60 * 1000 },
+];
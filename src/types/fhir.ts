@@ -0,0 +1,102 @@
+// The parts of HL7 FHIR R4 resources the app reads and writes
+
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+export interface FhirPeriod {
+  start: string;
+  end?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+// Fields FHIR has no element for, kept so an import gives back what was exported
+export interface FhirExtension {
+  url: string;
+  valueString: string;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'final' | 'preliminary' | 'amended';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: FhirPeriod;
+  performer?: FhirReference[];
+  // What took the reading
+  device?: FhirReference;
+  valueQuantity?: FhirQuantity;
+  valueString?: string;
+  // e.g. the two halves of a blood pressure panel
+  component?: Array<{ code: FhirCodeableConcept; valueQuantity?: FhirQuantity }>;
+  note?: Array<{ text: string }>;
+  extension?: FhirExtension[];
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id: string;
+  identifier?: Array<{ system?: string; value: string }>;
+  name?: Array<{ text?: string; given?: string[]; family?: string }>;
+}
+
+export interface FhirDosage {
+  text?: string;
+  timing?: {
+    repeat?: {
+      frequency?: number;
+      period?: number;
+      periodUnit?: 's' | 'min' | 'h' | 'd' | 'wk' | 'mo' | 'a';
+      // Local times as hh:mm:ss
+      timeOfDay?: string[];
+    };
+  };
+}
+
+export interface FhirMedicationStatement {
+  resourceType: 'MedicationStatement';
+  id: string;
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  effectivePeriod?: FhirPeriod;
+  dosage?: FhirDosage[];
+  note?: Array<{ text: string }>;
+}
+
+export type FhirResource = FhirObservation | FhirPatient | FhirMedicationStatement;
+
+// Entries go without fullUrl; resources refer to each other as `Type/id`
+export interface FhirBundleEntry {
+  resource: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  // Exports are collections; an import takes whatever kind a clinic sends
+  type: 'collection' | 'document' | 'searchset' | 'transaction' | 'batch' | 'history' | 'message';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
@@ -26,3 +26,21 @@ export interface ActivityItem {
   icon: string;
   color: string;
 }
+
+export type RecordType = 'appointment' | 'medication' | 'symptom' | 'other' | 'activity' | 'vital';
+
+// An entry in a senior's health history: a visit, a prescription, a symptom or a notable reading
+export interface HealthRecord {
+  id: string;
+  date: Date;
+  title: string;
+  description?: string;
+  type: RecordType;
+  severity?: 'low' | 'medium' | 'high';
+  doctor?: string;
+  location?: string;
+  notes?: string;
+  icon?: string;
+  value?: string;
+  unit?: string;
+}
@@ -0,0 +1,13 @@
+export interface LocationPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+export interface SafeZone {
+  id: string;
+  title: string;
+  latitude: number;
+  longitude: number;
+  radius: number;
+}
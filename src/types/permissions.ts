@@ -0,0 +1,20 @@
+export type PermissionScope = 'location' | 'vitals' | 'reminders' | 'messages' | 'sos';
+
+export const ALL_PERMISSION_SCOPES: PermissionScope[] = [
+  'location',
+  'vitals',
+  'reminders',
+  'messages',
+  'sos',
+];
+
+export const PERMISSION_SCOPE_LABELS: Record<PermissionScope, string> = {
+  location: 'Live Location',
+  vitals: 'Health Vitals',
+  reminders: 'Reminder Adherence',
+  messages: 'Messages',
+  sos: 'SOS Alerts',
+};
+
+// Every link can at least receive SOS alerts; "SOS only" is this alone
+export const SOS_ONLY_SCOPES: PermissionScope[] = ['sos'];
@@ -0,0 +1,29 @@
+export type ReminderType = 'medication' | 'activity';
+
+export interface Reminder {
+  id: string;
+  title: string;
+  time: string; // "hh:mm AM/PM"
+  date: Date;
+  type: ReminderType;
+  enabled: boolean;
+  notificationId?: string | null;
+}
+
+// Shape written to storage; dates do not survive JSON so they are kept as ISO strings
+export interface StoredReminder extends Omit<Reminder, 'date'> {
+  date: string;
+}
+
+export type DoseStatus = 'taken' | 'skipped';
+
+// A dose of a medication reminder the senior marked as taken or skipped; one without an entry was missed
+export interface DoseEvent {
+  id: string;
+  reminderId: string;
+  title: string;
+  // The dose time it answers, on the day it was due
+  scheduledFor: string;
+  status: DoseStatus;
+  at: string;
+}
@@ -0,0 +1,30 @@
+export type UserRole = 'senior' | 'family';
+
+export const ALL_USER_ROLES: UserRole[] = ['senior', 'family'];
+
+/**
+ * Roles held by an account. One account can be both a senior and a
+ * caregiver; `activeRole` is the side the app opens on.
+ */
+export interface UserProfile {
+  uid: string;
+  roles: UserRole[];
+  activeRole: UserRole | null;
+  // This device's senior ID, set once the account takes the senior role
+  seniorId: string | null;
+  // Family ID used for link requests, set once the account takes the family role
+  familyId: string | null;
+  updatedAt: string;
+}
+
+export const createUserProfile = (uid: string): UserProfile => ({
+  uid,
+  roles: [],
+  activeRole: null,
+  seniorId: null,
+  familyId: null,
+  updatedAt: new Date().toISOString(),
+});
+
+export const hasRole = (profile: UserProfile | null, role: UserRole): boolean =>
+  !!profile && profile.roles.includes(role);
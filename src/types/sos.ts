@@ -0,0 +1,33 @@
+export type ContactType = 'family' | 'police' | 'medical' | 'other';
+
+export interface SOSContact {
+  id: string;
+  name: string;
+  phone: string;
+  type: ContactType;
+  isEmergency: boolean;
+}
+
+export const DEFAULT_SOS_CONTACTS: SOSContact[] = [
+  {
+    id: '1',
+    name: 'Local Police',
+    phone: '100',
+    type: 'police',
+    isEmergency: true
+  },
+  {
+    id: '2',
+    name: 'Ambulance',
+    phone: '108',
+    type: 'medical',
+    isEmergency: true
+  },
+  {
+    id: '3',
+    name: 'Fire Department',
+    phone: '101',
+    type: 'other',
+    isEmergency: true
+  }
+];
@@ -0,0 +1,137 @@
+// Everything kept as a time series; blood pressure is two series, sleep is minutes asleep
+export type VitalMetric =
+  | 'heartRate'
+  | 'oxygenSaturation'
+  | 'steps'
+  | 'systolic'
+  | 'diastolic'
+  | 'sleep'
+  | 'temperature'
+  | 'glucose' // mg/dL
+  | 'weight'; // kg
+
+export type SeriesResolution = 'minute' | 'hour' | 'day';
+
+// One measurement on its way into the time series
+export interface VitalPoint {
+  metric: VitalMetric;
+  value: number;
+  timestamp: string;
+  // Id of the device that took it, or e.g. 'phone' or 'manual'
+  source: string;
+}
+
+// Every point of one metric that fell in the minute, hour or day starting at `start`
+export interface SeriesBucket {
+  start: number; // ms since epoch
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  // The one source the points came from, so two devices are never averaged
+  // together; missing on buckets recorded before sources were kept
+  source?: string;
+}
+
+// Buckets of each metric at one resolution, oldest first
+export type SeriesTable = Partial<Record<VitalMetric, SeriesBucket[]>>;
+
+// The recent buckets of one metric at one resolution, as family phones get them
+export interface VitalSeriesRecord {
+  id: string; // `${resolution}:${metric}`
+  resolution: SeriesResolution;
+  metric: VitalMetric;
+  buckets: SeriesBucket[];
+}
+
+// A bucket as the query API returns it
+export interface SeriesPoint {
+  start: string;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  avg: number;
+  source?: string;
+}
+
+// Limits for one metric; a reading outside them for `forMinutes` raises an alert
+export interface VitalLimit {
+  low?: number;
+  high?: number;
+  forMinutes?: number;
+}
+
+// A limit a clinician set for this senior, synced so their family sees it too
+export interface VitalLimitRecord extends VitalLimit {
+  id: VitalMetric;
+  updatedAt: string;
+}
+
+// Limits for the general older population, used where no clinician set one
+export const DEFAULT_VITAL_LIMITS: Partial<Record<VitalMetric, VitalLimit>> = {
+  heartRate: { low: 45, high: 120, forMinutes: 10 },
+  oxygenSaturation: { low: 90, forMinutes: 5 },
+  temperature: { high: 38, forMinutes: 0 },
+  systolic: { low: 90, high: 160, forMinutes: 0 },
+  diastolic: { high: 100, forMinutes: 0 },
+  glucose: { low: 70, high: 300, forMinutes: 0 },
+};
+
+// What a senior's readings usually are, learned from their hourly averages
+export interface VitalBaseline {
+  mean: number;
+  sd: number;
+  hours: number;
+}
+
+export type VitalBaselines = Partial<Record<VitalMetric, VitalBaseline>>;
+
+// Where a limit came from, most authoritative first
+export type VitalLimitSource = 'clinician' | 'baseline' | 'default';
+
+// Every reading beyond `value` for at least `forMs`; 0 means a single reading is enough
+export interface VitalLevelRule {
+  id: string;
+  metric: VitalMetric;
+  kind: 'above' | 'below';
+  value: number;
+  forMs: number;
+  source: VitalLimitSource;
+}
+
+// The latest reading at least `amount` above or below the lowest or highest of the `withinMs` before it
+export interface VitalChangeRule {
+  id: string;
+  metric: VitalMetric;
+  kind: 'rise' | 'fall';
+  amount: number;
+  withinMs: number;
+  // Not while the senior is walking
+  unlessActive?: boolean;
+}
+
+export type VitalRule = VitalLevelRule | VitalChangeRule;
+
+// A rule that holds, with the reading that tripped it
+export interface VitalRuleMatch {
+  rule: VitalRule;
+  value: number;
+  at: string;
+}
+
+// Readings a senior can enter by hand
+export type ManualVitalKind = 'bloodPressure' | 'glucose' | 'weight' | 'temperature';
+
+// What the senior had just done when they took the reading
+export type ReadingContext = 'fasting' | 'afterMeal' | 'afterWalk';
+
+// A reading entered by hand, e.g. from a cuff or glucose meter without Bluetooth
+export interface ManualReading {
+  id: string;
+  kind: ManualVitalKind;
+  // Systolic and diastolic for blood pressure, else the one metric of `kind`
+  values: Partial<Record<VitalMetric, number>>;
+  timestamp: string;
+  context?: ReadingContext;
+}
@@ -0,0 +1,159 @@
+// Id of the registered wearable driver, e.g. 'firebolt' or 'miband'
+export type DeviceType = string;
+
+// Readings a driver can report; screens only show the ones it lists
+export type WearableMetric =
+  | 'heartRate'
+  | 'steps'
+  | 'calories'
+  | 'distance'
+  | 'battery'
+  | 'oxygenSaturation'
+  | 'bloodPressure'
+  | 'temperature'
+  | 'sleep';
+
+export interface WatchData {
+  // Device Info
+  deviceName?: string;
+  deviceType?: DeviceType;
+  macAddress?: string;
+  firmwareVersion?: string;
+  hardwareVersion?: string;
+  
+  // Health Metrics
+  heartRate?: number;
+  rrIntervals?: number[]; // ms between beats, from the latest heart rate notification
+  steps?: number;
+  calories?: number;
+  distance?: number; // in meters
+  battery?: number;
+  oxygenSaturation?: number; // SpO2
+  temperature?: number; // body temperature in °C
+  bloodPressure?: {
+    systolic: number;
+    diastolic: number;
+  };
+  sleepData?: {
+    deepSleep: number; // minutes
+    lightSleep: number; // minutes
+    remSleep: number; // minutes
+    awake: number; // minutes
+  };
+  
+  // Status
+  status: 'disconnected' | 'connecting' | 'connected';
+  error?: string;
+  lastUpdated?: string;
+  rssi?: number; // Signal strength
+  
+  // Activity Data
+  activityType?: 'walking' | 'running' | 'cycling' | 'sleeping' | 'idle' | 'inVehicle';
+  activityData?: {
+    startTime: string;
+    endTime?: string;
+    duration: number; // seconds
+    heartRateSamples?: Array<{
+      value: number;
+      timestamp: string;
+    }>;
+    gpsData?: Array<{
+      latitude: number;
+      longitude: number;
+      timestamp: string;
+      altitude?: number;
+      speed?: number;
+    }>;
+  };
+}
+
+// How the app talks to a device: react-native-ble-plx, or the Web Bluetooth page in HealthScreen
+export type WearableTransport = 'native' | 'webview';
+
+// A device the senior has connected before; the app reconnects to these on launch
+export interface PairedWearable {
+  id: string; // ble-plx device id (MAC on Android, UUID on iOS) or the Web Bluetooth id
+  name: string;
+  deviceType: DeviceType;
+  transport: WearableTransport;
+  rssi?: number; // signal strength at the last connection, in dBm
+  pairedAt: string;
+  lastConnectedAt?: string;
+  lastSyncedAt?: string;
+}
+
+export interface ConnectionEvent {
+  deviceId: string;
+  type: 'connected' | 'disconnected' | 'failed';
+  at: string;
+  rssi?: number;
+  error?: string;
+}
+
+// Summary of recent connection events, shown next to each paired device
+export interface ConnectionQuality {
+  attempts: number;
+  failures: number;
+  drops: number;
+  averageRssi?: number;
+  lastConnectedAt?: string;
+  rating: 'good' | 'fair' | 'poor' | 'unknown';
+}
+
+// Readings received from a wearable, stored for history and alerts
+export type WearableReading = Pick<
+  WatchData,
+  'heartRate' | 'steps' | 'calories' | 'distance' | 'battery' | 'oxygenSaturation' | 'temperature' | 'bloodPressure'
+>;
+
+export interface WearableSample extends WearableReading {
+  deviceId: string;
+  timestamp: string;
+}
+
+// Kinds of sample a watch keeps in its own memory between syncs
+export type HistoryKind = 'heartRate' | 'steps' | 'sleep';
+
+export type SleepStage = 'light' | 'deep' | 'rem' | 'awake';
+
+// One stored sample downloaded from a watch, covering `durationSec` from `timestamp`
+export interface HistorySample {
+  deviceId: string;
+  kind: HistoryKind;
+  timestamp: string;
+  durationSec: number;
+  value: number; // bpm, steps taken, or minutes in `stage`
+  stage?: SleepStage;
+}
+
+// One accelerometer reading in g, streamed for fall detection
+export interface AccelerationSample {
+  x: number;
+  y: number;
+  z: number;
+  timestamp: number; // ms since epoch
+}
+
+// Anywhere readings come from: a watch, a cuff or oximeter, or the phone itself
+export interface HealthSource {
+  id: string; // device id, or 'phone'
+  name: string;
+  deviceType?: DeviceType;
+  status: WatchData['status'];
+  // Metrics it can report
+  metrics: WearableMetric[];
+}
+
+// The WatchData value of a metric; 'sleep' is held in sleepData
+export type MetricValue = NonNullable<WatchData[Exclude<WearableMetric, 'sleep'> | 'sleepData']>;
+
+// The latest value of one metric from one source, with where and when it came from
+export interface SourcedReading {
+  metric: WearableMetric;
+  value: MetricValue;
+  sourceId: string;
+  timestamp: string;
+}
+
+// Per metric, the source ids to take readings from first, most trusted first
+export type MetricSourcePriority = Partial<Record<WearableMetric, string[]>>;
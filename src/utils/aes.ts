@@ -0,0 +1,80 @@
+// Minimal AES-128 block encryption for wearable pairing handshakes, which
+// only ever encrypt a single 16-byte challenge (ECB, no padding)
+
+const SBOX: number[] = [];
+
+const xtime = (b: number) => ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+
+// Build the S-box from the multiplicative inverse in GF(2^8) plus the affine map
+(() => {
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ xtime(p);
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    const rotl = (x: number, n: number) => ((x << n) | (x >> (8 - n))) & 0xff;
+    SBOX[p] = q ^ rotl(q, 1) ^ rotl(q, 2) ^ rotl(q, 3) ^ rotl(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+})();
+
+const BLOCK_SIZE = 16;
+const ROUNDS = 10;
+
+const expandKey = (key: number[]): number[] => {
+  const words = [...key];
+  let rcon = 1;
+  for (let i = BLOCK_SIZE; i < BLOCK_SIZE * (ROUNDS + 1); i += 4) {
+    let t = words.slice(i - 4, i);
+    if (i % BLOCK_SIZE === 0) {
+      t = [SBOX[t[1]] ^ rcon, SBOX[t[2]], SBOX[t[3]], SBOX[t[0]]];
+      rcon = xtime(rcon);
+    }
+    for (let j = 0; j < 4; j++) {
+      words.push(words[i - BLOCK_SIZE + j] ^ t[j]);
+    }
+  }
+  return words;
+};
+
+/**
+ * Encrypt one 16-byte block with a 16-byte key
+ */
+export const aes128EncryptBlock = (key: number[], block: number[]): number[] => {
+  if (key.length !== BLOCK_SIZE || block.length !== BLOCK_SIZE) {
+    throw new Error('AES-128 needs a 16-byte key and block');
+  }
+  const roundKeys = expandKey(key);
+  // State is column-major: byte r + 4c is row r, column c
+  let s = block.map((b, i) => b ^ roundKeys[i]);
+
+  for (let round = 1; round <= ROUNDS; round++) {
+    // SubBytes + ShiftRows
+    const shifted = new Array<number>(BLOCK_SIZE);
+    for (let c = 0; c < 4; c++) {
+      for (let r = 0; r < 4; r++) {
+        shifted[r + 4 * c] = SBOX[s[r + 4 * ((c + r) % 4)]];
+      }
+    }
+    s = shifted;
+
+    // MixColumns, skipped in the last round
+    if (round !== ROUNDS) {
+      for (let c = 0; c < 4; c++) {
+        const [a0, a1, a2, a3] = s.slice(4 * c, 4 * c + 4);
+        const all = a0 ^ a1 ^ a2 ^ a3;
+        s[4 * c] = a0 ^ all ^ xtime(a0 ^ a1);
+        s[4 * c + 1] = a1 ^ all ^ xtime(a1 ^ a2);
+        s[4 * c + 2] = a2 ^ all ^ xtime(a2 ^ a3);
+        s[4 * c + 3] = a3 ^ all ^ xtime(a3 ^ a0);
+      }
+    }
+
+    s = s.map((b, i) => b ^ roundKeys[round * BLOCK_SIZE + i]);
+  }
+  return s;
+};
@@ -19,3 +19,12 @@ export const formatTimeAgo = (dateString: string): string => {
   if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
   return `${Math.floor(diffInSeconds / 86400)}d ago`;
 };
+
+// Parse a reminder time such as "08:30 PM" into 24-hour hours and minutes
+export const parseTimeString = (timeStr = '08:00 AM'): { hours: number; minutes: number } => {
+  const [time, modifier] = timeStr.split(' ');
+  let [hours, minutes] = time.split(':').map(Number);
+  if (modifier === 'PM' && hours < 12) hours += 12;
+  if (modifier === 'AM' && hours === 12) hours = 0;
+  return { hours, minutes };
+};
@@ -0,0 +1,60 @@
+import * as Crypto from 'expo-crypto';
+
+// SHA-256 and HMAC-SHA256 on expo-crypto's native digest, so hashing runs off the JS thread
+
+const BLOCK_SIZE = 64;
+
+const utf8Bytes = (text: string): Uint8Array<ArrayBuffer> => new TextEncoder().encode(text);
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const digestBytes = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> =>
+  new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+
+export const sha256 = (text: string): Promise<string> =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, text);
+
+export const hmacSha256 = async (key: string, message: string): Promise<string> => {
+  let keyBytes = utf8Bytes(key);
+  if (keyBytes.length > BLOCK_SIZE) {
+    keyBytes = await digestBytes(keyBytes);
+  }
+  const padded = new Uint8Array(BLOCK_SIZE);
+  padded.set(keyBytes);
+
+  const messageBytes = utf8Bytes(message);
+  const inner = new Uint8Array(BLOCK_SIZE + messageBytes.length);
+  inner.set(padded.map(b => b ^ 0x36));
+  inner.set(messageBytes, BLOCK_SIZE);
+  const innerDigest = await digestBytes(inner);
+
+  const outer = new Uint8Array(BLOCK_SIZE + innerDigest.length);
+  outer.set(padded.map(b => b ^ 0x5c));
+  outer.set(innerDigest, BLOCK_SIZE);
+  return toHex(await digestBytes(outer));
+};
+
+/**
+ * HMAC applied `rounds` times over, so every guess at a short secret costs
+ * as many rounds as checking the real one
+ */
+export const stretchedHash = async (secret: string, salt: string, rounds: number): Promise<string> => {
+  let hash = secret;
+  for (let i = 0; i < rounds; i++) {
+    hash = await hmacSha256(salt, hash);
+  }
+  return hash;
+};
+
+/**
+ * Compare two hex digests without bailing out on the first difference
+ */
+export const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
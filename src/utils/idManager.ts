@@ -1,17 +1,15 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const SENIOR_ID_KEY = '@CareTrek:seniorId';
-const FAMILY_MEMBERS_KEY = '@CareTrek:familyMembers';
+import { readStore, writeStore } from '../services/StorageService';
+import { ALL_PERMISSION_SCOPES, PermissionScope } from '../types/permissions';
 
 // Generate a unique ID if one doesn't exist
 export const getOrCreateSeniorId = async (): Promise<string> => {
   try {
-    let id = await AsyncStorage.getItem(SENIOR_ID_KEY);
+    let id = await readStore('seniorId');
     
     if (!id) {
       // Generate a new ID if one doesn't exist
       id = 'CT' + Math.random().toString(36).substring(2, 10).toUpperCase();
-      await AsyncStorage.setItem(SENIOR_ID_KEY, id);
+      await writeStore('seniorId', id);
     }
     
     return id;
@@ -22,32 +20,82 @@ export const getOrCreateSeniorId = async (): Promise<string> => {
   }
 };
 
+// Name shown to family members when they scan the senior's QR code
+export const getSeniorDisplayName = async (): Promise<string> => {
+  try {
+    return await readStore('seniorName');
+  } catch (error) {
+    console.error('Error getting senior name:', error);
+    return '';
+  }
+};
+
+export const saveSeniorDisplayName = async (name: string): Promise<void> => {
+  try {
+    await writeStore('seniorName', name.trim());
+  } catch (error) {
+    console.error('Error saving senior name:', error);
+  }
+};
+
+// Identifies this device's family member when sending link requests
+export const getOrCreateFamilyId = async (): Promise<string> => {
+  try {
+    let id = await readStore('familyId');
+
+    if (!id) {
+      id = 'FM' + Math.random().toString(36).substring(2, 10).toUpperCase();
+      await writeStore('familyId', id);
+    }
+
+    return id;
+  } catch (error) {
+    console.error('Error getting/setting family ID:', error);
+    return 'FM' + Math.random().toString(36).substring(2, 10).toUpperCase();
+  }
+};
+
 // Family member management
-export const getFamilyMembers = async (): Promise<Array<{id: string, email: string, name: string}>> => {
+export interface FamilyMember {
+  id: string;
+  email: string;
+  name: string;
+  scopes: PermissionScope[];
+  // Family ID from the link request, when the member joined through the handshake
+  requesterId?: string;
+}
+
+export const getFamilyMembers = async (): Promise<FamilyMember[]> => {
   try {
-    const members = await AsyncStorage.getItem(FAMILY_MEMBERS_KEY);
-    return members ? JSON.parse(members) : [];
+    return await readStore('familyMembers');
   } catch (error) {
     console.error('Error getting family members:', error);
     return [];
   }
 };
 
-export const addFamilyMember = async (email: string, name: string): Promise<boolean> => {
+export const addFamilyMember = async (
+  email: string,
+  name: string,
+  options: { scopes?: PermissionScope[]; requesterId?: string } = {}
+): Promise<boolean> => {
   try {
     const members = await getFamilyMembers();
     const id = 'mem' + Math.random().toString(36).substring(2, 9);
-    const newMember = { id, email, name };
+    const newMember: FamilyMember = {
+      id,
+      email,
+      name,
+      scopes: options.scopes ?? ALL_PERMISSION_SCOPES,
+      ...(options.requesterId ? { requesterId: options.requesterId } : {}),
+    };
     
     // Check if member already exists
     if (members.some(m => m.email === email)) {
       return false;
     }
     
-    await AsyncStorage.setItem(
-      FAMILY_MEMBERS_KEY,
-      JSON.stringify([...members, newMember])
-    );
+    await writeStore('familyMembers', [...members, newMember]);
     
     return true;
   } catch (error) {
@@ -56,15 +104,31 @@ export const addFamilyMember = async (email: string, name: string): Promise<bool
   }
 };
 
+export const updateFamilyMemberScopes = async (
+  id: string,
+  scopes: PermissionScope[]
+): Promise<FamilyMember | null> => {
+  try {
+    const members = await getFamilyMembers();
+    const member = members.find(m => m.id === id);
+    if (!member) return null;
+
+    const updated = { ...member, scopes };
+    await writeStore('familyMembers', members.map(m => (m.id === id ? updated : m)));
+
+    return updated;
+  } catch (error) {
+    console.error('Error updating family member scopes:', error);
+    return null;
+  }
+};
+
 export const removeFamilyMember = async (id: string): Promise<boolean> => {
   try {
     const members = await getFamilyMembers();
     const updatedMembers = members.filter(member => member.id !== id);
     
-    await AsyncStorage.setItem(
-      FAMILY_MEMBERS_KEY,
-      JSON.stringify(updatedMembers)
-    );
+    await writeStore('familyMembers', updatedMembers);
     
     return true;
   } catch (error) {
@@ -1,6 +1,5 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const SENIORS_STORAGE_KEY = '@CareTrek:seniors';
+import { clearStore, readStore } from '../services/StorageService';
+import { saveSyncedCollection } from '../services/SyncService';
 
 export interface SeniorData {
   id: string;
@@ -17,8 +16,7 @@ export interface SeniorData {
 
 export const saveSeniors = async (seniors: SeniorData[]): Promise<void> => {
   try {
-    const jsonValue = JSON.stringify(seniors);
-    await AsyncStorage.setItem(SENIORS_STORAGE_KEY, jsonValue);
+    await saveSyncedCollection('seniors', seniors);
   } catch (e) {
     console.error('Error saving seniors:', e);
     throw e;
@@ -27,8 +25,7 @@ export const saveSeniors = async (seniors: SeniorData[]): Promise<void> => {
 
 export const getSeniors = async (): Promise<SeniorData[]> => {
   try {
-    const jsonValue = await AsyncStorage.getItem(SENIORS_STORAGE_KEY);
-    return jsonValue != null ? JSON.parse(jsonValue) : [];
+    return await readStore('seniors');
   } catch (e) {
     console.error('Error getting seniors:', e);
     return [];
@@ -112,7 +109,7 @@ export const removeSenior = async (id: string): Promise<boolean> => {
 
 export const clearAllSeniors = async (): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(SENIORS_STORAGE_KEY);
+    await clearStore('seniors');
   } catch (e) {
     console.error('Error clearing all seniors:', e);
     throw e;